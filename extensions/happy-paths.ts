@@ -2,6 +2,8 @@ import { homedir } from "node:os";
 import { join, resolve } from "node:path";
 
 import {
+  type LocalTraceIndexKind,
+  type LocalTraceStoreKind,
   type PiLikeApi,
   type TraceScope,
   createLocalLearningLoop,
@@ -49,6 +51,44 @@ function scopeFromEnv(): TraceScope {
   return "personal";
 }
 
+function traceStoreFromEnv(): LocalTraceStoreKind {
+  const raw = (process.env.HAPPY_PATHS_TRACE_STORE ?? "").trim().toLowerCase();
+  return raw === "sqlite" ? "sqlite" : "file";
+}
+
+function traceIndexFromEnv(): LocalTraceIndexKind {
+  const raw = (process.env.HAPPY_PATHS_INDEX ?? "").trim().toLowerCase();
+  return raw === "sqlite" ? "sqlite" : "memory";
+}
+
+function indexSnapshotFromEnv(semanticIndex: boolean): boolean {
+  const raw = (process.env.HAPPY_PATHS_INDEX_SNAPSHOT ?? "").trim().toLowerCase();
+  if (!raw) {
+    return !semanticIndex;
+  }
+  return raw !== "0" && raw !== "false" && raw !== "off";
+}
+
+function minerSnapshotFromEnv(): boolean {
+  const raw = (process.env.HAPPY_PATHS_MINER_SNAPSHOT ?? "").trim().toLowerCase();
+  return raw !== "0" && raw !== "false" && raw !== "off";
+}
+
+function semanticIndexFromEnv(): boolean {
+  const raw = (process.env.HAPPY_PATHS_SEMANTIC_INDEX ?? "").trim().toLowerCase();
+  return raw === "1" || raw === "true" || raw === "on";
+}
+
+function recencyRankingFromEnv(): boolean {
+  const raw = (process.env.HAPPY_PATHS_RECENCY_RANKING ?? "").trim().toLowerCase();
+  return raw === "1" || raw === "true" || raw === "on";
+}
+
+function explainHintsFromEnv(): boolean {
+  const raw = (process.env.HAPPY_PATHS_EXPLAIN_HINTS ?? "").trim().toLowerCase();
+  return raw === "1" || raw === "true" || raw === "on";
+}
+
 function maxSuggestionsFromEnv(): number {
   const raw = (process.env.HAPPY_PATHS_MAX_SUGGESTIONS ?? "").trim();
   if (!raw) {
@@ -76,8 +116,17 @@ export default function happyPathsPiExtension(pi: PiLikeApi): void {
   const scope = scopeFromEnv();
   const maxSuggestions = maxSuggestionsFromEnv();
   const sessionId = sessionIdFromEnv();
-
-  const loop = createLocalLearningLoop({ dataDir: traceRoot });
+  const semanticIndex = semanticIndexFromEnv();
+
+  const loop = createLocalLearningLoop({
+    dataDir: traceRoot,
+    traceStore: traceStoreFromEnv(),
+    index: traceIndexFromEnv(),
+    indexSnapshot: indexSnapshotFromEnv(semanticIndex),
+    minerSnapshot: minerSnapshotFromEnv(),
+    semanticIndex,
+    recencyRanking: recencyRankingFromEnv(),
+  });
   let bootstrapped = false;
 
   pi.on("session_start", async (_event: unknown, ctx: unknown) => {
@@ -88,9 +137,13 @@ export default function happyPathsPiExtension(pi: PiLikeApi): void {
     try {
       const result = await loop.bootstrapFromStore();
       bootstrapped = true;
+      const snapshot =
+        result.restoredFromSnapshot || result.restoredMinerFromSnapshot
+          ? " · snapshot"
+          : "";
       setPiStatus(
         ctx,
-        `Happy Paths: ${result.eventCount} events (${scope}) · root=${traceRoot}`,
+        `Happy Paths: ${result.eventCount} events (${scope})${snapshot} · root=${traceRoot}`,
       );
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
@@ -103,5 +156,6 @@ export default function happyPathsPiExtension(pi: PiLikeApi): void {
     scope,
     sessionId,
     maxSuggestions,
+    explainSuggestions: explainHintsFromEnv(),
   })(pi);
 }
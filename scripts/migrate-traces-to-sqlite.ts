@@ -0,0 +1,99 @@
+import { homedir } from "node:os";
+import { isAbsolute, join, resolve } from "node:path";
+import { DEFAULT_SQLITE_TRACE_FILE } from "../src/backends/local/index.js";
+import { migrateJsonlTraceRootToSqlite } from "../src/backends/sqlite/jsonlMigration.js";
+import { SqliteTraceStore } from "../src/backends/sqlite/sqliteTraceStore.js";
+
+interface Options {
+  traceRoot: string;
+  sqlitePath?: string;
+  quiet: boolean;
+}
+
+function expandHome(rawPath: string): string {
+  if (rawPath.startsWith("~/")) {
+    return join(homedir(), rawPath.slice(2));
+  }
+
+  return rawPath;
+}
+
+function absolutizePath(rawPath: string): string {
+  const expanded = expandHome(rawPath);
+  return isAbsolute(expanded) ? expanded : resolve(process.cwd(), expanded);
+}
+
+function parseArgs(argv: string[]): Options {
+  const options: Options = {
+    traceRoot: process.env.HAPPY_PATHS_TRACE_ROOT ?? ".happy-paths",
+    quiet: false,
+  };
+
+  for (let i = 0; i < argv.length; i += 1) {
+    const arg = argv[i];
+
+    if (arg === "--trace-root") {
+      options.traceRoot = argv[i + 1] ?? options.traceRoot;
+      i += 1;
+      continue;
+    }
+
+    if (arg === "--sqlite-path") {
+      options.sqlitePath = argv[i + 1] ?? options.sqlitePath;
+      i += 1;
+      continue;
+    }
+
+    if (arg === "--quiet") {
+      options.quiet = true;
+      continue;
+    }
+
+    throw new Error(`Unknown arg: ${arg}`);
+  }
+
+  return options;
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  const traceRoot = absolutizePath(options.traceRoot);
+  const sqlitePath = absolutizePath(
+    options.sqlitePath ?? join(traceRoot, DEFAULT_SQLITE_TRACE_FILE),
+  );
+
+  const store = new SqliteTraceStore(sqlitePath);
+  try {
+    const result = await migrateJsonlTraceRootToSqlite(traceRoot, store, {
+      onSession: (sessionId, eventCount) => {
+        if (!options.quiet) {
+          console.error(`migrated ${sessionId}: ${eventCount} event(s)`);
+        }
+      },
+    });
+
+    console.log(
+      JSON.stringify(
+        {
+          traceRoot,
+          sqlitePath,
+          sessionCount: result.sessionCount,
+          eventCount: result.eventCount,
+          storedEventCount: await store.count(),
+          invalidLineCount: result.invalidLines.length,
+          invalidLines: result.invalidLines.slice(0, 20),
+        },
+        null,
+        2,
+      ),
+    );
+
+    if (result.invalidLines.length > 0) {
+      process.exitCode = 2;
+    }
+  } finally {
+    await store.close();
+  }
+}
+
+await main();
@@ -5,8 +5,20 @@ import { mkdir, readFile } from "node:fs/promises";
 import { join, resolve } from "node:path";
 import { pathToFileURL } from "node:url";
 
-function parseArgs(argv) {
-  const options = {
+interface Options {
+  dataset: string;
+  dataDir: string;
+  strict: boolean;
+  json: boolean;
+  harness: string;
+  scope: string;
+  sessionPrefix: string;
+  fieldWeights: Record<string, number>;
+  errorQueryBoost?: number;
+}
+
+function parseArgs(argv: string[]): Options {
+  const options: Options = {
     dataset: "testdata/wrong_turn_dataset.json",
     dataDir: ".happy-paths/eval-run",
     strict: false,
@@ -14,6 +26,7 @@ function parseArgs(argv) {
     harness: "pi",
     scope: "personal",
     sessionPrefix: "eval-session",
+    fieldWeights: {},
   };
 
   for (let index = 0; index < argv.length; index += 1) {
@@ -21,27 +34,40 @@ function parseArgs(argv) {
     const value = argv[index + 1];
 
     if (token === "--dataset") {
-      options.dataset = value;
+      options.dataset = value ?? options.dataset;
       index += 1;
       continue;
     }
     if (token === "--data-dir") {
-      options.dataDir = value;
+      options.dataDir = value ?? options.dataDir;
       index += 1;
       continue;
     }
     if (token === "--harness") {
-      options.harness = value;
+      options.harness = value ?? options.harness;
       index += 1;
       continue;
     }
     if (token === "--scope") {
-      options.scope = value;
+      options.scope = value ?? options.scope;
       index += 1;
       continue;
     }
     if (token === "--session-prefix") {
-      options.sessionPrefix = value;
+      options.sessionPrefix = value ?? options.sessionPrefix;
+      index += 1;
+      continue;
+    }
+    if (token === "--field-weight") {
+      const [kind, weight] = String(value).split("=");
+      if (kind) {
+        options.fieldWeights[kind] = Number(weight);
+      }
+      index += 1;
+      continue;
+    }
+    if (token === "--error-query-boost") {
+      options.errorQueryBoost = Number(value);
       index += 1;
       continue;
     }
@@ -85,6 +111,10 @@ async function main() {
       loopIndex += 1;
       return createLocalLearningLoop({
         dataDir: join(rootDataDir, `loop-${loopIndex}`),
+        lexicalIndex: {
+          fieldWeights: options.fieldWeights,
+          errorQueryBoost: options.errorQueryBoost,
+        },
       });
     },
     {
@@ -1,10 +1,18 @@
 import { randomUUID } from "node:crypto";
+import { readFile, stat } from "node:fs/promises";
+import { isAbsolute, relative, resolve } from "node:path";
 import type { LearningLoop } from "../../core/learningLoop.js";
 import {
   type ProjectIdentityOverrides,
   resolveProjectIdentity,
 } from "../../core/projectIdentity.js";
-import type { TraceScope } from "../../core/types.js";
+import type {
+  SearchFilters,
+  TraceEventOfType,
+  TraceEventType,
+  TraceScope,
+} from "../../core/types.js";
+import { createUnifiedDiff, hashContent } from "../../core/unifiedDiff.js";
 import type {
   PiBeforeAgentStartEvent,
   PiInputEvent,
@@ -15,17 +23,32 @@ import type {
   PiTurnStartEvent,
 } from "./types.js";
 
+type PiTraceEventInput = {
+  [TType in TraceEventType]: Pick<
+    TraceEventOfType<TType>,
+    "type" | "payload" | "tags" | "metrics" | "parentEventId" | "causedByEventId"
+  >;
+}[TraceEventType];
+
 interface ToolCallState {
   toolName: string;
   input: Record<string, unknown>;
+  eventId: string;
+  editPath?: string;
+  beforeContent?: string | null;
+  beforeSnapshot?: Promise<void>;
 }
 
+const DEFAULT_FILE_EDIT_TOOL_NAMES = ["edit", "write"];
+
+const MAX_FILE_SNAPSHOT_BYTES = 1_000_000;
+
 type SuggestionRetrievalScope = "swebench_instance" | "global";
 
 type SuggestionRetrievalOutcomeFilter = "non_error" | "any";
 
 interface SuggestionRetrievalPlan {
-  filters: Record<string, string | boolean>;
+  filters: SearchFilters;
   retrievalScope: SuggestionRetrievalScope;
   outcomeFilter: SuggestionRetrievalOutcomeFilter;
   fallbackToGlobalToolResults: boolean;
@@ -38,8 +61,11 @@ export interface PiTraceExtensionOptions {
   agentId?: string;
   sessionId?: string;
   maxSuggestions?: number;
+  explainSuggestions?: boolean;
   customMessageType?: string;
   projectIdentity?: ProjectIdentityOverrides;
+  workspaceRoot?: string;
+  fileEditToolNames?: string[];
 }
 
 function nowIso(): string {
@@ -75,6 +101,31 @@ function commandFromInput(input: Record<string, unknown>): string | undefined {
   return undefined;
 }
 
+function editPathFromInput(input: Record<string, unknown>): string | undefined {
+  for (const key of ["path", "file_path", "filePath"]) {
+    const value = input[key];
+    if (typeof value === "string" && value.trim()) {
+      return value.trim();
+    }
+  }
+  return undefined;
+}
+
+async function readFileSnapshot(path: string): Promise<string | null | undefined> {
+  try {
+    const info = await stat(path);
+    if (!info.isFile() || info.size > MAX_FILE_SNAPSHOT_BYTES) {
+      return undefined;
+    }
+    return await readFile(path, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    return undefined;
+  }
+}
+
 function swebenchInstanceIdFromSessionId(sessionId: string): string | null {
   const parts = sessionId.split("::");
   if (parts.length !== 3 && parts.length !== 4) {
@@ -187,59 +238,99 @@ export function createPiTraceExtension(
   const harness = options.harnessName ?? "pi";
   const agentId = options.agentId;
   const maxSuggestions = options.maxSuggestions ?? 3;
+  const explainSuggestions = options.explainSuggestions ?? false;
   const projectIdentity = resolveProjectIdentity(options.projectIdentity);
   const customMessageType =
     options.customMessageType ?? projectIdentity.extensionCustomType;
 
+  const workspaceRoot = resolve(options.workspaceRoot ?? process.cwd());
+  const fileEditToolNames = new Set(
+    options.fileEditToolNames ?? DEFAULT_FILE_EDIT_TOOL_NAMES,
+  );
+
   const sessionId = options.sessionId ?? randomUUID();
   const turnStartTimes = new Map<number, number>();
   const toolCalls = new Map<string, ToolCallState>();
   let latestUserInputEventId: string | null = null;
-
-  async function ingest(event: {
-    type:
-      | "user_input"
-      | "tool_call"
-      | "tool_result"
-      | "turn_summary"
-      | "feedback"
-      | "checkpoint"
-      | "assistant_output";
-    payload: Record<string, unknown>;
-    tags?: string[];
-    metrics?: {
-      latencyMs?: number;
-      outcome?: "success" | "failure" | "unknown";
-      tokens?: {
-        inputUncached?: number;
-        inputCached?: number;
-        output?: number;
-        cacheWrite?: number;
-      };
-      cost?: {
-        usd?: number;
-      };
-    };
-  }): Promise<string> {
-    const eventId = randomUUID();
+  let latestToolResultEventId: string | null = null;
+  let currentTurnIndex: number | undefined;
+
+  async function ingest(
+    event: PiTraceEventInput,
+    turnIndex = currentTurnIndex,
+    eventId: string = randomUUID(),
+  ): Promise<string> {
     await loop.ingest({
+      ...event,
       id: eventId,
       timestamp: nowIso(),
       sessionId,
       agentId,
       harness,
       scope,
-      type: event.type,
-      payload: event.payload,
-      tags: event.tags,
-      metrics: event.metrics,
+      workspaceRoot,
+      turnIndex,
     });
     return eventId;
   }
 
+  function parentLink(): string | undefined {
+    return latestUserInputEventId ?? undefined;
+  }
+
+  function workspacePath(path: string): { absolute: string; display: string } {
+    const absolute = resolve(workspaceRoot, path);
+    const fromRoot = relative(workspaceRoot, absolute);
+    const insideRoot = fromRoot && !fromRoot.startsWith("..") && !isAbsolute(fromRoot);
+    return {
+      absolute,
+      display: (insideRoot ? fromRoot : absolute).split("\\").join("/"),
+    };
+  }
+
+  async function ingestFileEdit(
+    event: PiToolResultEvent,
+    call: ToolCallState,
+  ): Promise<void> {
+    if (!call.editPath || call.beforeContent === undefined) {
+      return;
+    }
+
+    const path = workspacePath(call.editPath);
+    const afterContent = await readFileSnapshot(path.absolute);
+    if (afterContent === undefined || afterContent === call.beforeContent) {
+      return;
+    }
+
+    const diff = createUnifiedDiff(path.display, call.beforeContent, afterContent);
+    await ingest({
+      type: "file_edit",
+      payload: {
+        toolCallId: event.toolCallId,
+        toolName: event.toolName,
+        path: path.display,
+        operation:
+          call.beforeContent === null
+            ? "create"
+            : afterContent === null
+              ? "delete"
+              : "modify",
+        diff: diff.diff,
+        beforeHash:
+          call.beforeContent === null ? undefined : hashContent(call.beforeContent),
+        afterHash: afterContent === null ? undefined : hashContent(afterContent),
+        additions: diff.additions,
+        deletions: diff.deletions,
+      },
+      parentEventId: call.eventId,
+      causedByEventId: call.eventId,
+    });
+  }
+
   return (pi: PiLikeApi) => {
     pi.on("input", async (rawEvent) => {
       const event = rawEvent as PiInputEvent;
+      latestToolResultEventId = null;
       latestUserInputEventId = await ingest({
         type: "user_input",
         payload: {
@@ -251,20 +342,44 @@ export function createPiTraceExtension(
 
     pi.on("tool_call", async (rawEvent) => {
       const event = rawEvent as PiToolCallEvent;
-      toolCalls.set(event.toolCallId, {
+      const editPath = fileEditToolNames.has(event.toolName)
+        ? editPathFromInput(event.input)
+        : undefined;
+      const call: ToolCallState = {
         toolName: event.toolName,
         input: event.input,
-      });
+        eventId: randomUUID(),
+        editPath,
+      };
+      toolCalls.set(event.toolCallId, call);
+
+      const turnIndex = currentTurnIndex;
+      const parentEventId = parentLink();
+      const causedByEventId = latestToolResultEventId ?? parentEventId;
+      if (editPath) {
+        call.beforeSnapshot = readFileSnapshot(workspacePath(editPath).absolute).then(
+          (content) => {
+            call.beforeContent = content;
+          },
+        );
+        await call.beforeSnapshot;
+      }
 
-      await ingest({
-        type: "tool_call",
-        payload: {
-          toolCallId: event.toolCallId,
-          toolName: event.toolName,
-          input: event.input,
-          command: commandFromInput(event.input),
+      await ingest(
+        {
+          type: "tool_call",
+          payload: {
+            toolCallId: event.toolCallId,
+            toolName: event.toolName,
+            input: event.input,
+            command: commandFromInput(event.input),
+          },
+          parentEventId,
+          causedByEventId,
         },
-      });
+        turnIndex,
+        call.eventId,
+      );
     });
 
     pi.on("tool_result", async (rawEvent) => {
@@ -273,7 +388,7 @@ export function createPiTraceExtension(
       const text = extractText(event);
       const isError = event.isError === true;
 
-      await ingest({
+      latestToolResultEventId = await ingest({
         type: "tool_result",
         payload: {
           toolCallId: event.toolCallId,
@@ -286,12 +401,21 @@ export function createPiTraceExtension(
         metrics: {
           outcome: isError ? "failure" : "success",
         },
+        parentEventId: call?.eventId ?? parentLink(),
+        causedByEventId: call?.eventId,
       });
+
+      if (call && !isError) {
+        await call.beforeSnapshot;
+        await ingestFileEdit(event, call);
+      }
+      toolCalls.delete(event.toolCallId);
     });
 
     pi.on("turn_start", (rawEvent) => {
       const event = rawEvent as PiTurnStartEvent;
       turnStartTimes.set(event.turnIndex, Date.now());
+      currentTurnIndex = event.turnIndex;
     });
 
     pi.on("turn_end", async (rawEvent) => {
@@ -299,24 +423,32 @@ export function createPiTraceExtension(
       const startedAt = turnStartTimes.get(event.turnIndex) ?? Date.now();
       const usage = event.message?.usage;
 
-      await ingest({
-        type: "turn_summary",
-        payload: {
-          turnIndex: event.turnIndex,
-        },
-        metrics: {
-          latencyMs: Date.now() - startedAt,
-          tokens: {
-            inputUncached: usage?.input,
-            inputCached: usage?.cacheRead,
-            output: usage?.output,
-            cacheWrite: usage?.cacheWrite,
+      if (currentTurnIndex === event.turnIndex) {
+        currentTurnIndex = undefined;
+      }
+
+      await ingest(
+        {
+          type: "turn_summary",
+          payload: {
+            turnIndex: event.turnIndex,
           },
-          cost: {
-            usd: usage?.cost?.total,
+          metrics: {
+            latencyMs: Date.now() - startedAt,
+            tokens: {
+              inputUncached: usage?.input,
+              inputCached: usage?.cacheRead,
+              output: usage?.output,
+              cacheWrite: usage?.cacheWrite,
+            },
+            cost: {
+              usd: usage?.cost?.total,
+            },
           },
+          parentEventId: parentLink(),
         },
-      });
+        event.turnIndex,
+      );
     });
 
     pi.on("before_agent_start", async (rawEvent) => {
@@ -339,6 +471,7 @@ export function createPiTraceExtension(
             hintTitles: [],
           },
           tags: ["happy_paths", "prior_hints"],
+          parentEventId: parentLink(),
         });
         return undefined;
       }
@@ -354,11 +487,15 @@ export function createPiTraceExtension(
       };
       let suggestions = [] as Awaited<ReturnType<typeof loop.suggest>>;
 
+      // Plans are a precedence order, not a union: the `$or` of every plan is just
+      // the last plan, and suggestion confidence is relative to the top hit, so
+      // stricter plans must be tried on their own before relaxing.
       for (const plan of retrievalPlans) {
         const candidate = await loop.suggest({
           text: event.prompt,
           limit: maxSuggestions + 2,
           filters: plan.filters,
+          explain: explainSuggestions,
         });
 
         selectedPlan = plan;
@@ -414,8 +551,16 @@ export function createPiTraceExtension(
           hintTitles: topSuggestions.map((suggestion) =>
             suggestion.title.slice(0, 160),
           ),
+          ...(explainSuggestions
+            ? {
+                hintExplanations: topSuggestions.map(
+                  (suggestion) => suggestion.explanation ?? null,
+                ),
+              }
+            : {}),
         },
         tags: ["happy_paths", "prior_hints"],
+        parentEventId: parentLink(),
       });
 
       if (topSuggestions.length === 0) {
@@ -1,20 +1,175 @@
-import { mkdir, readFile, readdir, writeFile } from "node:fs/promises";
-import { dirname, join } from "node:path";
+import { createReadStream } from "node:fs";
+import {
+  mkdir,
+  readFile,
+  readdir,
+  rename,
+  stat,
+  unlink,
+  utimes,
+  writeFile,
+} from "node:fs/promises";
+import { basename, dirname, join } from "node:path";
+import { createInterface } from "node:readline";
+import type { Readable } from "node:stream";
+import { createGunzip, gunzipSync, gzipSync } from "node:zlib";
 import type { TraceStore } from "../../core/interfaces.js";
-import type { TraceEvent, TraceQuery } from "../../core/types.js";
+import {
+  TraceQueryCollector,
+  assertTraceForgetRequest,
+  matchesTraceForgetRequest,
+  matchesTraceQuery,
+} from "../../core/traceQuery.js";
+import {
+  type TraceEventMigrationRegistry,
+  type TraceEventValidationIssue,
+  assertValidTraceEvent,
+  parseTraceEvent,
+} from "../../core/traceSchema.js";
+import type {
+  TraceEvent,
+  TraceForgetRequest,
+  TraceForgetResult,
+  TraceQuery,
+  TraceQueryPage,
+} from "../../core/types.js";
 
-function toMillis(iso: string): number {
-  return new Date(iso).getTime();
+export interface InvalidTraceLine {
+  path: string;
+  lineNumber: number;
+  issues: TraceEventValidationIssue[];
+}
+
+export interface FileTraceStoreOptions {
+  migrations?: TraceEventMigrationRegistry;
+  onInvalidLine?: (invalid: InvalidTraceLine) => void;
+}
+
+export interface TraceSessionFileInfo {
+  sessionId: string;
+  bytes: number;
+  lastModifiedMs: number;
+  compacted: boolean;
+}
+
+const HOT_SESSION_SUFFIX = ".jsonl";
+const COLD_SESSION_SUFFIX = ".jsonl.gz";
+const COMPACTING_SESSION_SUFFIX = ".jsonl.compacting";
+
+type ParsedTraceLine =
+  | { ok: true; event: TraceEvent }
+  | { ok: false; issues: TraceEventValidationIssue[] };
+
+function sessionIdFromFileName(name: string): string | null {
+  if (name.endsWith(COLD_SESSION_SUFFIX)) {
+    return name.slice(0, -COLD_SESSION_SUFFIX.length);
+  }
+  if (name.endsWith(COMPACTING_SESSION_SUFFIX)) {
+    return name.slice(0, -COMPACTING_SESSION_SUFFIX.length);
+  }
+  if (name.endsWith(HOT_SESSION_SUFFIX)) {
+    return name.slice(0, -HOT_SESSION_SUFFIX.length);
+  }
+  return null;
+}
+
+function sessionFileRank(path: string): number {
+  if (path.endsWith(COLD_SESSION_SUFFIX)) {
+    return 0;
+  }
+  return path.endsWith(COMPACTING_SESSION_SUFFIX) ? 1 : 2;
+}
+
+function isMissingFile(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException).code === "ENOENT";
+}
+
+async function unlinkIfPresent(path: string): Promise<void> {
+  try {
+    await unlink(path);
+  } catch (error) {
+    if (!isMissingFile(error)) {
+      throw error;
+    }
+  }
+}
+
+async function readSessionText(path: string): Promise<string | null> {
+  try {
+    const raw = await readFile(path);
+    return path.endsWith(COLD_SESSION_SUFFIX)
+      ? gunzipSync(raw).toString("utf-8")
+      : raw.toString("utf-8");
+  } catch (error) {
+    if (isMissingFile(error)) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+function joinLines(lines: string[]): string {
+  return lines.length > 0 ? `${lines.join("\n")}\n` : "";
+}
+
+async function replaceFile(path: string, content: string | Buffer): Promise<void> {
+  const temporaryPath = `${path}.${process.pid}.tmp`;
+  await writeFile(temporaryPath, content);
+  await rename(temporaryPath, path);
+}
+
+function isWholeSessionForget(request: TraceForgetRequest, sessionId: string): boolean {
+  return (
+    request.actorId === undefined &&
+    request.before === undefined &&
+    (request.sessionIds?.includes(sessionId) ?? false)
+  );
+}
+
+function isProvablyOutOfForgetScope(
+  line: string,
+  request: TraceForgetRequest,
+): boolean {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(line);
+  } catch {
+    return false;
+  }
+  if (!raw || typeof raw !== "object") {
+    return false;
+  }
+
+  const { actorId, timestamp } = raw as Record<string, unknown>;
+  if (
+    request.actorId !== undefined &&
+    (actorId === undefined || typeof actorId === "string") &&
+    actorId !== request.actorId
+  ) {
+    return true;
+  }
+  return (
+    request.before !== undefined &&
+    typeof timestamp === "string" &&
+    Date.parse(timestamp) >= Date.parse(request.before)
+  );
 }
 
 export class FileTraceStore implements TraceStore {
   private readonly rootDir: string;
+  private readonly migrations?: TraceEventMigrationRegistry;
+  private readonly onInvalidLine?: (invalid: InvalidTraceLine) => void;
+  private readonly compactingSessionIds = new Set<string>();
+  private recovery: Promise<void> | null = null;
 
-  constructor(rootDir: string) {
+  constructor(rootDir: string, options: FileTraceStoreOptions = {}) {
     this.rootDir = rootDir;
+    this.migrations = options.migrations;
+    this.onInvalidLine = options.onInvalidLine;
   }
 
-  async append(event: TraceEvent): Promise<void> {
+  async append(rawEvent: TraceEvent): Promise<void> {
+    const event = assertValidTraceEvent(rawEvent, { migrations: this.migrations });
     const path = this.pathForSession(event.sessionId);
     await mkdir(dirname(path), { recursive: true });
     const line = `${JSON.stringify(event)}\n`;
@@ -28,73 +183,307 @@ export class FileTraceStore implements TraceStore {
   }
 
   async query(query: TraceQuery): Promise<TraceEvent[]> {
-    const files = await this.filesForQuery(query);
-    const output: TraceEvent[] = [];
+    return (await this.queryPage(query)).events;
+  }
 
-    const sinceMs = query.since ? toMillis(query.since) : undefined;
-    const untilMs = query.until ? toMillis(query.until) : undefined;
+  async queryPage(query: TraceQuery): Promise<TraceQueryPage> {
+    const collector = new TraceQueryCollector(query);
+    if (query.limit !== undefined && query.limit <= 0) {
+      return collector.page();
+    }
 
-    for (const file of files) {
-      const raw = await readFile(file, "utf-8").catch(() => "");
-      if (!raw) {
-        continue;
+    for (const files of await this.sessionFilesForQuery(query.sessionIds)) {
+      const seenEventIds = files.some((file) =>
+        file.endsWith(COMPACTING_SESSION_SUFFIX),
+      )
+        ? new Set<string>()
+        : null;
+      let position = 0;
+      for (const file of files) {
+        position = await this.scanFile(file, position, query, collector, seenEventIds);
       }
+    }
 
-      for (const line of raw.split(/\r?\n/)) {
-        if (!line) {
+    return collector.page();
+  }
+
+  async forget(request: TraceForgetRequest): Promise<TraceForgetResult> {
+    assertTraceForgetRequest(request);
+
+    const eventIds: string[] = [];
+    const sessionIds: string[] = [];
+
+    for (const files of await this.sessionFilesForQuery(request.sessionIds)) {
+      let removedFromSession = false;
+      for (const file of files) {
+        const text = await readSessionText(file);
+        if (text === null) {
           continue;
         }
 
-        let event: TraceEvent;
-        try {
-          event = JSON.parse(line) as TraceEvent;
-        } catch {
-          continue;
+        const sessionId = sessionIdFromFileName(basename(file)) ?? "";
+        const wholeSession = isWholeSessionForget(request, sessionId);
+        const kept: string[] = [];
+        let removed = false;
+        for (const line of text.split(/\r?\n/)) {
+          if (!line) {
+            continue;
+          }
+          const parsed = this.parseLine(line);
+          if (parsed.ok && !matchesTraceForgetRequest(parsed.event, request)) {
+            kept.push(line);
+            continue;
+          }
+          if (
+            !parsed.ok &&
+            !wholeSession &&
+            isProvablyOutOfForgetScope(line, request)
+          ) {
+            kept.push(line);
+            continue;
+          }
+
+          removed = true;
+          if (parsed.ok) {
+            eventIds.push(parsed.event.id);
+          }
+          if (!removedFromSession) {
+            removedFromSession = true;
+            sessionIds.push(sessionId);
+          }
         }
 
-        if (query.types && !query.types.includes(event.type)) {
+        if (!removed) {
           continue;
         }
-
-        const eventMs = toMillis(event.timestamp);
-        if (sinceMs !== undefined && eventMs < sinceMs) {
+        if (kept.length === 0) {
+          await unlink(file);
           continue;
         }
-        if (untilMs !== undefined && eventMs > untilMs) {
+
+        const { mtime } = await stat(file);
+        const content = joinLines(kept);
+        await replaceFile(
+          file,
+          file.endsWith(COLD_SESSION_SUFFIX) ? gzipSync(content) : content,
+        );
+        await utimes(file, mtime, mtime);
+      }
+    }
+
+    return { eventIds, sessionIds };
+  }
+
+  async listSessions(): Promise<TraceSessionFileInfo[]> {
+    const sessions = new Map<string, TraceSessionFileInfo>();
+    for (const [sessionId, files] of await this.sessionFiles()) {
+      for (const file of files) {
+        const info = await stat(file).catch(() => null);
+        if (!info) {
           continue;
         }
 
-        output.push(event);
+        const existing = sessions.get(sessionId) ?? {
+          sessionId,
+          bytes: 0,
+          lastModifiedMs: 0,
+          compacted: true,
+        };
+        existing.bytes += info.size;
+        existing.lastModifiedMs = Math.max(existing.lastModifiedMs, info.mtimeMs);
+        existing.compacted &&= file.endsWith(COLD_SESSION_SUFFIX);
+        sessions.set(sessionId, existing);
       }
     }
 
-    output.sort((left, right) =>
-      left.timestamp < right.timestamp ? -1 : left.timestamp > right.timestamp ? 1 : 0,
+    return [...sessions.values()].sort((left, right) =>
+      left.sessionId.localeCompare(right.sessionId),
     );
+  }
+
+  async compactSession(sessionId: string): Promise<boolean> {
+    await this.recoverCompactions();
+    const compactingPath = this.compactingPathForSession(sessionId);
+    this.compactingSessionIds.add(sessionId);
+    try {
+      await rename(this.pathForSession(sessionId), compactingPath);
+    } catch (error) {
+      this.compactingSessionIds.delete(sessionId);
+      if (isMissingFile(error)) {
+        return false;
+      }
+      throw error;
+    }
+
+    try {
+      await this.finishCompaction(sessionId);
+    } finally {
+      this.compactingSessionIds.delete(sessionId);
+    }
+    return true;
+  }
 
-    const limit = query.limit ?? output.length;
-    if (limit <= 0) {
-      return [];
+  private async finishCompaction(sessionId: string): Promise<void> {
+    const compactingPath = this.compactingPathForSession(sessionId);
+    const hot = await readSessionText(compactingPath);
+    if (hot === null) {
+      return;
     }
 
-    return output.slice(0, limit);
+    const coldPath = this.coldPathForSession(sessionId);
+    const cold = (await readSessionText(coldPath)) ?? "";
+    if (!cold.endsWith(hot)) {
+      const { mtime } = await stat(compactingPath);
+      await replaceFile(coldPath, gzipSync(`${cold}${hot}`, { level: 9 }));
+      await utimes(coldPath, mtime, mtime);
+    }
+    await unlinkIfPresent(compactingPath);
+  }
+
+  private recoverCompactions(): Promise<void> {
+    this.recovery ??= this.finishInterruptedCompactions().catch((error) => {
+      this.recovery = null;
+      throw error;
+    });
+    return this.recovery;
   }
 
-  private async filesForQuery(query: TraceQuery): Promise<string[]> {
+  private async finishInterruptedCompactions(): Promise<void> {
     const sessionDir = join(this.rootDir, "sessions");
     await mkdir(sessionDir, { recursive: true });
+    for (const name of await readdir(sessionDir)) {
+      if (!name.endsWith(COMPACTING_SESSION_SUFFIX)) {
+        continue;
+      }
+      const sessionId = name.slice(0, -COMPACTING_SESSION_SUFFIX.length);
+      if (!this.compactingSessionIds.has(sessionId)) {
+        await this.finishCompaction(sessionId);
+      }
+    }
+  }
+
+  private parseLine(line: string): ParsedTraceLine {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      return { ok: false, issues: [{ field: "$", message: "not valid JSON" }] };
+    }
+    return parseTraceEvent(parsed, { migrations: this.migrations });
+  }
 
-    if (query.sessionIds && query.sessionIds.length > 0) {
-      return query.sessionIds.map((sessionId) => this.pathForSession(sessionId));
+  private async scanFile(
+    file: string,
+    startPosition: number,
+    query: TraceQuery,
+    collector: TraceQueryCollector,
+    seenEventIds: Set<string> | null,
+  ): Promise<number> {
+    const source = createReadStream(file);
+    let input: Readable = source;
+    if (file.endsWith(COLD_SESSION_SUFFIX)) {
+      const gunzip = createGunzip();
+      source.on("error", (error) => gunzip.destroy(error));
+      input = source.pipe(gunzip);
     }
+    input.setEncoding("utf-8");
 
+    const lines = createInterface({ input, crlfDelay: Number.POSITIVE_INFINITY });
+
+    let lineNumber = 0;
+    try {
+      for await (const line of lines) {
+        lineNumber += 1;
+        if (!line) {
+          continue;
+        }
+
+        const result = this.parseLine(line);
+        if (!result.ok) {
+          this.onInvalidLine?.({ path: file, lineNumber, issues: result.issues });
+          continue;
+        }
+
+        const event = result.event;
+        if (seenEventIds) {
+          if (seenEventIds.has(event.id)) {
+            continue;
+          }
+          seenEventIds.add(event.id);
+        }
+        if (!matchesTraceQuery(event, query)) {
+          continue;
+        }
+
+        collector.add({
+          event,
+          key: {
+            timestamp: event.timestamp,
+            sessionId: event.sessionId,
+            position: startPosition + lineNumber,
+          },
+        });
+      }
+    } catch (error) {
+      if (!isMissingFile(error)) {
+        throw error;
+      }
+    } finally {
+      lines.close();
+    }
+
+    return startPosition + lineNumber;
+  }
+
+  private async sessionFiles(): Promise<Map<string, string[]>> {
+    await this.recoverCompactions();
+    const sessionDir = join(this.rootDir, "sessions");
+
+    const bySession = new Map<string, string[]>();
     const entries = await readdir(sessionDir, { withFileTypes: true });
-    return entries
-      .filter((entry) => entry.isFile() && entry.name.endsWith(".jsonl"))
-      .map((entry) => join(sessionDir, entry.name));
+    for (const entry of entries) {
+      const sessionId = entry.isFile() ? sessionIdFromFileName(entry.name) : null;
+      if (sessionId === null) {
+        continue;
+      }
+      const files = bySession.get(sessionId) ?? [];
+      files.push(join(sessionDir, entry.name));
+      bySession.set(sessionId, files);
+    }
+
+    for (const files of bySession.values()) {
+      files.sort((left, right) => sessionFileRank(left) - sessionFileRank(right));
+    }
+    return bySession;
+  }
+
+  private async sessionFilesForQuery(
+    sessionIds: string[] | undefined,
+  ): Promise<string[][]> {
+    const bySession = await this.sessionFiles();
+    if (!sessionIds || sessionIds.length === 0) {
+      return [...bySession.values()];
+    }
+
+    const selected: string[][] = [];
+    for (const sessionId of sessionIds) {
+      const files = bySession.get(sessionId);
+      if (files) {
+        selected.push(files);
+      }
+    }
+    return selected;
   }
 
   private pathForSession(sessionId: string): string {
-    return join(this.rootDir, "sessions", `${sessionId}.jsonl`);
+    return join(this.rootDir, "sessions", `${sessionId}${HOT_SESSION_SUFFIX}`);
+  }
+
+  private coldPathForSession(sessionId: string): string {
+    return join(this.rootDir, "sessions", `${sessionId}${COLD_SESSION_SUFFIX}`);
+  }
+
+  private compactingPathForSession(sessionId: string): string {
+    return join(this.rootDir, "sessions", `${sessionId}${COMPACTING_SESSION_SUFFIX}`);
   }
 }
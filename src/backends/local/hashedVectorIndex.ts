@@ -0,0 +1,439 @@
+import type { Tokenizer, TraceIndex } from "../../core/interfaces.js";
+import {
+  type SearchFilterExpression,
+  matchesSearchFilterExpression,
+  parseRemoveFilters,
+  parseSearchFilters,
+} from "../../core/searchFilters.js";
+import { CodeAwareTokenizer } from "../../core/tokenizer.js";
+import type {
+  IndexedDocument,
+  SearchFilters,
+  SearchQuery,
+  SearchResult,
+  SearchTermExplanation,
+  TraceIndexStats,
+} from "../../core/types.js";
+
+export interface HashedVectorIndexOptions {
+  dimensions?: number;
+  ngramSizes?: number[];
+  ngramWeight?: number;
+  lshTables?: number;
+  lshBits?: number;
+  exactSearchThreshold?: number;
+  minScore?: number;
+  seed?: number;
+  tokenizer?: Tokenizer;
+}
+
+interface SparseVector {
+  indices: number[];
+  values: number[];
+}
+
+interface VectorEntry {
+  document: IndexedDocument;
+  vector: SparseVector;
+  signatures: number[];
+}
+
+const DEFAULT_DIMENSIONS = 512;
+const DEFAULT_NGRAM_SIZES = [3, 4];
+const DEFAULT_NGRAM_WEIGHT = 0.5;
+const DEFAULT_LSH_TABLES = 8;
+const DEFAULT_LSH_BITS = 10;
+const DEFAULT_EXACT_SEARCH_THRESHOLD = 2_000;
+const DEFAULT_MIN_SCORE = 0.1;
+const DEFAULT_SEED = 0x9e3779b9;
+
+function positiveInteger(
+  value: number | undefined,
+  fallback: number,
+  name: string,
+): number {
+  const resolved = value ?? fallback;
+  if (!Number.isInteger(resolved) || resolved <= 0) {
+    throw new Error(`${name} must be a positive integer, got: ${resolved}`);
+  }
+  return resolved;
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < text.length; index += 1) {
+    hash ^= text.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let value = state;
+    value = Math.imul(value ^ (value >>> 15), value | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / 4_294_967_296;
+  };
+}
+
+function dot(vector: SparseVector, dense: Float64Array, offset = 0): number {
+  let sum = 0;
+  for (let position = 0; position < vector.indices.length; position += 1) {
+    sum +=
+      (vector.values[position] ?? 0) *
+      (dense[offset + (vector.indices[position] ?? 0)] ?? 0);
+  }
+  return sum;
+}
+
+export class HashedVectorIndex implements TraceIndex {
+  private readonly entries = new Map<string, VectorEntry>();
+  private readonly buckets: Map<number, Set<string>>[];
+  private readonly featureCounts: Uint32Array;
+  private readonly hyperplanes: Float64Array;
+
+  private readonly dimensions: number;
+  private readonly ngramSizes: number[];
+  private readonly ngramWeight: number;
+  private readonly lshTables: number;
+  private readonly lshBits: number;
+  private readonly exactSearchThreshold: number;
+  private readonly minScore: number;
+  private readonly tokenizer: Tokenizer;
+
+  constructor(options: HashedVectorIndexOptions = {}) {
+    this.dimensions = positiveInteger(
+      options.dimensions,
+      DEFAULT_DIMENSIONS,
+      "dimensions",
+    );
+    this.ngramSizes = (options.ngramSizes ?? DEFAULT_NGRAM_SIZES).map((size) =>
+      positiveInteger(size, size, "ngramSizes"),
+    );
+    this.ngramWeight = Math.max(0, options.ngramWeight ?? DEFAULT_NGRAM_WEIGHT);
+    this.lshTables = positiveInteger(
+      options.lshTables,
+      DEFAULT_LSH_TABLES,
+      "lshTables",
+    );
+    this.lshBits = Math.min(
+      30,
+      positiveInteger(options.lshBits, DEFAULT_LSH_BITS, "lshBits"),
+    );
+    this.exactSearchThreshold = Math.max(
+      0,
+      options.exactSearchThreshold ?? DEFAULT_EXACT_SEARCH_THRESHOLD,
+    );
+    this.minScore = options.minScore ?? DEFAULT_MIN_SCORE;
+    this.tokenizer = options.tokenizer ?? new CodeAwareTokenizer();
+
+    this.featureCounts = new Uint32Array(this.dimensions);
+    this.buckets = Array.from({ length: this.lshTables }, () => new Map());
+
+    const random = mulberry32(options.seed ?? DEFAULT_SEED);
+    this.hyperplanes = new Float64Array(
+      this.lshTables * this.lshBits * this.dimensions,
+    );
+    for (let index = 0; index < this.hyperplanes.length; index += 1) {
+      this.hyperplanes[index] = random() + random() + random() + random() - 2;
+    }
+  }
+
+  async upsert(document: IndexedDocument): Promise<void> {
+    const existing = this.entries.get(document.id);
+    if (existing) {
+      this.removeEntry(existing);
+    }
+
+    const vector = this.vectorize(document.text);
+    const entry: VectorEntry = {
+      document,
+      vector,
+      signatures: this.signatures(vector),
+    };
+    this.entries.set(document.id, entry);
+
+    for (const index of vector.indices) {
+      this.featureCounts[index] = (this.featureCounts[index] ?? 0) + 1;
+    }
+    for (const [table, signature] of entry.signatures.entries()) {
+      const bucket = this.buckets[table]?.get(signature) ?? new Set<string>();
+      bucket.add(document.id);
+      this.buckets[table]?.set(signature, bucket);
+    }
+  }
+
+  async upsertMany(documents: IndexedDocument[]): Promise<void> {
+    for (const document of documents) {
+      await this.upsert(document);
+    }
+  }
+
+  async search(query: SearchQuery): Promise<SearchResult[]> {
+    const limit = query.limit ?? 10;
+    const filters = query.filters ? parseSearchFilters(query.filters) : null;
+    const queryVector = this.vectorize(query.text);
+    if (queryVector.indices.length === 0 || limit <= 0 || this.entries.size === 0) {
+      return [];
+    }
+
+    let candidates = this.candidates(queryVector, filters);
+    if (candidates.length < limit) {
+      candidates = this.matchingEntries(filters);
+    }
+
+    const dense = new Float64Array(this.dimensions);
+    for (const [position, index] of queryVector.indices.entries()) {
+      dense[index] = queryVector.values[position] ?? 0;
+    }
+
+    const results: SearchResult[] = [];
+    for (const entry of candidates) {
+      const score = dot(entry.vector, dense);
+      if (score > this.minScore) {
+        results.push({ document: entry.document, score });
+      }
+    }
+
+    results.sort((left, right) => {
+      if (right.score !== left.score) {
+        return right.score - left.score;
+      }
+      return left.document.id.localeCompare(right.document.id);
+    });
+    const top = results.slice(0, limit);
+    if (!query.explain) {
+      return top;
+    }
+
+    return top.map((result) => ({
+      ...result,
+      explanation: {
+        source: "hashed-vector",
+        score: result.score,
+        terms: this.explainTerms(query.text, result.document),
+        ...(query.filters ? { filters: query.filters } : {}),
+      },
+    }));
+  }
+
+  async remove(sourceEventIds: string[]): Promise<number> {
+    const targets = new Set(sourceEventIds);
+    return this.removeEntries((entry) => targets.has(entry.document.sourceEventId));
+  }
+
+  async removeWhere(filters: SearchFilters): Promise<number> {
+    const expression = parseRemoveFilters(filters);
+    return this.removeEntries((entry) =>
+      matchesSearchFilterExpression(expression, entry.document.metadata),
+    );
+  }
+
+  async stats(): Promise<TraceIndexStats> {
+    const sourceEventIds = new Set<string>();
+    for (const entry of this.entries.values()) {
+      sourceEventIds.add(entry.document.sourceEventId);
+    }
+
+    let termCount = 0;
+    for (const count of this.featureCounts) {
+      if (count > 0) {
+        termCount += 1;
+      }
+    }
+
+    return {
+      documentCount: this.entries.size,
+      sourceEventCount: sourceEventIds.size,
+      termCount,
+    };
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+    this.featureCounts.fill(0);
+    for (const table of this.buckets) {
+      table.clear();
+    }
+  }
+
+  private addTokenFeatures(weights: Map<number, number>, token: string): void {
+    const add = (feature: string, weight: number) => {
+      const hash = fnv1a(feature);
+      const index = hash % this.dimensions;
+      const sign = hash & 0x80000000 ? -1 : 1;
+      weights.set(index, (weights.get(index) ?? 0) + sign * weight);
+    };
+
+    add(`w:${token}`, 1);
+    if (this.ngramWeight <= 0) {
+      return;
+    }
+
+    const padded = `^${token}$`;
+    for (const size of this.ngramSizes) {
+      for (let start = 0; start + size <= padded.length; start += 1) {
+        add(`c${size}:${padded.slice(start, start + size)}`, this.ngramWeight);
+      }
+    }
+  }
+
+  private explainTerms(
+    text: string,
+    document: IndexedDocument,
+  ): SearchTermExplanation[] {
+    const queryTokens = this.tokenizer.tokenize(text);
+    const queryWeights = new Map<number, number>();
+    for (const token of queryTokens) {
+      this.addTokenFeatures(queryWeights, token);
+    }
+    let norm = 0;
+    for (const weight of queryWeights.values()) {
+      norm += weight ** 2;
+    }
+    norm = Math.sqrt(norm);
+
+    const documentVector = this.vectorize(document.text);
+    const documentValues = new Map<number, number>();
+    for (const [position, index] of documentVector.indices.entries()) {
+      documentValues.set(index, documentVector.values[position] ?? 0);
+    }
+    const documentTokens = this.tokenizer.tokenize(document.text);
+
+    const explanations: SearchTermExplanation[] = [];
+    for (const term of new Set(queryTokens)) {
+      const occurrences = queryTokens.filter((token) => token === term).length;
+      const termWeights = new Map<number, number>();
+      this.addTokenFeatures(termWeights, term);
+
+      let contribution = 0;
+      for (const [index, weight] of termWeights) {
+        contribution += weight * occurrences * (documentValues.get(index) ?? 0);
+      }
+      if (contribution === 0 || norm === 0) {
+        continue;
+      }
+      explanations.push({
+        term,
+        idf: 1,
+        termFrequency: documentTokens.filter((token) => token === term).length,
+        contribution: contribution / norm,
+      });
+    }
+    return explanations;
+  }
+
+  private vectorize(text: string): SparseVector {
+    const weights = new Map<number, number>();
+    for (const token of this.tokenizer.tokenize(text)) {
+      this.addTokenFeatures(weights, token);
+    }
+
+    const indices = [...weights.keys()].sort((left, right) => left - right);
+    let norm = 0;
+    for (const index of indices) {
+      norm += (weights.get(index) ?? 0) ** 2;
+    }
+    norm = Math.sqrt(norm);
+    if (norm === 0) {
+      return { indices: [], values: [] };
+    }
+
+    const kept: SparseVector = { indices: [], values: [] };
+    for (const index of indices) {
+      const value = (weights.get(index) ?? 0) / norm;
+      if (value !== 0) {
+        kept.indices.push(index);
+        kept.values.push(value);
+      }
+    }
+    return kept;
+  }
+
+  private signatures(vector: SparseVector): number[] {
+    const signatures: number[] = [];
+    for (let table = 0; table < this.lshTables; table += 1) {
+      let signature = 0;
+      for (let bit = 0; bit < this.lshBits; bit += 1) {
+        const offset = (table * this.lshBits + bit) * this.dimensions;
+        if (dot(vector, this.hyperplanes, offset) >= 0) {
+          signature |= 1 << bit;
+        }
+      }
+      signatures.push(signature);
+    }
+    return signatures;
+  }
+
+  private candidates(
+    vector: SparseVector,
+    filters: SearchFilterExpression | null,
+  ): VectorEntry[] {
+    if (this.entries.size <= this.exactSearchThreshold) {
+      return this.matchingEntries(filters);
+    }
+
+    const ids = new Set<string>();
+    for (const [table, signature] of this.signatures(vector).entries()) {
+      const probes = [signature];
+      for (let bit = 0; bit < this.lshBits; bit += 1) {
+        probes.push(signature ^ (1 << bit));
+      }
+      for (const probe of probes) {
+        for (const id of this.buckets[table]?.get(probe) ?? []) {
+          ids.add(id);
+        }
+      }
+    }
+
+    const candidates: VectorEntry[] = [];
+    for (const id of [...ids].sort()) {
+      const entry = this.entries.get(id);
+      if (
+        entry &&
+        (!filters || matchesSearchFilterExpression(filters, entry.document.metadata))
+      ) {
+        candidates.push(entry);
+      }
+    }
+    return candidates;
+  }
+
+  private matchingEntries(filters: SearchFilterExpression | null): VectorEntry[] {
+    const entries: VectorEntry[] = [];
+    for (const entry of this.entries.values()) {
+      if (!filters || matchesSearchFilterExpression(filters, entry.document.metadata)) {
+        entries.push(entry);
+      }
+    }
+    return entries;
+  }
+
+  private removeEntries(predicate: (entry: VectorEntry) => boolean): number {
+    let removed = 0;
+    for (const entry of [...this.entries.values()]) {
+      if (predicate(entry)) {
+        this.removeEntry(entry);
+        removed += 1;
+      }
+    }
+    return removed;
+  }
+
+  private removeEntry(entry: VectorEntry): void {
+    this.entries.delete(entry.document.id);
+    for (const index of entry.vector.indices) {
+      this.featureCounts[index] = Math.max(0, (this.featureCounts[index] ?? 0) - 1);
+    }
+    for (const [table, signature] of entry.signatures.entries()) {
+      const bucket = this.buckets[table]?.get(signature);
+      bucket?.delete(entry.document.id);
+      if (bucket?.size === 0) {
+        this.buckets[table]?.delete(signature);
+      }
+    }
+  }
+}
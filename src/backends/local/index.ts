@@ -1,22 +1,61 @@
 import { join } from "node:path";
+import { BacktrackMiner } from "../../core/backtrackMiner.js";
+import { CompositeTraceIndex } from "../../core/compositeIndex.js";
+import { CompositeTraceMiner } from "../../core/compositeMiner.js";
+import type { SearchResultReranker } from "../../core/interfaces.js";
 import {
   type BootstrapFromStoreResult,
   LearningLoop,
 } from "../../core/learningLoop.js";
 import { SimpleWrongTurnMiner } from "../../core/miner.js";
+import { AntiPatternMiner, HappyPathMiner } from "../../core/outcomeMiners.js";
 import {
   type ProjectIdentityOverrides,
   resolveProjectIdentity,
 } from "../../core/projectIdentity.js";
+import {
+  type RecencyOutcomeRerankerOptions,
+  composeRerankers,
+  createRecencyOutcomeReranker,
+} from "../../core/rerankers.js";
 import type { TraceQuery } from "../../core/types.js";
+import { SqliteTraceIndex } from "../sqlite/sqliteTraceIndex.js";
+import { SqliteTraceStore } from "../sqlite/sqliteTraceStore.js";
 import { FileTraceStore } from "./fileTraceStore.js";
-import { InMemoryLexicalIndex } from "./lexicalIndex.js";
+import { HashedVectorIndex } from "./hashedVectorIndex.js";
+import {
+  InMemoryLexicalIndex,
+  type InMemoryLexicalIndexOptions,
+} from "./lexicalIndex.js";
+import {
+  DEFAULT_LEXICAL_INDEX_SNAPSHOT_FILE,
+  LexicalIndexSnapshotter,
+} from "./lexicalIndexSnapshot.js";
+import { DEFAULT_MINER_SNAPSHOT_FILE, MinerStateSnapshotter } from "./minerSnapshot.js";
+
+export type LocalTraceStoreKind = "file" | "sqlite";
+export type LocalTraceIndexKind = "memory" | "sqlite";
 
 export interface LocalLoopOptions {
   dataDir?: string;
   projectIdentity?: ProjectIdentityOverrides;
+  traceStore?: LocalTraceStoreKind;
+  sqlitePath?: string;
+  indexSnapshot?: boolean;
+  indexSnapshotPath?: string;
+  minerSnapshot?: boolean;
+  minerSnapshotPath?: string;
+  index?: LocalTraceIndexKind;
+  sqliteIndexPath?: string;
+  semanticIndex?: boolean;
+  lexicalIndex?: InMemoryLexicalIndexOptions;
+  recencyRanking?: boolean | Omit<RecencyOutcomeRerankerOptions, "store">;
+  resultReranker?: SearchResultReranker;
 }
 
+export const DEFAULT_SQLITE_TRACE_FILE = "traces.sqlite";
+export const DEFAULT_SQLITE_INDEX_FILE = "index.sqlite";
+
 export interface InitializeLocalLearningLoopOptions extends LocalLoopOptions {
   bootstrapFromStore?: boolean;
   bootstrapQuery?: TraceQuery;
@@ -32,10 +71,87 @@ export function createLocalLearningLoop(options: LocalLoopOptions = {}): Learnin
   const dataDir =
     options.dataDir ?? join(process.cwd(), projectIdentity.defaultDataDirName);
 
+  const store =
+    options.traceStore === "sqlite"
+      ? new SqliteTraceStore(
+          options.sqlitePath ?? join(dataDir, DEFAULT_SQLITE_TRACE_FILE),
+        )
+      : new FileTraceStore(dataDir);
+
+  const miner = new CompositeTraceMiner([
+    new SimpleWrongTurnMiner(),
+    new HappyPathMiner(),
+    new AntiPatternMiner(),
+    new BacktrackMiner(),
+  ]);
+  const minerSnapshotter = options.minerSnapshot
+    ? new MinerStateSnapshotter(
+        miner,
+        options.minerSnapshotPath ?? join(dataDir, DEFAULT_MINER_SNAPSHOT_FILE),
+      )
+    : undefined;
+  const rerankers: SearchResultReranker[] = [];
+  if (options.recencyRanking) {
+    rerankers.push(
+      createRecencyOutcomeReranker({
+        ...(options.recencyRanking === true ? {} : options.recencyRanking),
+        store,
+      }),
+    );
+  }
+  if (options.resultReranker) {
+    rerankers.push(options.resultReranker);
+  }
+  const resultReranker =
+    rerankers.length > 0 ? composeRerankers(...rerankers) : undefined;
+
+  if (options.semanticIndex) {
+    if (options.index === "sqlite" || options.indexSnapshot) {
+      throw new Error(
+        'semanticIndex keeps vectors in memory and rebuilds them from the store at bootstrap; it cannot be combined with index: "sqlite" or indexSnapshot.',
+      );
+    }
+    return new LearningLoop({
+      store,
+      index: new CompositeTraceIndex({
+        primary: new InMemoryLexicalIndex(options.lexicalIndex),
+        secondary: new HashedVectorIndex(),
+      }),
+      miner,
+      resultReranker,
+      minerSnapshotter,
+    });
+  }
+
+  if (options.index === "sqlite") {
+    const index = new SqliteTraceIndex(
+      options.sqliteIndexPath ?? join(dataDir, DEFAULT_SQLITE_INDEX_FILE),
+    );
+    return new LearningLoop({
+      store,
+      index,
+      miner,
+      resultReranker,
+      indexSnapshotter: index.watermarkSnapshotter(),
+      minerSnapshotter,
+    });
+  }
+
+  const index = new InMemoryLexicalIndex(options.lexicalIndex);
+  const indexSnapshotter = options.indexSnapshot
+    ? new LexicalIndexSnapshotter(
+        index,
+        options.indexSnapshotPath ?? join(dataDir, DEFAULT_LEXICAL_INDEX_SNAPSHOT_FILE),
+      )
+    : undefined;
+
   return new LearningLoop({
-    store: new FileTraceStore(dataDir),
-    index: new InMemoryLexicalIndex(),
-    miner: new SimpleWrongTurnMiner(),
+    store,
+    index,
+    miner,
+    resultReranker,
+    indexSnapshotter,
+    minerSnapshotter,
   });
 }
 
@@ -50,6 +166,8 @@ export async function initializeLocalLearningLoop(
       bootstrap: {
         eventCount: 0,
         documentCount: 0,
+        restoredFromSnapshot: false,
+        restoredMinerFromSnapshot: false,
       },
     };
   }
@@ -61,5 +179,15 @@ export async function initializeLocalLearningLoop(
   };
 }
 
+export * from "./hashedVectorIndex.js";
+export * from "./lexicalIndexSnapshot.js";
+export * from "./minerSnapshot.js";
+export * from "./traceRetention.js";
+export type {
+  InMemoryLexicalIndexOptions,
+  LexicalFieldWeights,
+  LexicalIndexSnapshotData,
+} from "./lexicalIndex.js";
+export type { TraceSessionFileInfo } from "./fileTraceStore.js";
 export { FileTraceStore };
 export { InMemoryLexicalIndex };
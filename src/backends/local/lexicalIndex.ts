@@ -1,39 +1,51 @@
-import type { TraceIndex } from "../../core/interfaces.js";
-import type { IndexedDocument, SearchQuery, SearchResult } from "../../core/types.js";
+import {
+  type IndexedDocumentKind,
+  indexedDocumentKind,
+} from "../../core/documentBuilder.js";
+import type { Tokenizer, TraceIndex } from "../../core/interfaces.js";
+import {
+  matchesSearchFilterExpression,
+  parseRemoveFilters,
+  parseSearchFilters,
+} from "../../core/searchFilters.js";
+import { looksLikeErrorText } from "../../core/signatures.js";
+import { CodeAwareTokenizer } from "../../core/tokenizer.js";
+import type {
+  IndexedDocument,
+  SearchFilters,
+  SearchQuery,
+  SearchResult,
+  SearchTermExplanation,
+  TraceIndexStats,
+} from "../../core/types.js";
 
 export interface InMemoryLexicalIndexOptions {
   bm25K1?: number;
   bm25B?: number;
+  tokenizer?: Tokenizer;
+  fieldWeights?: LexicalFieldWeights;
+  errorQueryBoost?: number;
 }
 
-const DEFAULT_BM25_K1 = 1.2;
-const DEFAULT_BM25_B = 0.75;
+export type LexicalFieldWeights = Partial<Record<IndexedDocumentKind, number>>;
 
-function tokenize(text: string): string[] {
-  return text
-    .toLowerCase()
-    .split(/[^a-z0-9_./:-]+/)
-    .filter((token) => token.length > 1);
+export interface LexicalIndexSnapshotData {
+  tokenizer: string;
+  documents: IndexedDocument[];
+  documentLengths: number[];
+  postings: Record<string, number[]>;
 }
 
-function metadataMatches(
-  metadata: Record<string, string | number | boolean | null> | undefined,
-  filters: Record<string, string | number | boolean> | undefined,
-): boolean {
-  if (!filters) {
-    return true;
-  }
-  if (!metadata) {
-    return false;
-  }
+const DEFAULT_BM25_K1 = 1.2;
+const DEFAULT_BM25_B = 0.75;
+const DEFAULT_ERROR_QUERY_BOOST = 1.5;
 
-  for (const [key, value] of Object.entries(filters)) {
-    if (metadata[key] !== value) {
-      return false;
-    }
+function positiveWeight(value: number | undefined, name: string): number {
+  const resolved = value ?? 1;
+  if (!Number.isFinite(resolved) || resolved <= 0) {
+    throw new Error(`${name} must be a finite positive number, got: ${resolved}`);
   }
-
-  return true;
+  return resolved;
 }
 
 function bm25InverseDocumentFrequency(
@@ -69,15 +81,35 @@ export class InMemoryLexicalIndex implements TraceIndex {
   private readonly documents = new Map<string, IndexedDocument>();
   private readonly postings = new Map<string, Map<string, number>>();
   private readonly documentLengths = new Map<string, number>();
-
-  private totalDocumentLength = 0;
+  private readonly kindLengths = new Map<
+    IndexedDocumentKind,
+    { total: number; count: number }
+  >();
 
   private readonly bm25K1: number;
   private readonly bm25B: number;
+  private readonly tokenizer: Tokenizer;
+  private readonly fieldWeights: Record<IndexedDocumentKind, number>;
+  private readonly errorQueryBoost: number;
 
   constructor(options: InMemoryLexicalIndexOptions = {}) {
     this.bm25K1 = options.bm25K1 ?? DEFAULT_BM25_K1;
     this.bm25B = options.bm25B ?? DEFAULT_BM25_B;
+    this.tokenizer = options.tokenizer ?? new CodeAwareTokenizer();
+    const weights = options.fieldWeights ?? {};
+    this.fieldWeights = {
+      base: positiveWeight(weights.base, "fieldWeights.base"),
+      errorSignature: positiveWeight(
+        weights.errorSignature,
+        "fieldWeights.errorSignature",
+      ),
+      hunk: positiveWeight(weights.hunk, "fieldWeights.hunk"),
+      path: positiveWeight(weights.path, "fieldWeights.path"),
+    };
+    this.errorQueryBoost = positiveWeight(
+      options.errorQueryBoost ?? DEFAULT_ERROR_QUERY_BOOST,
+      "errorQueryBoost",
+    );
   }
 
   async upsert(document: IndexedDocument): Promise<void> {
@@ -98,7 +130,8 @@ export class InMemoryLexicalIndex implements TraceIndex {
 
   async search(query: SearchQuery): Promise<SearchResult[]> {
     const limit = query.limit ?? 10;
-    const queryTerms = tokenize(query.text);
+    const filters = query.filters ? parseSearchFilters(query.filters) : null;
+    const queryTerms = this.tokenizer.tokenize(query.text);
     if (queryTerms.length === 0 || this.documents.size === 0) {
       return [];
     }
@@ -108,9 +141,11 @@ export class InMemoryLexicalIndex implements TraceIndex {
       queryTermCounts.set(term, (queryTermCounts.get(term) ?? 0) + 1);
     }
 
+    const boostErrorSignatures =
+      query.boostErrorSignatures ?? looksLikeErrorText(query.text);
     const scores = new Map<string, number>();
+    const explanations = new Map<string, SearchTermExplanation[]>();
     const totalDocs = this.documents.size;
-    const averageDocumentLength = this.totalDocumentLength / totalDocs;
 
     for (const [term, queryTermFrequency] of queryTermCounts) {
       const docsForTerm = this.postings.get(term);
@@ -129,23 +164,36 @@ export class InMemoryLexicalIndex implements TraceIndex {
           continue;
         }
 
-        if (!metadataMatches(document.metadata, query.filters)) {
+        if (filters && !matchesSearchFilterExpression(filters, document.metadata)) {
           continue;
         }
 
-        const documentLength = this.documentLengths.get(docId) ?? 0;
+        const kind = indexedDocumentKind(document);
+        const kindLength = this.kindLengths.get(kind);
+        const weight = this.fieldWeight(kind, boostErrorSignatures);
         const termScore =
           inverseDocFrequency *
           bm25TermWeight(
-            termFrequency,
-            documentLength,
-            averageDocumentLength,
+            termFrequency * weight,
+            this.documentLengths.get(docId) ?? 0,
+            kindLength ? kindLength.total / Math.max(1, kindLength.count) : 0,
             this.bm25K1,
             this.bm25B,
           );
 
         const previous = scores.get(docId) ?? 0;
         scores.set(docId, previous + termScore * queryTermFrequency);
+
+        if (query.explain) {
+          const terms = explanations.get(docId) ?? [];
+          terms.push({
+            term,
+            idf: inverseDocFrequency,
+            termFrequency,
+            contribution: termScore * queryTermFrequency,
+          });
+          explanations.set(docId, terms);
+        }
       }
     }
 
@@ -155,9 +203,24 @@ export class InMemoryLexicalIndex implements TraceIndex {
       if (!document) {
         continue;
       }
+      if (!query.explain) {
+        results.push({ document, score });
+        continue;
+      }
+
       results.push({
         document,
         score,
+        explanation: {
+          source: "lexical",
+          score,
+          terms: explanations.get(docId) ?? [],
+          ...(query.filters ? { filters: query.filters } : {}),
+          fieldWeight: this.fieldWeight(
+            indexedDocumentKind(document),
+            boostErrorSignatures,
+          ),
+        },
       });
     }
 
@@ -165,17 +228,157 @@ export class InMemoryLexicalIndex implements TraceIndex {
     return results.slice(0, limit);
   }
 
+  async remove(sourceEventIds: string[]): Promise<number> {
+    const targets = new Set(sourceEventIds);
+    return this.removeDocuments((document) => targets.has(document.sourceEventId));
+  }
+
+  async removeWhere(filters: SearchFilters): Promise<number> {
+    const expression = parseRemoveFilters(filters);
+    return this.removeDocuments((document) =>
+      matchesSearchFilterExpression(expression, document.metadata),
+    );
+  }
+
+  async stats(): Promise<TraceIndexStats> {
+    const sourceEventIds = new Set<string>();
+    for (const document of this.documents.values()) {
+      sourceEventIds.add(document.sourceEventId);
+    }
+    return {
+      documentCount: this.documents.size,
+      sourceEventCount: sourceEventIds.size,
+      termCount: this.postings.size,
+    };
+  }
+
+  async clear(): Promise<void> {
+    this.reset();
+  }
+
+  snapshot(): LexicalIndexSnapshotData {
+    const documents = [...this.documents.values()];
+    const positions = new Map<string, number>();
+    for (const [position, document] of documents.entries()) {
+      positions.set(document.id, position);
+    }
+
+    const postings: Record<string, number[]> = {};
+    for (const [term, docsForTerm] of this.postings) {
+      const flat: number[] = [];
+      for (const [docId, frequency] of docsForTerm) {
+        const position = positions.get(docId);
+        if (position !== undefined) {
+          flat.push(position, frequency);
+        }
+      }
+      postings[term] = flat;
+    }
+
+    return {
+      tokenizer: this.tokenizer.id,
+      documents,
+      documentLengths: documents.map(
+        (document) => this.documentLengths.get(document.id) ?? 0,
+      ),
+      postings,
+    };
+  }
+
+  restoreSnapshot(data: LexicalIndexSnapshotData): void {
+    if (data.tokenizer !== this.tokenizer.id) {
+      throw new Error(
+        `Lexical index snapshot was built with tokenizer "${data.tokenizer}", not "${this.tokenizer.id}".`,
+      );
+    }
+    if (data.documentLengths.length !== data.documents.length) {
+      throw new Error("Lexical index snapshot has mismatched document lengths.");
+    }
+
+    const postings = new Map<string, Map<string, number>>();
+    for (const [term, flat] of Object.entries(data.postings)) {
+      const docsForTerm = new Map<string, number>();
+      for (let offset = 0; offset + 1 < flat.length; offset += 2) {
+        const document = data.documents[flat[offset] ?? -1];
+        if (!document) {
+          throw new Error(`Lexical index snapshot posting for "${term}" is invalid.`);
+        }
+        docsForTerm.set(document.id, flat[offset + 1] ?? 0);
+      }
+      postings.set(term, docsForTerm);
+    }
+
+    this.reset();
+
+    for (const [position, document] of data.documents.entries()) {
+      const length = data.documentLengths[position] ?? 0;
+      this.documents.set(document.id, document);
+      this.setDocumentLength(document, length);
+    }
+    for (const [term, docsForTerm] of postings) {
+      this.postings.set(term, docsForTerm);
+    }
+  }
+
+  private fieldWeight(
+    kind: IndexedDocumentKind,
+    boostErrorSignatures: boolean,
+  ): number {
+    const boost =
+      boostErrorSignatures && kind === "errorSignature" ? this.errorQueryBoost : 1;
+    return this.fieldWeights[kind] * boost;
+  }
+
+  private reset(): void {
+    this.documents.clear();
+    this.documentLengths.clear();
+    this.postings.clear();
+    this.kindLengths.clear();
+  }
+
+  private setDocumentLength(document: IndexedDocument, length: number): void {
+    const kind = indexedDocumentKind(document);
+    const totals = this.kindLengths.get(kind) ?? { total: 0, count: 0 };
+    totals.total += length;
+    totals.count += 1;
+    this.kindLengths.set(kind, totals);
+    this.documentLengths.set(document.id, length);
+  }
+
+  private deleteDocumentLength(document: IndexedDocument): void {
+    const length = this.documentLengths.get(document.id);
+    const totals = this.kindLengths.get(indexedDocumentKind(document));
+    if (length === undefined || !totals) {
+      return;
+    }
+    totals.total = Math.max(0, totals.total - length);
+    totals.count = Math.max(0, totals.count - 1);
+    this.documentLengths.delete(document.id);
+  }
+
+  private removeDocuments(predicate: (document: IndexedDocument) => boolean): number {
+    let removed = 0;
+    for (const document of [...this.documents.values()]) {
+      if (!predicate(document)) {
+        continue;
+      }
+      this.removePostings(document);
+      this.documents.delete(document.id);
+      removed += 1;
+    }
+    return removed;
+  }
+
   private addPostings(document: IndexedDocument): void {
     const termCounts = new Map<string, number>();
     let documentLength = 0;
 
-    for (const term of tokenize(document.text)) {
+    for (const term of this.tokenizer.tokenize(document.text)) {
       termCounts.set(term, (termCounts.get(term) ?? 0) + 1);
       documentLength += 1;
     }
 
-    this.documentLengths.set(document.id, documentLength);
-    this.totalDocumentLength += documentLength;
+    this.setDocumentLength(document, documentLength);
 
     for (const [term, frequency] of termCounts) {
       const docsForTerm = this.postings.get(term) ?? new Map<string, number>();
@@ -185,11 +388,9 @@ export class InMemoryLexicalIndex implements TraceIndex {
   }
 
   private removePostings(document: IndexedDocument): void {
-    const existingLength = this.documentLengths.get(document.id) ?? 0;
-    this.totalDocumentLength = Math.max(0, this.totalDocumentLength - existingLength);
-    this.documentLengths.delete(document.id);
+    this.deleteDocumentLength(document);
 
-    const uniqueTerms = new Set(tokenize(document.text));
+    const uniqueTerms = new Set(this.tokenizer.tokenize(document.text));
     for (const term of uniqueTerms) {
       const docsForTerm = this.postings.get(term);
       if (!docsForTerm) {
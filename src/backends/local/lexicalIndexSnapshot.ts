@@ -0,0 +1,122 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { TraceIndexSnapshotter } from "../../core/interfaces.js";
+import type { TraceWatermark } from "../../core/traceQuery.js";
+import type { InMemoryLexicalIndex, LexicalIndexSnapshotData } from "./lexicalIndex.js";
+
+export const LEXICAL_INDEX_SNAPSHOT_VERSION = 2;
+export const DEFAULT_LEXICAL_INDEX_SNAPSHOT_FILE = "index/lexical-snapshot.json";
+
+export interface LexicalIndexSnapshotterOptions {
+  onLoadError?: (error: Error) => void;
+}
+
+interface LexicalIndexSnapshotFile {
+  version: number;
+  savedAt: string;
+  watermark: TraceWatermark | null;
+  index: LexicalIndexSnapshotData;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function parseWatermark(value: unknown): TraceWatermark | null {
+  if (value === null) {
+    return null;
+  }
+  if (
+    !isRecord(value) ||
+    typeof value.timestamp !== "string" ||
+    !Array.isArray(value.eventIds) ||
+    !value.eventIds.every((eventId) => typeof eventId === "string")
+  ) {
+    throw new Error("Lexical index snapshot has an invalid watermark.");
+  }
+  return { timestamp: value.timestamp, eventIds: value.eventIds };
+}
+
+function parseSnapshotFile(raw: string): LexicalIndexSnapshotFile {
+  const parsed: unknown = JSON.parse(raw);
+  if (!isRecord(parsed)) {
+    throw new Error("Lexical index snapshot is not a JSON object.");
+  }
+  if (parsed.version !== LEXICAL_INDEX_SNAPSHOT_VERSION) {
+    throw new Error(
+      `Unsupported lexical index snapshot version: ${String(parsed.version)}`,
+    );
+  }
+
+  const index = parsed.index;
+  if (
+    !isRecord(index) ||
+    typeof index.tokenizer !== "string" ||
+    !Array.isArray(index.documents) ||
+    !Array.isArray(index.documentLengths) ||
+    !isRecord(index.postings)
+  ) {
+    throw new Error("Lexical index snapshot has an invalid index section.");
+  }
+
+  return {
+    version: parsed.version,
+    savedAt: typeof parsed.savedAt === "string" ? parsed.savedAt : "",
+    watermark: parseWatermark(parsed.watermark),
+    index: index as unknown as LexicalIndexSnapshotData,
+  };
+}
+
+export class LexicalIndexSnapshotter implements TraceIndexSnapshotter {
+  private readonly index: InMemoryLexicalIndex;
+  private readonly path: string;
+  private readonly onLoadError?: (error: Error) => void;
+
+  constructor(
+    index: InMemoryLexicalIndex,
+    path: string,
+    options: LexicalIndexSnapshotterOptions = {},
+  ) {
+    this.index = index;
+    this.path = path;
+    this.onLoadError = options.onLoadError;
+  }
+
+  async load(): Promise<TraceWatermark | null> {
+    let raw: string;
+    try {
+      raw = await readFile(this.path, "utf-8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+
+    try {
+      const snapshot = parseSnapshotFile(raw);
+      if (!snapshot.watermark) {
+        return null;
+      }
+      this.index.restoreSnapshot(snapshot.index);
+      return snapshot.watermark;
+    } catch (error) {
+      this.onLoadError?.(error instanceof Error ? error : new Error(String(error)));
+      return null;
+    }
+  }
+
+  async save(watermark: TraceWatermark | null): Promise<void> {
+    const snapshot: LexicalIndexSnapshotFile = {
+      version: LEXICAL_INDEX_SNAPSHOT_VERSION,
+      savedAt: new Date().toISOString(),
+      watermark,
+      index: this.index.snapshot(),
+    };
+
+    await mkdir(dirname(this.path), { recursive: true });
+    const temporaryPath = `${this.path}.${process.pid}.tmp`;
+    await writeFile(temporaryPath, JSON.stringify(snapshot), "utf-8");
+    await rename(temporaryPath, this.path);
+  }
+}
@@ -0,0 +1,115 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import type {
+  SnapshottableTraceMiner,
+  TraceMinerSnapshotter,
+} from "../../core/interfaces.js";
+import type { TraceWatermark } from "../../core/traceQuery.js";
+import type { MinerSnapshot } from "../../core/types.js";
+
+export const MINER_SNAPSHOT_VERSION = 1;
+export const DEFAULT_MINER_SNAPSHOT_FILE = "miner/snapshot.json";
+
+export interface MinerStateSnapshotterOptions {
+  onLoadError?: (error: Error) => void;
+}
+
+interface MinerSnapshotFile {
+  version: number;
+  savedAt: string;
+  watermark: TraceWatermark | null;
+  miner: MinerSnapshot;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function parseWatermark(value: unknown): TraceWatermark | null {
+  if (value === null) {
+    return null;
+  }
+  if (
+    !isRecord(value) ||
+    typeof value.timestamp !== "string" ||
+    !Array.isArray(value.eventIds) ||
+    !value.eventIds.every((eventId) => typeof eventId === "string")
+  ) {
+    throw new Error("Miner snapshot has an invalid watermark.");
+  }
+  return { timestamp: value.timestamp, eventIds: value.eventIds };
+}
+
+function parseSnapshotFile(raw: string): MinerSnapshotFile {
+  const parsed: unknown = JSON.parse(raw);
+  if (!isRecord(parsed)) {
+    throw new Error("Miner snapshot is not a JSON object.");
+  }
+  if (parsed.version !== MINER_SNAPSHOT_VERSION) {
+    throw new Error(`Unsupported miner snapshot version: ${String(parsed.version)}`);
+  }
+  if (!isRecord(parsed.miner)) {
+    throw new Error("Miner snapshot has an invalid miner section.");
+  }
+
+  return {
+    version: parsed.version,
+    savedAt: typeof parsed.savedAt === "string" ? parsed.savedAt : "",
+    watermark: parseWatermark(parsed.watermark),
+    miner: parsed.miner as MinerSnapshot,
+  };
+}
+
+export class MinerStateSnapshotter implements TraceMinerSnapshotter {
+  private readonly miner: SnapshottableTraceMiner;
+  private readonly path: string;
+  private readonly onLoadError?: (error: Error) => void;
+
+  constructor(
+    miner: SnapshottableTraceMiner,
+    path: string,
+    options: MinerStateSnapshotterOptions = {},
+  ) {
+    this.miner = miner;
+    this.path = path;
+    this.onLoadError = options.onLoadError;
+  }
+
+  async load(): Promise<TraceWatermark | null> {
+    let raw: string;
+    try {
+      raw = await readFile(this.path, "utf-8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+
+    try {
+      const snapshot = parseSnapshotFile(raw);
+      if (!snapshot.watermark) {
+        return null;
+      }
+      this.miner.restoreSnapshot(snapshot.miner);
+      return snapshot.watermark;
+    } catch (error) {
+      this.onLoadError?.(error instanceof Error ? error : new Error(String(error)));
+      return null;
+    }
+  }
+
+  async save(watermark: TraceWatermark | null): Promise<void> {
+    const snapshot: MinerSnapshotFile = {
+      version: MINER_SNAPSHOT_VERSION,
+      savedAt: new Date().toISOString(),
+      watermark,
+      miner: this.miner.snapshot(),
+    };
+
+    await mkdir(dirname(this.path), { recursive: true });
+    const temporaryPath = `${this.path}.${process.pid}.tmp`;
+    await writeFile(temporaryPath, JSON.stringify(snapshot), "utf-8");
+    await rename(temporaryPath, this.path);
+  }
+}
@@ -0,0 +1,135 @@
+import type { LearningLoop } from "../../core/learningLoop.js";
+import type { FileTraceStore, TraceSessionFileInfo } from "./fileTraceStore.js";
+
+export interface TraceRetentionPolicy {
+  maxAgeMs?: number;
+  maxBytes?: number;
+  keepSessionsWithEvidence?: boolean;
+  compactAfterMs?: number;
+}
+
+export interface ApplyTraceRetentionOptions {
+  store: FileTraceStore;
+  loop: LearningLoop;
+  policy: TraceRetentionPolicy;
+  nowMs?: number;
+}
+
+export interface TraceRetentionResult {
+  forgottenSessionIds: string[];
+  forgottenEventCount: number;
+  keptForEvidenceSessionIds: string[];
+  compactedSessionIds: string[];
+  bytesBefore: number;
+  bytesAfter: number;
+}
+
+function totalBytes(sessions: TraceSessionFileInfo[]): number {
+  let total = 0;
+  for (const session of sessions) {
+    total += session.bytes;
+  }
+  return total;
+}
+
+export function planTraceRetention(
+  sessions: TraceSessionFileInfo[],
+  policy: TraceRetentionPolicy,
+  protectedSessionIds: Set<string>,
+  nowMs: number,
+): string[] {
+  const expired = new Set<string>();
+  const oldestFirst = [...sessions].sort(
+    (left, right) => left.lastModifiedMs - right.lastModifiedMs,
+  );
+
+  if (policy.maxAgeMs !== undefined) {
+    for (const session of oldestFirst) {
+      if (
+        nowMs - session.lastModifiedMs > policy.maxAgeMs &&
+        !protectedSessionIds.has(session.sessionId)
+      ) {
+        expired.add(session.sessionId);
+      }
+    }
+  }
+
+  if (policy.maxBytes !== undefined) {
+    let remainingBytes = totalBytes(
+      sessions.filter((session) => !expired.has(session.sessionId)),
+    );
+    for (const session of oldestFirst) {
+      if (remainingBytes <= policy.maxBytes) {
+        break;
+      }
+      if (
+        expired.has(session.sessionId) ||
+        protectedSessionIds.has(session.sessionId)
+      ) {
+        continue;
+      }
+      expired.add(session.sessionId);
+      remainingBytes -= session.bytes;
+    }
+  }
+
+  return oldestFirst
+    .map((session) => session.sessionId)
+    .filter((sessionId) => expired.has(sessionId));
+}
+
+export async function applyTraceRetention(
+  options: ApplyTraceRetentionOptions,
+): Promise<TraceRetentionResult> {
+  const { store, loop, policy } = options;
+  const nowMs = options.nowMs ?? Date.now();
+
+  const sessions = await store.listSessions();
+  const bytesBefore = totalBytes(sessions);
+
+  const evidenceSessionIds =
+    policy.keepSessionsWithEvidence !== false
+      ? await loop.evidenceSessionIds()
+      : new Set<string>();
+
+  const forgottenSessionIds = planTraceRetention(
+    sessions,
+    policy,
+    evidenceSessionIds,
+    nowMs,
+  );
+
+  let forgottenEventCount = 0;
+  if (forgottenSessionIds.length > 0) {
+    const forgotten = await loop.forget({ sessionIds: forgottenSessionIds });
+    forgottenEventCount = forgotten.eventIds.length;
+  }
+
+  const compactedSessionIds: string[] = [];
+  if (policy.compactAfterMs !== undefined) {
+    const forgottenSet = new Set(forgottenSessionIds);
+    for (const session of sessions) {
+      if (
+        session.compacted ||
+        forgottenSet.has(session.sessionId) ||
+        nowMs - session.lastModifiedMs <= policy.compactAfterMs
+      ) {
+        continue;
+      }
+      if (await store.compactSession(session.sessionId)) {
+        compactedSessionIds.push(session.sessionId);
+      }
+    }
+  }
+
+  return {
+    forgottenSessionIds,
+    forgottenEventCount,
+    keptForEvidenceSessionIds: sessions
+      .map((session) => session.sessionId)
+      .filter((sessionId) => evidenceSessionIds.has(sessionId)),
+    compactedSessionIds,
+    bytesBefore,
+    bytesAfter: totalBytes(await store.listSessions()),
+  };
+}
@@ -0,0 +1,3 @@
+export * from "./sqliteTraceStore.js";
+export * from "./jsonlMigration.js";
+export * from "./sqliteTraceIndex.js";
@@ -0,0 +1,42 @@
+import type { TraceEventMigrationRegistry } from "../../core/traceSchema.js";
+import { FileTraceStore, type InvalidTraceLine } from "../local/fileTraceStore.js";
+import type { SqliteTraceStore } from "./sqliteTraceStore.js";
+
+export interface JsonlToSqliteMigrationOptions {
+  migrations?: TraceEventMigrationRegistry;
+  onSession?: (sessionId: string, eventCount: number) => void;
+}
+
+export interface JsonlToSqliteMigrationResult {
+  sessionCount: number;
+  eventCount: number;
+  invalidLines: InvalidTraceLine[];
+}
+
+export async function migrateJsonlTraceRootToSqlite(
+  rootDir: string,
+  target: SqliteTraceStore,
+  options: JsonlToSqliteMigrationOptions = {},
+): Promise<JsonlToSqliteMigrationResult> {
+  const invalidLines: InvalidTraceLine[] = [];
+  const source = new FileTraceStore(rootDir, {
+    migrations: options.migrations,
+    onInvalidLine: (invalid) => invalidLines.push(invalid),
+  });
+
+  const sessionIds = (await source.listSessions()).map((session) => session.sessionId);
+  let eventCount = 0;
+
+  for (const sessionId of sessionIds) {
+    const events = await source.query({ sessionIds: [sessionId] });
+    await target.appendMany(events);
+    eventCount += events.length;
+    options.onSession?.(sessionId, events.length);
+  }
+
+  return {
+    sessionCount: sessionIds.length,
+    eventCount,
+    invalidLines,
+  };
+}
@@ -0,0 +1,477 @@
+import type { DatabaseSync, SQLInputValue } from "node:sqlite";
+import type {
+  Tokenizer,
+  TraceIndex,
+  TraceIndexSnapshotter,
+} from "../../core/interfaces.js";
+import {
+  type SearchFilterExpression,
+  type SearchFilterRangeOperator,
+  parseRemoveFilters,
+  parseSearchFilters,
+} from "../../core/searchFilters.js";
+import { CodeAwareTokenizer } from "../../core/tokenizer.js";
+import type { TraceWatermark } from "../../core/traceQuery.js";
+import type {
+  IndexedDocument,
+  SearchFilters,
+  SearchQuery,
+  SearchResult,
+  SearchTermExplanation,
+  TraceIndexStats,
+} from "../../core/types.js";
+import { openSqliteDatabase } from "./sqliteTraceStore.js";
+
+export interface SqliteTraceIndexOptions {
+  busyTimeoutMs?: number;
+  tokenizer?: Tokenizer;
+}
+
+interface SearchRow {
+  document_json: string;
+  score: number;
+}
+
+const DEFAULT_BUSY_TIMEOUT_MS = 5_000;
+const REMOVE_BATCH_SIZE = 500;
+const FTS5_BM25_K1 = 1.2;
+const FTS5_BM25_B = 0.75;
+
+const SCHEMA_STATEMENTS = [
+  `CREATE TABLE IF NOT EXISTS index_documents (
+    rowid INTEGER PRIMARY KEY,
+    id TEXT NOT NULL UNIQUE,
+    source_event_id TEXT NOT NULL,
+    document_json TEXT NOT NULL
+  )`,
+  "CREATE INDEX IF NOT EXISTS index_documents_source ON index_documents (source_event_id)",
+  `CREATE TABLE IF NOT EXISTS index_metadata (
+    doc_rowid INTEGER NOT NULL,
+    key TEXT NOT NULL,
+    value_json TEXT NOT NULL,
+    PRIMARY KEY (doc_rowid, key)
+  )`,
+  "CREATE INDEX IF NOT EXISTS index_metadata_value ON index_metadata (key, value_json)",
+  `CREATE VIRTUAL TABLE IF NOT EXISTS index_fts USING fts5(
+    terms,
+    tokenize = "unicode61 remove_diacritics 0 tokenchars '._/:-'"
+  )`,
+  "CREATE VIRTUAL TABLE IF NOT EXISTS index_fts_vocab USING fts5vocab(index_fts, 'row')",
+  `CREATE TABLE IF NOT EXISTS index_state (
+    key TEXT PRIMARY KEY,
+    value_json TEXT NOT NULL
+  )`,
+];
+
+const RANGE_SQL_OPERATORS: Record<SearchFilterRangeOperator, string> = {
+  gt: ">",
+  gte: ">=",
+  lt: "<",
+  lte: "<=",
+};
+
+function metadataExists(
+  params: SQLInputValue[],
+  key: string,
+  condition: string,
+  values: SQLInputValue[],
+): string {
+  params.push(key, ...values);
+  return `EXISTS (SELECT 1 FROM index_metadata m
+    WHERE m.doc_rowid = d.rowid AND m.key = ? AND ${condition})`;
+}
+
+function placeholders(count: number): string {
+  return new Array(count).fill("?").join(", ");
+}
+
+function compileFilterExpression(
+  expression: SearchFilterExpression,
+  params: SQLInputValue[],
+): string {
+  switch (expression.kind) {
+    case "and":
+    case "or": {
+      if (expression.operands.length === 0) {
+        return expression.kind === "and" ? "1" : "0";
+      }
+      const operands = expression.operands.map((operand) =>
+        compileFilterExpression(operand, params),
+      );
+      return `(${operands.join(expression.kind === "and" ? " AND " : " OR ")})`;
+    }
+    case "eq":
+    case "ne": {
+      const exists = metadataExists(params, expression.key, "m.value_json = ?", [
+        JSON.stringify(expression.value),
+      ]);
+      return expression.kind === "eq" ? exists : `NOT ${exists}`;
+    }
+    case "in":
+    case "nin": {
+      if (expression.values.length === 0) {
+        return expression.kind === "in" ? "0" : "1";
+      }
+      const exists = metadataExists(
+        params,
+        expression.key,
+        `m.value_json IN (${placeholders(expression.values.length)})`,
+        expression.values.map((value) => JSON.stringify(value)),
+      );
+      return expression.kind === "in" ? exists : `NOT ${exists}`;
+    }
+    case "exists": {
+      const exists = metadataExists(
+        params,
+        expression.key,
+        "m.value_json <> 'null'",
+        [],
+      );
+      return expression.exists ? exists : `NOT ${exists}`;
+    }
+    case "range": {
+      const operator = RANGE_SQL_OPERATORS[expression.operator];
+      if (expression.timestamp) {
+        return metadataExists(
+          params,
+          expression.key,
+          `json_type(m.value_json) = 'text'
+            AND julianday(json_extract(m.value_json, '$')) ${operator} julianday(?)`,
+          [new Date(expression.value).toISOString()],
+        );
+      }
+      return metadataExists(
+        params,
+        expression.key,
+        `json_type(m.value_json) IN ('integer', 'real')
+          AND json_extract(m.value_json, '$') ${operator} ?`,
+        [expression.value],
+      );
+    }
+  }
+}
+
+function quoteFtsTerm(term: string): string {
+  return `"${term.replaceAll('"', '""')}"`;
+}
+
+export class SqliteTraceIndex implements TraceIndex {
+  private readonly path: string;
+  private readonly busyTimeoutMs: number;
+  private readonly tokenizer: Tokenizer;
+  private database: Promise<DatabaseSync> | null = null;
+
+  constructor(path: string, options: SqliteTraceIndexOptions = {}) {
+    this.path = path;
+    this.busyTimeoutMs = Math.max(
+      0,
+      Math.floor(options.busyTimeoutMs ?? DEFAULT_BUSY_TIMEOUT_MS),
+    );
+    this.tokenizer = options.tokenizer ?? new CodeAwareTokenizer();
+  }
+
+  async upsert(document: IndexedDocument): Promise<void> {
+    await this.upsertMany([document]);
+  }
+
+  async upsertMany(documents: IndexedDocument[]): Promise<void> {
+    if (documents.length === 0) {
+      return;
+    }
+
+    const db = await this.db();
+    const upsertDocument = db.prepare(
+      `INSERT INTO index_documents (id, source_event_id, document_json) VALUES (?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET
+         source_event_id = excluded.source_event_id,
+         document_json = excluded.document_json
+       RETURNING rowid`,
+    );
+    const deleteTerms = db.prepare("DELETE FROM index_fts WHERE rowid = ?");
+    const insertTerms = db.prepare(
+      "INSERT INTO index_fts (rowid, terms) VALUES (?, ?)",
+    );
+    const deleteMetadata = db.prepare("DELETE FROM index_metadata WHERE doc_rowid = ?");
+    const insertMetadata = db.prepare(
+      "INSERT INTO index_metadata (doc_rowid, key, value_json) VALUES (?, ?, ?)",
+    );
+
+    this.transaction(db, () => {
+      for (const document of documents) {
+        const row = upsertDocument.get(
+          document.id,
+          document.sourceEventId,
+          JSON.stringify(document),
+        ) as { rowid: number } | undefined;
+        if (!row) {
+          throw new Error(`Failed to upsert index document ${document.id}`);
+        }
+
+        deleteTerms.run(row.rowid);
+        insertTerms.run(row.rowid, this.tokenizer.tokenize(document.text).join(" "));
+
+        deleteMetadata.run(row.rowid);
+        for (const [key, value] of Object.entries(document.metadata ?? {})) {
+          insertMetadata.run(row.rowid, key, JSON.stringify(value));
+        }
+      }
+    });
+  }
+
+  async search(query: SearchQuery): Promise<SearchResult[]> {
+    const limit = query.limit ?? 10;
+    const filters = query.filters ? parseSearchFilters(query.filters) : null;
+    const terms = [...new Set(this.tokenizer.tokenize(query.text))];
+    if (terms.length === 0 || limit <= 0) {
+      return [];
+    }
+
+    const clauses = ["index_fts MATCH ?"];
+    const params: SQLInputValue[] = [terms.map(quoteFtsTerm).join(" OR ")];
+    if (filters) {
+      clauses.push(compileFilterExpression(filters, params));
+    }
+    params.push(limit);
+
+    const db = await this.db();
+    const rows = db
+      .prepare(
+        `SELECT d.document_json, -bm25(index_fts) AS score
+         FROM index_fts JOIN index_documents d ON d.rowid = index_fts.rowid
+         WHERE ${clauses.join(" AND ")}
+         ORDER BY score DESC, d.id
+         LIMIT ?`,
+      )
+      .all(...params) as unknown as SearchRow[];
+
+    const results = rows.map((row) => ({
+      document: JSON.parse(row.document_json) as IndexedDocument,
+      score: row.score,
+    }));
+    if (!query.explain) {
+      return results;
+    }
+
+    const explainTerms = this.termExplainer(db, terms);
+    return results.map((result) => ({
+      ...result,
+      explanation: {
+        source: "sqlite-fts5",
+        score: result.score,
+        terms: explainTerms(result.document),
+        ...(query.filters ? { filters: query.filters } : {}),
+      },
+    }));
+  }
+
+  async remove(sourceEventIds: string[]): Promise<number> {
+    if (sourceEventIds.length === 0) {
+      return 0;
+    }
+
+    const db = await this.db();
+    let removed = 0;
+    this.transaction(db, () => {
+      for (
+        let offset = 0;
+        offset < sourceEventIds.length;
+        offset += REMOVE_BATCH_SIZE
+      ) {
+        const batch = sourceEventIds.slice(offset, offset + REMOVE_BATCH_SIZE);
+        const placeholders = batch.map(() => "?").join(", ");
+        const rows = db
+          .prepare(
+            `SELECT rowid FROM index_documents WHERE source_event_id IN (${placeholders})`,
+          )
+          .all(...batch) as unknown as { rowid: number }[];
+        removed += this.deleteRows(db, rows);
+      }
+    });
+    return removed;
+  }
+
+  async removeWhere(filters: SearchFilters): Promise<number> {
+    const params: SQLInputValue[] = [];
+    const condition = compileFilterExpression(parseRemoveFilters(filters), params);
+
+    const db = await this.db();
+    let removed = 0;
+    this.transaction(db, () => {
+      const rows = db
+        .prepare(`SELECT d.rowid FROM index_documents d WHERE ${condition}`)
+        .all(...params) as unknown as { rowid: number }[];
+      removed = this.deleteRows(db, rows);
+    });
+    return removed;
+  }
+
+  async stats(): Promise<TraceIndexStats> {
+    const db = await this.db();
+    const documents = db
+      .prepare(
+        `SELECT COUNT(*) AS documentCount,
+                COUNT(DISTINCT source_event_id) AS sourceEventCount
+         FROM index_documents`,
+      )
+      .get() as { documentCount: number; sourceEventCount: number } | undefined;
+    const terms = db
+      .prepare("SELECT COUNT(*) AS termCount FROM index_fts_vocab")
+      .get() as { termCount: number } | undefined;
+
+    return {
+      documentCount: documents?.documentCount ?? 0,
+      sourceEventCount: documents?.sourceEventCount ?? 0,
+      termCount: terms?.termCount ?? 0,
+    };
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.db();
+    this.transaction(db, () => this.deleteAll(db));
+  }
+
+  watermarkSnapshotter(): TraceIndexSnapshotter {
+    return {
+      load: async () => {
+        const db = await this.db();
+        const row = db
+          .prepare("SELECT value_json FROM index_state WHERE key = 'watermark'")
+          .get() as { value_json: string } | undefined;
+        return row ? (JSON.parse(row.value_json) as TraceWatermark | null) : null;
+      },
+      save: async (watermark) => {
+        const db = await this.db();
+        db.prepare(
+          `INSERT INTO index_state (key, value_json) VALUES ('watermark', ?)
+           ON CONFLICT(key) DO UPDATE SET value_json = excluded.value_json`,
+        ).run(JSON.stringify(watermark));
+      },
+    };
+  }
+
+  async close(): Promise<void> {
+    if (!this.database) {
+      return;
+    }
+    const db = await this.database;
+    this.database = null;
+    db.close();
+  }
+
+  private termExplainer(
+    db: DatabaseSync,
+    terms: string[],
+  ): (document: IndexedDocument) => SearchTermExplanation[] {
+    const totals = db
+      .prepare(
+        `SELECT (SELECT COUNT(*) FROM index_documents) AS documentCount,
+                (SELECT COALESCE(SUM(cnt), 0) FROM index_fts_vocab) AS tokenCount`,
+      )
+      .get() as { documentCount: number; tokenCount: number } | undefined;
+    const documentCount = totals?.documentCount ?? 0;
+    const averageLength = Math.max(
+      1,
+      (totals?.tokenCount ?? 0) / Math.max(1, documentCount),
+    );
+
+    const documentFrequencies = new Map<string, number>();
+    const vocab = db
+      .prepare(
+        `SELECT term, doc FROM index_fts_vocab WHERE term IN (${placeholders(terms.length)})`,
+      )
+      .all(...terms) as unknown as { term: string; doc: number }[];
+    for (const row of vocab) {
+      documentFrequencies.set(row.term, row.doc);
+    }
+
+    return (document) => {
+      const tokens = this.tokenizer.tokenize(document.text);
+      const lengthNorm =
+        1 - FTS5_BM25_B + (FTS5_BM25_B * tokens.length) / averageLength;
+      const explanations: SearchTermExplanation[] = [];
+      for (const term of terms) {
+        const termFrequency = tokens.filter((token) => token === term).length;
+        if (termFrequency === 0) {
+          continue;
+        }
+        const hits = documentFrequencies.get(term) ?? 1;
+        const idf = Math.max(
+          1e-6,
+          Math.log((documentCount - hits + 0.5) / (hits + 0.5)),
+        );
+        explanations.push({
+          term,
+          idf,
+          termFrequency,
+          contribution:
+            (idf * termFrequency * (FTS5_BM25_K1 + 1)) /
+            (termFrequency + FTS5_BM25_K1 * lengthNorm),
+        });
+      }
+      return explanations;
+    };
+  }
+
+  private deleteRows(db: DatabaseSync, rows: { rowid: number }[]): number {
+    const deleteTerms = db.prepare("DELETE FROM index_fts WHERE rowid = ?");
+    const deleteMetadata = db.prepare("DELETE FROM index_metadata WHERE doc_rowid = ?");
+    const deleteDocument = db.prepare("DELETE FROM index_documents WHERE rowid = ?");
+    for (const { rowid } of rows) {
+      deleteTerms.run(rowid);
+      deleteMetadata.run(rowid);
+      deleteDocument.run(rowid);
+    }
+    return rows.length;
+  }
+
+  private deleteAll(db: DatabaseSync): void {
+    db.exec("DELETE FROM index_fts");
+    db.exec("DELETE FROM index_metadata");
+    db.exec("DELETE FROM index_documents");
+    db.exec("DELETE FROM index_state WHERE key = 'watermark'");
+  }
+
+  private resetOnTokenizerChange(db: DatabaseSync): void {
+    const tokenizerId = JSON.stringify(this.tokenizer.id);
+    const row = db
+      .prepare("SELECT value_json FROM index_state WHERE key = 'tokenizer'")
+      .get() as { value_json: string } | undefined;
+    if (row?.value_json === tokenizerId) {
+      return;
+    }
+
+    this.transaction(db, () => {
+      this.deleteAll(db);
+      db.prepare(
+        `INSERT INTO index_state (key, value_json) VALUES ('tokenizer', ?)
+         ON CONFLICT(key) DO UPDATE SET value_json = excluded.value_json`,
+      ).run(tokenizerId);
+    });
+  }
+
+  private transaction(db: DatabaseSync, work: () => void): void {
+    db.exec("BEGIN IMMEDIATE");
+    try {
+      work();
+      db.exec("COMMIT");
+    } catch (error) {
+      db.exec("ROLLBACK");
+      throw error;
+    }
+  }
+
+  private db(): Promise<DatabaseSync> {
+    if (!this.database) {
+      this.database = openSqliteDatabase(this.path).then((db) => {
+        db.exec(`PRAGMA busy_timeout = ${this.busyTimeoutMs}`);
+        db.exec("PRAGMA journal_mode = WAL");
+        for (const statement of SCHEMA_STATEMENTS) {
+          db.exec(statement);
+        }
+        this.resetOnTokenizerChange(db);
+        return db;
+      });
+    }
+    return this.database;
+  }
+}
@@ -0,0 +1,324 @@
+import { mkdir } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { DatabaseSync, SQLInputValue } from "node:sqlite";
+import type { TraceStore } from "../../core/interfaces.js";
+import {
+  TraceQueryCollector,
+  assertTraceForgetRequest,
+  decodeTraceCursor,
+  matchesTraceQuery,
+} from "../../core/traceQuery.js";
+import {
+  type TraceEventMigrationRegistry,
+  type TraceEventValidationIssue,
+  assertValidTraceEvent,
+  parseTraceEvent,
+} from "../../core/traceSchema.js";
+import type {
+  TraceEvent,
+  TraceForgetRequest,
+  TraceForgetResult,
+  TraceQuery,
+  TraceQueryPage,
+} from "../../core/types.js";
+
+export interface InvalidTraceRow {
+  seq: number;
+  eventId: string;
+  issues: TraceEventValidationIssue[];
+}
+
+export interface SqliteTraceStoreOptions {
+  migrations?: TraceEventMigrationRegistry;
+  onInvalidRow?: (invalid: InvalidTraceRow) => void;
+}
+
+interface TraceEventRow {
+  seq: number;
+  id: string;
+  session_id: string;
+  timestamp: string;
+  event_json: string;
+}
+
+const QUERY_BATCH_SIZE = 256;
+
+const SCHEMA_STATEMENTS = [
+  `CREATE TABLE IF NOT EXISTS trace_events (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    id TEXT NOT NULL UNIQUE,
+    session_id TEXT NOT NULL,
+    type TEXT NOT NULL,
+    timestamp TEXT NOT NULL,
+    timestamp_ms INTEGER NOT NULL,
+    harness TEXT NOT NULL,
+    agent_id TEXT,
+    outcome TEXT,
+    scope TEXT NOT NULL,
+    event_json TEXT NOT NULL
+  )`,
+  "CREATE INDEX IF NOT EXISTS trace_events_session ON trace_events (session_id, timestamp)",
+  "CREATE INDEX IF NOT EXISTS trace_events_type ON trace_events (type, timestamp)",
+  "CREATE INDEX IF NOT EXISTS trace_events_timestamp ON trace_events (timestamp_ms)",
+  "CREATE INDEX IF NOT EXISTS trace_events_harness ON trace_events (harness)",
+  "CREATE INDEX IF NOT EXISTS trace_events_agent ON trace_events (agent_id)",
+  "CREATE INDEX IF NOT EXISTS trace_events_outcome ON trace_events (outcome)",
+  "DROP INDEX IF EXISTS trace_events_order",
+  "CREATE INDEX IF NOT EXISTS trace_events_time_order ON trace_events (timestamp_ms, timestamp, session_id, seq)",
+];
+
+const INSERT_EVENT_SQL = `INSERT OR IGNORE INTO trace_events (
+  id, session_id, type, timestamp, timestamp_ms, harness, agent_id, outcome, scope, event_json
+) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`;
+
+export async function openSqliteDatabase(path: string): Promise<DatabaseSync> {
+  let sqlite: typeof import("node:sqlite");
+  try {
+    sqlite = await import("node:sqlite");
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(
+      `SQLite backend requires a Node.js runtime with node:sqlite (Node 22.5+): ${message}`,
+    );
+  }
+
+  if (path !== ":memory:") {
+    await mkdir(dirname(path), { recursive: true });
+  }
+  return new sqlite.DatabaseSync(path);
+}
+
+function placeholders(count: number): string {
+  return new Array(count).fill("?").join(", ");
+}
+
+function pushInClause(
+  clauses: string[],
+  params: SQLInputValue[],
+  column: string,
+  values: string[] | undefined,
+): void {
+  if (!values || values.length === 0) {
+    return;
+  }
+  clauses.push(`${column} IN (${placeholders(values.length)})`);
+  params.push(...values);
+}
+
+export class SqliteTraceStore implements TraceStore {
+  private readonly path: string;
+  private readonly migrations?: TraceEventMigrationRegistry;
+  private readonly onInvalidRow?: (invalid: InvalidTraceRow) => void;
+  private database: Promise<DatabaseSync> | null = null;
+
+  constructor(path: string, options: SqliteTraceStoreOptions = {}) {
+    this.path = path;
+    this.migrations = options.migrations;
+    this.onInvalidRow = options.onInvalidRow;
+  }
+
+  async append(event: TraceEvent): Promise<void> {
+    await this.appendMany([event]);
+  }
+
+  async appendMany(rawEvents: TraceEvent[]): Promise<void> {
+    const events = rawEvents.map((event) =>
+      assertValidTraceEvent(event, { migrations: this.migrations }),
+    );
+    if (events.length === 0) {
+      return;
+    }
+
+    const db = await this.db();
+    const insert = db.prepare(INSERT_EVENT_SQL);
+
+    db.exec("BEGIN");
+    try {
+      for (const event of events) {
+        insert.run(
+          event.id,
+          event.sessionId,
+          event.type,
+          event.timestamp,
+          new Date(event.timestamp).getTime(),
+          event.harness,
+          event.agentId ?? null,
+          event.metrics?.outcome ?? null,
+          event.scope,
+          JSON.stringify(event),
+        );
+      }
+      db.exec("COMMIT");
+    } catch (error) {
+      db.exec("ROLLBACK");
+      throw error;
+    }
+  }
+
+  async query(query: TraceQuery): Promise<TraceEvent[]> {
+    return (await this.queryPage(query)).events;
+  }
+
+  async queryPage(query: TraceQuery): Promise<TraceQueryPage> {
+    const collector = new TraceQueryCollector(query);
+    if (query.limit !== undefined && query.limit <= 0) {
+      return collector.page();
+    }
+
+    const clauses: string[] = [];
+    const params: SQLInputValue[] = [];
+    pushInClause(clauses, params, "session_id", query.sessionIds);
+    pushInClause(clauses, params, "type", query.types);
+    pushInClause(clauses, params, "agent_id", query.agentIds);
+    pushInClause(clauses, params, "harness", query.harnesses);
+    pushInClause(clauses, params, "scope", query.scopes);
+    pushInClause(clauses, params, "outcome", query.outcomes);
+    if (query.since) {
+      clauses.push("timestamp_ms >= ?");
+      params.push(new Date(query.since).getTime());
+    }
+    if (query.until) {
+      clauses.push("timestamp_ms <= ?");
+      params.push(new Date(query.until).getTime());
+    }
+
+    const descending = query.order === "desc";
+    const direction = descending ? "DESC" : "ASC";
+    const comparator = descending ? "<" : ">";
+    const batchSize = Math.max((query.limit ?? 0) + 1, QUERY_BATCH_SIZE);
+    const db = await this.db();
+
+    let after = query.cursor ? decodeTraceCursor(query.cursor) : null;
+    while (true) {
+      const batchClauses = [...clauses];
+      const batchParams = [...params];
+      if (after) {
+        batchClauses.push(
+          `(timestamp_ms, timestamp, session_id, seq) ${comparator} (?, ?, ?, ?)`,
+        );
+        batchParams.push(
+          new Date(after.timestamp).getTime(),
+          after.timestamp,
+          after.sessionId,
+          after.position,
+        );
+      }
+
+      let sql = "SELECT seq, id, session_id, timestamp, event_json FROM trace_events";
+      if (batchClauses.length > 0) {
+        sql += ` WHERE ${batchClauses.join(" AND ")}`;
+      }
+      sql += ` ORDER BY timestamp_ms ${direction}, timestamp ${direction}, session_id ${direction}, seq ${direction} LIMIT ?`;
+      batchParams.push(batchSize);
+
+      const rows = db.prepare(sql).all(...batchParams) as unknown as TraceEventRow[];
+      for (const row of rows) {
+        const event = this.parseRow(row);
+        if (event && matchesTraceQuery(event, query)) {
+          collector.add({
+            event,
+            key: {
+              timestamp: row.timestamp,
+              sessionId: row.session_id,
+              position: row.seq,
+            },
+          });
+        }
+      }
+
+      const last = rows[rows.length - 1];
+      if (!last || rows.length < batchSize || collector.isFull()) {
+        break;
+      }
+      after = {
+        timestamp: last.timestamp,
+        sessionId: last.session_id,
+        position: last.seq,
+      };
+    }
+
+    return collector.page();
+  }
+
+  async forget(request: TraceForgetRequest): Promise<TraceForgetResult> {
+    assertTraceForgetRequest(request);
+
+    const clauses: string[] = [];
+    const params: SQLInputValue[] = [];
+    pushInClause(clauses, params, "session_id", request.sessionIds);
+    if (request.actorId !== undefined) {
+      clauses.push("json_extract(event_json, '$.actorId') = ?");
+      params.push(request.actorId);
+    }
+    if (request.before !== undefined) {
+      clauses.push("timestamp_ms < ?");
+      params.push(new Date(request.before).getTime());
+    }
+
+    const db = await this.db();
+    const rows = db
+      .prepare(
+        `DELETE FROM trace_events WHERE ${clauses.join(" AND ")} RETURNING id, session_id`,
+      )
+      .all(...params) as unknown as { id: string; session_id: string }[];
+
+    const sessionIds: string[] = [];
+    for (const row of rows) {
+      if (!sessionIds.includes(row.session_id)) {
+        sessionIds.push(row.session_id);
+      }
+    }
+    return { eventIds: rows.map((row) => row.id), sessionIds };
+  }
+
+  async count(): Promise<number> {
+    const db = await this.db();
+    const row = db.prepare("SELECT COUNT(*) AS count FROM trace_events").get() as
+      | { count: number }
+      | undefined;
+    return row?.count ?? 0;
+  }
+
+  async close(): Promise<void> {
+    if (!this.database) {
+      return;
+    }
+    const db = await this.database;
+    this.database = null;
+    db.close();
+  }
+
+  private parseRow(row: TraceEventRow): TraceEvent | null {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(row.event_json);
+    } catch {
+      this.onInvalidRow?.({
+        seq: row.seq,
+        eventId: row.id,
+        issues: [{ field: "$", message: "not valid JSON" }],
+      });
+      return null;
+    }
+
+    const result = parseTraceEvent(parsed, { migrations: this.migrations });
+    if (!result.ok) {
+      this.onInvalidRow?.({ seq: row.seq, eventId: row.id, issues: result.issues });
+      return null;
+    }
+    return result.event;
+  }
+
+  private db(): Promise<DatabaseSync> {
+    if (!this.database) {
+      this.database = openSqliteDatabase(this.path).then((db) => {
+        db.exec("PRAGMA journal_mode = WAL");
+        for (const statement of SCHEMA_STATEMENTS) {
+          db.exec(statement);
+        }
+        return db;
+      });
+    }
+    return this.database;
+  }
+}
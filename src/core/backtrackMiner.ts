@@ -0,0 +1,594 @@
+import { parseStructuredErrors } from "./errorParsers.js";
+import type { SnapshottableTraceMiner } from "./interfaces.js";
+import {
+  compareMinedArtifacts,
+  describeRecoverySteps,
+  supportConfidence,
+} from "./miner.js";
+import {
+  type SupportContribution,
+  SupportTable,
+  parseMinerSnapshot,
+} from "./minerState.js";
+import {
+  eventCommand,
+  eventDiff,
+  eventFilePath,
+  eventOutputText,
+  isToolResultFailure,
+  isToolResultSuccess,
+  isTraceEventOfType,
+} from "./payloads.js";
+import { isDiagnosticCommand, parseShellCommand } from "./shellCommand.js";
+import { extractErrorSignatures, normalizeCommandSignature } from "./signatures.js";
+import type {
+  MinedArtifact,
+  MinedArtifactStep,
+  MinerSnapshot,
+  TraceEvent,
+  TraceEventOfType,
+} from "./types.js";
+import { hashContent, parseUnifiedDiffHunks } from "./unifiedDiff.js";
+import {
+  normalizeWorkspacePath,
+  normalizeWorkspacePaths,
+  workspacePathOptionsForEvent,
+} from "./workspacePaths.js";
+
+export interface BacktrackMinerOptions {
+  minSessions?: number;
+}
+
+type RevertKind =
+  | "git_checkout"
+  | "git_restore"
+  | "git_stash"
+  | "git_reset"
+  | "restored_content"
+  | "undone_hunk";
+
+interface EditEntry {
+  kind: "edit";
+  eventId: string;
+  path: string;
+  beforeState?: string;
+  afterState?: string;
+  hunks: string[];
+}
+
+interface FailureEntry {
+  kind: "failure";
+  eventId: string;
+  command: string;
+  signature: string;
+}
+
+type HistoryEntry = EditEntry | FailureEntry;
+
+interface PendingWorkingApproach {
+  id: string;
+  failureCommands: string[];
+  steps: MinedArtifactStep[];
+}
+
+interface SessionState {
+  history: HistoryEntry[];
+  pending: PendingWorkingApproach | null;
+}
+
+interface Backtrack extends SupportContribution {
+  paths: string[];
+  revertKind: RevertKind;
+  revertCommand?: string;
+  failureSignature: string;
+  abandonedSteps: MinedArtifactStep[];
+  revertStep: MinedArtifactStep;
+  workingSteps: MinedArtifactStep[];
+}
+
+interface Revert {
+  kind: RevertKind;
+  step: MinedArtifactStep;
+  command?: string;
+}
+
+interface RevertTarget {
+  kind: RevertKind;
+  paths: string[] | null;
+}
+
+const BACKTRACK_MINER = "backtrack";
+const DEFAULT_MIN_SESSIONS = 1;
+const MAX_HISTORY_ENTRIES = 50;
+const MAX_WORKING_STEPS = 12;
+const MISSING_CONTENT = "missing";
+
+function minSessions(value: number | undefined): number {
+  const resolved = value ?? DEFAULT_MIN_SESSIONS;
+  if (!Number.isInteger(resolved) || resolved <= 0) {
+    throw new Error(`minSessions must be a positive integer, got: ${resolved}`);
+  }
+  return resolved;
+}
+
+function hunkFingerprints(diff: string): { hunks: string[]; inverse: string[] } {
+  const hunks: string[] = [];
+  const inverse: string[] = [];
+  for (const hunk of parseUnifiedDiffHunks(diff)) {
+    const removed: string[] = [];
+    const added: string[] = [];
+    for (const line of hunk.lines) {
+      if (line.startsWith("-")) {
+        removed.push(line.slice(1).trimEnd());
+      } else if (line.startsWith("+")) {
+        added.push(line.slice(1).trimEnd());
+      }
+    }
+    if (![...removed, ...added].some((line) => line.trim())) {
+      continue;
+    }
+    hunks.push(hashContent(`${removed.join("\n")}\u0000${added.join("\n")}`));
+    inverse.push(hashContent(`${added.join("\n")}\u0000${removed.join("\n")}`));
+  }
+  return { hunks, inverse };
+}
+
+function revertedEdits(
+  history: HistoryEntry[],
+  edit: EditEntry,
+  inverseHunks: string[],
+): { kind: RevertKind; edits: EditEntry[] } | null {
+  const earlier = history.filter(
+    (entry): entry is EditEntry => entry.kind === "edit" && entry.path === edit.path,
+  );
+
+  if (edit.afterState && edit.afterState !== edit.beforeState) {
+    for (let index = earlier.length - 1; index >= 0; index -= 1) {
+      const entry = earlier[index];
+      if (entry?.beforeState === edit.afterState) {
+        return { kind: "restored_content", edits: earlier.slice(index) };
+      }
+      if (entry?.afterState === edit.afterState && index < earlier.length - 1) {
+        return { kind: "restored_content", edits: earlier.slice(index + 1) };
+      }
+    }
+  }
+
+  const undone = new Set(inverseHunks);
+  const edits = earlier.filter((entry) => entry.hunks.some((hunk) => undone.has(hunk)));
+  return edits.length > 0 ? { kind: "undone_hunk", edits } : null;
+}
+
+function revertPath(path: string): string {
+  const trimmed = path.replace(/^(?:\.\/)+/, "").replace(/\/+$/, "");
+  return trimmed || ".";
+}
+
+function revertTarget(command: string): RevertTarget | null {
+  for (const segment of parseShellCommand(command).segments) {
+    if (segment.program !== "git") {
+      continue;
+    }
+
+    const paths = [...segment.args, ...segment.passthrough].map(revertPath);
+    if (segment.subcommand === "checkout") {
+      if (segment.flags.some((flag) => /^-[bB](?:=|$)/.test(flag))) {
+        continue;
+      }
+      const checkedOut =
+        segment.passthrough.length > 0 ? segment.passthrough.map(revertPath) : paths;
+      if (checkedOut.length > 0) {
+        return { kind: "git_checkout", paths: checkedOut };
+      }
+    } else if (segment.subcommand === "restore") {
+      const unstageOnly =
+        segment.flags.some((flag) => flag === "--staged" || flag === "-S") &&
+        !segment.flags.some((flag) => flag === "--worktree" || flag === "-W");
+      if (!unstageOnly && paths.length > 0) {
+        return { kind: "git_restore", paths };
+      }
+    } else if (segment.subcommand === "stash") {
+      const action = segment.args[0];
+      if (action === undefined || action === "push" || action === "save") {
+        const stashed = segment.passthrough.map(revertPath);
+        return { kind: "git_stash", paths: stashed.length > 0 ? stashed : null };
+      }
+    } else if (segment.subcommand === "reset" && segment.flags.includes("--hard")) {
+      return { kind: "git_reset", paths: null };
+    }
+  }
+  return null;
+}
+
+function isGitCommit(command: string): boolean {
+  return parseShellCommand(command).segments.some(
+    (segment) => segment.program === "git" && segment.subcommand === "commit",
+  );
+}
+
+function matchesRevertTarget(path: string, targets: string[] | null): boolean {
+  if (targets === null) {
+    return true;
+  }
+  return targets.some(
+    (target) => target === "." || path === target || path.startsWith(`${target}/`),
+  );
+}
+
+function failureSignature(event: TraceEvent, commandSignature: string): string {
+  const output = normalizeWorkspacePaths(
+    eventOutputText(event),
+    workspacePathOptionsForEvent(event),
+  );
+  return (
+    parseStructuredErrors(output, 1)[0]?.signature ??
+    extractErrorSignatures(output, 1)[0] ??
+    commandSignature
+  );
+}
+
+function backtrackKey(backtrack: Backtrack): string {
+  return `${backtrack.paths.join(",")}=>${backtrack.failureSignature}`;
+}
+
+function describeRevert(backtrack: Backtrack): string {
+  if (backtrack.revertCommand) {
+    return `reverted with \`${backtrack.revertCommand}\``;
+  }
+  return backtrack.revertKind === "restored_content"
+    ? "reverted by restoring the earlier file content"
+    : "undone by a later edit";
+}
+
+function isSessionEntry(value: unknown): boolean {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    typeof (value as Record<string, unknown>).sessionId === "string" &&
+    Array.isArray((value as Record<string, unknown>).history)
+  );
+}
+
+export class BacktrackMiner implements SnapshottableTraceMiner {
+  private readonly minSessions: number;
+  private sessions = new Map<string, SessionState>();
+  private backtracks = new SupportTable<Backtrack>();
+  private artifacts: MinedArtifact[] | null = null;
+
+  constructor(options: BacktrackMinerOptions = {}) {
+    this.minSessions = minSessions(options.minSessions);
+  }
+
+  async ingest(event: TraceEvent): Promise<void> {
+    if (isTraceEventOfType(event, "file_edit")) {
+      this.ingestEdit(event);
+      return;
+    }
+    if (event.type !== "tool_result") {
+      return;
+    }
+
+    const command = normalizeWorkspacePaths(
+      eventCommand(event),
+      workspacePathOptionsForEvent(event),
+    );
+    const state = this.sessions.get(event.sessionId);
+    if (!state || !command.trim()) {
+      return;
+    }
+
+    const isError = isToolResultFailure(event);
+    const commandSignature = normalizeCommandSignature(command);
+    if (!isError) {
+      const target = revertTarget(command);
+      const edits = target
+        ? state.history.filter(
+            (entry): entry is EditEntry =>
+              entry.kind === "edit" && matchesRevertTarget(entry.path, target.paths),
+          )
+        : [];
+      if (target && edits.length > 0) {
+        this.recordBacktrack(event.sessionId, state, edits, {
+          kind: target.kind,
+          step: { kind: "revert", eventId: event.id, command: commandSignature },
+          command: commandSignature,
+        });
+        return;
+      }
+      if (isGitCommit(command)) {
+        state.history = [];
+      }
+    }
+    if (isDiagnosticCommand(command)) {
+      this.settle(event.sessionId, state);
+      return;
+    }
+
+    if (isError) {
+      this.pushHistory(state, {
+        kind: "failure",
+        eventId: event.id,
+        command: commandSignature,
+        signature: failureSignature(event, commandSignature),
+      });
+    }
+    this.advancePending(
+      state,
+      { kind: "attempt", eventId: event.id, command: commandSignature },
+      !isError && isToolResultSuccess(event),
+    );
+    this.settle(event.sessionId, state);
+  }
+
+  async forget(eventIds: string[]): Promise<void> {
+    const targets = new Set(eventIds);
+    const removed = this.backtracks.removeWhere((backtrack) =>
+      backtrack.evidenceEventIds.some((eventId) => targets.has(eventId)),
+    );
+    if (removed.length > 0) {
+      this.artifacts = null;
+    }
+
+    const removedIds = new Set(removed.map((backtrack) => backtrack.id));
+    for (const [sessionId, state] of this.sessions) {
+      state.history = state.history.filter((entry) => !targets.has(entry.eventId));
+      if (state.pending && removedIds.has(state.pending.id)) {
+        state.pending = null;
+      }
+      this.settle(sessionId, state);
+    }
+  }
+
+  async mine(limit = 50): Promise<MinedArtifact[]> {
+    if (!this.artifacts) {
+      this.artifacts = this.rankArtifacts();
+    }
+    return this.artifacts.slice(0, limit);
+  }
+
+  snapshot(): MinerSnapshot {
+    return {
+      miner: BACKTRACK_MINER,
+      sessions: [...this.sessions].map(([sessionId, state]) => ({
+        sessionId,
+        ...state,
+      })),
+      backtracks: this.backtracks.snapshot(),
+      artifacts: this.artifacts,
+    };
+  }
+
+  restoreSnapshot(data: unknown): void {
+    const snapshot = parseMinerSnapshot(data, BACKTRACK_MINER);
+    if (
+      !Array.isArray(snapshot.sessions) ||
+      !snapshot.sessions.every((session) => isSessionEntry(session))
+    ) {
+      throw new Error("Miner snapshot for backtrack has invalid sessions.");
+    }
+
+    const backtracks = new SupportTable<Backtrack>();
+    backtracks.restoreSnapshot(snapshot.backtracks);
+    const sessions = new Map<string, SessionState>();
+    for (const { sessionId, history, pending } of snapshot.sessions) {
+      sessions.set(sessionId, { history, pending: pending ?? null });
+    }
+
+    this.sessions = sessions;
+    this.backtracks = backtracks;
+    this.artifacts = snapshot.artifacts;
+  }
+
+  private ingestEdit(event: TraceEventOfType<"file_edit">): void {
+    const rawPath = eventFilePath(event);
+    if (!rawPath) {
+      return;
+    }
+
+    const { operation, beforeHash, afterHash } = event.payload;
+    const { hunks, inverse } = hunkFingerprints(eventDiff(event));
+    const beforeState = beforeHash ?? (operation === "create" ? MISSING_CONTENT : "");
+    const afterState = afterHash ?? (operation === "delete" ? MISSING_CONTENT : "");
+    const edit: EditEntry = {
+      kind: "edit",
+      eventId: event.id,
+      path: normalizeWorkspacePath(rawPath, workspacePathOptionsForEvent(event)),
+      ...(beforeState ? { beforeState } : {}),
+      ...(afterState ? { afterState } : {}),
+      hunks,
+    };
+
+    const state = this.sessions.get(event.sessionId) ?? { history: [], pending: null };
+    this.sessions.set(event.sessionId, state);
+    const reverted = revertedEdits(state.history, edit, inverse);
+    if (reverted) {
+      this.recordBacktrack(event.sessionId, state, reverted.edits, {
+        kind: reverted.kind,
+        step: { kind: "revert", eventId: event.id, path: edit.path },
+      });
+      return;
+    }
+
+    this.pushHistory(state, edit);
+    if (state.pending) {
+      state.pending.steps.push({ kind: "edit", eventId: event.id, path: edit.path });
+      this.advancePending(state, null, false);
+    }
+  }
+
+  private pushHistory(state: SessionState, entry: HistoryEntry): void {
+    state.history.push(entry);
+    if (state.history.length > MAX_HISTORY_ENTRIES) {
+      state.history.shift();
+    }
+  }
+
+  private recordBacktrack(
+    sessionId: string,
+    state: SessionState,
+    edits: EditEntry[],
+    revert: Revert,
+  ): void {
+    const editIds = new Set(edits.map((edit) => edit.eventId));
+    const start = state.history.findIndex((entry) => editIds.has(entry.eventId));
+    const abandoned = state.history
+      .slice(start)
+      .filter((entry) => entry.kind === "failure" || editIds.has(entry.eventId));
+
+    const abandonedSteps: MinedArtifactStep[] = [];
+    const failureCommands: string[] = [];
+    let failure = "";
+    for (const entry of abandoned) {
+      if (entry.kind === "edit") {
+        abandonedSteps.push({ kind: "edit", eventId: entry.eventId, path: entry.path });
+        continue;
+      }
+      abandonedSteps.push({
+        kind: failure ? "attempt" : "failure",
+        eventId: entry.eventId,
+        command: entry.command,
+        signature: entry.signature,
+      });
+      failure ||= entry.signature;
+      if (!failureCommands.includes(entry.command)) {
+        failureCommands.push(entry.command);
+      }
+    }
+
+    const backtrack: Backtrack = {
+      id: revert.step.eventId,
+      sessionId,
+      evidenceEventIds: [
+        ...abandonedSteps.map((step) => step.eventId),
+        revert.step.eventId,
+      ],
+      paths: [...new Set(edits.map((edit) => edit.path))].sort(),
+      revertKind: revert.kind,
+      ...(revert.command ? { revertCommand: revert.command } : {}),
+      failureSignature: failure,
+      abandonedSteps,
+      revertStep: revert.step,
+      workingSteps: [],
+    };
+    this.backtracks.add(backtrackKey(backtrack), backtrack);
+    this.artifacts = null;
+
+    state.history = state.history.filter(
+      (entry) => entry.kind === "edit" && !editIds.has(entry.eventId),
+    );
+    state.pending = { id: backtrack.id, failureCommands, steps: [] };
+    this.settle(sessionId, state);
+  }
+
+  private advancePending(
+    state: SessionState,
+    step: MinedArtifactStep | null,
+    isSuccess: boolean,
+  ): void {
+    const pending = state.pending;
+    if (!pending) {
+      return;
+    }
+
+    const fixesFailure =
+      pending.failureCommands.length > 0
+        ? pending.failureCommands.includes(step?.command ?? "")
+        : pending.steps.some((previous) => previous.kind === "edit");
+    if (step && isSuccess && fixesFailure) {
+      pending.steps.push({ ...step, kind: "success" });
+      this.linkWorkingApproach(pending);
+      state.pending = null;
+      return;
+    }
+
+    if (step) {
+      pending.steps.push(isSuccess ? { ...step, kind: "command" } : step);
+    }
+    if (pending.steps.length >= MAX_WORKING_STEPS) {
+      state.pending = null;
+    }
+  }
+
+  private linkWorkingApproach(pending: PendingWorkingApproach): void {
+    const backtrack = this.backtracks.remove(pending.id);
+    if (!backtrack) {
+      return;
+    }
+    this.backtracks.add(backtrackKey(backtrack), {
+      ...backtrack,
+      evidenceEventIds: [
+        ...backtrack.evidenceEventIds,
+        ...pending.steps.map((step) => step.eventId),
+      ],
+      workingSteps: pending.steps,
+    });
+    this.artifacts = null;
+  }
+
+  private settle(sessionId: string, state: SessionState): void {
+    if (state.history.length === 0 && !state.pending) {
+      this.sessions.delete(sessionId);
+    }
+  }
+
+  private rankArtifacts(): MinedArtifact[] {
+    const artifacts: MinedArtifact[] = [];
+    for (const group of this.backtracks.values()) {
+      const supportSessionCount = group.sessionCounts.size;
+      let representative = group.contributions[0];
+      for (const backtrack of group.contributions) {
+        if (backtrack.workingSteps.length > 0) {
+          representative = backtrack;
+        }
+      }
+      if (!representative || supportSessionCount < this.minSessions) {
+        continue;
+      }
+
+      const failureSteps = representative.abandonedSteps.filter(
+        (step) => step.kind === "failure",
+      );
+      const working = describeRecoverySteps([
+        ...failureSteps,
+        ...representative.workingSteps,
+      ]).join(", then ");
+      const workingEventId = representative.workingSteps.at(-1)?.eventId;
+      const failure = representative.failureSignature
+        ? ` after hitting "${representative.failureSignature}"`
+        : "";
+      const steps = [
+        ...representative.abandonedSteps,
+        representative.revertStep,
+        ...representative.workingSteps,
+      ];
+
+      artifacts.push({
+        id: `backtrack-${group.key}`,
+        kind: "anti_pattern",
+        summary: `Abandoned approach: edits to ${representative.paths.join(", ")} were ${describeRevert(representative)}${failure} in ${supportSessionCount} session(s).${working ? ` What worked afterwards: ${working}.` : ""}`,
+        confidence: supportConfidence(group.contributions.length, supportSessionCount),
+        evidenceEventIds: group.evidenceEventIds,
+        evidenceSessionIds: [...group.sessionCounts.keys()],
+        steps,
+        metadata: {
+          paths: representative.paths.join(","),
+          revertKind: representative.revertKind,
+          ...(representative.revertCommand
+            ? { revertCommand: representative.revertCommand }
+            : {}),
+          ...(representative.failureSignature
+            ? { failureSignature: representative.failureSignature }
+            : {}),
+          ...(working ? { workingApproach: working } : {}),
+          ...(workingEventId ? { workingEventId } : {}),
+          supportCount: group.contributions.length,
+          supportSessionCount,
+          crossSessionSupport: supportSessionCount >= 2,
+          stepCount: steps.length,
+        },
+      });
+    }
+
+    return artifacts.sort(compareMinedArtifacts);
+  }
+}
@@ -1,5 +1,12 @@
 import type { TraceIndex } from "./interfaces.js";
-import type { IndexedDocument, SearchQuery, SearchResult } from "./types.js";
+import type {
+  IndexedDocument,
+  SearchFilters,
+  SearchQuery,
+  SearchResult,
+  SearchResultExplanation,
+  TraceIndexStats,
+} from "./types.js";
 
 export interface CompositeTraceIndexOptions {
   primary: TraceIndex;
@@ -14,6 +21,8 @@ interface RankedHit {
   fusedScore: number;
   primaryRank: number | null;
   secondaryRank: number | null;
+  primaryExplanation?: SearchResultExplanation;
+  secondaryExplanation?: SearchResultExplanation;
 }
 
 const DEFAULT_RRF_K = 60;
@@ -42,6 +51,10 @@ export class CompositeTraceIndex implements TraceIndex {
   private readonly reciprocalRankFusionK: number;
   private readonly primaryWeight: number;
   private readonly secondaryWeight: number;
+  readonly remove?: (sourceEventIds: string[]) => Promise<number>;
+  readonly removeWhere?: (filters: SearchFilters) => Promise<number>;
+  readonly stats?: () => Promise<TraceIndexStats>;
+  readonly clear?: () => Promise<void>;
 
   constructor(options: CompositeTraceIndexOptions) {
     this.primary = options.primary;
@@ -55,6 +68,33 @@ export class CompositeTraceIndex implements TraceIndex {
       options.secondaryWeight,
       DEFAULT_SECONDARY_WEIGHT,
     );
+
+    // Maintenance methods exist only when both indexes have them, so callers see
+    // a missing method instead of an index that silently keeps documents.
+    const { primary, secondary } = options;
+    if (primary.remove && (!secondary || secondary.remove)) {
+      this.remove = async (sourceEventIds) => {
+        const removed = (await primary.remove?.(sourceEventIds)) ?? 0;
+        await secondary?.remove?.(sourceEventIds);
+        return removed;
+      };
+    }
+    if (primary.removeWhere && (!secondary || secondary.removeWhere)) {
+      this.removeWhere = async (filters) => {
+        const removed = (await primary.removeWhere?.(filters)) ?? 0;
+        await secondary?.removeWhere?.(filters);
+        return removed;
+      };
+    }
+    if (primary.stats) {
+      this.stats = primary.stats.bind(primary);
+    }
+    if (primary.clear && (!secondary || secondary.clear)) {
+      this.clear = async () => {
+        await primary.clear?.();
+        await secondary?.clear?.();
+      };
+    }
   }
 
   async upsert(document: IndexedDocument): Promise<void> {
@@ -84,13 +124,14 @@ export class CompositeTraceIndex implements TraceIndex {
       this.secondary.search({ ...query, limit: fanoutLimit }),
     ]);
 
-    return this.fuse(primaryResults, secondaryResults, limit);
+    return this.fuse(primaryResults, secondaryResults, limit, query);
   }
 
   private fuse(
     primaryResults: SearchResult[],
     secondaryResults: SearchResult[],
     limit: number,
+    query: SearchQuery,
   ): SearchResult[] {
     const byDocumentId = new Map<string, RankedHit>();
 
@@ -109,11 +150,13 @@ export class CompositeTraceIndex implements TraceIndex {
         if (source === "primary") {
           existing.primaryRank =
             existing.primaryRank === null ? rank : Math.min(existing.primaryRank, rank);
+          existing.primaryExplanation ??= result.explanation;
         } else {
           existing.secondaryRank =
             existing.secondaryRank === null
               ? rank
               : Math.min(existing.secondaryRank, rank);
+          existing.secondaryExplanation ??= result.explanation;
         }
         return;
       }
@@ -123,6 +166,8 @@ export class CompositeTraceIndex implements TraceIndex {
         fusedScore: reciprocalRank,
         primaryRank: source === "primary" ? rank : null,
         secondaryRank: source === "secondary" ? rank : null,
+        primaryExplanation: source === "primary" ? result.explanation : undefined,
+        secondaryExplanation: source === "secondary" ? result.explanation : undefined,
       });
     };
 
@@ -161,9 +206,30 @@ export class CompositeTraceIndex implements TraceIndex {
       })
       .slice(0, limit)
       .map((hit) => {
+        if (!query.explain) {
+          return {
+            document: hit.document,
+            score: hit.fusedScore,
+          };
+        }
+
         return {
           document: hit.document,
           score: hit.fusedScore,
+          explanation: {
+            source: "composite",
+            score: hit.fusedScore,
+            terms: (hit.primaryExplanation ?? hit.secondaryExplanation)?.terms ?? [],
+            ...(query.filters ? { filters: query.filters } : {}),
+            fusion: {
+              primaryRank: hit.primaryRank === null ? null : hit.primaryRank + 1,
+              secondaryRank: hit.secondaryRank === null ? null : hit.secondaryRank + 1,
+              ...(hit.primaryExplanation ? { primary: hit.primaryExplanation } : {}),
+              ...(hit.secondaryExplanation
+                ? { secondary: hit.secondaryExplanation }
+                : {}),
+            },
+          },
         };
       });
   }
@@ -0,0 +1,88 @@
+import type { SnapshottableTraceMiner, TraceMiner } from "./interfaces.js";
+import { compareMinedArtifacts } from "./miner.js";
+import { parseMinerSnapshot } from "./minerState.js";
+import type { MinedArtifact, MinerSnapshot, TraceEvent } from "./types.js";
+
+const COMPOSITE_MINER = "composite";
+
+function isSnapshottable(miner: TraceMiner): miner is SnapshottableTraceMiner {
+  const candidate = miner as Partial<SnapshottableTraceMiner>;
+  return (
+    typeof candidate.snapshot === "function" &&
+    typeof candidate.restoreSnapshot === "function"
+  );
+}
+
+export class CompositeTraceMiner implements SnapshottableTraceMiner {
+  private readonly miners: TraceMiner[];
+  readonly forget?: (eventIds: string[]) => Promise<void>;
+
+  constructor(miners: TraceMiner[]) {
+    if (miners.length === 0) {
+      throw new Error("CompositeTraceMiner needs at least one miner.");
+    }
+    this.miners = miners;
+    // The composite can only forget when every miner can, so LearningLoop.forget
+    // reports it instead of leaving some miners holding the events.
+    if (miners.every((miner) => miner.forget)) {
+      this.forget = async (eventIds) => {
+        for (const miner of this.miners) {
+          await miner.forget?.(eventIds);
+        }
+      };
+    }
+  }
+
+  async ingest(event: TraceEvent): Promise<void> {
+    for (const miner of this.miners) {
+      await miner.ingest(event);
+    }
+  }
+
+  async mine(limit = 50): Promise<MinedArtifact[]> {
+    const artifacts: MinedArtifact[] = [];
+    for (const miner of this.miners) {
+      artifacts.push(...(await miner.mine(limit)));
+    }
+    return artifacts.sort(compareMinedArtifacts).slice(0, limit);
+  }
+
+  snapshot(): MinerSnapshot {
+    return {
+      miner: COMPOSITE_MINER,
+      miners: this.snapshottableMiners().map((miner) => miner.snapshot()),
+      artifacts: null,
+    };
+  }
+
+  restoreSnapshot(data: unknown): void {
+    const snapshot = parseMinerSnapshot(data, COMPOSITE_MINER);
+    const miners = this.snapshottableMiners();
+    if (!Array.isArray(snapshot.miners) || snapshot.miners.length !== miners.length) {
+      throw new Error(
+        `Miner snapshot for composite must hold ${miners.length} miner snapshot(s).`,
+      );
+    }
+
+    const previous = miners.map((miner) => miner.snapshot());
+    try {
+      for (const [position, miner] of miners.entries()) {
+        miner.restoreSnapshot(snapshot.miners[position]);
+      }
+    } catch (error) {
+      for (const [position, miner] of miners.entries()) {
+        miner.restoreSnapshot(previous[position]);
+      }
+      throw error;
+    }
+  }
+
+  private snapshottableMiners(): SnapshottableTraceMiner[] {
+    return this.miners.map((miner, position) => {
+      if (!isSnapshottable(miner)) {
+        throw new Error(`Miner ${position} in CompositeTraceMiner cannot snapshot.`);
+      }
+      return miner;
+    });
+  }
+}
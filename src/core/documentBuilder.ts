@@ -1,9 +1,40 @@
+import { parseStructuredErrors, structuredErrorText } from "./errorParsers.js";
 import type { EventDocumentBuilder } from "./interfaces.js";
+import {
+  eventCommand,
+  eventDiff,
+  eventFilePath,
+  eventOutputText,
+  eventToolName,
+  toolResultIsError,
+} from "./payloads.js";
 import { extractErrorSignatures, extractLikelyFilePaths } from "./signatures.js";
 import type { IndexedDocument, TraceEvent } from "./types.js";
+import { parseUnifiedDiffHunks } from "./unifiedDiff.js";
+import {
+  normalizeWorkspacePath,
+  normalizeWorkspacePaths,
+  workspacePathOptionsForEvent,
+} from "./workspacePaths.js";
 
 const MAX_DOC_TEXT_LENGTH = 6_000;
 
+export type IndexedDocumentKind = "base" | "errorSignature" | "hunk" | "path";
+
+export function indexedDocumentKind(document: IndexedDocument): IndexedDocumentKind {
+  const metadata = document.metadata;
+  if (metadata?.isErrorSignature === true) {
+    return "errorSignature";
+  }
+  if (metadata?.isHunk === true) {
+    return "hunk";
+  }
+  if (metadata?.isPath === true) {
+    return "path";
+  }
+  return "base";
+}
+
 function toText(value: unknown): string {
   if (value === null || value === undefined) {
     return "";
@@ -62,7 +93,9 @@ function parseSweBenchSessionIdentity(sessionId: string): {
 
 export class DefaultEventDocumentBuilder implements EventDocumentBuilder {
   build(event: TraceEvent): IndexedDocument[] {
-    const payloadText = toText(event.payload);
+    const pathOptions = workspacePathOptionsForEvent(event);
+    const rawPayloadText = toText(event.payload);
+    const payloadText = normalizeWorkspacePaths(rawPayloadText, pathOptions);
     const baseText = compactWhitespace(`${event.type} ${event.harness} ${payloadText}`);
 
     const metadata: Record<string, string | number | boolean | null> = {
@@ -70,6 +103,7 @@ export class DefaultEventDocumentBuilder implements EventDocumentBuilder {
       harness: event.harness,
       scope: event.scope,
       sessionId: event.sessionId,
+      timestamp: event.timestamp,
     };
 
     if (event.metrics?.outcome) {
@@ -77,14 +111,37 @@ export class DefaultEventDocumentBuilder implements EventDocumentBuilder {
     }
 
     if (event.type === "tool_result") {
-      if (typeof event.payload.toolName === "string") {
-        metadata.toolName = event.payload.toolName;
+      const toolName = eventToolName(event);
+      if (toolName !== null) {
+        metadata.toolName = toolName;
       }
-      if (typeof event.payload.command === "string") {
-        metadata.command = event.payload.command;
+      const command = eventCommand(event);
+      if (command) {
+        metadata.command = command;
       }
-      if (typeof event.payload.isError === "boolean") {
-        metadata.isError = event.payload.isError;
+      const isError = toolResultIsError(event);
+      if (isError !== null) {
+        metadata.isError = isError;
+      }
+    }
+
+    const rawEditedPath = event.type === "file_edit" ? eventFilePath(event) : null;
+    const editedPath = rawEditedPath
+      ? normalizeWorkspacePath(rawEditedPath, pathOptions)
+      : null;
+    if (event.type === "file_edit") {
+      const toolName = eventToolName(event);
+      if (toolName !== null) {
+        metadata.toolName = toolName;
+      }
+      if (editedPath) {
+        metadata.filePath = editedPath;
+      }
+      if (rawEditedPath && rawEditedPath !== editedPath) {
+        metadata.originalFilePath = rawEditedPath;
+      }
+      if (event.payload.operation) {
+        metadata.editOperation = event.payload.operation;
       }
     }
 
@@ -108,10 +165,30 @@ export class DefaultEventDocumentBuilder implements EventDocumentBuilder {
       },
     ];
 
+    const structuredErrors = parseStructuredErrors(
+      normalizeWorkspacePaths(eventOutputText(event), pathOptions),
+    );
+    structuredErrors.forEach((error, index) => {
+      docs.push({
+        id: `${event.id}:err:${index}`,
+        sourceEventId: event.id,
+        text: structuredErrorText(error),
+        metadata: {
+          ...metadata,
+          isErrorSignature: true,
+          errorSource: error.source,
+          ...(error.code ? { errorCode: error.code } : {}),
+          ...(error.exceptionType ? { exceptionType: error.exceptionType } : {}),
+          ...(error.frame ? { errorFrame: error.frame } : {}),
+          ...(error.testId ? { testId: error.testId } : {}),
+        },
+      });
+    });
+
     const errorSignatures = extractErrorSignatures(payloadText);
     errorSignatures.forEach((signature, index) => {
       docs.push({
-        id: `${event.id}:err:${index}`,
+        id: `${event.id}:err:${structuredErrors.length + index}`,
         sourceEventId: event.id,
         text: signature,
         metadata: {
@@ -121,8 +198,43 @@ export class DefaultEventDocumentBuilder implements EventDocumentBuilder {
       });
     });
 
-    const filePaths = extractLikelyFilePaths(payloadText);
+    if (event.type === "file_edit") {
+      parseUnifiedDiffHunks(eventDiff(event)).forEach((hunk, index) => {
+        const changedLines = hunk.lines
+          .filter((line) => line.startsWith("+") || line.startsWith("-"))
+          .map((line) => line.slice(1));
+        const hunkText = compactWhitespace(
+          `${editedPath ?? ""} ${changedLines.join(" ")}`,
+        );
+        if (!hunkText) {
+          return;
+        }
+        docs.push({
+          id: `${event.id}:hunk:${index}`,
+          sourceEventId: event.id,
+          text: clipText(hunkText),
+          metadata: {
+            ...metadata,
+            isHunk: true,
+          },
+        });
+      });
+    }
+
+    const originalPaths = new Map<string, string>();
+    for (const rawPath of extractLikelyFilePaths(rawPayloadText)) {
+      const path = normalizeWorkspacePath(rawPath, pathOptions);
+      if (!originalPaths.has(path)) {
+        originalPaths.set(path, rawPath);
+      }
+    }
+    const filePaths = [...originalPaths.keys()];
+    if (editedPath && !originalPaths.has(editedPath)) {
+      filePaths.unshift(editedPath);
+      originalPaths.set(editedPath, rawEditedPath ?? editedPath);
+    }
     filePaths.forEach((path, index) => {
+      const originalPath = originalPaths.get(path);
       docs.push({
         id: `${event.id}:path:${index}`,
         sourceEventId: event.id,
@@ -130,6 +242,7 @@ export class DefaultEventDocumentBuilder implements EventDocumentBuilder {
         metadata: {
           ...metadata,
           isPath: true,
+          ...(originalPath && originalPath !== path ? { originalPath } : {}),
         },
       });
     });
@@ -0,0 +1,463 @@
+export type StructuredErrorSource =
+  | "python"
+  | "tsc"
+  | "vitest"
+  | "jest"
+  | "pytest"
+  | "go"
+  | "rust"
+  | "npm"
+  | "eslint"
+  | "biome";
+
+export interface StructuredErrorSignature {
+  source: StructuredErrorSource;
+  signature: string;
+  message: string;
+  code?: string;
+  exceptionType?: string;
+  frame?: string;
+  testId?: string;
+}
+
+type StructuredErrorParser = (lines: string[]) => StructuredErrorSignature[];
+
+const ANSI_PATTERN = new RegExp(`${String.fromCharCode(27)}\\[[0-9;]*m`, "g");
+const NON_REPO_PATH_PATTERN =
+  /(?:site-packages|dist-packages|node_modules|^<|^node:|\/usr\/lib\/|\/usr\/local\/lib\/|\/lib\/python\d|\/rustc\/|\.cargo\/registry|\/go\/pkg\/mod\/|\/usr\/local\/go\/)/;
+const EXCEPTION_NAME_PATTERN =
+  /(?:Error|Exception|Exit|Interrupt|Warning|Failure|Fault)$/;
+const EXCEPTION_LINE_PATTERN = /^([A-Za-z_][\w.]*)(?::\s*(.*))?$/;
+
+const PYTHON_FRAME_PATTERN = /^\s*File "(.+?)", line (\d+)/;
+const TSC_PATTERNS = [
+  /^(.+?)\((\d+),\d+\): error (TS\d+): (.*)$/,
+  /^(.+?):(\d+):\d+ - error (TS\d+): (.*)$/,
+];
+const VITEST_FAIL_PATTERN = /^\s*FAIL\s+(\S+\.[cm]?[jt]sx?)\s+>\s+(.+)$/;
+const JEST_FAIL_PATTERN = /^\s*●\s+(.+)$/;
+const JS_ERROR_PATTERN = /^\s*(?:→\s*)?([A-Z]\w*(?:Error|Exception)):\s*(.*)$/;
+const JS_FRAME_PATTERNS = [
+  /❯\s+(\S+?):(\d+):\d+/,
+  /\bat .*\((.+?):(\d+):\d+\)$/,
+  /\bat (\S+?):(\d+):\d+$/,
+];
+const PYTEST_SUMMARY_PATTERN = /^(FAILED|ERROR)\s+(\S+?)(?:\s+-\s+(.*))?$/;
+const PYTEST_LOCATION_PATTERN = /^(\S+\.py):(\d+): ([\w.]+)$/;
+const GO_FAIL_PATTERN = /^\s*--- FAIL: (\S+)/;
+const GO_TEST_LOG_PATTERN = /^\s+(\S+\.go):(\d+): (.+)$/;
+const GO_COMPILE_PATTERN = /^(\S+\.go):(\d+):\d+: (.+)$/;
+const RUST_ERROR_PATTERN = /^error(?:\[(E\d{4})\])?: (.*)$/;
+const RUST_LOCATION_PATTERN = /^\s*--> (.+?):(\d+):\d+$/;
+const RUST_PANIC_PATTERN =
+  /^thread '(.+?)' panicked at (?:'(.*)', )?(.+?):(\d+):\d+:?$/;
+const NPM_LINE_PATTERN = /^npm (?:ERR!|error) ?(.*)$/;
+const ESLINT_PROBLEM_PATTERN = /^\s+(\d+):\d+\s+error\s+(.+?)\s{2,}(\S+)$/;
+const BIOME_HEADER_PATTERN =
+  /^(\S+?):(\d+):\d+\s+((?:lint|format|parse|assist|organizeImports)[\w/]*)/;
+const BIOME_MESSAGE_PATTERN = /^\s*[×!]\s+(.+)$/;
+
+function stableMessage(message: string): string {
+  return message
+    .replace(/\b0x[0-9a-f]+\b/gi, "<hex>")
+    .replace(/\b[0-9a-f]{8,}\b/gi, "<hex>")
+    .replace(/\b\d+\b/g, "<num>")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, 160);
+}
+
+function isRepoPath(path: string): boolean {
+  return !NON_REPO_PATH_PATTERN.test(path);
+}
+
+function frameLabel(path: string, line: string | number): string {
+  return `${path.replace(/^\.\//, "")}:${line}`;
+}
+
+function typedSignature(type: string, message: string): string {
+  return message ? `${type}: ${message}` : type;
+}
+
+function parsePythonTracebacks(lines: string[]): StructuredErrorSignature[] {
+  const output: StructuredErrorSignature[] = [];
+  for (let index = 0; index < lines.length; index += 1) {
+    if (!lines[index]?.startsWith("Traceback (most recent call last)")) {
+      continue;
+    }
+
+    let repoFrame: string | undefined;
+    for (index += 1; index < lines.length; index += 1) {
+      const line = lines[index] ?? "";
+      const frame = PYTHON_FRAME_PATTERN.exec(line);
+      if (frame?.[1] && frame[2]) {
+        if (isRepoPath(frame[1])) {
+          repoFrame = frameLabel(frame[1], frame[2]);
+        }
+        continue;
+      }
+      if (!line.trim() || /^\s/.test(line)) {
+        continue;
+      }
+
+      const exception = EXCEPTION_LINE_PATTERN.exec(line.trim());
+      const exceptionType = exception?.[1];
+      if (exceptionType && EXCEPTION_NAME_PATTERN.test(exceptionType)) {
+        const message = stableMessage(exception[2] ?? "");
+        output.push({
+          source: "python",
+          signature: typedSignature(exceptionType, message),
+          message,
+          exceptionType,
+          ...(repoFrame ? { frame: repoFrame } : {}),
+        });
+      }
+      break;
+    }
+  }
+  return output;
+}
+
+function parseTscDiagnostics(lines: string[]): StructuredErrorSignature[] {
+  const output: StructuredErrorSignature[] = [];
+  for (const line of lines) {
+    for (const pattern of TSC_PATTERNS) {
+      const match = pattern.exec(line.trim());
+      if (!match?.[1] || !match[2] || !match[3]) {
+        continue;
+      }
+      const message = stableMessage(match[4] ?? "");
+      output.push({
+        source: "tsc",
+        signature: typedSignature(match[3], message),
+        message,
+        code: match[3],
+        frame: frameLabel(match[1], match[2]),
+      });
+      break;
+    }
+  }
+  return output;
+}
+
+function jsFrame(line: string): string | undefined {
+  for (const pattern of JS_FRAME_PATTERNS) {
+    const match = pattern.exec(line);
+    if (match?.[1] && match[2] && isRepoPath(match[1])) {
+      return frameLabel(match[1], match[2]);
+    }
+  }
+  return undefined;
+}
+
+function parseJsTestFailures(lines: string[]): StructuredErrorSignature[] {
+  const output: StructuredErrorSignature[] = [];
+  for (let index = 0; index < lines.length; index += 1) {
+    const line = lines[index] ?? "";
+    const vitest = VITEST_FAIL_PATTERN.exec(line);
+    const jest = vitest ? null : JEST_FAIL_PATTERN.exec(line);
+    if (!vitest && !jest?.[1]) {
+      continue;
+    }
+    if (jest?.[1]?.startsWith("Test suite failed to run")) {
+      continue;
+    }
+
+    const testId = vitest
+      ? `${vitest[1]} > ${vitest[2]?.trim()}`
+      : (jest?.[1]?.trim() ?? "");
+    let exceptionType: string | undefined;
+    let message = "";
+    let frame: string | undefined;
+    for (let probe = index + 1; probe < lines.length; probe += 1) {
+      const next = lines[probe] ?? "";
+      if (VITEST_FAIL_PATTERN.test(next) || JEST_FAIL_PATTERN.test(next)) {
+        break;
+      }
+      const error = exceptionType ? null : JS_ERROR_PATTERN.exec(next);
+      if (error?.[1]) {
+        exceptionType = error[1];
+        message = stableMessage(error[2] ?? "");
+        continue;
+      }
+      if (exceptionType && !frame) {
+        frame = jsFrame(next);
+        if (frame) {
+          break;
+        }
+      }
+    }
+
+    output.push({
+      source: vitest ? "vitest" : "jest",
+      signature: exceptionType
+        ? typedSignature(exceptionType, message)
+        : `FAIL ${testId}`,
+      message,
+      testId,
+      ...(exceptionType ? { exceptionType } : {}),
+      ...(frame ? { frame } : {}),
+    });
+  }
+  return output;
+}
+
+function parsePytestSummary(lines: string[]): StructuredErrorSignature[] {
+  const locations = new Map<string, string>();
+  for (const line of lines) {
+    const location = PYTEST_LOCATION_PATTERN.exec(line.trim());
+    if (location?.[1] && location[2] && location[3] && isRepoPath(location[1])) {
+      locations.set(location[3], frameLabel(location[1], location[2]));
+    }
+  }
+
+  const output: StructuredErrorSignature[] = [];
+  for (const line of lines) {
+    const summary = PYTEST_SUMMARY_PATTERN.exec(line.trim());
+    const testId = summary?.[2];
+    if (!testId || !(testId.includes("::") || testId.endsWith(".py"))) {
+      continue;
+    }
+
+    const detail = EXCEPTION_LINE_PATTERN.exec(summary[3]?.trim() ?? "");
+    const exceptionType =
+      detail?.[1] && EXCEPTION_NAME_PATTERN.test(detail[1]) ? detail[1] : undefined;
+    const message = stableMessage(
+      exceptionType ? (detail?.[2] ?? "") : (summary[3] ?? ""),
+    );
+    const frame = exceptionType ? locations.get(exceptionType) : undefined;
+    output.push({
+      source: "pytest",
+      signature: exceptionType
+        ? typedSignature(exceptionType, message)
+        : `${summary[1]} ${testId}`,
+      message,
+      testId,
+      ...(exceptionType ? { exceptionType } : {}),
+      ...(frame ? { frame } : {}),
+    });
+  }
+  return output;
+}
+
+function parseGoFailures(lines: string[]): StructuredErrorSignature[] {
+  const output: StructuredErrorSignature[] = [];
+  const panicLine = lines.find((line) => line.startsWith("panic: "));
+  const panic = panicLine ? stableMessage(panicLine.slice("panic: ".length)) : "";
+
+  for (let index = 0; index < lines.length; index += 1) {
+    const line = lines[index] ?? "";
+    const compile = GO_COMPILE_PATTERN.exec(line.trim());
+    if (compile?.[1] && compile[2] && compile[3]) {
+      const message = stableMessage(compile[3]);
+      output.push({
+        source: "go",
+        signature: message,
+        message,
+        frame: frameLabel(compile[1], compile[2]),
+      });
+      continue;
+    }
+
+    const fail = GO_FAIL_PATTERN.exec(line);
+    if (!fail?.[1]) {
+      continue;
+    }
+    const log = GO_TEST_LOG_PATTERN.exec(lines[index + 1] ?? "");
+    const message = log?.[3] ? stableMessage(log[3]) : panic;
+    output.push({
+      source: "go",
+      signature: typedSignature(`FAIL ${fail[1]}`, message),
+      message,
+      testId: fail[1],
+      ...(!log && panic ? { exceptionType: "panic" } : {}),
+      ...(log?.[1] && log[2] ? { frame: frameLabel(log[1], log[2]) } : {}),
+    });
+  }
+  return output;
+}
+
+function parseRustErrors(lines: string[]): StructuredErrorSignature[] {
+  const output: StructuredErrorSignature[] = [];
+  for (let index = 0; index < lines.length; index += 1) {
+    const line = lines[index] ?? "";
+    const error = RUST_ERROR_PATTERN.exec(line);
+    if (error?.[2]) {
+      if (/^(?:aborting due to|could not compile)/.test(error[2])) {
+        continue;
+      }
+      const location = RUST_LOCATION_PATTERN.exec(lines[index + 1] ?? "");
+      const message = stableMessage(error[2]);
+      output.push({
+        source: "rust",
+        signature: error[1] ? typedSignature(error[1], message) : message,
+        message,
+        ...(error[1] ? { code: error[1] } : {}),
+        ...(location?.[1] && location[2]
+          ? { frame: frameLabel(location[1], location[2]) }
+          : {}),
+      });
+      continue;
+    }
+
+    const panic = RUST_PANIC_PATTERN.exec(line);
+    if (panic?.[1] && panic[3] && panic[4]) {
+      const message = stableMessage(panic[2] ?? lines[index + 1] ?? "");
+      output.push({
+        source: "rust",
+        signature: typedSignature("panic", message),
+        message,
+        exceptionType: "panic",
+        ...(panic[1] !== "main" ? { testId: panic[1] } : {}),
+        ...(isRepoPath(panic[3]) ? { frame: frameLabel(panic[3], panic[4]) } : {}),
+      });
+    }
+  }
+  return output;
+}
+
+function parseNpmErrors(lines: string[]): StructuredErrorSignature[] {
+  let code: string | undefined;
+  let message = "";
+  for (const line of lines) {
+    const match = NPM_LINE_PATTERN.exec(line.trim());
+    const body = match?.[1]?.trim();
+    if (!body) {
+      continue;
+    }
+    const codeMatch = /^code (\S+)$/.exec(body);
+    if (codeMatch?.[1]) {
+      code ??= codeMatch[1];
+      continue;
+    }
+    if (
+      !message &&
+      !/^(?:errno|syscall|path|command|cwd|signal|A complete log|Log files)\b/.test(
+        body,
+      )
+    ) {
+      message = stableMessage(body);
+    }
+  }
+
+  if (!code && !message) {
+    return [];
+  }
+  return [
+    {
+      source: "npm",
+      signature: typedSignature(`npm ${code ?? "ERR"}`, message),
+      message,
+      ...(code ? { code } : {}),
+    },
+  ];
+}
+
+function parseEslintProblems(lines: string[]): StructuredErrorSignature[] {
+  const output: StructuredErrorSignature[] = [];
+  let file: string | undefined;
+  for (const line of lines) {
+    if (line && !/^\s/.test(line) && /\.[cm]?[jt]sx?$/.test(line.trim())) {
+      file = line.trim();
+      continue;
+    }
+    const problem = ESLINT_PROBLEM_PATTERN.exec(line);
+    if (!file || !problem?.[1] || !problem[2] || !problem[3]) {
+      continue;
+    }
+    const message = stableMessage(problem[2]);
+    output.push({
+      source: "eslint",
+      signature: typedSignature(problem[3], message),
+      message,
+      code: problem[3],
+      frame: frameLabel(file, problem[1]),
+    });
+  }
+  return output;
+}
+
+function parseBiomeDiagnostics(lines: string[]): StructuredErrorSignature[] {
+  const output: StructuredErrorSignature[] = [];
+  for (let index = 0; index < lines.length; index += 1) {
+    const header = BIOME_HEADER_PATTERN.exec(lines[index]?.trim() ?? "");
+    if (!header?.[1] || !header[2] || !header[3]) {
+      continue;
+    }
+
+    let message = "";
+    for (
+      let probe = index + 1;
+      probe < lines.length && probe <= index + 4;
+      probe += 1
+    ) {
+      const match = BIOME_MESSAGE_PATTERN.exec(lines[probe] ?? "");
+      if (match?.[1]) {
+        message = stableMessage(match[1]);
+        break;
+      }
+    }
+    output.push({
+      source: "biome",
+      signature: typedSignature(header[3], message),
+      message,
+      code: header[3],
+      frame: frameLabel(header[1], header[2]),
+    });
+  }
+  return output;
+}
+
+const PARSERS: StructuredErrorParser[] = [
+  parsePythonTracebacks,
+  parsePytestSummary,
+  parseTscDiagnostics,
+  parseJsTestFailures,
+  parseGoFailures,
+  parseRustErrors,
+  parseNpmErrors,
+  parseEslintProblems,
+  parseBiomeDiagnostics,
+];
+
+export function parseStructuredErrors(
+  text: string,
+  maxSignatures = 8,
+): StructuredErrorSignature[] {
+  if (!text) {
+    return [];
+  }
+
+  const lines = text.replace(ANSI_PATTERN, "").split(/\r?\n/);
+  const output: StructuredErrorSignature[] = [];
+  const seen = new Set<string>();
+  for (const parser of PARSERS) {
+    for (const signature of parser(lines)) {
+      const key = `${signature.signature}|${signature.testId ?? ""}`;
+      if (seen.has(key)) {
+        continue;
+      }
+      seen.add(key);
+      output.push(signature);
+      if (output.length >= maxSignatures) {
+        return output;
+      }
+    }
+  }
+  return output;
+}
+
+export function structuredErrorText(signature: StructuredErrorSignature): string {
+  const parts = [signature.signature];
+  for (const part of [
+    signature.code,
+    signature.exceptionType,
+    signature.testId,
+    signature.frame,
+  ]) {
+    if (part && !parts.join(" ").includes(part)) {
+      parts.push(part);
+    }
+  }
+  return parts.join(" ");
+}
@@ -1,4 +1,15 @@
-import type { TokenUsage, TraceEvent, TraceScope } from "./types.js";
+import {
+  eventCommand,
+  eventOutputText,
+  isToolResultFailure,
+  isToolResultSuccess,
+} from "./payloads.js";
+import type {
+  TokenUsage,
+  TraceEvent,
+  TraceEventTemplate,
+  TraceScope,
+} from "./types.js";
 import type { WrongTurnDataset } from "./wrongTurnDataset.js";
 import type {
   SuggestionQualityGate,
@@ -104,26 +115,12 @@ function normalizeWhitespace(value: string): string {
   return value.replace(/\s+/g, " ").trim();
 }
 
-function eventCommand(event: TraceEvent): string {
-  const command = event.payload?.command;
-  if (typeof command === "string") {
-    return normalizeWhitespace(command);
-  }
-  return "";
+function normalizedEventCommand(event: TraceEvent): string {
+  return normalizeWhitespace(eventCommand(event));
 }
 
 function eventText(event: TraceEvent): string {
-  const payloadText = event.payload?.text;
-  if (typeof payloadText === "string" && payloadText.trim()) {
-    return payloadText.trim();
-  }
-
-  const payloadOutput = event.payload?.output;
-  if (typeof payloadOutput === "string" && payloadOutput.trim()) {
-    return payloadOutput.trim();
-  }
-
-  return "";
+  return eventOutputText(event).trim();
 }
 
 function truncateText(input: string, maxChars: number): string {
@@ -198,33 +195,13 @@ function buildQueryText(
   return truncateText(normalized, maxChars);
 }
 
-function isFailureToolResult(event: TraceEvent): boolean {
-  if (event.type !== "tool_result") {
-    return false;
-  }
-  if (event.metrics?.outcome === "failure") {
-    return true;
-  }
-  return event.payload?.isError === true;
-}
-
-function isSuccessToolResult(event: TraceEvent): boolean {
-  if (event.type !== "tool_result") {
-    return false;
-  }
-  if (event.metrics?.outcome === "success") {
-    return true;
-  }
-  return event.payload?.isError === false;
-}
-
 function toTemplateCaptureEvent(
   event: TraceEvent,
   options: {
     fallbackHarness: string;
     fallbackScope: TraceScope;
   },
-): Omit<TraceEvent, "id" | "timestamp" | "sessionId"> {
+): TraceEventTemplate {
   const harness = event.harness || options.fallbackHarness;
   const scope = event.scope || options.fallbackScope;
 
@@ -587,14 +564,14 @@ export function extractWrongTurnScenarioTemplatesFromEvents(
 
   for (let index = 0; index < sortedEvents.length; index += 1) {
     const failureEvent = sortedEvents[index];
-    if (!failureEvent || !isFailureToolResult(failureEvent)) {
+    if (!failureEvent || !isToolResultFailure(failureEvent)) {
       continue;
     }
 
     let successIndex = -1;
     for (let probe = index + 1; probe < sortedEvents.length; probe += 1) {
       const candidate = sortedEvents[probe];
-      if (candidate && isSuccessToolResult(candidate)) {
+      if (candidate && isToolResultSuccess(candidate)) {
         successIndex = probe;
         break;
       }
@@ -609,8 +586,8 @@ export function extractWrongTurnScenarioTemplatesFromEvents(
       continue;
     }
 
-    const failureCommand = eventCommand(failureEvent);
-    const successCommand = eventCommand(successEvent);
+    const failureCommand = normalizedEventCommand(failureEvent);
+    const successCommand = normalizedEventCommand(successEvent);
     const failureText = eventText(failureEvent);
     const successText = eventText(successEvent);
 
@@ -1,28 +1,63 @@
+import type { TraceWatermark } from "./traceQuery.js";
 import type {
   IndexedDocument,
   LearningSuggestion,
   MinedArtifact,
+  MinerSnapshot,
+  SearchFilters,
   SearchQuery,
   SearchResult,
   TraceEvent,
+  TraceForgetRequest,
+  TraceForgetResult,
+  TraceIndexStats,
   TraceQuery,
+  TraceQueryPage,
 } from "./types.js";
 
 export interface TraceStore {
   append(event: TraceEvent): Promise<void>;
   appendMany(events: TraceEvent[]): Promise<void>;
   query(query: TraceQuery): Promise<TraceEvent[]>;
+  /** Optional; `queryTracePage()` pages over `query()` when it is missing. */
+  queryPage?(query: TraceQuery): Promise<TraceQueryPage>;
+  forget?(request: TraceForgetRequest): Promise<TraceForgetResult>;
+}
+
+export interface Tokenizer {
+  readonly id: string;
+  tokenize(text: string): string[];
 }
 
 export interface TraceIndex {
   upsert(document: IndexedDocument): Promise<void>;
   upsertMany(documents: IndexedDocument[]): Promise<void>;
   search(query: SearchQuery): Promise<SearchResult[]>;
+  remove?(sourceEventIds: string[]): Promise<number>;
+  removeWhere?(filters: SearchFilters): Promise<number>;
+  stats?(): Promise<TraceIndexStats>;
+  clear?(): Promise<void>;
+}
+
+export interface TraceIndexSnapshotter {
+  load(): Promise<TraceWatermark | null>;
+  save(watermark: TraceWatermark | null): Promise<void>;
 }
 
 export interface TraceMiner {
   ingest(event: TraceEvent): Promise<void>;
   mine(limit?: number): Promise<MinedArtifact[]>;
+  forget?(eventIds: string[]): Promise<void>;
+}
+
+export interface SnapshottableTraceMiner extends TraceMiner {
+  snapshot(): MinerSnapshot;
+  restoreSnapshot(data: unknown): void;
+}
+
+export interface TraceMinerSnapshotter {
+  load(): Promise<TraceWatermark | null>;
+  save(watermark: TraceWatermark | null): Promise<void>;
 }
 
 export interface EventDocumentBuilder {
@@ -3,15 +3,31 @@ import type {
   EventDocumentBuilder,
   SearchResultReranker,
   TraceIndex,
+  TraceIndexSnapshotter,
   TraceMiner,
+  TraceMinerSnapshotter,
   TraceStore,
 } from "./interfaces.js";
+import { describeRecoverySteps } from "./miner.js";
+import { Redactor, type TraceEventRedactor } from "./redaction.js";
+import { type ParsedCommandSegment, parseShellCommand } from "./shellCommand.js";
+import {
+  type TraceWatermark,
+  advanceTraceWatermark,
+  isAfterTraceWatermark,
+} from "./traceQuery.js";
+import {
+  type TraceEventMigrationRegistry,
+  assertValidTraceEvent,
+} from "./traceSchema.js";
 import type {
   LearningSuggestion,
   MinedArtifact,
   SearchQuery,
   SearchResult,
   TraceEvent,
+  TraceForgetRequest,
+  TraceForgetResult,
   TraceQuery,
 } from "./types.js";
 
@@ -21,11 +37,28 @@ export interface LearningLoopOptions {
   miner?: TraceMiner;
   documentBuilder?: EventDocumentBuilder;
   resultReranker?: SearchResultReranker;
+  migrations?: TraceEventMigrationRegistry;
+  redactor?: TraceEventRedactor | null;
+  indexSnapshotter?: TraceIndexSnapshotter;
+  minerSnapshotter?: TraceMinerSnapshotter;
 }
 
 export interface BootstrapFromStoreResult {
   eventCount: number;
   documentCount: number;
+  restoredFromSnapshot: boolean;
+  restoredMinerFromSnapshot: boolean;
+}
+
+export interface RebuildIndexResult {
+  eventCount: number;
+  documentCount: number;
+}
+
+export type ForgetComponent = "store" | "index" | "miner";
+
+export interface LearningLoopForgetResult extends TraceForgetResult {
+  unsupported: ForgetComponent[];
 }
 
 export interface BootstrapFromStoreOptions {
@@ -41,6 +74,18 @@ const MIN_ARTIFACT_SUPPORT_COUNT = 2;
 const MIN_ARTIFACT_SUPPORT_SESSION_COUNT = 2;
 const WEAK_RETRIEVAL_CONFIDENCE_THRESHOLD = 0.45;
 
+function earlierWatermark(
+  left: TraceWatermark | null,
+  right: TraceWatermark | null,
+): TraceWatermark | null {
+  if (!left || !right) {
+    return null;
+  }
+  return new Date(left.timestamp).getTime() <= new Date(right.timestamp).getTime()
+    ? left
+    : right;
+}
+
 function clipForHint(text: string, maxLength = 180): string {
   if (text.length <= maxLength) {
     return text;
@@ -130,42 +175,59 @@ function payloadTextFromDocumentText(text: string): string | null {
   return value && value.length > 0 ? value : null;
 }
 
+const TRIVIAL_PROGRAMS = new Set([
+  "ls",
+  "pwd",
+  "whoami",
+  "date",
+  "echo",
+  "cat",
+  "head",
+  "tail",
+  "wc",
+]);
+const BROAD_TEST_PACKAGE_MANAGERS = new Set(["npm", "pnpm", "yarn"]);
+const TARGETED_TEST_FLAGS = ["-k", "--maxfail", "--filter", "--grep"];
+
+function isBroadTestCommand(segment: ParsedCommandSegment): boolean {
+  if (segment.program === "pytest") {
+    return true;
+  }
+  if (BROAD_TEST_PACKAGE_MANAGERS.has(segment.program)) {
+    return segment.subcommand === "test";
+  }
+  return (
+    (segment.program === "go" || segment.program === "pants") &&
+    segment.subcommand === "test"
+  );
+}
+
 function isLowSignalCommand(command: string): boolean {
-  const normalized = command.trim().toLowerCase();
-  if (!normalized) {
+  const segment = parseShellCommand(command).effective;
+  if (!segment) {
     return false;
   }
 
-  const trivialPatterns = [
-    /^(ls|pwd|whoami|date)(\s|$)/,
-    /^(echo|cat|head|tail|wc)(\s|$)/,
-    /^git\s+status(\s|$)/,
-  ];
-
-  if (trivialPatterns.some((pattern) => pattern.test(normalized))) {
+  if (
+    TRIVIAL_PROGRAMS.has(segment.program) ||
+    (segment.program === "git" && segment.subcommand === "status")
+  ) {
     return true;
   }
 
-  const broadTestCommandPattern =
-    /^(?:python\s+-m\s+)?(?:pytest|npm\s+(?:run\s+)?test|pnpm\s+test|yarn\s+test|go\s+test|pants\s+test)(\s|$)/;
-
-  if (!broadTestCommandPattern.test(normalized)) {
+  if (!isBroadTestCommand(segment)) {
     return false;
   }
 
-  const targetedMarkers = [
-    /\s-k\s+\S+/,
-    /\s--maxfail(?:=|\s)\d+/,
-    /\s--filter\s+\S+/,
-    /\s--grep\s+\S+/,
-    /\s--\s+--\S+/,
-    /\//,
-    /::/,
-  ];
-
-  const hasTargetMarker = targetedMarkers.some((pattern) => {
-    return pattern.test(normalized);
-  });
+  const words = [...segment.args, ...segment.flags, ...segment.passthrough];
+  const hasTargetMarker =
+    words.some((word) => word.includes("/") || word.includes("::")) ||
+    segment.flags.some((flag) =>
+      TARGETED_TEST_FLAGS.some(
+        (target) => flag === target || flag.startsWith(`${target}=`),
+      ),
+    ) ||
+    segment.passthrough.some((word) => word.startsWith("--"));
 
   return !hasTargetMarker;
 }
@@ -178,6 +240,10 @@ function commandConfidenceScale(command: string): number {
   return 1;
 }
 
+function explanationFields(hit: SearchResult): Pick<LearningSuggestion, "explanation"> {
+  return hit.explanation ? { explanation: hit.explanation } : {};
+}
+
 function toolResultOutcomeFromSearchResult(hit: SearchResult): ToolResultOutcome {
   const metadata = hit.document.metadata;
   if (metadata?.eventType !== "tool_result") {
@@ -351,6 +417,61 @@ function artifactSupportWeight(artifact: MinedArtifact): number {
   return Math.max(0, Math.min(1, (countWeight + sessionWeight) / 2));
 }
 
+function recoveryStepsMarkdown(artifact: MinedArtifact): string {
+  const steps = describeRecoverySteps(artifact.steps ?? []);
+  if (steps.length < 2) {
+    return "";
+  }
+  return `\n- Steps:\n${steps.map((step, index) => `  ${index + 1}. ${step}`).join("\n")}`;
+}
+
+function antiPatternAction(artifact: MinedArtifact): string {
+  if (artifact.metadata?.revertKind === undefined) {
+    return "Do not repeat this command as-is; change the command, inputs or environment first.";
+  }
+  const working = artifact.metadata.workingApproach;
+  return typeof working === "string"
+    ? `Do not retry the abandoned edits; ${working}.`
+    : "Do not retry the abandoned edits; pick a different approach for these files.";
+}
+
+function artifactSuggestion(
+  artifact: MinedArtifact,
+  supportCount: number,
+  supportSessionCount: number,
+  confidence: number,
+): LearningSuggestion {
+  const support = `${supportSessionCount} session(s), ${supportCount} occurrence(s)`;
+  const base = {
+    id: `artifact-${artifact.id}`,
+    rationale: `${artifact.summary} (support: ${support}).`,
+    confidence,
+    evidenceEventIds: artifact.evidenceEventIds,
+  };
+
+  if (artifact.kind === "anti_pattern") {
+    return {
+      ...base,
+      title: "Anti-pattern warning",
+      playbookMarkdown: `- Warning: ${artifact.summary}\n- Support: ${support}\n- Action: ${antiPatternAction(artifact)}`,
+    };
+  }
+
+  if (artifact.kind === "happy_path") {
+    return {
+      ...base,
+      title: "Known happy path",
+      playbookMarkdown: `- Pattern: ${artifact.summary}\n- Support: ${support}${recoveryStepsMarkdown(artifact)}\n- Action: Follow these steps in order and check the result of the last one.`,
+    };
+  }
+
+  return {
+    ...base,
+    title: "Learned wrong-turn correction",
+    playbookMarkdown: `- Pattern: ${artifact.summary}\n- Support: ${support}${recoveryStepsMarkdown(artifact)}\n- Action: ${verifyFirstAction(null)}`,
+  };
+}
+
 function hasStrongArtifactSupport(artifact: MinedArtifact): boolean {
   const countSupport = artifactSupportCount(artifact);
   const sessionSupport = artifactSupportSessionCount(artifact);
@@ -368,6 +489,12 @@ export class LearningLoop {
   private readonly miner?: TraceMiner;
   private readonly documentBuilder: EventDocumentBuilder;
   private readonly resultReranker?: SearchResultReranker;
+  private readonly migrations?: TraceEventMigrationRegistry;
+  private readonly redactor: TraceEventRedactor | null;
+  private readonly indexSnapshotter?: TraceIndexSnapshotter;
+  private readonly minerSnapshotter?: TraceMinerSnapshotter;
+  private indexWatermark: TraceWatermark | null = null;
+  private minerWatermark: TraceWatermark | null = null;
   private hasBootstrappedFromStore = false;
 
   constructor(options: LearningLoopOptions) {
@@ -376,9 +503,17 @@ export class LearningLoop {
     this.miner = options.miner;
     this.documentBuilder = options.documentBuilder ?? new DefaultEventDocumentBuilder();
     this.resultReranker = options.resultReranker;
+    this.migrations = options.migrations;
+    this.redactor = options.redactor === undefined ? new Redactor() : options.redactor;
+    this.indexSnapshotter = options.indexSnapshotter;
+    this.minerSnapshotter = options.minerSnapshotter;
   }
 
-  async ingest(event: TraceEvent): Promise<void> {
+  async ingest(rawEvent: TraceEvent): Promise<void> {
+    const validEvent = assertValidTraceEvent(rawEvent, {
+      migrations: this.migrations,
+    });
+    const event = this.redactor ? this.redactor.redactEvent(validEvent) : validEvent;
     await this.store.append(event);
 
     const docs = this.documentBuilder.build(event);
@@ -388,6 +523,7 @@ export class LearningLoop {
 
     if (this.miner) {
       await this.miner.ingest(event);
+      this.minerWatermark = advanceTraceWatermark(this.minerWatermark, event);
     }
   }
 
@@ -399,33 +535,105 @@ export class LearningLoop {
       return {
         eventCount: 0,
         documentCount: 0,
+        restoredFromSnapshot: false,
+        restoredMinerFromSnapshot: false,
       };
     }
 
-    const events = await this.store.query(query);
+    let restoredFromSnapshot = false;
+    let restoredWatermark: TraceWatermark | null = null;
+    if (this.indexSnapshotter) {
+      if (!this.hasBootstrappedFromStore) {
+        this.indexWatermark = await this.indexSnapshotter.load();
+        restoredFromSnapshot = this.indexWatermark !== null;
+      }
+      restoredWatermark = this.indexWatermark;
+    }
+
+    let restoredMinerFromSnapshot = false;
+    if (
+      this.minerSnapshotter &&
+      !this.hasBootstrappedFromStore &&
+      this.minerWatermark === null
+    ) {
+      this.minerWatermark = await this.minerSnapshotter.load();
+      restoredMinerFromSnapshot = this.minerWatermark !== null;
+    }
+    const restoredMinerWatermark =
+      this.hasBootstrappedFromStore || restoredMinerFromSnapshot
+        ? this.minerWatermark
+        : null;
+
+    const replayWatermark = this.miner
+      ? earlierWatermark(restoredWatermark, restoredMinerWatermark)
+      : restoredWatermark;
+    const storeQuery =
+      replayWatermark && !query.since
+        ? { ...query, since: replayWatermark.timestamp }
+        : query;
+    const events = await this.store.query(storeQuery);
     let documentCount = 0;
 
     for (const event of events) {
-      const docs = this.documentBuilder.build(event);
-      documentCount += docs.length;
+      if (isAfterTraceWatermark(event, restoredWatermark)) {
+        const docs = this.documentBuilder.build(event);
+        documentCount += docs.length;
 
-      if (docs.length > 0) {
-        await this.index.upsertMany(docs);
+        if (docs.length > 0) {
+          await this.index.upsertMany(docs);
+        }
+        this.indexWatermark = advanceTraceWatermark(this.indexWatermark, event);
       }
 
-      if (this.miner) {
+      if (this.miner && isAfterTraceWatermark(event, restoredMinerWatermark)) {
         await this.miner.ingest(event);
+        this.minerWatermark = advanceTraceWatermark(this.minerWatermark, event);
       }
     }
 
     this.hasBootstrappedFromStore = true;
 
+    if (this.indexSnapshotter && this.indexWatermark !== restoredWatermark) {
+      await this.indexSnapshotter.save(this.indexWatermark);
+    }
+    if (this.minerSnapshotter && this.minerWatermark !== restoredMinerWatermark) {
+      await this.minerSnapshotter.save(this.minerWatermark);
+    }
+
     return {
       eventCount: events.length,
       documentCount,
+      restoredFromSnapshot,
+      restoredMinerFromSnapshot,
     };
   }
 
+  async rebuildIndex(query: TraceQuery = {}): Promise<RebuildIndexResult> {
+    if (!this.index.clear) {
+      throw new Error("rebuildIndex requires a TraceIndex that implements clear().");
+    }
+    await this.index.clear();
+    this.indexWatermark = null;
+
+    const events = await this.store.query(query);
+    let documentCount = 0;
+    for (const event of events) {
+      const docs = this.documentBuilder.build(event);
+      documentCount += docs.length;
+
+      if (docs.length > 0) {
+        await this.index.upsertMany(docs);
+      }
+      this.indexWatermark = advanceTraceWatermark(this.indexWatermark, event);
+    }
+
+    if (this.indexSnapshotter) {
+      await this.indexSnapshotter.save(this.indexWatermark);
+    }
+
+    return { eventCount: events.length, documentCount };
+  }
+
   async retrieve(query: SearchQuery): Promise<SearchResult[]> {
     const initialResults = await this.index.search(query);
 
@@ -434,13 +642,13 @@ export class LearningLoop {
     }
 
     const rerankedResults = await this.resultReranker(query, initialResults);
-    return this.normalizeRerankedResults(initialResults, rerankedResults, query.limit);
+    return this.normalizeRerankedResults(initialResults, rerankedResults, query);
   }
 
   private normalizeRerankedResults(
     initialResults: SearchResult[],
     rerankedResults: SearchResult[],
-    limit: number | undefined,
+    query: SearchQuery,
   ): SearchResult[] {
     if (rerankedResults.length === 0) {
       return initialResults;
@@ -478,11 +686,37 @@ export class LearningLoop {
       seenDocumentIds.add(candidateId);
     }
 
-    if (limit === undefined) {
-      return normalized;
+    const limited =
+      query.limit === undefined
+        ? normalized
+        : normalized.slice(0, Math.max(0, query.limit));
+    if (!query.explain) {
+      return limited;
     }
 
-    return normalized.slice(0, Math.max(0, limit));
+    const initialRanks = new Map<string, number>();
+    for (const [rank, result] of initialResults.entries()) {
+      initialRanks.set(result.document.id, rank);
+    }
+
+    return limited.map((result, rank) => {
+      const initialRank = initialRanks.get(result.document.id) ?? rank;
+      const initial = initialResults[initialRank] ?? result;
+      const explanation = result.explanation ??
+        initial.explanation ?? { source: "reranker", score: result.score, terms: [] };
+      return {
+        ...result,
+        explanation: {
+          ...explanation,
+          rerank: {
+            initialRank: initialRank + 1,
+            finalRank: rank + 1,
+            initialScore: initial.score,
+            scoreDelta: result.score - initial.score,
+          },
+        },
+      };
+    });
   }
 
   async mine(limit = 20): Promise<MinedArtifact[]> {
@@ -492,6 +726,53 @@ export class LearningLoop {
     return this.miner.mine(limit);
   }
 
+  async evidenceSessionIds(): Promise<Set<string>> {
+    const sessionIds = new Set<string>();
+    if (!this.miner) {
+      return sessionIds;
+    }
+
+    for (const artifact of await this.miner.mine(Number.POSITIVE_INFINITY)) {
+      for (const sessionId of artifact.evidenceSessionIds ?? []) {
+        sessionIds.add(sessionId);
+      }
+    }
+    return sessionIds;
+  }
+
+  async forget(request: TraceForgetRequest): Promise<LearningLoopForgetResult> {
+    if (!this.store.forget) {
+      return { eventIds: [], sessionIds: [], unsupported: ["store"] };
+    }
+    const unsupported: ForgetComponent[] = [];
+    if (!this.index.remove) {
+      unsupported.push("index");
+    }
+    if (this.miner && !this.miner.forget) {
+      unsupported.push("miner");
+    }
+    const result = await this.store.forget(request);
+    if (result.eventIds.length === 0) {
+      return { ...result, unsupported };
+    }
+
+    await this.index.remove?.(result.eventIds);
+    if (this.miner?.forget) {
+      await this.miner.forget(result.eventIds);
+    }
+    if (this.indexSnapshotter) {
+      await this.indexSnapshotter.save(
+        this.hasBootstrappedFromStore ? this.indexWatermark : null,
+      );
+    }
+    if (this.minerSnapshotter) {
+      await this.minerSnapshotter.save(
+        this.hasBootstrappedFromStore ? this.minerWatermark : null,
+      );
+    }
+    return { ...result, unsupported };
+  }
+
   async suggest(query: SearchQuery): Promise<LearningSuggestion[]> {
     const retrieval = await this.retrieve(query);
     const suggestions: LearningSuggestion[] = [];
@@ -555,6 +836,7 @@ export class LearningLoop {
           hint,
           confidence,
         )}\n- Validate with targeted checks before applying broad changes.`,
+        ...explanationFields(hit),
       });
 
       if (suggestions.length >= RETRIEVAL_SUGGESTION_LIMIT) {
@@ -590,6 +872,7 @@ export class LearningLoop {
           ),
           evidenceEventIds: [mismatchFailureCandidate.document.sourceEventId],
           playbookMarkdown: `- Action: ${verifyFirstAction(hint.command)}\n- Confirm the root cause has changed before retrying.`,
+          ...explanationFields(mismatchFailureCandidate),
         });
       }
     }
@@ -610,6 +893,7 @@ export class LearningLoop {
             confidence: Math.min(0.7, Math.max(0.2, confidence)),
             evidenceEventIds: [fallbackFailure.document.sourceEventId],
             playbookMarkdown: `- Action: ${verifyFirstAction(hint.command)}\n- Confirm the root cause has changed before retrying.`,
+            ...explanationFields(fallbackFailure),
           });
         }
       }
@@ -634,6 +918,7 @@ export class LearningLoop {
           playbookMarkdown: `- Action: ${verifyFirstAction(
             fallback.hint.command,
           )}\n- This prior command looked low-signal; prefer narrow diagnostics over direct retries.`,
+          ...explanationFields(fallback.hit),
         });
       }
     }
@@ -675,14 +960,14 @@ export class LearningLoop {
         .slice(0, MAX_MINED_ARTIFACT_SUGGESTIONS);
 
       for (const candidate of candidateArtifacts) {
-        suggestions.push({
-          id: `artifact-${candidate.artifact.id}`,
-          title: "Learned wrong-turn correction",
-          rationale: `${candidate.artifact.summary} (support: ${candidate.supportSessionCount} session(s), ${candidate.supportCount} occurrence(s)).`,
-          confidence: candidate.weightedConfidence,
-          evidenceEventIds: candidate.artifact.evidenceEventIds,
-          playbookMarkdown: `- Pattern: ${candidate.artifact.summary}\n- Support: ${candidate.supportSessionCount} session(s), ${candidate.supportCount} occurrence(s)\n- Action: ${verifyFirstAction(null)}`,
-        });
+        suggestions.push(
+          artifactSuggestion(
+            candidate.artifact,
+            candidate.supportCount,
+            candidate.supportSessionCount,
+            candidate.weightedConfidence,
+          ),
+        );
       }
 
       if (
@@ -0,0 +1,403 @@
+import { nearDuplicateTokenSet, setJaccardSimilarity } from "./nearDup.js";
+import { normalizeText } from "./signatures.js";
+
+export interface MinHashOptions {
+  numHashes?: number;
+  seed?: number;
+}
+
+export interface NearDuplicateClusterOptions extends MinHashOptions {
+  bands?: number;
+  threshold?: number;
+}
+
+export interface NearDuplicateCluster {
+  id: string;
+  representative: string;
+  members: string[];
+}
+
+interface ClusterEntry {
+  texts: string[];
+  tokens: Set<string>;
+  bucketKeys: string[];
+  parent: number;
+}
+
+interface ClusterState {
+  cluster: NearDuplicateCluster;
+  positions: number[];
+}
+
+const DEFAULT_NUM_HASHES = 128;
+const DEFAULT_BANDS = 16;
+const DEFAULT_THRESHOLD = 0.85;
+const DEFAULT_SEED = 0x2545f491;
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < text.length; index += 1) {
+    hash ^= text.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function mix32(value: number): number {
+  let hash = value >>> 0;
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
+
+function hashSeeds(count: number, seed: number): Uint32Array {
+  const seeds = new Uint32Array(count);
+  for (let index = 0; index < count; index += 1) {
+    seeds[index] = mix32(seed + Math.imul(index + 1, 0x9e3779b9));
+  }
+  return seeds;
+}
+
+function clusterId(representative: string): string {
+  return `ndc-${fnv1a(normalizeText(representative)).toString(16).padStart(8, "0")}`;
+}
+
+function insertSorted(values: string[], value: string): void {
+  let low = 0;
+  let high = values.length;
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    if ((values[middle] ?? "") < value) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  values.splice(low, 0, value);
+}
+
+function positiveInteger(value: number, name: string): number {
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new Error(`${name} must be a positive integer, got: ${value}`);
+  }
+  return value;
+}
+
+function tokenSignature(tokens: Set<string>, seeds: Uint32Array): Uint32Array {
+  const signature = new Uint32Array(seeds.length).fill(0xffffffff);
+  for (const token of tokens) {
+    const base = fnv1a(token);
+    for (let index = 0; index < seeds.length; index += 1) {
+      const hash = mix32(base ^ (seeds[index] ?? 0));
+      if (hash < (signature[index] ?? 0xffffffff)) {
+        signature[index] = hash;
+      }
+    }
+  }
+  return signature;
+}
+
+export function minHashSignature(
+  text: string,
+  options: MinHashOptions = {},
+): Uint32Array {
+  const numHashes = positiveInteger(
+    options.numHashes ?? DEFAULT_NUM_HASHES,
+    "numHashes",
+  );
+  return tokenSignature(
+    nearDuplicateTokenSet(text),
+    hashSeeds(numHashes, options.seed ?? DEFAULT_SEED),
+  );
+}
+
+export function estimateJaccardSimilarity(
+  left: Uint32Array,
+  right: Uint32Array,
+): number {
+  if (left.length !== right.length) {
+    throw new Error("MinHash signatures must have the same length.");
+  }
+  if (left.length === 0) {
+    return 0;
+  }
+
+  let matches = 0;
+  for (let index = 0; index < left.length; index += 1) {
+    if (left[index] === right[index]) {
+      matches += 1;
+    }
+  }
+  return matches / left.length;
+}
+
+export class NearDuplicateClusterer {
+  private readonly entries: ClusterEntry[] = [];
+  private readonly byText = new Map<string, number>();
+  private readonly byNormalized = new Map<string, number>();
+  private readonly buckets = new Map<string, number[]>();
+  private readonly clusterByRoot = new Map<number, ClusterState>();
+  private readonly seeds: Uint32Array;
+  private readonly bands: number;
+  private readonly rows: number;
+  private readonly threshold: number;
+
+  constructor(options: NearDuplicateClusterOptions = {}) {
+    const numHashes = positiveInteger(
+      options.numHashes ?? DEFAULT_NUM_HASHES,
+      "numHashes",
+    );
+    this.bands = positiveInteger(options.bands ?? DEFAULT_BANDS, "bands");
+    if (numHashes % this.bands !== 0) {
+      throw new Error(`numHashes (${numHashes}) must be a multiple of bands.`);
+    }
+    this.rows = numHashes / this.bands;
+    this.threshold = options.threshold ?? DEFAULT_THRESHOLD;
+    this.seeds = hashSeeds(numHashes, options.seed ?? DEFAULT_SEED);
+  }
+
+  /**
+   * Adds a text and returns the previously added texts whose cluster changed,
+   * so callers caching cluster assignments only revisit those.
+   */
+  add(text: string): string[] {
+    if (this.byText.has(text)) {
+      return [];
+    }
+
+    const normalized = normalizeText(text);
+    const existing = this.byNormalized.get(normalized);
+    if (existing !== undefined) {
+      this.entries[existing]?.texts.push(text);
+      this.byText.set(text, existing);
+      const state = this.clusterByRoot.get(this.find(existing));
+      if (state) {
+        insertSorted(state.cluster.members, text);
+      }
+      return [];
+    }
+
+    const position = this.entries.length;
+    const tokens = nearDuplicateTokenSet(text);
+    const entry: ClusterEntry = {
+      texts: [text],
+      tokens,
+      bucketKeys: [],
+      parent: position,
+    };
+    this.entries.push(entry);
+    this.byText.set(text, position);
+    this.byNormalized.set(normalized, position);
+    this.clusterByRoot.set(position, {
+      cluster: { id: clusterId(text), representative: text, members: [text] },
+      positions: [position],
+    });
+    if (tokens.size === 0) {
+      return [];
+    }
+
+    const signature = tokenSignature(tokens, this.seeds);
+    for (let band = 0; band < this.bands; band += 1) {
+      const rows = signature.subarray(band * this.rows, (band + 1) * this.rows);
+      entry.bucketKeys.push(`${band}:${rows.join(",")}`);
+    }
+    const changed = this.link(position, () => true);
+    for (const key of entry.bucketKeys) {
+      const bucket = this.buckets.get(key);
+      if (bucket) {
+        bucket.push(position);
+      } else {
+        this.buckets.set(key, [position]);
+      }
+    }
+    return changed.filter((member) => member !== text);
+  }
+
+  addAll(texts: Iterable<string>): void {
+    for (const text of texts) {
+      this.add(text);
+    }
+  }
+
+  /**
+   * Removes a text and returns the remaining texts whose cluster changed. A
+   * cluster that loses an entry is re-linked from its remaining members, since
+   * the removed entry may have been the only bridge between them.
+   */
+  remove(text: string): string[] {
+    const position = this.byText.get(text);
+    const entry = position === undefined ? undefined : this.entries[position];
+    if (position === undefined || !entry) {
+      return [];
+    }
+    this.byText.delete(text);
+    entry.texts.splice(entry.texts.indexOf(text), 1);
+
+    const root = this.find(position);
+    const state = this.clusterByRoot.get(root);
+    if (!state) {
+      return [];
+    }
+    const members = state.cluster.members;
+    members.splice(members.indexOf(text), 1);
+    if (entry.texts.length > 0) {
+      if (state.cluster.representative !== text) {
+        return [];
+      }
+      state.cluster.representative = this.entries[root]?.texts[0] ?? "";
+      return [...members];
+    }
+
+    this.byNormalized.delete(normalizeText(text));
+    for (const key of entry.bucketKeys) {
+      const bucket = this.buckets
+        .get(key)
+        ?.filter((candidate) => candidate !== position);
+      if (bucket && bucket.length > 0) {
+        this.buckets.set(key, bucket);
+      } else {
+        this.buckets.delete(key);
+      }
+    }
+
+    this.clusterByRoot.delete(root);
+    const remaining = state.positions
+      .filter((candidate) => candidate !== position)
+      .sort((left, right) => left - right);
+    for (const candidate of remaining) {
+      const member = this.entries[candidate];
+      if (!member) {
+        continue;
+      }
+      member.parent = candidate;
+      const representative = member.texts[0] ?? "";
+      this.clusterByRoot.set(candidate, {
+        cluster: {
+          id: clusterId(representative),
+          representative,
+          members: [...member.texts].sort(),
+        },
+        positions: [candidate],
+      });
+    }
+    // Replay the links in insertion order, as add() would have made them
+    // without the removed entry.
+    const remainingSet = new Set(remaining);
+    for (const candidate of remaining) {
+      this.link(candidate, (other) => other < candidate && remainingSet.has(other));
+    }
+    return members;
+  }
+
+  clusterOf(text: string): NearDuplicateCluster | undefined {
+    const position = this.byText.get(text);
+    if (position === undefined) {
+      return undefined;
+    }
+    return this.clusterByRoot.get(this.find(position))?.cluster;
+  }
+
+  clusters(): NearDuplicateCluster[] {
+    return [...this.clusterByRoot.values()]
+      .map((state) => state.cluster)
+      .sort((left, right) => left.id.localeCompare(right.id));
+  }
+
+  private link(position: number, eligible: (candidate: number) => boolean): string[] {
+    const entry = this.entries[position];
+    if (!entry) {
+      return [];
+    }
+
+    const changed: string[] = [];
+    for (const key of entry.bucketKeys) {
+      const checkedRoots = new Set<number>();
+      for (const candidate of this.buckets.get(key) ?? []) {
+        if (!eligible(candidate)) {
+          continue;
+        }
+        const root = this.find(candidate);
+        if (root === this.find(position) || checkedRoots.has(root)) {
+          continue;
+        }
+        checkedRoots.add(root);
+
+        const other = this.entries[candidate];
+        if (
+          other &&
+          setJaccardSimilarity(entry.tokens, other.tokens) >= this.threshold
+        ) {
+          changed.push(...this.union(position, candidate));
+        }
+      }
+    }
+    return changed;
+  }
+
+  private find(position: number): number {
+    let root = position;
+    while (this.entries[root] && this.entries[root]?.parent !== root) {
+      root = this.entries[root]?.parent ?? root;
+    }
+
+    let current = position;
+    while (current !== root) {
+      const entry = this.entries[current];
+      if (!entry) {
+        break;
+      }
+      current = entry.parent;
+      entry.parent = root;
+    }
+    return root;
+  }
+
+  // Unions keep the earliest position as root, so the first-seen member names
+  // the cluster and later near-duplicates never shift its id. Returns the
+  // members of the cluster that was folded in.
+  private union(left: number, right: number): string[] {
+    const leftRoot = this.find(left);
+    const rightRoot = this.find(right);
+    if (leftRoot === rightRoot) {
+      return [];
+    }
+
+    const [keep, merge] =
+      leftRoot < rightRoot ? [leftRoot, rightRoot] : [rightRoot, leftRoot];
+    const merged = this.entries[merge];
+    if (merged) {
+      merged.parent = keep;
+    }
+
+    const kept = this.clusterByRoot.get(keep);
+    const folded = this.clusterByRoot.get(merge);
+    this.clusterByRoot.delete(merge);
+    if (!kept || !folded) {
+      return [];
+    }
+    for (const member of folded.cluster.members) {
+      insertSorted(kept.cluster.members, member);
+    }
+    kept.positions.push(...folded.positions);
+    return folded.cluster.members;
+  }
+}
+
+export function clusterNearDuplicates(
+  texts: Iterable<string>,
+  options: NearDuplicateClusterOptions = {},
+): Map<string, NearDuplicateCluster> {
+  const clusterer = new NearDuplicateClusterer(options);
+  clusterer.addAll(texts);
+
+  const byText = new Map<string, NearDuplicateCluster>();
+  for (const cluster of clusterer.clusters()) {
+    for (const member of cluster.members) {
+      byText.set(member, cluster);
+    }
+  }
+  return byText;
+}
@@ -1,239 +1,748 @@
-import type { TraceMiner } from "./interfaces.js";
+import {
+  type StructuredErrorSignature,
+  parseStructuredErrors,
+} from "./errorParsers.js";
+import type { SnapshottableTraceMiner } from "./interfaces.js";
+import { NearDuplicateClusterer } from "./minHash.js";
+import {
+  type SupportContribution,
+  SupportTable,
+  addEvidenceEventIds,
+  parseMinerSnapshot,
+} from "./minerState.js";
 import { areNearDuplicate } from "./nearDup.js";
+import {
+  eventCommand,
+  eventFilePath,
+  eventOutputText,
+  eventTextOrPayloadJson,
+  isToolResultFailure,
+} from "./payloads.js";
+import { isDiagnosticCommand } from "./shellCommand.js";
 import {
   extractErrorSignatures,
   normalizeCommandSignature,
   normalizeText,
 } from "./signatures.js";
-import type { MinedArtifact, TraceEvent } from "./types.js";
-
-interface ToolOutcome {
-  event: TraceEvent;
+import type {
+  MinedArtifact,
+  MinedArtifactStep,
+  MinerSnapshot,
+  TraceEvent,
+} from "./types.js";
+import {
+  normalizeWorkspacePath,
+  normalizeWorkspacePaths,
+  workspacePathOptionsForEvent,
+} from "./workspacePaths.js";
+
+interface ResultRecord {
+  kind: "result";
+  eventId: string;
   isError: boolean;
-  command: string;
-  text: string;
+  isDiagnostic: boolean;
+  commandSignature: string;
+  failureSignature: string;
+  successSignature: string;
+  structuredError?: StructuredErrorSignature;
+}
+
+interface EditRecord {
+  kind: "edit";
+  eventId: string;
+  path: string;
+}
+
+type ArcRecord = ResultRecord | EditRecord;
+
+interface SessionArcState {
+  records: ArcRecord[];
+  pendingIds: string[];
+}
+
+interface Transition extends SupportContribution {
+  failureSignature: string;
+  successSignature: string;
+  failureError?: StructuredErrorSignature;
+  editedPaths: string[];
+  commandSignatures: string[];
+  steps: MinedArtifactStep[];
 }
 
 interface ArtifactAccumulator {
   failureSignature: string;
   successSignature: string;
+  failureClusterId: string;
+  successClusterId: string;
+  failureError?: StructuredErrorSignature;
+  editedPaths: string[];
+  steps: MinedArtifactStep[];
   supportCount: number;
   supportSessionIds: Set<string>;
   evidenceEventIds: string[];
 }
 
-const LOOKAHEAD_RESULTS = 6;
+interface TransitionGroupState {
+  order: number;
+  fingerprint: string | null;
+  signatures: string[];
+}
+
+interface FingerprintState {
+  groupKeys: Set<string>;
+  artifact: MinedArtifact | null;
+}
 
-function payloadText(payload: Record<string, unknown>): string {
-  const candidates: unknown[] = [
-    payload.output,
-    payload.stderr,
-    payload.stdout,
-    payload.text,
-    payload.content,
-    payload.error,
-    payload.message,
-  ];
+const WRONG_TURN_MINER = "wrong_turn";
+const MAX_ARC_RESULTS = 12;
+const UNCHANGED_RETRY_THRESHOLD = 0.95;
+
+function toArcRecord(event: TraceEvent): ArcRecord | null {
+  const pathOptions = workspacePathOptionsForEvent(event);
+  if (event.type === "file_edit") {
+    const rawPath = eventFilePath(event);
+    return rawPath
+      ? {
+          kind: "edit",
+          eventId: event.id,
+          path: normalizeWorkspacePath(rawPath, pathOptions),
+        }
+      : null;
+  }
+  if (event.type !== "tool_result") {
+    return null;
+  }
+
+  const isError = isToolResultFailure(event);
+  const command = normalizeWorkspacePaths(eventCommand(event), pathOptions);
+  const commandSignature = command.trim() ? normalizeCommandSignature(command) : "";
+  const text = normalizeWorkspacePaths(eventTextOrPayloadJson(event), pathOptions);
+  const structuredError = isError
+    ? parseStructuredErrors(
+        normalizeWorkspacePaths(eventOutputText(event), pathOptions),
+        1,
+      )[0]
+    : undefined;
+
+  let failureSignature = "";
+  if (isError) {
+    failureSignature =
+      structuredError?.signature ||
+      commandSignature ||
+      (extractErrorSignatures(text, 1)[0] ?? normalizeText(text).slice(0, 120));
+  }
+  return {
+    kind: "result",
+    eventId: event.id,
+    isError,
+    isDiagnostic: isDiagnosticCommand(command),
+    commandSignature,
+    failureSignature,
+    successSignature: commandSignature || normalizeText(text).slice(0, 120),
+    ...(structuredError ? { structuredError } : {}),
+  };
+}
 
-  const firstText = candidates.find((item) => typeof item === "string");
-  if (typeof firstText === "string") {
-    return firstText;
+function isUnchangedRetry(failure: ResultRecord, success: ResultRecord): boolean {
+  if (!failure.commandSignature || !success.commandSignature) {
+    return false;
   }
+  return (
+    failure.commandSignature === success.commandSignature ||
+    areNearDuplicate(
+      failure.commandSignature,
+      success.commandSignature,
+      UNCHANGED_RETRY_THRESHOLD,
+    )
+  );
+}
 
-  try {
-    return JSON.stringify(payload);
-  } catch {
-    return "";
+function resultPositionsAfter(records: ArcRecord[], position: number): number[] {
+  const positions: number[] = [];
+  for (let index = position + 1; index < records.length; index += 1) {
+    if (records[index]?.kind === "result") {
+      positions.push(index);
+    }
   }
+  return positions;
 }
 
-function toToolOutcome(event: TraceEvent): ToolOutcome | null {
-  if (event.type !== "tool_result") {
+function editedPathsBetween(records: ArcRecord[], from: number, to: number): string[] {
+  const paths: string[] = [];
+  for (const record of records.slice(from + 1, to)) {
+    if (record.kind === "edit" && !paths.includes(record.path)) {
+      paths.push(record.path);
+    }
+  }
+  return paths;
+}
+
+function intermediateSteps(
+  records: ArcRecord[],
+  from: number,
+  to: number,
+): MinedArtifactStep[] {
+  const steps: MinedArtifactStep[] = [];
+  for (const record of records.slice(from + 1, to)) {
+    if (record.kind === "edit") {
+      steps.push({ kind: "edit", eventId: record.eventId, path: record.path });
+      continue;
+    }
+    if (!record.commandSignature) {
+      continue;
+    }
+    const kind = record.isDiagnostic ? "probe" : record.isError ? "attempt" : "command";
+    steps.push({ kind, eventId: record.eventId, command: record.commandSignature });
+  }
+  return steps;
+}
+
+function recoveryTransition(
+  sessionId: string,
+  records: ArcRecord[],
+  failurePosition: number,
+): Transition | null {
+  const failure = records[failurePosition];
+  if (failure?.kind !== "result" || !failure.failureSignature) {
     return null;
   }
+  const window = resultPositionsAfter(records, failurePosition).slice(
+    0,
+    MAX_ARC_RESULTS,
+  );
+
+  let successOffset = -1;
+  for (const [offset, position] of window.entries()) {
+    const candidate = records[position];
+    if (candidate?.kind !== "result" || candidate.isError || candidate.isDiagnostic) {
+      continue;
+    }
+    if (
+      editedPathsBetween(records, failurePosition, position).length === 0 &&
+      isUnchangedRetry(failure, candidate)
+    ) {
+      continue;
+    }
+    if (candidate.successSignature) {
+      successOffset = offset;
+      break;
+    }
+  }
 
-  const isError =
-    event.metrics?.outcome === "failure" || event.payload.isError === true;
+  let successPosition = window[successOffset] ?? -1;
+  let success = records[successPosition];
+  if (success?.kind !== "result") {
+    return null;
+  }
+  if (!isUnchangedRetry(failure, success)) {
+    for (const position of window.slice(successOffset + 1)) {
+      const rerun = records[position];
+      if (
+        rerun?.kind === "result" &&
+        !rerun.isError &&
+        isUnchangedRetry(failure, rerun)
+      ) {
+        successPosition = position;
+        success = rerun;
+        break;
+      }
+    }
+  }
 
-  const commandValue = event.payload.command;
-  const command = typeof commandValue === "string" ? commandValue : "";
+  const steps = intermediateSteps(records, failurePosition, successPosition);
+  const commandSignatures: string[] = [];
+  for (const step of steps) {
+    if (
+      step.kind === "command" &&
+      step.command &&
+      !commandSignatures.includes(step.command)
+    ) {
+      commandSignatures.push(step.command);
+    }
+  }
 
   return {
-    event,
-    isError,
-    command,
-    text: payloadText(event.payload),
+    id: failure.eventId,
+    sessionId,
+    failureSignature: failure.failureSignature,
+    successSignature: success.successSignature,
+    ...(failure.structuredError ? { failureError: failure.structuredError } : {}),
+    editedPaths: editedPathsBetween(records, failurePosition, successPosition),
+    commandSignatures,
+    steps: [
+      {
+        kind: "failure",
+        eventId: failure.eventId,
+        signature: failure.failureSignature,
+        ...(failure.commandSignature ? { command: failure.commandSignature } : {}),
+      },
+      ...steps,
+      { kind: "success", eventId: success.eventId, command: success.successSignature },
+    ],
+    evidenceEventIds: [
+      failure.eventId,
+      ...steps.filter((step) => step.kind !== "probe").map((step) => step.eventId),
+      success.eventId,
+    ],
   };
 }
 
-export class SimpleWrongTurnMiner implements TraceMiner {
-  private readonly eventsBySession = new Map<string, TraceEvent[]>();
+function clipStepCommand(command: string): string {
+  return command.length > 80 ? `${command.slice(0, 77)}...` : command;
+}
+
+export function describeRecoverySteps(steps: MinedArtifactStep[]): string[] {
+  const failureCommand = steps.find((step) => step.kind === "failure")?.command;
+  const descriptions: string[] = [];
+  for (const step of steps) {
+    let description: string | null = null;
+    if ((step.kind === "probe" || step.kind === "command") && step.command) {
+      description = `run \`${clipStepCommand(step.command)}\``;
+    } else if (step.kind === "edit" && step.path) {
+      description = `edit ${step.path}`;
+    } else if (step.kind === "success" && step.command) {
+      const verb = step.command === failureCommand ? "re-run" : "run";
+      description = `${verb} \`${clipStepCommand(step.command)}\``;
+    }
+    if (description && descriptions.at(-1) !== description) {
+      descriptions.push(description);
+    }
+  }
+  return descriptions;
+}
+
+function editSignature(editedPaths: string[]): string {
+  return editedPaths.length > 0 ? `edit:${editedPaths.join(",")}` : "";
+}
+
+function transitionKey(transition: Transition): string {
+  return [
+    transition.failureSignature,
+    editSignature(transition.editedPaths),
+    ...transition.commandSignatures.map((command) => `run:${command}`),
+    transition.successSignature,
+  ]
+    .filter(Boolean)
+    .join("=>");
+}
+
+export function supportConfidence(
+  supportCount: number,
+  supportSessionCount: number,
+): number {
+  const supportCountWeight = Math.min(1, (supportCount - 1) / 4);
+  const supportSessionWeight = Math.min(1, (supportSessionCount - 1) / 2);
+  return Math.min(0.9, 0.45 + supportCountWeight * 0.2 + supportSessionWeight * 0.25);
+}
+
+export function compareMinedArtifacts(
+  left: MinedArtifact,
+  right: MinedArtifact,
+): number {
+  const leftSessionSupport =
+    typeof left.metadata?.supportSessionCount === "number"
+      ? left.metadata.supportSessionCount
+      : 0;
+  const rightSessionSupport =
+    typeof right.metadata?.supportSessionCount === "number"
+      ? right.metadata.supportSessionCount
+      : 0;
+  if (rightSessionSupport !== leftSessionSupport) {
+    return rightSessionSupport - leftSessionSupport;
+  }
+
+  const leftSupport =
+    typeof left.metadata?.supportCount === "number" ? left.metadata.supportCount : 0;
+  const rightSupport =
+    typeof right.metadata?.supportCount === "number" ? right.metadata.supportCount : 0;
+  if (rightSupport !== leftSupport) {
+    return rightSupport - leftSupport;
+  }
+
+  if (right.confidence !== left.confidence) {
+    return right.confidence - left.confidence;
+  }
+
+  return left.id.localeCompare(right.id);
+}
+
+function insertRanked(artifacts: MinedArtifact[], artifact: MinedArtifact): void {
+  let low = 0;
+  let high = artifacts.length;
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    const existing = artifacts[middle];
+    if (existing && compareMinedArtifacts(existing, artifact) <= 0) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  artifacts.splice(low, 0, artifact);
+}
+
+function toArtifact(entry: ArtifactAccumulator): MinedArtifact {
+  const supportSessionCount = entry.supportSessionIds.size;
+  const confidence = supportConfidence(entry.supportCount, supportSessionCount);
+
+  const edit = editSignature(entry.editedPaths);
+  const commands = entry.steps
+    .filter((step) => step.kind === "command" && step.command)
+    .map((step) => `run:${step.command}`);
+  const stepDescriptions = describeRecoverySteps(entry.steps);
+
+  return {
+    id: ["artifact", entry.failureSignature, edit, ...commands, entry.successSignature]
+      .filter(Boolean)
+      .join("-"),
+    kind: "wrong_turn_fix",
+    summary:
+      stepDescriptions.length > 1
+        ? `When you hit "${entry.failureSignature}", ${stepDescriptions.join(", then ")}.`
+        : `When you hit "${entry.failureSignature}", prefer "${entry.successSignature}".`,
+    confidence,
+    evidenceEventIds: entry.evidenceEventIds,
+    evidenceSessionIds: [...entry.supportSessionIds],
+    steps: entry.steps,
+    metadata: {
+      failureSignature: entry.failureSignature,
+      successSignature: entry.successSignature,
+      failureClusterId: entry.failureClusterId,
+      successClusterId: entry.successClusterId,
+      supportCount: entry.supportCount,
+      supportSessionCount,
+      crossSessionSupport: supportSessionCount >= 2,
+      ...(entry.failureError?.code ? { errorCode: entry.failureError.code } : {}),
+      ...(entry.failureError?.exceptionType
+        ? { exceptionType: entry.failureError.exceptionType }
+        : {}),
+      ...(entry.failureError?.testId ? { testId: entry.failureError.testId } : {}),
+      ...(edit ? { editedPaths: entry.editedPaths.join(",") } : {}),
+      stepCount: entry.steps.length,
+    },
+  };
+}
+
+export class SimpleWrongTurnMiner implements SnapshottableTraceMiner {
+  private sessions = new Map<string, SessionArcState>();
+  private transitions = new SupportTable<Transition>();
+  private signatureClusters = new NearDuplicateClusterer();
+  private groupStates = new Map<string, TransitionGroupState>();
+  private groupKeysBySignature = new Map<string, Set<string>>();
+  private fingerprints = new Map<string, FingerprintState>();
+  private nextGroupOrder = 0;
+  private artifacts: MinedArtifact[] = [];
 
   async ingest(event: TraceEvent): Promise<void> {
-    const bucket = this.eventsBySession.get(event.sessionId) ?? [];
-    bucket.push(event);
-    this.eventsBySession.set(event.sessionId, bucket);
+    const record = toArcRecord(event);
+    if (!record) {
+      return;
+    }
+
+    const state = this.sessions.get(event.sessionId);
+    if (state) {
+      state.records.push(record);
+    } else if (record.kind === "result" && record.isError && record.failureSignature) {
+      this.sessions.set(event.sessionId, { records: [record], pendingIds: [] });
+    } else {
+      return;
+    }
+
+    if (record.kind === "result") {
+      this.refreshSession(event.sessionId);
+    }
   }
 
-  async mine(limit = 50): Promise<MinedArtifact[]> {
-    const byFingerprint = new Map<string, ArtifactAccumulator>();
+  async forget(eventIds: string[]): Promise<void> {
+    const targets = new Set(eventIds);
+    const removed = this.transitions.removeWhere((transition) =>
+      transition.steps.some((step) => targets.has(step.eventId)),
+    );
+    this.syncGroups(removed.map(transitionKey));
+
+    for (const [sessionId, state] of this.sessions) {
+      const kept = state.records.filter((record) => !targets.has(record.eventId));
+      if (kept.length !== state.records.length) {
+        state.records = kept;
+        this.refreshSession(sessionId);
+      }
+    }
+  }
 
-    for (const [sessionId, events] of this.eventsBySession.entries()) {
-      const toolResults = events
-        .map((event) => toToolOutcome(event))
-        .filter((event): event is ToolOutcome => event !== null);
+  async mine(limit = 50): Promise<MinedArtifact[]> {
+    return this.artifacts.slice(0, limit);
+  }
 
-      for (let index = 0; index < toolResults.length; index += 1) {
-        const current = toolResults[index];
-        if (!current || !current.isError) {
-          continue;
-        }
+  snapshot(): MinerSnapshot {
+    return {
+      miner: WRONG_TURN_MINER,
+      sessions: [...this.sessions].map(([sessionId, state]) => ({
+        sessionId,
+        records: state.records,
+        pendingIds: state.pendingIds,
+      })),
+      transitions: this.transitions.snapshot(),
+      artifacts: this.artifacts,
+    };
+  }
 
-        const failureSignature = this.failureSignature(current);
-        if (!failureSignature) {
-          continue;
-        }
+  restoreSnapshot(data: unknown): void {
+    const snapshot = parseMinerSnapshot(data, WRONG_TURN_MINER);
+    if (
+      !Array.isArray(snapshot.sessions) ||
+      !snapshot.sessions.every(
+        (session) =>
+          typeof session?.sessionId === "string" &&
+          Array.isArray(session.records) &&
+          Array.isArray(session.pendingIds),
+      )
+    ) {
+      throw new Error("Miner snapshot for wrong_turn has invalid sessions.");
+    }
 
-        for (
-          let lookahead = index + 1;
-          lookahead < toolResults.length && lookahead <= index + LOOKAHEAD_RESULTS;
-          lookahead += 1
-        ) {
-          const candidate = toolResults[lookahead];
-          if (!candidate || candidate.isError) {
-            continue;
-          }
+    const transitions = new SupportTable<Transition>();
+    transitions.restoreSnapshot(snapshot.transitions);
+    const sessions = new Map<string, SessionArcState>();
+    for (const session of snapshot.sessions) {
+      sessions.set(session.sessionId, {
+        records: session.records,
+        pendingIds: session.pendingIds,
+      });
+    }
 
-          if (this.isUnchangedRetry(current, candidate)) {
-            continue;
-          }
+    this.sessions = sessions;
+    this.transitions = transitions;
+    this.signatureClusters = new NearDuplicateClusterer();
+    this.groupStates = new Map();
+    this.groupKeysBySignature = new Map();
+    this.fingerprints = new Map();
+    this.nextGroupOrder = 0;
+    this.artifacts = [];
+    this.syncGroups([...transitions.values()].map((group) => group.key));
+  }
 
-          const successSignature = this.successSignature(candidate);
-          if (!successSignature) {
-            continue;
-          }
+  private refreshSession(sessionId: string): void {
+    const state = this.sessions.get(sessionId);
+    if (!state) {
+      return;
+    }
 
-          const fingerprint = `${failureSignature}=>${successSignature}`;
-          const existing = byFingerprint.get(fingerprint);
-          if (existing) {
-            existing.supportCount += 1;
-            existing.supportSessionIds.add(sessionId);
-
-            for (const eventId of [current.event.id, candidate.event.id]) {
-              if (existing.evidenceEventIds.includes(eventId)) {
-                continue;
-              }
-              existing.evidenceEventIds.push(eventId);
-              if (existing.evidenceEventIds.length >= 8) {
-                break;
-              }
-            }
-          } else {
-            byFingerprint.set(fingerprint, {
-              failureSignature,
-              successSignature,
-              supportCount: 1,
-              supportSessionIds: new Set([sessionId]),
-              evidenceEventIds: [current.event.id, candidate.event.id],
-            });
-          }
+    const changedKeys = new Set<string>();
+    const staleIds = new Set(state.pendingIds);
+    const pendingIds: string[] = [];
+    let firstOpenPosition = -1;
+    for (const [position, record] of state.records.entries()) {
+      if (record.kind !== "result" || !record.isError || !record.failureSignature) {
+        continue;
+      }
 
-          break;
+      const transition = recoveryTransition(sessionId, state.records, position);
+      if (transition) {
+        staleIds.delete(transition.id);
+        const previousKey = this.transitions.keyOf(transition.id);
+        if (previousKey !== undefined) {
+          changedKeys.add(previousKey);
         }
+        const key = transitionKey(transition);
+        this.transitions.add(key, transition);
+        changedKeys.add(key);
+      }
+
+      if (resultPositionsAfter(state.records, position).length >= MAX_ARC_RESULTS) {
+        continue;
+      }
+      if (firstOpenPosition < 0) {
+        firstOpenPosition = position;
+      }
+      if (transition) {
+        pendingIds.push(transition.id);
+      }
+    }
+
+    for (const id of staleIds) {
+      const removed = this.transitions.remove(id);
+      if (removed) {
+        changedKeys.add(transitionKey(removed));
       }
     }
+    this.syncGroups(changedKeys);
 
-    const artifacts = [...byFingerprint.values()]
-      .map((entry) => {
-        const supportSessionCount = entry.supportSessionIds.size;
-        const supportCountWeight = Math.min(1, (entry.supportCount - 1) / 4);
-        const supportSessionWeight = Math.min(1, (supportSessionCount - 1) / 2);
-        const confidence = Math.min(
-          0.9,
-          0.45 + supportCountWeight * 0.2 + supportSessionWeight * 0.25,
-        );
-
-        return {
-          id: `artifact-${entry.failureSignature}-${entry.successSignature}`,
-          kind: "wrong_turn_fix" as const,
-          summary: `When you hit "${entry.failureSignature}", prefer "${entry.successSignature}".`,
-          confidence,
-          evidenceEventIds: entry.evidenceEventIds,
-          metadata: {
-            failureSignature: entry.failureSignature,
-            successSignature: entry.successSignature,
-            supportCount: entry.supportCount,
-            supportSessionCount,
-            crossSessionSupport: supportSessionCount >= 2,
-          },
-        } satisfies MinedArtifact;
-      })
-      .sort((left, right) => {
-        const leftSessionSupport =
-          typeof left.metadata?.supportSessionCount === "number"
-            ? left.metadata.supportSessionCount
-            : 0;
-        const rightSessionSupport =
-          typeof right.metadata?.supportSessionCount === "number"
-            ? right.metadata.supportSessionCount
-            : 0;
-        if (rightSessionSupport !== leftSessionSupport) {
-          return rightSessionSupport - leftSessionSupport;
+    if (firstOpenPosition < 0) {
+      this.sessions.delete(sessionId);
+      return;
+    }
+    state.records = state.records.slice(firstOpenPosition);
+    state.pendingIds = pendingIds;
+  }
+
+  // Brings the clusters, fingerprints and ranking up to date for the given
+  // transition groups, touching only the artifacts those groups feed.
+  private syncGroups(keys: Iterable<string>): void {
+    const pending = new Set(keys);
+    const changedFingerprints = new Set<string>();
+    const revisitSignatures = (texts: string[]) => {
+      for (const text of texts) {
+        for (const key of this.groupKeysBySignature.get(text) ?? []) {
+          pending.add(key);
         }
+      }
+    };
+
+    for (const key of pending) {
+      pending.delete(key);
+      let state = this.groupStates.get(key);
+      if (state?.fingerprint) {
+        this.fingerprints.get(state.fingerprint)?.groupKeys.delete(key);
+        changedFingerprints.add(state.fingerprint);
+      }
 
-        const leftSupport =
-          typeof left.metadata?.supportCount === "number"
-            ? left.metadata.supportCount
-            : 0;
-        const rightSupport =
-          typeof right.metadata?.supportCount === "number"
-            ? right.metadata.supportCount
-            : 0;
-        if (rightSupport !== leftSupport) {
-          return rightSupport - leftSupport;
+      const transition = this.transitions.get(key)?.contributions[0];
+      if (!transition) {
+        if (state) {
+          this.groupStates.delete(key);
+          for (const signature of state.signatures) {
+            revisitSignatures(this.unlinkSignature(signature, key));
+          }
         }
+        continue;
+      }
 
-        if (right.confidence !== left.confidence) {
-          return right.confidence - left.confidence;
+      if (!state) {
+        state = {
+          order: this.nextGroupOrder,
+          fingerprint: null,
+          signatures: [transition.failureSignature, transition.successSignature],
+        };
+        this.nextGroupOrder += 1;
+        this.groupStates.set(key, state);
+        for (const signature of state.signatures) {
+          revisitSignatures(this.linkSignature(signature, key));
         }
+      }
 
-        return left.id.localeCompare(right.id);
-      });
+      state.fingerprint = this.fingerprintOf(transition);
+      if (state.fingerprint) {
+        const fingerprint = this.fingerprints.get(state.fingerprint);
+        if (fingerprint) {
+          fingerprint.groupKeys.add(key);
+        } else {
+          this.fingerprints.set(state.fingerprint, {
+            groupKeys: new Set([key]),
+            artifact: null,
+          });
+        }
+        changedFingerprints.add(state.fingerprint);
+      }
+    }
 
-    return artifacts.slice(0, limit);
+    for (const fingerprint of changedFingerprints) {
+      this.rerank(fingerprint);
+    }
   }
 
-  private failureSignature(outcome: ToolOutcome): string {
-    const fromCommand = normalizeCommandSignature(outcome.command);
-    if (fromCommand) {
-      return fromCommand;
+  private linkSignature(signature: string, key: string): string[] {
+    const keys = this.groupKeysBySignature.get(signature);
+    if (keys) {
+      keys.add(key);
+      return [];
     }
-
-    const errorSignatures = extractErrorSignatures(outcome.text, 1);
-    return errorSignatures[0] ?? normalizeText(outcome.text).slice(0, 120);
+    this.groupKeysBySignature.set(signature, new Set([key]));
+    return this.signatureClusters.add(signature);
   }
 
-  private successSignature(outcome: ToolOutcome): string {
-    const command = normalizeCommandSignature(outcome.command);
-    if (command) {
-      return command;
+  private unlinkSignature(signature: string, key: string): string[] {
+    const keys = this.groupKeysBySignature.get(signature);
+    if (!keys?.delete(key) || keys.size > 0) {
+      return [];
     }
-
-    return normalizeText(outcome.text).slice(0, 120);
+    this.groupKeysBySignature.delete(signature);
+    return this.signatureClusters.remove(signature);
   }
 
-  private isUnchangedRetry(failure: ToolOutcome, success: ToolOutcome): boolean {
-    const failureCommand = failure.command.trim();
-    const successCommand = success.command.trim();
+  private fingerprintOf(transition: Transition): string | null {
+    const failureCluster = this.signatureClusters.clusterOf(
+      transition.failureSignature,
+    );
+    const successCluster = this.signatureClusters.clusterOf(
+      transition.successSignature,
+    );
+    if (!failureCluster || !successCluster) {
+      return null;
+    }
+    return [
+      failureCluster.id,
+      editSignature(transition.editedPaths),
+      ...transition.commandSignatures.map((command) => `run:${command}`),
+      successCluster.id,
+    ]
+      .filter(Boolean)
+      .join("=>");
+  }
 
-    if (!failureCommand || !successCommand) {
-      return false;
+  private rerank(fingerprint: string): void {
+    const state = this.fingerprints.get(fingerprint);
+    if (!state) {
+      return;
+    }
+    if (state.artifact) {
+      this.artifacts.splice(this.artifacts.indexOf(state.artifact), 1);
+      state.artifact = null;
     }
 
-    if (failureCommand === successCommand) {
-      return true;
+    const entry = this.accumulate(state.groupKeys);
+    if (!entry) {
+      this.fingerprints.delete(fingerprint);
+      return;
     }
+    state.artifact = toArtifact(entry);
+    insertRanked(this.artifacts, state.artifact);
+  }
+
+  private accumulate(groupKeys: Iterable<string>): ArtifactAccumulator | null {
+    const groups = [...groupKeys]
+      .map((key) => ({
+        order: this.groupStates.get(key)?.order ?? 0,
+        group: this.transitions.get(key),
+      }))
+      .sort((left, right) => left.order - right.order);
+
+    let accumulator: ArtifactAccumulator | null = null;
+    for (const { group } of groups) {
+      const transition = group?.contributions[0];
+      if (!group || !transition) {
+        continue;
+      }
+      if (accumulator) {
+        accumulator.supportCount += group.contributions.length;
+        for (const sessionId of group.sessionCounts.keys()) {
+          accumulator.supportSessionIds.add(sessionId);
+        }
+        addEvidenceEventIds(accumulator.evidenceEventIds, group.evidenceEventIds);
+        continue;
+      }
 
-    return areNearDuplicate(failureCommand, successCommand, 0.95);
+      const failureCluster = this.signatureClusters.clusterOf(
+        transition.failureSignature,
+      );
+      const successCluster = this.signatureClusters.clusterOf(
+        transition.successSignature,
+      );
+      if (!failureCluster || !successCluster) {
+        continue;
+      }
+      accumulator = {
+        failureSignature: failureCluster.representative,
+        successSignature: successCluster.representative,
+        failureClusterId: failureCluster.id,
+        successClusterId: successCluster.id,
+        ...(transition.failureError ? { failureError: transition.failureError } : {}),
+        editedPaths: transition.editedPaths,
+        steps: transition.steps,
+        supportCount: group.contributions.length,
+        supportSessionIds: new Set(group.sessionCounts.keys()),
+        evidenceEventIds: [...group.evidenceEventIds],
+      };
+    }
+    return accumulator;
   }
 }
@@ -0,0 +1,206 @@
+import type { MinedArtifact, MinerSnapshot } from "./types.js";
+
+export interface SupportContribution {
+  id: string;
+  sessionId: string;
+  evidenceEventIds: string[];
+}
+
+export interface SupportGroup<TContribution extends SupportContribution> {
+  key: string;
+  contributions: TContribution[];
+  sessionCounts: Map<string, number>;
+  evidenceEventIds: string[];
+}
+
+export interface SupportTableSnapshot<TContribution extends SupportContribution> {
+  groups: Array<{ key: string; contributions: TContribution[] }>;
+}
+
+const MAX_EVIDENCE_EVENTS = 8;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+function isContribution(value: unknown): value is SupportContribution {
+  return (
+    isRecord(value) &&
+    typeof value.id === "string" &&
+    typeof value.sessionId === "string" &&
+    isStringArray(value.evidenceEventIds)
+  );
+}
+
+export function parseMinerSnapshot(data: unknown, miner: string): MinerSnapshot {
+  if (!isRecord(data)) {
+    throw new Error(`Miner snapshot for ${miner} is not an object.`);
+  }
+  if (data.miner !== miner) {
+    throw new Error(
+      `Miner snapshot was written by ${String(data.miner)}, expected ${miner}.`,
+    );
+  }
+  if (data.artifacts !== null && !Array.isArray(data.artifacts)) {
+    throw new Error(`Miner snapshot for ${miner} has invalid artifacts.`);
+  }
+  return { ...data, miner, artifacts: data.artifacts as MinedArtifact[] | null };
+}
+
+export function addEvidenceEventIds(
+  evidenceEventIds: string[],
+  eventIds: Iterable<string>,
+): void {
+  for (const eventId of eventIds) {
+    if (evidenceEventIds.length >= MAX_EVIDENCE_EVENTS) {
+      return;
+    }
+    if (!evidenceEventIds.includes(eventId)) {
+      evidenceEventIds.push(eventId);
+    }
+  }
+}
+
+export class SupportTable<TContribution extends SupportContribution> {
+  private readonly groups = new Map<string, SupportGroup<TContribution>>();
+  private readonly keyById = new Map<string, string>();
+
+  get size(): number {
+    return this.keyById.size;
+  }
+
+  get(key: string): SupportGroup<TContribution> | undefined {
+    return this.groups.get(key);
+  }
+
+  keyOf(id: string): string | undefined {
+    return this.keyById.get(id);
+  }
+
+  values(): IterableIterator<SupportGroup<TContribution>> {
+    return this.groups.values();
+  }
+
+  add(key: string, contribution: TContribution): void {
+    const previousKey = this.keyById.get(contribution.id);
+    const previousGroup =
+      previousKey === key ? this.groups.get(previousKey) : undefined;
+    const position = previousGroup?.contributions.findIndex(
+      (existing) => existing.id === contribution.id,
+    );
+    if (previousGroup && position !== undefined && position >= 0) {
+      previousGroup.contributions[position] = contribution;
+      this.refreshGroup(previousGroup);
+      return;
+    }
+
+    this.remove(contribution.id);
+    let group = this.groups.get(key);
+    if (!group) {
+      group = {
+        key,
+        contributions: [],
+        sessionCounts: new Map(),
+        evidenceEventIds: [],
+      };
+      this.groups.set(key, group);
+    }
+    group.contributions.push(contribution);
+    group.sessionCounts.set(
+      contribution.sessionId,
+      (group.sessionCounts.get(contribution.sessionId) ?? 0) + 1,
+    );
+    addEvidenceEventIds(group.evidenceEventIds, contribution.evidenceEventIds);
+    this.keyById.set(contribution.id, key);
+  }
+
+  remove(id: string): TContribution | undefined {
+    const key = this.keyById.get(id);
+    if (key === undefined) {
+      return undefined;
+    }
+    this.keyById.delete(id);
+
+    const group = this.groups.get(key);
+    const position = group?.contributions.findIndex((existing) => existing.id === id);
+    if (!group || position === undefined || position < 0) {
+      return undefined;
+    }
+    const [removed] = group.contributions.splice(position, 1);
+    if (group.contributions.length === 0) {
+      this.groups.delete(key);
+    } else {
+      this.refreshGroup(group);
+    }
+    return removed;
+  }
+
+  removeWhere(predicate: (contribution: TContribution) => boolean): TContribution[] {
+    const ids: string[] = [];
+    for (const group of this.groups.values()) {
+      for (const contribution of group.contributions) {
+        if (predicate(contribution)) {
+          ids.push(contribution.id);
+        }
+      }
+    }
+
+    const removed: TContribution[] = [];
+    for (const id of ids) {
+      const contribution = this.remove(id);
+      if (contribution) {
+        removed.push(contribution);
+      }
+    }
+    return removed;
+  }
+
+  snapshot(): SupportTableSnapshot<TContribution> {
+    return {
+      groups: [...this.groups.values()].map((group) => ({
+        key: group.key,
+        contributions: [...group.contributions],
+      })),
+    };
+  }
+
+  restoreSnapshot(data: unknown): void {
+    if (!isRecord(data) || !Array.isArray(data.groups)) {
+      throw new Error("Support table snapshot is missing its groups.");
+    }
+    for (const group of data.groups) {
+      if (
+        !isRecord(group) ||
+        typeof group.key !== "string" ||
+        !Array.isArray(group.contributions) ||
+        !group.contributions.every(isContribution)
+      ) {
+        throw new Error("Support table snapshot has an invalid group.");
+      }
+    }
+
+    this.groups.clear();
+    this.keyById.clear();
+    for (const group of data.groups as SupportTableSnapshot<TContribution>["groups"]) {
+      for (const contribution of group.contributions) {
+        this.add(group.key, contribution);
+      }
+    }
+  }
+
+  private refreshGroup(group: SupportGroup<TContribution>): void {
+    group.sessionCounts.clear();
+    group.evidenceEventIds = [];
+    for (const contribution of group.contributions) {
+      group.sessionCounts.set(
+        contribution.sessionId,
+        (group.sessionCounts.get(contribution.sessionId) ?? 0) + 1,
+      );
+      addEvidenceEventIds(group.evidenceEventIds, contribution.evidenceEventIds);
+    }
+  }
+}
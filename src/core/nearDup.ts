@@ -1,6 +1,6 @@
 import { normalizeText } from "./signatures.js";
 
-function tokenSet(text: string): Set<string> {
+export function nearDuplicateTokenSet(text: string): Set<string> {
   const normalized = normalizeText(text);
   if (!normalized) {
     return new Set<string>();
@@ -8,10 +8,7 @@ function tokenSet(text: string): Set<string> {
   return new Set(normalized.split(" ").filter((token) => token.length > 2));
 }
 
-export function jaccardSimilarity(a: string, b: string): number {
-  const left = tokenSet(a);
-  const right = tokenSet(b);
-
+export function setJaccardSimilarity(left: Set<string>, right: Set<string>): number {
   if (left.size === 0 && right.size === 0) {
     return 1;
   }
@@ -31,6 +28,10 @@ export function jaccardSimilarity(a: string, b: string): number {
   return intersection / union;
 }
 
+export function jaccardSimilarity(a: string, b: string): number {
+  return setJaccardSimilarity(nearDuplicateTokenSet(a), nearDuplicateTokenSet(b));
+}
+
 export function areNearDuplicate(a: string, b: string, threshold = 0.85): boolean {
   return jaccardSimilarity(a, b) >= threshold;
 }
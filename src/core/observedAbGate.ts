@@ -1,11 +1,22 @@
 import type { RunOutcome } from "./metrics.js";
 import { deriveRunOutcomeFromEvents, tokenProxy } from "./metrics.js";
+import { clusterNearDuplicates } from "./minHash.js";
+import {
+  eventCommand,
+  eventOutputText,
+  isToolResultFailure,
+  isToolResultSuccess,
+} from "./payloads.js";
 import {
   extractErrorSignatures,
   normalizeCommandSignature,
   normalizeText,
 } from "./signatures.js";
 import type { TraceEvent } from "./types.js";
+import {
+  normalizeWorkspacePaths,
+  workspacePathOptionsForEvent,
+} from "./workspacePaths.js";
 
 export interface ObservedAbThresholds {
   minPairCount?: number;
@@ -230,52 +241,16 @@ function totalTokenCount(outcome: RunOutcome): number {
   );
 }
 
-function isFailure(event: TraceEvent): boolean {
-  if (event.type !== "tool_result") {
-    return false;
-  }
-  if (event.metrics?.outcome === "failure") {
-    return true;
-  }
-  return event.payload?.isError === true;
-}
-
-function isSuccess(event: TraceEvent): boolean {
-  if (event.type !== "tool_result") {
-    return false;
-  }
-  if (event.metrics?.outcome === "success") {
-    return true;
-  }
-  return event.payload?.isError === false;
-}
-
-function commandFromPayload(event: TraceEvent): string {
-  const command = event.payload?.command;
-  return typeof command === "string" ? command : "";
-}
-
-function textFromPayload(event: TraceEvent): string {
-  const text = event.payload?.text;
-  if (typeof text === "string" && text.trim()) {
-    return text;
-  }
-
-  const output = event.payload?.output;
-  if (typeof output === "string" && output.trim()) {
-    return output;
-  }
-
-  return "";
-}
-
 function firstLine(text: string): string {
   return text.split(/\r?\n/, 1)[0]?.trim() ?? "";
 }
 
 function familySignature(failure: TraceEvent): string {
-  const command = normalizeCommandSignature(commandFromPayload(failure));
-  const output = textFromPayload(failure);
+  const pathOptions = workspacePathOptionsForEvent(failure);
+  const command = normalizeCommandSignature(
+    normalizeWorkspacePaths(eventCommand(failure), pathOptions),
+  );
+  const output = normalizeWorkspacePaths(eventOutputText(failure), pathOptions);
   const firstError = extractErrorSignatures(output, 1)[0] ?? "";
 
   const signature = normalizeText(`${command} ${firstError}`).slice(0, 240);
@@ -287,8 +262,8 @@ function familySignature(failure: TraceEvent): string {
 }
 
 function episodeDescription(failure: TraceEvent): string {
-  const text = textFromPayload(failure);
-  const summary = firstLine(text) || commandFromPayload(failure) || "recovery";
+  const text = eventOutputText(failure);
+  const summary = firstLine(text) || eventCommand(failure) || "recovery";
   return `Recover from ${summary}`;
 }
 
@@ -642,14 +617,14 @@ export function extractObservedAbEpisodes(events: TraceEvent[]): ObservedAbEpiso
 
     for (let index = 0; index < sorted.length; index += 1) {
       const failureEvent = sorted[index];
-      if (!failureEvent || !isFailure(failureEvent)) {
+      if (!failureEvent || !isToolResultFailure(failureEvent)) {
         continue;
       }
 
       let successIndex = -1;
       for (let probe = index + 1; probe < sorted.length; probe += 1) {
         const candidate = sorted[probe];
-        if (candidate && isSuccess(candidate)) {
+        if (candidate && isToolResultSuccess(candidate)) {
           successIndex = probe;
           break;
         }
@@ -685,7 +660,15 @@ export function extractObservedAbEpisodes(events: TraceEvent[]): ObservedAbEpiso
     }
   }
 
-  return episodes.sort(compareEpisodeTime);
+  episodes.sort(compareEpisodeTime);
+  const families = clusterNearDuplicates(
+    episodes.map((episode) => episode.familySignature),
+  );
+  return episodes.map((episode) => ({
+    ...episode,
+    familySignature:
+      families.get(episode.familySignature)?.representative ?? episode.familySignature,
+  }));
 }
 
 function buildObservedAbPairsWithDiagnostics(
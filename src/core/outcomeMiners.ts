@@ -0,0 +1,618 @@
+import {
+  type StructuredErrorSignature,
+  parseStructuredErrors,
+} from "./errorParsers.js";
+import type { SnapshottableTraceMiner } from "./interfaces.js";
+import { NearDuplicateClusterer } from "./minHash.js";
+import {
+  compareMinedArtifacts,
+  describeRecoverySteps,
+  supportConfidence,
+} from "./miner.js";
+import {
+  type SupportContribution,
+  SupportTable,
+  addEvidenceEventIds,
+  parseMinerSnapshot,
+} from "./minerState.js";
+import { areNearDuplicate } from "./nearDup.js";
+import {
+  eventCommand,
+  eventOutputText,
+  isToolResultFailure,
+  isToolResultSuccess,
+} from "./payloads.js";
+import { isDiagnosticCommand } from "./shellCommand.js";
+import {
+  extractErrorSignatures,
+  normalizeCommandSignature,
+  normalizeText,
+} from "./signatures.js";
+import type {
+  MinedArtifact,
+  MinedArtifactStep,
+  MinerSnapshot,
+  TraceEvent,
+} from "./types.js";
+import {
+  normalizeWorkspacePaths,
+  workspacePathOptionsForEvent,
+} from "./workspacePaths.js";
+
+export interface HappyPathMinerOptions {
+  minSessions?: number;
+  intentThreshold?: number;
+}
+
+export interface AntiPatternMinerOptions {
+  minSessions?: number;
+}
+
+interface CommandRun {
+  event: TraceEvent;
+  commandSignature: string;
+  isError: boolean;
+  isSuccess: boolean;
+}
+
+interface TurnState {
+  turn: number;
+  intent: string;
+  intentEventId?: string;
+  commands: MinedArtifactStep[];
+  failed: boolean;
+}
+
+interface CleanTurn extends SupportContribution {
+  intent: string;
+  intentEventId?: string;
+  steps: MinedArtifactStep[];
+}
+
+interface FailedRun extends SupportContribution {
+  commandSignature: string;
+  failureSignature: string;
+  failureError?: StructuredErrorSignature;
+  recoveredByEventId?: string;
+}
+
+interface OpenFailure {
+  id: string;
+  commandSignature: string;
+}
+
+interface HappyPathAccumulator {
+  intent: string;
+  intentClusterId: string;
+  commandSequence: string[];
+  steps: MinedArtifactStep[];
+  supportCount: number;
+  supportSessionIds: Set<string>;
+  evidenceEventIds: string[];
+}
+
+interface AntiPatternAccumulator {
+  commandSignature: string;
+  commandClusterId: string;
+  failureSignature: string;
+  failureError?: StructuredErrorSignature;
+  supportCount: number;
+  unrecoveredSessionIds: Set<string>;
+  recoveredSessionIds: Set<string>;
+  evidenceEventIds: string[];
+}
+
+const HAPPY_PATH_MINER = "happy_path";
+const ANTI_PATTERN_MINER = "anti_pattern";
+const DEFAULT_MIN_SESSIONS = 2;
+const DEFAULT_INTENT_THRESHOLD = 0.6;
+const INTENT_BANDS = 32;
+const COMMAND_CLUSTER_THRESHOLD = 0.95;
+
+function minSessions(value: number | undefined): number {
+  const resolved = value ?? DEFAULT_MIN_SESSIONS;
+  if (!Number.isInteger(resolved) || resolved <= 0) {
+    throw new Error(`minSessions must be a positive integer, got: ${resolved}`);
+  }
+  return resolved;
+}
+
+function commandRun(event: TraceEvent): CommandRun | null {
+  if (event.type !== "tool_result") {
+    return null;
+  }
+  const command = normalizeWorkspacePaths(
+    eventCommand(event),
+    workspacePathOptionsForEvent(event),
+  );
+  if (!command.trim() || isDiagnosticCommand(command)) {
+    return null;
+  }
+  return {
+    event,
+    commandSignature: normalizeCommandSignature(command),
+    isError: isToolResultFailure(event),
+    isSuccess: isToolResultSuccess(event),
+  };
+}
+
+function failedRun(run: CommandRun): FailedRun {
+  const output = normalizeWorkspacePaths(
+    eventOutputText(run.event),
+    workspacePathOptionsForEvent(run.event),
+  );
+  const failureError = parseStructuredErrors(output, 1)[0];
+  return {
+    id: run.event.id,
+    sessionId: run.event.sessionId,
+    evidenceEventIds: [run.event.id],
+    commandSignature: run.commandSignature,
+    failureSignature:
+      failureError?.signature ?? extractErrorSignatures(output, 1)[0] ?? "",
+    ...(failureError ? { failureError } : {}),
+  };
+}
+
+function isSessionEntry(value: unknown, field: string): boolean {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    typeof (value as Record<string, unknown>).sessionId === "string" &&
+    field in value
+  );
+}
+
+export class HappyPathMiner implements SnapshottableTraceMiner {
+  private readonly minSessions: number;
+  private readonly intentThreshold: number;
+  private turns = new Map<string, TurnState>();
+  private cleanTurns = new SupportTable<CleanTurn>();
+  private intentClusters: NearDuplicateClusterer | null = null;
+  private artifacts: MinedArtifact[] | null = null;
+
+  constructor(options: HappyPathMinerOptions = {}) {
+    this.minSessions = minSessions(options.minSessions);
+    this.intentThreshold = options.intentThreshold ?? DEFAULT_INTENT_THRESHOLD;
+  }
+
+  async ingest(event: TraceEvent): Promise<void> {
+    if (event.type === "user_input") {
+      this.turns.set(event.sessionId, {
+        turn: (this.turns.get(event.sessionId)?.turn ?? 0) + 1,
+        intent: normalizeText(eventOutputText(event)).slice(0, 160),
+        intentEventId: event.id,
+        commands: [],
+        failed: false,
+      });
+      return;
+    }
+
+    const run = commandRun(event);
+    if (!run) {
+      return;
+    }
+    const state = this.turns.get(event.sessionId) ?? {
+      turn: 0,
+      intent: "",
+      commands: [],
+      failed: false,
+    };
+    this.turns.set(event.sessionId, state);
+
+    if (run.isError) {
+      if (!state.failed) {
+        state.failed = true;
+        this.refreshTurn(event.sessionId, state);
+      }
+      return;
+    }
+    if (
+      run.isSuccess &&
+      !state.failed &&
+      state.commands.at(-1)?.command !== run.commandSignature
+    ) {
+      state.commands.push({
+        kind: "command",
+        eventId: event.id,
+        command: run.commandSignature,
+      });
+      this.refreshTurn(event.sessionId, state);
+    }
+  }
+
+  async forget(eventIds: string[]): Promise<void> {
+    const targets = new Set(eventIds);
+    const removed = this.cleanTurns.removeWhere(
+      (turn) =>
+        (turn.intentEventId !== undefined && targets.has(turn.intentEventId)) ||
+        turn.steps.some((step) => targets.has(step.eventId)),
+    );
+    if (removed.length > 0) {
+      this.intentClusters = null;
+      this.artifacts = null;
+    }
+
+    for (const [sessionId, state] of this.turns) {
+      const commands = state.commands.filter((step) => !targets.has(step.eventId));
+      const forgetIntent =
+        state.intentEventId !== undefined && targets.has(state.intentEventId);
+      if (commands.length === state.commands.length && !forgetIntent) {
+        continue;
+      }
+      state.commands = commands;
+      if (forgetIntent) {
+        state.intent = "";
+        state.intentEventId = undefined;
+      }
+      this.refreshTurn(sessionId, state);
+    }
+  }
+
+  async mine(limit = 50): Promise<MinedArtifact[]> {
+    if (!this.artifacts) {
+      this.artifacts = this.rankArtifacts();
+    }
+    return this.artifacts.slice(0, limit);
+  }
+
+  snapshot(): MinerSnapshot {
+    return {
+      miner: HAPPY_PATH_MINER,
+      turns: [...this.turns].map(([sessionId, state]) => ({ sessionId, ...state })),
+      cleanTurns: this.cleanTurns.snapshot(),
+      artifacts: this.artifacts,
+    };
+  }
+
+  restoreSnapshot(data: unknown): void {
+    const snapshot = parseMinerSnapshot(data, HAPPY_PATH_MINER);
+    if (
+      !Array.isArray(snapshot.turns) ||
+      !snapshot.turns.every((turn) => isSessionEntry(turn, "commands"))
+    ) {
+      throw new Error("Miner snapshot for happy_path has invalid turns.");
+    }
+
+    const cleanTurns = new SupportTable<CleanTurn>();
+    cleanTurns.restoreSnapshot(snapshot.cleanTurns);
+    const turns = new Map<string, TurnState>();
+    for (const { sessionId, ...state } of snapshot.turns) {
+      turns.set(sessionId, state);
+    }
+
+    this.turns = turns;
+    this.cleanTurns = cleanTurns;
+    this.intentClusters = null;
+    this.artifacts = snapshot.artifacts;
+  }
+
+  private refreshTurn(sessionId: string, state: TurnState): void {
+    const id = `${sessionId}#${state.turn}`;
+    const lastCommand = state.commands.at(-1);
+    if (state.failed || !lastCommand?.command) {
+      if (this.cleanTurns.remove(id)) {
+        this.artifacts = null;
+      }
+      return;
+    }
+
+    const steps = state.commands.map((step, index) => ({
+      ...step,
+      kind: index === state.commands.length - 1 ? ("success" as const) : step.kind,
+    }));
+    const intent = state.intent || lastCommand.command;
+    const sequence = steps.map((step) => step.command).join(" && ");
+    this.cleanTurns.add(`${intent}=>${sequence}`, {
+      id,
+      sessionId,
+      evidenceEventIds: steps.map((step) => step.eventId),
+      intent,
+      ...(state.intentEventId ? { intentEventId: state.intentEventId } : {}),
+      steps,
+    });
+    this.intentClusters?.add(intent);
+    this.artifacts = null;
+  }
+
+  private intents(): NearDuplicateClusterer {
+    if (!this.intentClusters) {
+      this.intentClusters = new NearDuplicateClusterer({
+        bands: INTENT_BANDS,
+        threshold: this.intentThreshold,
+      });
+      for (const group of this.cleanTurns.values()) {
+        const turn = group.contributions[0];
+        if (turn) {
+          this.intentClusters.add(turn.intent);
+        }
+      }
+    }
+    return this.intentClusters;
+  }
+
+  private rankArtifacts(): MinedArtifact[] {
+    const intents = this.intents();
+    const byFingerprint = new Map<string, HappyPathAccumulator>();
+    for (const group of this.cleanTurns.values()) {
+      const turn = group.contributions[0];
+      const intentCluster = turn ? intents.clusterOf(turn.intent) : undefined;
+      if (!turn || !intentCluster) {
+        continue;
+      }
+
+      const commandSequence = turn.steps.map((step) => step.command ?? "");
+      const fingerprint = `${intentCluster.id}=>${commandSequence.join(" && ")}`;
+      const existing = byFingerprint.get(fingerprint);
+      if (existing) {
+        existing.supportCount += group.contributions.length;
+        for (const sessionId of group.sessionCounts.keys()) {
+          existing.supportSessionIds.add(sessionId);
+        }
+        addEvidenceEventIds(existing.evidenceEventIds, group.evidenceEventIds);
+        continue;
+      }
+
+      byFingerprint.set(fingerprint, {
+        intent: intentCluster.representative,
+        intentClusterId: intentCluster.id,
+        commandSequence,
+        steps: turn.steps,
+        supportCount: group.contributions.length,
+        supportSessionIds: new Set(group.sessionCounts.keys()),
+        evidenceEventIds: [...group.evidenceEventIds],
+      });
+    }
+
+    const artifacts: MinedArtifact[] = [];
+    for (const entry of byFingerprint.values()) {
+      const supportSessionCount = entry.supportSessionIds.size;
+      if (supportSessionCount < this.minSessions) {
+        continue;
+      }
+
+      const sequence = entry.commandSequence.join(" && ");
+      artifacts.push({
+        id: `happy-path-${entry.intentClusterId}-${sequence}`,
+        kind: "happy_path",
+        summary: `For "${entry.intent}", ${describeRecoverySteps(entry.steps).join(", then ")} works first try.`,
+        confidence: supportConfidence(entry.supportCount, supportSessionCount),
+        evidenceEventIds: entry.evidenceEventIds,
+        evidenceSessionIds: [...entry.supportSessionIds],
+        steps: entry.steps,
+        metadata: {
+          intent: entry.intent,
+          intentClusterId: entry.intentClusterId,
+          commandSequence: sequence,
+          supportCount: entry.supportCount,
+          supportSessionCount,
+          crossSessionSupport: supportSessionCount >= 2,
+          stepCount: entry.steps.length,
+        },
+      });
+    }
+
+    return artifacts.sort(compareMinedArtifacts);
+  }
+}
+
+export class AntiPatternMiner implements SnapshottableTraceMiner {
+  private readonly minSessions: number;
+  private openFailures = new Map<string, OpenFailure[]>();
+  private unrecovered = new SupportTable<FailedRun>();
+  private recovered = new SupportTable<FailedRun>();
+  private commandClusters: NearDuplicateClusterer | null = null;
+  private artifacts: MinedArtifact[] | null = null;
+
+  constructor(options: AntiPatternMinerOptions = {}) {
+    this.minSessions = minSessions(options.minSessions);
+  }
+
+  async ingest(event: TraceEvent): Promise<void> {
+    const run = commandRun(event);
+    if (!run) {
+      return;
+    }
+
+    const open = this.openFailures.get(event.sessionId) ?? [];
+    if (run.isError) {
+      this.unrecovered.add(run.commandSignature, failedRun(run));
+      this.commandClusters?.add(run.commandSignature);
+      open.push({ id: event.id, commandSignature: run.commandSignature });
+      this.openFailures.set(event.sessionId, open);
+      this.artifacts = null;
+      return;
+    }
+
+    const stillOpen: OpenFailure[] = [];
+    for (const failure of open) {
+      if (
+        failure.commandSignature !== run.commandSignature &&
+        !areNearDuplicate(
+          failure.commandSignature,
+          run.commandSignature,
+          COMMAND_CLUSTER_THRESHOLD,
+        )
+      ) {
+        stillOpen.push(failure);
+        continue;
+      }
+      const recovered = this.unrecovered.remove(failure.id);
+      if (recovered) {
+        this.recovered.add(recovered.commandSignature, {
+          ...recovered,
+          recoveredByEventId: event.id,
+        });
+        this.artifacts = null;
+      }
+    }
+    if (stillOpen.length > 0) {
+      this.openFailures.set(event.sessionId, stillOpen);
+    } else {
+      this.openFailures.delete(event.sessionId);
+    }
+  }
+
+  async forget(eventIds: string[]): Promise<void> {
+    const targets = new Set(eventIds);
+    const touchesTargets = (failure: FailedRun): boolean =>
+      targets.has(failure.id) ||
+      (failure.recoveredByEventId !== undefined &&
+        targets.has(failure.recoveredByEventId));
+    const removed = [
+      ...this.unrecovered.removeWhere(touchesTargets),
+      ...this.recovered.removeWhere(touchesTargets),
+    ];
+    if (removed.length > 0) {
+      this.commandClusters = null;
+      this.artifacts = null;
+    }
+
+    for (const [sessionId, failures] of this.openFailures) {
+      const kept = failures.filter((failure) => !targets.has(failure.id));
+      if (kept.length === 0) {
+        this.openFailures.delete(sessionId);
+      } else if (kept.length !== failures.length) {
+        this.openFailures.set(sessionId, kept);
+      }
+    }
+  }
+
+  async mine(limit = 50): Promise<MinedArtifact[]> {
+    if (!this.artifacts) {
+      this.artifacts = this.rankArtifacts();
+    }
+    return this.artifacts.slice(0, limit);
+  }
+
+  snapshot(): MinerSnapshot {
+    return {
+      miner: ANTI_PATTERN_MINER,
+      openFailures: [...this.openFailures].map(([sessionId, failures]) => ({
+        sessionId,
+        failures,
+      })),
+      unrecovered: this.unrecovered.snapshot(),
+      recovered: this.recovered.snapshot(),
+      artifacts: this.artifacts,
+    };
+  }
+
+  restoreSnapshot(data: unknown): void {
+    const snapshot = parseMinerSnapshot(data, ANTI_PATTERN_MINER);
+    if (
+      !Array.isArray(snapshot.openFailures) ||
+      !snapshot.openFailures.every(
+        (entry) => isSessionEntry(entry, "failures") && Array.isArray(entry.failures),
+      )
+    ) {
+      throw new Error("Miner snapshot for anti_pattern has invalid open failures.");
+    }
+
+    const unrecovered = new SupportTable<FailedRun>();
+    unrecovered.restoreSnapshot(snapshot.unrecovered);
+    const recovered = new SupportTable<FailedRun>();
+    recovered.restoreSnapshot(snapshot.recovered);
+    const openFailures = new Map<string, OpenFailure[]>();
+    for (const entry of snapshot.openFailures) {
+      openFailures.set(entry.sessionId, entry.failures);
+    }
+
+    this.openFailures = openFailures;
+    this.unrecovered = unrecovered;
+    this.recovered = recovered;
+    this.commandClusters = null;
+    this.artifacts = snapshot.artifacts;
+  }
+
+  private clusters(): NearDuplicateClusterer {
+    if (!this.commandClusters) {
+      this.commandClusters = new NearDuplicateClusterer({
+        threshold: COMMAND_CLUSTER_THRESHOLD,
+      });
+      for (const group of this.unrecovered.values()) {
+        this.commandClusters.add(group.key);
+      }
+      for (const group of this.recovered.values()) {
+        this.commandClusters.add(group.key);
+      }
+    }
+    return this.commandClusters;
+  }
+
+  private rankArtifacts(): MinedArtifact[] {
+    const commandClusters = this.clusters();
+    const byCluster = new Map<string, AntiPatternAccumulator>();
+    const accumulate = (table: SupportTable<FailedRun>, recovered: boolean): void => {
+      for (const group of table.values()) {
+        const first = group.contributions[0];
+        const cluster = commandClusters.clusterOf(group.key);
+        if (!first || !cluster) {
+          continue;
+        }
+
+        let entry = byCluster.get(cluster.id);
+        if (!entry) {
+          entry = {
+            commandSignature: cluster.representative,
+            commandClusterId: cluster.id,
+            failureSignature: first.failureSignature,
+            ...(first.failureError ? { failureError: first.failureError } : {}),
+            supportCount: 0,
+            unrecoveredSessionIds: new Set(),
+            recoveredSessionIds: new Set(),
+            evidenceEventIds: [],
+          };
+          byCluster.set(cluster.id, entry);
+        }
+
+        entry.supportCount += group.contributions.length;
+        const sessionIds = recovered
+          ? entry.recoveredSessionIds
+          : entry.unrecoveredSessionIds;
+        for (const sessionId of group.sessionCounts.keys()) {
+          sessionIds.add(sessionId);
+        }
+        addEvidenceEventIds(entry.evidenceEventIds, group.evidenceEventIds);
+      }
+    };
+    accumulate(this.unrecovered, false);
+    accumulate(this.recovered, true);
+
+    const artifacts: MinedArtifact[] = [];
+    for (const entry of byCluster.values()) {
+      const supportSessionCount = entry.unrecoveredSessionIds.size;
+      if (
+        supportSessionCount < this.minSessions ||
+        entry.recoveredSessionIds.size > 0
+      ) {
+        continue;
+      }
+
+      const failure = entry.failureSignature ? ` with "${entry.failureSignature}"` : "";
+      artifacts.push({
+        id: `anti-pattern-${entry.commandSignature}`,
+        kind: "anti_pattern",
+        summary: `Avoid \`${entry.commandSignature}\`: it failed${failure} in ${supportSessionCount} session(s) and never succeeded afterwards.`,
+        confidence: supportConfidence(entry.supportCount, supportSessionCount),
+        evidenceEventIds: entry.evidenceEventIds,
+        evidenceSessionIds: [...entry.unrecoveredSessionIds],
+        metadata: {
+          command: entry.commandSignature,
+          commandClusterId: entry.commandClusterId,
+          ...(entry.failureSignature
+            ? { failureSignature: entry.failureSignature }
+            : {}),
+          ...(entry.failureError?.code ? { errorCode: entry.failureError.code } : {}),
+          ...(entry.failureError?.exceptionType
+            ? { exceptionType: entry.failureError.exceptionType }
+            : {}),
+          supportCount: entry.supportCount,
+          supportSessionCount,
+          crossSessionSupport: supportSessionCount >= 2,
+        },
+      });
+    }
+
+    return artifacts.sort(compareMinedArtifacts);
+  }
+}
@@ -0,0 +1,116 @@
+import type { TraceEvent, TraceEventType } from "./types.js";
+
+const OUTPUT_TEXT_FIELDS = [
+  "output",
+  "stderr",
+  "stdout",
+  "text",
+  "content",
+  "error",
+  "message",
+] as const;
+
+function payloadRecord(event: TraceEvent): Record<string, unknown> {
+  const payload = event.payload as unknown;
+  if (!payload || typeof payload !== "object" || Array.isArray(payload)) {
+    return {};
+  }
+  return payload as Record<string, unknown>;
+}
+
+function stringField(event: TraceEvent, field: string): string | null {
+  const value = payloadRecord(event)[field];
+  return typeof value === "string" ? value : null;
+}
+
+export function isTraceEventOfType<TType extends TraceEventType>(
+  event: TraceEvent,
+  type: TType,
+): event is Extract<TraceEvent, { type: TType }> {
+  return event.type === type;
+}
+
+export function eventCommand(event: TraceEvent): string {
+  const command = stringField(event, "command");
+  if (command !== null) {
+    return command;
+  }
+
+  const input = payloadRecord(event).input;
+  if (input && typeof input === "object" && !Array.isArray(input)) {
+    const inputCommand = (input as Record<string, unknown>).command;
+    if (typeof inputCommand === "string") {
+      return inputCommand;
+    }
+  }
+
+  return "";
+}
+
+export function eventOutputText(event: TraceEvent): string {
+  const payload = payloadRecord(event);
+  for (const field of OUTPUT_TEXT_FIELDS) {
+    const value = payload[field];
+    if (typeof value === "string" && value.trim().length > 0) {
+      return value;
+    }
+  }
+  return "";
+}
+
+export function eventTextOrPayloadJson(event: TraceEvent): string {
+  const text = eventOutputText(event);
+  if (text) {
+    return text;
+  }
+
+  try {
+    return JSON.stringify(payloadRecord(event));
+  } catch {
+    return "";
+  }
+}
+
+export function eventToolName(event: TraceEvent): string | null {
+  return stringField(event, "toolName");
+}
+
+export function eventToolCallId(event: TraceEvent): string | null {
+  return stringField(event, "toolCallId");
+}
+
+export function eventFilePath(event: TraceEvent): string | null {
+  return stringField(event, "path");
+}
+
+export function eventDiff(event: TraceEvent): string {
+  return stringField(event, "diff") ?? "";
+}
+
+export function toolResultIsError(event: TraceEvent): boolean | null {
+  if (event.type !== "tool_result") {
+    return null;
+  }
+  const isError = payloadRecord(event).isError;
+  return typeof isError === "boolean" ? isError : null;
+}
+
+export function isToolResultFailure(event: TraceEvent): boolean {
+  if (event.type !== "tool_result") {
+    return false;
+  }
+  if (event.metrics?.outcome === "failure") {
+    return true;
+  }
+  return toolResultIsError(event) === true;
+}
+
+export function isToolResultSuccess(event: TraceEvent): boolean {
+  if (event.type !== "tool_result") {
+    return false;
+  }
+  if (event.metrics?.outcome === "success") {
+    return true;
+  }
+  return toolResultIsError(event) === false;
+}
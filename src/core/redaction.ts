@@ -0,0 +1,288 @@
+import type {
+  RedactionAudit,
+  RedactionFinding,
+  TraceEvent,
+  TraceScope,
+} from "./types.js";
+
+export interface RedactionRange {
+  start: number;
+  end: number;
+}
+
+export interface RedactionDetector {
+  id: string;
+  find(text: string): RedactionRange[];
+}
+
+export interface RedactionScopePolicy {
+  enabled?: boolean;
+  detectors?: string[];
+}
+
+export interface RedactorOptions {
+  detectors?: RedactionDetector[];
+  scopes?: Partial<Record<TraceScope, RedactionScopePolicy>>;
+}
+
+export interface RedactedText {
+  text: string;
+  counts: Map<string, number>;
+}
+
+export interface TraceEventRedactor {
+  redactEvent(event: TraceEvent): TraceEvent;
+}
+
+const HIGH_ENTROPY_MIN_LENGTH = 32;
+const HIGH_ENTROPY_MIN_BITS_PER_CHAR = 4.2;
+
+function patternDetector(id: string, pattern: RegExp): RedactionDetector {
+  return {
+    id,
+    find(text) {
+      const ranges: RedactionRange[] = [];
+      for (const match of text.matchAll(new RegExp(pattern.source, pattern.flags))) {
+        if (match.index === undefined || match[0].length === 0) {
+          continue;
+        }
+        ranges.push({ start: match.index, end: match.index + match[0].length });
+      }
+      return ranges;
+    },
+  };
+}
+
+function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const probability = count / value.length;
+    entropy -= probability * Math.log2(probability);
+  }
+  return entropy;
+}
+
+function looksLikeSecretToken(token: string): boolean {
+  if (/^[0-9a-f]+$/i.test(token)) {
+    return false;
+  }
+  if (!/[a-z]/.test(token) || !/[A-Z]/.test(token) || !/[0-9]/.test(token)) {
+    return false;
+  }
+  return shannonEntropy(token) >= HIGH_ENTROPY_MIN_BITS_PER_CHAR;
+}
+
+const highEntropyDetector: RedactionDetector = {
+  id: "high_entropy",
+  find(text) {
+    const ranges: RedactionRange[] = [];
+    const pattern = new RegExp(
+      `[A-Za-z0-9_+-]{${HIGH_ENTROPY_MIN_LENGTH},}={0,2}`,
+      "g",
+    );
+    for (const match of text.matchAll(pattern)) {
+      if (match.index === undefined || !looksLikeSecretToken(match[0])) {
+        continue;
+      }
+      ranges.push({ start: match.index, end: match.index + match[0].length });
+    }
+    return ranges;
+  },
+};
+
+export const BUILTIN_REDACTION_DETECTORS: readonly RedactionDetector[] = Object.freeze([
+  patternDetector(
+    "private_key",
+    /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY-----[\s\S]*?-----END (?:[A-Z0-9]+ )*PRIVATE KEY-----/g,
+  ),
+  patternDetector(
+    "aws_access_key",
+    /\b(?:AKIA|ASIA|AGPA|AIDA|AROA|ANPA)[A-Z0-9]{16}\b/g,
+  ),
+  patternDetector(
+    "aws_secret_key",
+    /(?<=aws_secret_access_key["']?\s*[=:]\s*["']?)[A-Za-z0-9/+=]{40}(?![A-Za-z0-9/+=])/gi,
+  ),
+  patternDetector("gcp_api_key", /\bAIza[0-9A-Za-z_-]{35}(?![0-9A-Za-z_-])/g),
+  patternDetector(
+    "gcp_private_key_id",
+    /(?<="private_key_id"\s*:\s*")[a-f0-9]{40}(?=")/g,
+  ),
+  patternDetector(
+    "github_token",
+    /\b(?:(?:ghp|gho|ghu|ghs|ghr)_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{22,255})\b/g,
+  ),
+  patternDetector(
+    "jwt",
+    /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g,
+  ),
+  patternDetector("bearer_token", /(?<=\bBearer\s+)[A-Za-z0-9._~+/-]{16,}=*/g),
+  patternDetector(
+    "secret_assignment",
+    /(?<=\b[A-Z0-9_]*(?:SECRET|TOKEN|PASSWORD|PASSWD|API_KEY|APIKEY|PRIVATE_KEY|ACCESS_KEY)[A-Z0-9_]*\s*[=:]\s*["']?)[^\s"'#]{6,}/g,
+  ),
+  patternDetector(
+    "email",
+    /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}\b(?!:)/g,
+  ),
+  highEntropyDetector,
+]);
+
+const DEFAULT_SCOPE_POLICIES: Record<TraceScope, RedactionScopePolicy> = {
+  personal: {
+    enabled: true,
+    detectors: BUILTIN_REDACTION_DETECTORS.map((detector) => detector.id).filter(
+      (id) => id !== "email",
+    ),
+  },
+  team: { enabled: true },
+  public: { enabled: true },
+};
+
+export function redactionPlaceholder(detectorId: string): string {
+  return `[REDACTED:${detectorId}]`;
+}
+
+function mergeFindings(
+  existing: RedactionFinding[],
+  added: RedactionFinding[],
+): RedactionFinding[] {
+  const merged = existing.map((finding) => ({ ...finding }));
+  for (const finding of added) {
+    const match = merged.find(
+      (candidate) =>
+        candidate.path === finding.path && candidate.detector === finding.detector,
+    );
+    if (match) {
+      match.count += finding.count;
+    } else {
+      merged.push({ ...finding });
+    }
+  }
+  return merged;
+}
+
+export class Redactor implements TraceEventRedactor {
+  private readonly detectors: RedactionDetector[];
+  private readonly scopes: Record<TraceScope, RedactionScopePolicy>;
+
+  constructor(options: RedactorOptions = {}) {
+    this.detectors = [...(options.detectors ?? BUILTIN_REDACTION_DETECTORS)];
+    this.scopes = {
+      personal: { ...DEFAULT_SCOPE_POLICIES.personal, ...options.scopes?.personal },
+      team: { ...DEFAULT_SCOPE_POLICIES.team, ...options.scopes?.team },
+      public: { ...DEFAULT_SCOPE_POLICIES.public, ...options.scopes?.public },
+    };
+
+    const ids = new Set<string>();
+    for (const detector of this.detectors) {
+      if (ids.has(detector.id)) {
+        throw new Error(`Duplicate redaction detector id: ${detector.id}`);
+      }
+      ids.add(detector.id);
+    }
+  }
+
+  redactText(text: string, scope: TraceScope): RedactedText {
+    const counts = new Map<string, number>();
+    const detectors = this.detectorsFor(scope);
+    if (detectors.length === 0 || !text) {
+      return { text, counts };
+    }
+
+    const matches: Array<RedactionRange & { detector: string }> = [];
+    for (const detector of detectors) {
+      for (const range of detector.find(text)) {
+        if (range.end > range.start) {
+          matches.push({ ...range, detector: detector.id });
+        }
+      }
+    }
+
+    matches.sort((left, right) => {
+      if (left.start !== right.start) {
+        return left.start - right.start;
+      }
+      return right.end - left.end;
+    });
+
+    let output = "";
+    let cursor = 0;
+    for (const match of matches) {
+      if (match.start < cursor) {
+        continue;
+      }
+      output += text.slice(cursor, match.start) + redactionPlaceholder(match.detector);
+      cursor = match.end;
+      counts.set(match.detector, (counts.get(match.detector) ?? 0) + 1);
+    }
+    output += text.slice(cursor);
+
+    return { text: output, counts };
+  }
+
+  redactEvent(event: TraceEvent): TraceEvent {
+    const findings: RedactionFinding[] = [];
+    const payload = this.redactValue(event.payload, "payload", event.scope, findings);
+    if (findings.length === 0) {
+      return event;
+    }
+
+    const audit: RedactionAudit = {
+      findings: mergeFindings(event.redaction?.findings ?? [], findings),
+    };
+    return {
+      ...event,
+      payload: payload as TraceEvent["payload"],
+      redaction: audit,
+    } as TraceEvent;
+  }
+
+  private detectorsFor(scope: TraceScope): RedactionDetector[] {
+    const policy = this.scopes[scope] ?? this.scopes.public;
+    if (policy.enabled === false) {
+      return [];
+    }
+    if (!policy.detectors) {
+      return this.detectors;
+    }
+    const allowed = new Set(policy.detectors);
+    return this.detectors.filter((detector) => allowed.has(detector.id));
+  }
+
+  private redactValue(
+    value: unknown,
+    path: string,
+    scope: TraceScope,
+    findings: RedactionFinding[],
+  ): unknown {
+    if (typeof value === "string") {
+      const redacted = this.redactText(value, scope);
+      for (const [detector, count] of redacted.counts.entries()) {
+        findings.push({ path, detector, count });
+      }
+      return redacted.text;
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((item, index) =>
+        this.redactValue(item, `${path}[${index}]`, scope, findings),
+      );
+    }
+
+    if (value && typeof value === "object") {
+      const output: Record<string, unknown> = {};
+      for (const [key, child] of Object.entries(value)) {
+        output[key] = this.redactValue(child, `${path}.${key}`, scope, findings);
+      }
+      return output;
+    }
+
+    return value;
+  }
+}
@@ -0,0 +1,154 @@
+import type { SearchResultReranker, TraceStore } from "./interfaces.js";
+import type { SearchQuery, SearchResult } from "./types.js";
+
+export interface RecencyOutcomeRerankerOptions {
+  store?: TraceStore;
+  halfLifeDays?: number;
+  minRecencyWeight?: number;
+  successBoost?: number;
+  now?: () => Date;
+}
+
+const DEFAULT_HALF_LIFE_DAYS = 90;
+const DEFAULT_MIN_RECENCY_WEIGHT = 0.25;
+const DEFAULT_SUCCESS_BOOST = 1.25;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function positiveNumber(
+  value: number | undefined,
+  fallback: number,
+  name: string,
+): number {
+  const resolved = value ?? fallback;
+  if (!Number.isFinite(resolved) || resolved <= 0) {
+    throw new Error(`${name} must be a finite positive number, got: ${resolved}`);
+  }
+  return resolved;
+}
+
+function resultTimestamp(result: SearchResult): number | null {
+  const timestamp = result.document.metadata?.timestamp;
+  if (typeof timestamp !== "string") {
+    return null;
+  }
+  const millis = Date.parse(timestamp);
+  return Number.isNaN(millis) ? null : millis;
+}
+
+function resultSessionId(result: SearchResult): string | null {
+  const sessionId = result.document.metadata?.sessionId;
+  return typeof sessionId === "string" && sessionId ? sessionId : null;
+}
+
+async function followedBySuccess(
+  store: TraceStore,
+  results: SearchResult[],
+): Promise<Set<string>> {
+  const earliestBySession = new Map<string, number>();
+  for (const result of results) {
+    const sessionId = resultSessionId(result);
+    const timestamp = resultTimestamp(result);
+    if (sessionId === null || timestamp === null) {
+      continue;
+    }
+    const earliest = earliestBySession.get(sessionId);
+    earliestBySession.set(
+      sessionId,
+      earliest === undefined ? timestamp : Math.min(earliest, timestamp),
+    );
+  }
+
+  const successTimes = new Map<string, { eventId: string; timestamp: number }[]>();
+  for (const [sessionId, earliest] of earliestBySession) {
+    const events = await store.query({
+      sessionIds: [sessionId],
+      since: new Date(earliest).toISOString(),
+      outcomes: ["success"],
+    });
+    successTimes.set(
+      sessionId,
+      events.map((event) => ({
+        eventId: event.id,
+        timestamp: Date.parse(event.timestamp),
+      })),
+    );
+  }
+
+  const followed = new Set<string>();
+  for (const result of results) {
+    const sessionId = resultSessionId(result);
+    const timestamp = resultTimestamp(result);
+    if (sessionId === null || timestamp === null) {
+      continue;
+    }
+    const successes = successTimes.get(sessionId) ?? [];
+    if (
+      successes.some(
+        (success) =>
+          success.eventId !== result.document.sourceEventId &&
+          success.timestamp > timestamp,
+      )
+    ) {
+      followed.add(result.document.sourceEventId);
+    }
+  }
+  return followed;
+}
+
+export function createRecencyOutcomeReranker(
+  options: RecencyOutcomeRerankerOptions = {},
+): SearchResultReranker {
+  const halfLifeMs =
+    positiveNumber(options.halfLifeDays, DEFAULT_HALF_LIFE_DAYS, "halfLifeDays") *
+    DAY_MS;
+  const minRecencyWeight = Math.min(
+    1,
+    Math.max(0, options.minRecencyWeight ?? DEFAULT_MIN_RECENCY_WEIGHT),
+  );
+  const successBoost = positiveNumber(
+    options.successBoost,
+    DEFAULT_SUCCESS_BOOST,
+    "successBoost",
+  );
+  const now = options.now ?? (() => new Date());
+
+  return async (_query, results) => {
+    const nowMs = now().getTime();
+    const followed = options.store
+      ? await followedBySuccess(options.store, results)
+      : new Set<string>();
+
+    const reranked = results.map((result, rank) => {
+      const timestamp = resultTimestamp(result);
+      const ageMs = timestamp === null ? 0 : Math.max(0, nowMs - timestamp);
+      const recencyWeight = Math.max(minRecencyWeight, 0.5 ** (ageMs / halfLifeMs));
+      const outcomeWeight = followed.has(result.document.sourceEventId)
+        ? successBoost
+        : 1;
+      return {
+        rank,
+        result: { ...result, score: result.score * recencyWeight * outcomeWeight },
+      };
+    });
+
+    reranked.sort((left, right) => {
+      if (right.result.score !== left.result.score) {
+        return right.result.score - left.result.score;
+      }
+      return left.rank - right.rank;
+    });
+    return reranked.map((entry) => entry.result);
+  };
+}
+
+export function composeRerankers(
+  ...rerankers: SearchResultReranker[]
+): SearchResultReranker {
+  return async (query: SearchQuery, results: SearchResult[]) => {
+    let current = results;
+    for (const reranker of rerankers) {
+      current = await reranker(query, current);
+    }
+    return current;
+  };
+}
@@ -0,0 +1,264 @@
+import type {
+  IndexedDocument,
+  SearchFilterCondition,
+  SearchFilterValue,
+  SearchFilters,
+} from "./types.js";
+
+export type SearchFilterRangeOperator = "gt" | "gte" | "lt" | "lte";
+
+export type SearchFilterExpression =
+  | { kind: "and" | "or"; operands: SearchFilterExpression[] }
+  | { kind: "eq" | "ne"; key: string; value: SearchFilterValue }
+  | { kind: "in" | "nin"; key: string; values: SearchFilterValue[] }
+  | { kind: "exists"; key: string; exists: boolean }
+  | {
+      kind: "range";
+      key: string;
+      operator: SearchFilterRangeOperator;
+      value: number;
+      timestamp: boolean;
+    };
+
+type DocumentMetadata = NonNullable<IndexedDocument["metadata"]>;
+
+export class InvalidSearchFilterError extends Error {
+  constructor(message: string) {
+    super(`Invalid search filter: ${message}`);
+    this.name = "InvalidSearchFilterError";
+  }
+}
+
+const RANGE_OPERATORS: Record<string, SearchFilterRangeOperator> = {
+  $gt: "gt",
+  $gte: "gte",
+  $lt: "lt",
+  $lte: "lte",
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function isFilterValue(value: unknown): value is SearchFilterValue {
+  return (
+    typeof value === "string" ||
+    typeof value === "boolean" ||
+    (typeof value === "number" && Number.isFinite(value))
+  );
+}
+
+function filterValue(key: string, operator: string, value: unknown): SearchFilterValue {
+  if (!isFilterValue(value)) {
+    throw new InvalidSearchFilterError(
+      `${key}.${operator} must be a string, finite number or boolean`,
+    );
+  }
+  return value;
+}
+
+function filterValues(
+  key: string,
+  operator: string,
+  value: unknown,
+): SearchFilterValue[] {
+  if (!Array.isArray(value)) {
+    throw new InvalidSearchFilterError(`${key}.${operator} must be an array`);
+  }
+  return value.map((item) => filterValue(key, operator, item));
+}
+
+function parseRange(
+  key: string,
+  operator: string,
+  value: unknown,
+): SearchFilterExpression {
+  const rangeOperator = RANGE_OPERATORS[operator];
+  if (!rangeOperator) {
+    throw new InvalidSearchFilterError(`unknown operator ${key}.${operator}`);
+  }
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return { kind: "range", key, operator: rangeOperator, value, timestamp: false };
+  }
+  if (typeof value === "string" && !Number.isNaN(Date.parse(value))) {
+    return {
+      kind: "range",
+      key,
+      operator: rangeOperator,
+      value: Date.parse(value),
+      timestamp: true,
+    };
+  }
+  throw new InvalidSearchFilterError(
+    `${key}.${operator} must be a finite number or a timestamp`,
+  );
+}
+
+function parseCondition(
+  key: string,
+  condition: SearchFilterCondition | SearchFilters[],
+): SearchFilterExpression[] {
+  if (isFilterValue(condition)) {
+    return [{ kind: "eq", key, value: condition }];
+  }
+  if (!isRecord(condition)) {
+    throw new InvalidSearchFilterError(
+      `${key} must be a value or an operator object (use $in for lists)`,
+    );
+  }
+
+  const expressions: SearchFilterExpression[] = [];
+  for (const [operator, value] of Object.entries(condition)) {
+    if (value === undefined) {
+      continue;
+    }
+    switch (operator) {
+      case "$eq":
+      case "$ne":
+        expressions.push({
+          kind: operator === "$eq" ? "eq" : "ne",
+          key,
+          value: filterValue(key, operator, value),
+        });
+        break;
+      case "$in":
+      case "$nin":
+        expressions.push({
+          kind: operator === "$in" ? "in" : "nin",
+          key,
+          values: filterValues(key, operator, value),
+        });
+        break;
+      case "$exists":
+        if (typeof value !== "boolean") {
+          throw new InvalidSearchFilterError(`${key}.$exists must be a boolean`);
+        }
+        expressions.push({ kind: "exists", key, exists: value });
+        break;
+      default:
+        expressions.push(parseRange(key, operator, value));
+    }
+  }
+  return expressions;
+}
+
+export function parseSearchFilters(filters: SearchFilters): SearchFilterExpression {
+  if (!isRecord(filters)) {
+    throw new InvalidSearchFilterError("filters must be an object");
+  }
+
+  const operands: SearchFilterExpression[] = [];
+  for (const [key, condition] of Object.entries(filters)) {
+    if (condition === undefined) {
+      continue;
+    }
+    if (key === "$or") {
+      if (!Array.isArray(condition) || condition.length === 0) {
+        throw new InvalidSearchFilterError("$or must be a non-empty array of filters");
+      }
+      operands.push({
+        kind: "or",
+        operands: condition.map((branch) => parseSearchFilters(branch)),
+      });
+      continue;
+    }
+    if (key.startsWith("$")) {
+      throw new InvalidSearchFilterError(`unknown operator ${key}`);
+    }
+    operands.push(...parseCondition(key, condition));
+  }
+
+  return { kind: "and", operands };
+}
+
+function metadataValue(
+  metadata: DocumentMetadata | undefined,
+  key: string,
+): SearchFilterValue | null | undefined {
+  return metadata && Object.hasOwn(metadata, key) ? metadata[key] : undefined;
+}
+
+function rangeOperand(
+  value: SearchFilterValue | null | undefined,
+  timestamp: boolean,
+): number | null {
+  if (timestamp) {
+    const millis = typeof value === "string" ? Date.parse(value) : Number.NaN;
+    return Number.isNaN(millis) ? null : millis;
+  }
+  return typeof value === "number" ? value : null;
+}
+
+function compareRange(
+  actual: number,
+  operator: SearchFilterRangeOperator,
+  expected: number,
+): boolean {
+  switch (operator) {
+    case "gt":
+      return actual > expected;
+    case "gte":
+      return actual >= expected;
+    case "lt":
+      return actual < expected;
+    case "lte":
+      return actual <= expected;
+  }
+}
+
+export function matchesSearchFilterExpression(
+  expression: SearchFilterExpression,
+  metadata: DocumentMetadata | undefined,
+): boolean {
+  switch (expression.kind) {
+    case "and":
+      return expression.operands.every((operand) =>
+        matchesSearchFilterExpression(operand, metadata),
+      );
+    case "or":
+      return expression.operands.some((operand) =>
+        matchesSearchFilterExpression(operand, metadata),
+      );
+    case "eq":
+      return metadataValue(metadata, expression.key) === expression.value;
+    case "ne":
+      return metadataValue(metadata, expression.key) !== expression.value;
+    case "in":
+    case "nin": {
+      const actual = metadataValue(metadata, expression.key);
+      const found = expression.values.some((value) => value === actual);
+      return expression.kind === "in" ? found : !found;
+    }
+    case "exists": {
+      const actual = metadataValue(metadata, expression.key);
+      return (actual !== undefined && actual !== null) === expression.exists;
+    }
+    case "range": {
+      const actual = rangeOperand(
+        metadataValue(metadata, expression.key),
+        expression.timestamp,
+      );
+      return (
+        actual !== null && compareRange(actual, expression.operator, expression.value)
+      );
+    }
+  }
+}
+
+export function matchesSearchFilters(
+  metadata: DocumentMetadata | undefined,
+  filters: SearchFilters | undefined,
+): boolean {
+  if (!filters) {
+    return true;
+  }
+  return matchesSearchFilterExpression(parseSearchFilters(filters), metadata);
+}
+
+export function parseRemoveFilters(filters: SearchFilters): SearchFilterExpression {
+  const expression = parseSearchFilters(filters);
+  if (expression.kind === "and" && expression.operands.length === 0) {
+    throw new Error("removeWhere requires at least one filter; use clear() instead.");
+  }
+  return expression;
+}
@@ -0,0 +1,383 @@
+export type CommandOperator = "&&" | "||" | ";" | "|" | "&";
+
+export interface ParsedCommandSegment {
+  operator: CommandOperator | null;
+  program: string;
+  subcommand: string | null;
+  args: string[];
+  flags: string[];
+  passthrough: string[];
+  env: string[];
+}
+
+export interface ParsedCommand {
+  raw: string;
+  segments: ParsedCommandSegment[];
+  effective: ParsedCommandSegment | null;
+}
+
+interface ShellWord {
+  value: string;
+  quoted: boolean;
+}
+
+type ShellToken = ShellWord | { operator: CommandOperator };
+
+const DIRECTORY_PROGRAMS = new Set(["cd", "pushd", "popd"]);
+const WRAPPER_PROGRAMS = new Set([
+  "sudo",
+  "env",
+  "time",
+  "nohup",
+  "command",
+  "exec",
+  "npx",
+  "pnpx",
+  "bunx",
+]);
+const RUNNER_PROGRAMS = new Set(["uv", "poetry", "pipenv", "hatch", "pdm"]);
+const PYTHON_PROGRAMS = new Set(["python", "python3"]);
+const PACKAGE_MANAGERS = new Set(["npm", "pnpm", "yarn", "bun"]);
+const SUBCOMMAND_PROGRAMS = new Set([
+  ...PACKAGE_MANAGERS,
+  "git",
+  "go",
+  "cargo",
+  "docker",
+  "kubectl",
+  "pip",
+  "pip3",
+  "gh",
+  "pants",
+  "make",
+  "terraform",
+]);
+const TRAILING_NOISE_PROGRAMS = new Set(["echo", "printf", "true", ":"]);
+const DIAGNOSTIC_PROGRAMS = new Set([
+  "ls",
+  "cat",
+  "head",
+  "tail",
+  "less",
+  "grep",
+  "rg",
+  "find",
+  "fd",
+  "pwd",
+  "which",
+  "wc",
+  "tree",
+  "stat",
+  "file",
+  "env",
+  "printenv",
+  "echo",
+  "jq",
+]);
+const DIAGNOSTIC_GIT_SUBCOMMANDS = new Set(["status", "diff", "log", "show", "blame"]);
+const VALUE_FLAGS = new Map<string, Set<string>>([
+  ["head", new Set(["-n", "-c"])],
+  ["tail", new Set(["-n", "-c"])],
+  ["grep", new Set(["-e", "-f", "-m", "-A", "-B", "-C"])],
+  ["rg", new Set(["-e", "-g", "-t", "-m", "-A", "-B", "-C", "--glob", "--type"])],
+  ["find", new Set(["-name", "-iname", "-path", "-type", "-maxdepth", "-mindepth"])],
+  ["git", new Set(["-C", "-c", "-m", "-b", "-B", "--source", "--author"])],
+  ["pytest", new Set(["-k", "-m", "-n", "-p", "-c", "--maxfail", "--rootdir"])],
+  ["vitest", new Set(["-t", "--testNamePattern", "--project"])],
+  ["jest", new Set(["-t", "--testNamePattern", "-c", "--config"])],
+  ["go", new Set(["-run", "-count", "-timeout", "-tags", "-p"])],
+  ["cargo", new Set(["-p", "--package", "--bin", "--features", "-j"])],
+  ["make", new Set(["-C", "-f", "-j"])],
+  ["npm", new Set(["-w", "--workspace", "--prefix"])],
+  ["pnpm", new Set(["-C", "--dir", "-F", "--filter"])],
+  ["yarn", new Set(["--cwd"])],
+  ["docker", new Set(["-f", "-p", "-v", "-e", "-w", "--name", "--tag"])],
+  ["kubectl", new Set(["-n", "-f", "-o", "-l", "-c", "--namespace"])],
+  ["gh", new Set(["-R", "--repo", "-b", "-t", "--body", "--title"])],
+  ["curl", new Set(["-o", "-X", "-H", "-d", "-u"])],
+  ["node", new Set(["-e", "-r", "--require"])],
+  ["tar", new Set(["-f", "-C"])],
+]);
+const ENV_ASSIGNMENT_PATTERN = /^([A-Za-z_][A-Za-z0-9_]*)=/;
+const REDIRECTION_PATTERN = /^(?:\d*|&)(?:>>?|<<?)(&?\d*|&-)?(.*)$/;
+
+function readSubstitution(command: string, start: number): number {
+  let depth = 0;
+  for (let index = start; index < command.length; index += 1) {
+    const char = command[index];
+    if (char === "(") {
+      depth += 1;
+    } else if (char === ")") {
+      depth -= 1;
+      if (depth === 0) {
+        return index;
+      }
+    }
+  }
+  return command.length - 1;
+}
+
+function tokenizeShellCommand(command: string): ShellToken[] {
+  const tokens: ShellToken[] = [];
+  let value = "";
+  let quoted = false;
+  let inWord = false;
+
+  const endWord = (): void => {
+    if (inWord) {
+      tokens.push({ value, quoted });
+    }
+    value = "";
+    quoted = false;
+    inWord = false;
+  };
+
+  for (let index = 0; index < command.length; index += 1) {
+    const char = command[index] ?? "";
+    const next = command[index + 1] ?? "";
+
+    if (char === "\n") {
+      endWord();
+      tokens.push({ operator: ";" });
+    } else if (/\s/.test(char)) {
+      endWord();
+    } else if (char === "#" && !inWord) {
+      while (index + 1 < command.length && command[index + 1] !== "\n") {
+        index += 1;
+      }
+    } else if (char === "'") {
+      const end = command.indexOf("'", index + 1);
+      const close = end === -1 ? command.length : end;
+      value += command.slice(index + 1, close);
+      quoted = true;
+      inWord = true;
+      index = close;
+    } else if (char === '"') {
+      quoted = true;
+      inWord = true;
+      for (index += 1; index < command.length && command[index] !== '"'; index += 1) {
+        if (command[index] === "\\" && /["\\$`]/.test(command[index + 1] ?? "")) {
+          index += 1;
+        }
+        value += command[index] ?? "";
+      }
+    } else if (char === "\\") {
+      if (next !== "\n") {
+        value += next;
+        inWord = true;
+      }
+      index += 1;
+    } else if (char === "$" && next === "(") {
+      const end = readSubstitution(command, index + 1);
+      value += command.slice(index, end + 1);
+      inWord = true;
+      index = end;
+    } else if ((char === "(" || char === ")") && !inWord) {
+      endWord();
+    } else if (char === "&" && /[<>]$/.test(value)) {
+      value += char;
+    } else if (char === "&" && next === ">") {
+      endWord();
+      value = char;
+      inWord = true;
+    } else if ((char === "&" || char === "|") && next === char) {
+      endWord();
+      tokens.push({ operator: char === "&" ? "&&" : "||" });
+      index += 1;
+    } else if (char === "&" || char === "|" || char === ";") {
+      endWord();
+      tokens.push({ operator: char });
+    } else {
+      value += char;
+      inWord = true;
+    }
+  }
+  endWord();
+  return tokens;
+}
+
+function withoutRedirections(words: ShellWord[]): string[] {
+  const output: string[] = [];
+  for (let index = 0; index < words.length; index += 1) {
+    const word = words[index];
+    if (!word) {
+      continue;
+    }
+    const redirection = word.quoted ? null : REDIRECTION_PATTERN.exec(word.value);
+    if (redirection && (word.value.includes(">") || word.value.includes("<"))) {
+      if (!redirection[1] && !redirection[2]) {
+        index += 1;
+      }
+      continue;
+    }
+    output.push(word.value);
+  }
+  return output;
+}
+
+function basename(program: string): string {
+  const slash = program.lastIndexOf("/");
+  return (slash === -1 ? program : program.slice(slash + 1)).toLowerCase();
+}
+
+function unwrapProgram(words: string[]): string[] {
+  let rest = words;
+  for (;;) {
+    const program = basename(rest[0] ?? "");
+    if (WRAPPER_PROGRAMS.has(program)) {
+      rest = rest.slice(1);
+      while (rest[0]?.startsWith("-") || ENV_ASSIGNMENT_PATTERN.test(rest[0] ?? "")) {
+        rest = rest.slice(1);
+      }
+    } else if (program === "timeout") {
+      rest = rest.slice(1);
+      while (rest[0]?.startsWith("-")) {
+        rest = rest.slice(1);
+      }
+      rest = rest.slice(1);
+    } else if (RUNNER_PROGRAMS.has(program) && rest[1] === "run") {
+      rest = rest.slice(2);
+    } else if (PYTHON_PROGRAMS.has(program) && rest[1] === "-m" && rest[2]) {
+      rest = rest.slice(2);
+    } else {
+      return rest;
+    }
+  }
+}
+
+function parseSegment(
+  words: ShellWord[],
+  operator: CommandOperator | null,
+): ParsedCommandSegment | null {
+  const values = withoutRedirections(words);
+  const env: string[] = [];
+  while (values.length > 0) {
+    const assignment = ENV_ASSIGNMENT_PATTERN.exec(values[0] ?? "");
+    if (!assignment?.[1]) {
+      break;
+    }
+    env.push(assignment[1]);
+    values.shift();
+  }
+
+  const [programWord, ...rest] = unwrapProgram(values);
+  if (!programWord) {
+    return null;
+  }
+  const program = basename(programWord);
+
+  const args: string[] = [];
+  const flags: string[] = [];
+  const valueFlags = VALUE_FLAGS.get(program);
+  const passthroughIndex = rest.indexOf("--");
+  const own = passthroughIndex === -1 ? rest : rest.slice(0, passthroughIndex);
+  for (let index = 0; index < own.length; index += 1) {
+    const word = own[index] ?? "";
+    const value = own[index + 1];
+    if (!word.startsWith("-") || word.length === 1) {
+      args.push(word);
+    } else if (value !== undefined && valueFlags?.has(word)) {
+      flags.push(`${word}=${value}`);
+      index += 1;
+    } else {
+      flags.push(word);
+    }
+  }
+  flags.sort();
+
+  let subcommand: string | null = null;
+  if (SUBCOMMAND_PROGRAMS.has(program) && args.length > 0) {
+    subcommand = args.shift() ?? null;
+    if (
+      PACKAGE_MANAGERS.has(program) &&
+      (subcommand === "run" || subcommand === "run-script") &&
+      args.length > 0
+    ) {
+      subcommand = args.shift() ?? null;
+    }
+  }
+
+  return {
+    operator,
+    program,
+    subcommand,
+    args,
+    flags,
+    passthrough: passthroughIndex === -1 ? [] : rest.slice(passthroughIndex + 1),
+    env,
+  };
+}
+
+function effectiveSegment(
+  segments: ParsedCommandSegment[],
+): ParsedCommandSegment | null {
+  let effective: ParsedCommandSegment | null = null;
+  for (const segment of segments) {
+    if (segment.operator === "|") {
+      continue;
+    }
+    if (effective && TRAILING_NOISE_PROGRAMS.has(segment.program)) {
+      continue;
+    }
+    effective = segment;
+  }
+  return effective;
+}
+
+export function parseShellCommand(command: string): ParsedCommand {
+  const segments: ParsedCommandSegment[] = [];
+  let words: ShellWord[] = [];
+  let operator: CommandOperator | null = null;
+
+  const flush = (nextOperator: CommandOperator | null): void => {
+    const segment = parseSegment(words, segments.length > 0 ? operator : null);
+    words = [];
+    if (segment && !DIRECTORY_PROGRAMS.has(segment.program)) {
+      segments.push(segment);
+      operator = nextOperator;
+    }
+  };
+
+  for (const token of tokenizeShellCommand(command)) {
+    if ("operator" in token) {
+      flush(token.operator);
+    } else {
+      words.push(token);
+    }
+  }
+  flush(null);
+
+  return { raw: command, segments, effective: effectiveSegment(segments) };
+}
+
+export function canonicalCommandSegment(segment: ParsedCommandSegment): string {
+  const words = [segment.program];
+  if (segment.subcommand !== null) {
+    words.push(segment.subcommand);
+  }
+  words.push(...segment.args, ...segment.flags);
+  if (segment.passthrough.length > 0) {
+    words.push("--", ...segment.passthrough);
+  }
+  return words.join(" ");
+}
+
+export function canonicalCommand(parsed: ParsedCommand): string {
+  return parsed.segments
+    .map((segment) => {
+      const text = canonicalCommandSegment(segment);
+      return segment.operator ? `${segment.operator} ${text}` : text;
+    })
+    .join(" ");
+}
+
+export function isDiagnosticCommand(command: string): boolean {
+  const segment = parseShellCommand(command).effective;
+  if (!segment) {
+    return false;
+  }
+  if (segment.program === "git") {
+    return DIAGNOSTIC_GIT_SUBCOMMANDS.has(segment.subcommand ?? "");
+  }
+  return DIAGNOSTIC_PROGRAMS.has(segment.program);
+}
@@ -1,3 +1,5 @@
+import { canonicalCommand, parseShellCommand } from "./shellCommand.js";
+
 const ERROR_LINE_PATTERN =
   /(error|exception|failed|fatal|traceback|permission denied|not found)/i;
 
@@ -14,8 +16,8 @@ export function normalizeText(input: string): string {
 }
 
 export function normalizeCommandSignature(command: string): string {
-  const collapsed = normalizeText(command);
-  return collapsed.replace(/\s+/g, " ").slice(0, 240);
+  const canonical = canonicalCommand(parseShellCommand(command));
+  return normalizeText(canonical || command).slice(0, 240);
 }
 
 export function extractErrorSignatures(text: string, maxSignatures = 8): string[] {
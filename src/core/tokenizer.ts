@@ -0,0 +1,93 @@
+import type { Tokenizer } from "./interfaces.js";
+
+export interface CodeAwareTokenizerOptions {
+  stopwords?: Iterable<string>;
+  minTokenLength?: number;
+}
+
+const CODE_AWARE_TOKENIZER_VERSION = 1;
+const DEFAULT_MIN_TOKEN_LENGTH = 2;
+
+const CHUNK_PATTERN = /[A-Za-z0-9_./:-]+/g;
+const LEADING_PUNCTUATION = /^[.:/]+/;
+const TRAILING_PUNCTUATION = /[.:/_-]+$/;
+const LINE_SUFFIX = /(?::\d+)+$/;
+const PATH_SEPARATOR = /\/+/;
+const WORD_SEPARATOR = /[._:-]+/;
+
+function splitCamelCase(word: string): string[] {
+  return word
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+    .split(" ");
+}
+
+function chunkTokens(chunk: string): string[] {
+  const tokens = new Set<string>([chunk]);
+
+  const location = chunk.replace(LINE_SUFFIX, "");
+  tokens.add(location);
+
+  const segments = location.split(PATH_SEPARATOR).filter(Boolean);
+  for (const segment of segments) {
+    tokens.add(segment);
+
+    const words = segment.split(WORD_SEPARATOR).filter(Boolean);
+    for (const word of words) {
+      tokens.add(word);
+      for (const part of splitCamelCase(word)) {
+        tokens.add(part);
+      }
+    }
+  }
+
+  const lowered = new Set<string>();
+  for (const token of tokens) {
+    lowered.add(token.toLowerCase());
+  }
+  return [...lowered];
+}
+
+export class CodeAwareTokenizer implements Tokenizer {
+  readonly id: string;
+  private readonly stopwords: Set<string>;
+  private readonly minTokenLength: number;
+
+  constructor(options: CodeAwareTokenizerOptions = {}) {
+    this.stopwords = new Set(
+      [...(options.stopwords ?? [])].map((stopword) => stopword.toLowerCase()),
+    );
+    this.minTokenLength = Math.max(
+      1,
+      Math.floor(options.minTokenLength ?? DEFAULT_MIN_TOKEN_LENGTH),
+    );
+
+    const idParts = [`code-aware:v${CODE_AWARE_TOKENIZER_VERSION}`];
+    if (this.minTokenLength !== DEFAULT_MIN_TOKEN_LENGTH) {
+      idParts.push(`min=${this.minTokenLength}`);
+    }
+    if (this.stopwords.size > 0) {
+      idParts.push(`stop=${[...this.stopwords].sort().join(",")}`);
+    }
+    this.id = idParts.join(";");
+  }
+
+  tokenize(text: string): string[] {
+    const tokens: string[] = [];
+    for (const match of text.matchAll(CHUNK_PATTERN)) {
+      const chunk = match[0]
+        .replace(LEADING_PUNCTUATION, "")
+        .replace(TRAILING_PUNCTUATION, "");
+      if (!chunk) {
+        continue;
+      }
+
+      for (const token of chunkTokens(chunk)) {
+        if (token.length >= this.minTokenLength && !this.stopwords.has(token)) {
+          tokens.push(token);
+        }
+      }
+    }
+    return tokens;
+  }
+}
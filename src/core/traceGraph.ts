@@ -0,0 +1,224 @@
+import { eventToolCallId } from "./payloads.js";
+import type { TraceEvent } from "./types.js";
+
+export interface TraceGraphNode {
+  event: TraceEvent;
+  parent: TraceGraphNode | null;
+  children: TraceGraphNode[];
+}
+
+function byTimestamp(left: TraceEvent, right: TraceEvent): number {
+  return left.timestamp.localeCompare(right.timestamp);
+}
+
+export class TraceGraph {
+  readonly sessionId: string;
+  private readonly ordered: TraceEvent[];
+  private readonly nodesById = new Map<string, TraceGraphNode>();
+  private readonly rootNodes: TraceGraphNode[] = [];
+  private readonly causeById = new Map<string, string>();
+  private readonly effectsById = new Map<string, TraceEvent[]>();
+  private readonly toolCallIdsByCallId = new Map<string, string>();
+
+  constructor(sessionId: string, events: TraceEvent[]) {
+    this.sessionId = sessionId;
+    this.ordered = events
+      .filter((event) => event.sessionId === sessionId)
+      .sort(byTimestamp);
+
+    for (const event of this.ordered) {
+      this.nodesById.set(event.id, { event, parent: null, children: [] });
+
+      const toolCallId = eventToolCallId(event);
+      if (event.type === "tool_call" && toolCallId) {
+        this.toolCallIdsByCallId.set(toolCallId, event.id);
+      }
+    }
+
+    for (const event of this.ordered) {
+      const node = this.nodesById.get(event.id);
+      if (!node) {
+        continue;
+      }
+
+      const parent = this.resolveParent(event);
+      if (parent && !this.isAncestorOrSelf(node, parent)) {
+        node.parent = parent;
+        parent.children.push(node);
+      } else {
+        this.rootNodes.push(node);
+      }
+
+      const causeId = this.resolveCauseId(event);
+      if (causeId) {
+        this.causeById.set(event.id, causeId);
+        const effects = this.effectsById.get(causeId) ?? [];
+        effects.push(event);
+        this.effectsById.set(causeId, effects);
+      }
+    }
+  }
+
+  get size(): number {
+    return this.ordered.length;
+  }
+
+  events(): TraceEvent[] {
+    return [...this.ordered];
+  }
+
+  roots(): TraceGraphNode[] {
+    return [...this.rootNodes];
+  }
+
+  node(eventId: string): TraceGraphNode | undefined {
+    return this.nodesById.get(eventId);
+  }
+
+  parentOf(eventId: string): TraceEvent | null {
+    return this.nodesById.get(eventId)?.parent?.event ?? null;
+  }
+
+  childrenOf(eventId: string): TraceEvent[] {
+    return (this.nodesById.get(eventId)?.children ?? []).map((child) => child.event);
+  }
+
+  ancestors(eventId: string): TraceEvent[] {
+    const ancestors: TraceEvent[] = [];
+    let current = this.nodesById.get(eventId)?.parent ?? null;
+    while (current) {
+      ancestors.push(current.event);
+      current = current.parent;
+    }
+    return ancestors;
+  }
+
+  descendants(eventId: string): TraceEvent[] {
+    const descendants: TraceEvent[] = [];
+    const stack = [...(this.nodesById.get(eventId)?.children ?? [])].reverse();
+    while (stack.length > 0) {
+      const next = stack.pop();
+      if (!next) {
+        continue;
+      }
+      descendants.push(next.event);
+      for (let index = next.children.length - 1; index >= 0; index -= 1) {
+        const child = next.children[index];
+        if (child) {
+          stack.push(child);
+        }
+      }
+    }
+    return descendants;
+  }
+
+  causeOf(eventId: string): TraceEvent | null {
+    const causeId = this.causeById.get(eventId);
+    return causeId ? (this.nodesById.get(causeId)?.event ?? null) : null;
+  }
+
+  effectsOf(eventId: string): TraceEvent[] {
+    return [...(this.effectsById.get(eventId) ?? [])];
+  }
+
+  causalChain(eventId: string): TraceEvent[] {
+    const chain: TraceEvent[] = [];
+    const seen = new Set<string>();
+    let current = this.nodesById.get(eventId)?.event ?? null;
+    while (current && !seen.has(current.id)) {
+      seen.add(current.id);
+      chain.push(current);
+      current = this.causeOf(current.id);
+    }
+    return chain.reverse();
+  }
+
+  toolCallFor(toolResultEventId: string): TraceEvent | null {
+    const event = this.nodesById.get(toolResultEventId)?.event;
+    if (!event || event.type !== "tool_result") {
+      return null;
+    }
+
+    const cause = this.causeOf(event.id);
+    if (cause?.type === "tool_call") {
+      return cause;
+    }
+
+    const toolCallId = eventToolCallId(event);
+    const callEventId = toolCallId ? this.toolCallIdsByCallId.get(toolCallId) : null;
+    return callEventId ? (this.nodesById.get(callEventId)?.event ?? null) : null;
+  }
+
+  turn(turnIndex: number): TraceEvent[] {
+    return this.ordered.filter((event) => event.turnIndex === turnIndex);
+  }
+
+  followingInTurn(eventId: string): TraceEvent[] {
+    const index = this.ordered.findIndex((event) => event.id === eventId);
+    const event = this.ordered[index];
+    if (!event || event.turnIndex === undefined) {
+      return [];
+    }
+    return this.ordered
+      .slice(index + 1)
+      .filter((candidate) => candidate.turnIndex === event.turnIndex);
+  }
+
+  private resolveParent(event: TraceEvent): TraceGraphNode | null {
+    if (event.parentEventId) {
+      const parent = this.nodesById.get(event.parentEventId);
+      if (parent) {
+        return parent;
+      }
+    }
+
+    if (event.type === "tool_result") {
+      const toolCallId = eventToolCallId(event);
+      const callEventId = toolCallId ? this.toolCallIdsByCallId.get(toolCallId) : null;
+      if (callEventId) {
+        return this.nodesById.get(callEventId) ?? null;
+      }
+    }
+
+    return null;
+  }
+
+  private resolveCauseId(event: TraceEvent): string | null {
+    if (event.causedByEventId && this.nodesById.has(event.causedByEventId)) {
+      return event.causedByEventId;
+    }
+
+    if (event.type === "tool_result") {
+      const toolCallId = eventToolCallId(event);
+      return (toolCallId ? this.toolCallIdsByCallId.get(toolCallId) : null) ?? null;
+    }
+
+    return null;
+  }
+
+  private isAncestorOrSelf(node: TraceGraphNode, candidate: TraceGraphNode): boolean {
+    let current: TraceGraphNode | null = candidate;
+    while (current) {
+      if (current === node) {
+        return true;
+      }
+      current = current.parent;
+    }
+    return false;
+  }
+}
+
+export function buildTraceGraphs(events: TraceEvent[]): Map<string, TraceGraph> {
+  const bySession = new Map<string, TraceEvent[]>();
+  for (const event of events) {
+    const bucket = bySession.get(event.sessionId) ?? [];
+    bucket.push(event);
+    bySession.set(event.sessionId, bucket);
+  }
+
+  const graphs = new Map<string, TraceGraph>();
+  for (const [sessionId, sessionEvents] of bySession.entries()) {
+    graphs.set(sessionId, new TraceGraph(sessionId, sessionEvents));
+  }
+  return graphs;
+}
@@ -0,0 +1,334 @@
+import type { TraceStore } from "./interfaces.js";
+import { eventToolName } from "./payloads.js";
+import type {
+  TraceEvent,
+  TraceForgetRequest,
+  TraceQuery,
+  TraceQueryPage,
+} from "./types.js";
+
+export interface TraceCursorKey {
+  timestamp: string;
+  sessionId: string;
+  position: number;
+}
+
+export interface KeyedTraceEvent {
+  event: TraceEvent;
+  key: TraceCursorKey;
+}
+
+export interface TraceWatermark {
+  timestamp: string;
+  eventIds: string[];
+}
+
+export class InvalidTraceCursorError extends Error {
+  constructor(cursor: string) {
+    super(`Invalid trace query cursor: ${cursor}`);
+    this.name = "InvalidTraceCursorError";
+  }
+}
+
+function toMillis(iso: string): number {
+  return new Date(iso).getTime();
+}
+
+function compareStrings(left: string, right: string): number {
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+function compareTimestamps(left: string, right: string): number {
+  const difference = toMillis(left) - toMillis(right);
+  return Number.isNaN(difference) || difference === 0
+    ? compareStrings(left, right)
+    : Math.sign(difference);
+}
+
+export function compareTraceCursorKeys(
+  left: TraceCursorKey,
+  right: TraceCursorKey,
+): number {
+  return (
+    compareTimestamps(left.timestamp, right.timestamp) ||
+    compareStrings(left.sessionId, right.sessionId) ||
+    left.position - right.position
+  );
+}
+
+export function encodeTraceCursor(key: TraceCursorKey): string {
+  return Buffer.from(
+    JSON.stringify([key.timestamp, key.sessionId, key.position]),
+    "utf-8",
+  ).toString("base64url");
+}
+
+export function decodeTraceCursor(cursor: string): TraceCursorKey {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8"));
+  } catch {
+    throw new InvalidTraceCursorError(cursor);
+  }
+
+  if (
+    !Array.isArray(parsed) ||
+    typeof parsed[0] !== "string" ||
+    typeof parsed[1] !== "string" ||
+    !Number.isInteger(parsed[2])
+  ) {
+    throw new InvalidTraceCursorError(cursor);
+  }
+
+  return { timestamp: parsed[0], sessionId: parsed[1], position: parsed[2] };
+}
+
+function includesWhenSet<T>(values: T[] | undefined, value: T | undefined): boolean {
+  if (!values || values.length === 0) {
+    return true;
+  }
+  return value !== undefined && values.includes(value);
+}
+
+export function matchesTraceQuery(event: TraceEvent, query: TraceQuery): boolean {
+  if (!includesWhenSet(query.sessionIds, event.sessionId)) {
+    return false;
+  }
+  if (!includesWhenSet(query.types, event.type)) {
+    return false;
+  }
+  if (!includesWhenSet(query.agentIds, event.agentId)) {
+    return false;
+  }
+  if (!includesWhenSet(query.actorIds, event.actorId)) {
+    return false;
+  }
+  if (!includesWhenSet(query.harnesses, event.harness)) {
+    return false;
+  }
+  if (!includesWhenSet(query.scopes, event.scope)) {
+    return false;
+  }
+  if (!includesWhenSet(query.outcomes, event.metrics?.outcome)) {
+    return false;
+  }
+  if (!includesWhenSet(query.toolNames, eventToolName(event) ?? undefined)) {
+    return false;
+  }
+
+  if (query.tags && query.tags.length > 0) {
+    const tags = event.tags ?? [];
+    if (!query.tags.every((tag) => tags.includes(tag))) {
+      return false;
+    }
+  }
+
+  if (query.payload) {
+    const payload = event.payload as Record<string, unknown>;
+    for (const [field, expected] of Object.entries(query.payload)) {
+      if (payload[field] !== expected) {
+        return false;
+      }
+    }
+  }
+
+  const eventMs = toMillis(event.timestamp);
+  if (query.since && eventMs < toMillis(query.since)) {
+    return false;
+  }
+  if (query.until && eventMs > toMillis(query.until)) {
+    return false;
+  }
+
+  return true;
+}
+
+export function assertTraceForgetRequest(request: TraceForgetRequest): void {
+  const hasSessions = (request.sessionIds?.length ?? 0) > 0;
+  if (!hasSessions && request.actorId === undefined && request.before === undefined) {
+    throw new Error("forget requires at least one of sessionIds, actorId or before.");
+  }
+  if (request.before !== undefined && Number.isNaN(Date.parse(request.before))) {
+    throw new Error(`forget "before" must be an ISO timestamp, got: ${request.before}`);
+  }
+}
+
+export function matchesTraceForgetRequest(
+  event: TraceEvent,
+  request: TraceForgetRequest,
+): boolean {
+  if (
+    request.sessionIds &&
+    request.sessionIds.length > 0 &&
+    !request.sessionIds.includes(event.sessionId)
+  ) {
+    return false;
+  }
+  if (request.actorId !== undefined && event.actorId !== request.actorId) {
+    return false;
+  }
+  if (
+    request.before !== undefined &&
+    toMillis(event.timestamp) >= toMillis(request.before)
+  ) {
+    return false;
+  }
+  return true;
+}
+
+export function isAfterTraceWatermark(
+  event: TraceEvent,
+  watermark: TraceWatermark | null,
+): boolean {
+  if (!watermark) {
+    return true;
+  }
+
+  const eventMs = toMillis(event.timestamp);
+  const watermarkMs = toMillis(watermark.timestamp);
+  if (eventMs !== watermarkMs) {
+    return eventMs > watermarkMs;
+  }
+  return !watermark.eventIds.includes(event.id);
+}
+
+export function advanceTraceWatermark(
+  watermark: TraceWatermark | null,
+  event: TraceEvent,
+): TraceWatermark {
+  if (!watermark) {
+    return { timestamp: event.timestamp, eventIds: [event.id] };
+  }
+
+  const eventMs = toMillis(event.timestamp);
+  const watermarkMs = toMillis(watermark.timestamp);
+  if (eventMs > watermarkMs) {
+    return { timestamp: event.timestamp, eventIds: [event.id] };
+  }
+  if (eventMs === watermarkMs && !watermark.eventIds.includes(event.id)) {
+    return { ...watermark, eventIds: [...watermark.eventIds, event.id] };
+  }
+  return watermark;
+}
+
+export class TraceQueryCollector {
+  private readonly direction: 1 | -1;
+  private readonly limit: number | undefined;
+  private readonly capacity: number | null;
+  private readonly after: TraceCursorKey | null;
+  private readonly entries: KeyedTraceEvent[] = [];
+  private sorted = true;
+
+  constructor(query: TraceQuery) {
+    this.direction = query.order === "desc" ? -1 : 1;
+    this.limit = query.limit;
+    this.capacity = query.limit === undefined ? null : Math.max(0, query.limit) + 1;
+    this.after = query.cursor ? decodeTraceCursor(query.cursor) : null;
+  }
+
+  wants(key: TraceCursorKey): boolean {
+    if (this.after && this.compare(key, this.after) <= 0) {
+      return false;
+    }
+
+    const last = this.entries[this.entries.length - 1];
+    if (
+      this.capacity !== null &&
+      this.entries.length >= this.capacity &&
+      last &&
+      this.compare(key, last.key) >= 0
+    ) {
+      return false;
+    }
+
+    return true;
+  }
+
+  isFull(): boolean {
+    return this.capacity !== null && this.entries.length >= this.capacity;
+  }
+
+  add(entry: KeyedTraceEvent): void {
+    if (!this.wants(entry.key)) {
+      return;
+    }
+    if (this.capacity === null) {
+      this.entries.push(entry);
+      this.sorted = false;
+      return;
+    }
+
+    let low = 0;
+    let high = this.entries.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      const current = this.entries[middle];
+      if (current && this.compare(current.key, entry.key) <= 0) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    this.entries.splice(low, 0, entry);
+
+    if (this.entries.length > this.capacity) {
+      this.entries.pop();
+    }
+  }
+
+  page(): TraceQueryPage {
+    const limit = this.limit;
+    if (limit !== undefined && limit <= 0) {
+      return { events: [], nextCursor: null };
+    }
+    if (!this.sorted) {
+      this.entries.sort((left, right) => this.compare(left.key, right.key));
+      this.sorted = true;
+    }
+
+    const pageEntries =
+      limit === undefined ? this.entries : this.entries.slice(0, limit);
+    const hasMore = limit !== undefined && this.entries.length > limit;
+    const last = pageEntries[pageEntries.length - 1];
+
+    return {
+      events: pageEntries.map((entry) => entry.event),
+      nextCursor: hasMore && last ? encodeTraceCursor(last.key) : null,
+    };
+  }
+
+  private compare(left: TraceCursorKey, right: TraceCursorKey): number {
+    return compareTraceCursorKeys(left, right) * this.direction;
+  }
+}
+
+/**
+ * Pages through a store that may not implement `queryPage`. The fallback runs the
+ * unpaged `query()` and numbers each session's matching events in order, so its
+ * cursors are only valid for the same store and filters.
+ */
+export async function queryTracePage(
+  store: TraceStore,
+  query: TraceQuery,
+): Promise<TraceQueryPage> {
+  if (store.queryPage) {
+    return store.queryPage(query);
+  }
+
+  const collector = new TraceQueryCollector(query);
+  if (query.limit !== undefined && query.limit <= 0) {
+    return collector.page();
+  }
+
+  const { cursor: _cursor, limit: _limit, ...filters } = query;
+  const positions = new Map<string, number>();
+  for (const event of await store.query({ ...filters, order: "asc" })) {
+    const position = positions.get(event.sessionId) ?? 0;
+    positions.set(event.sessionId, position + 1);
+    collector.add({
+      event,
+      key: { timestamp: event.timestamp, sessionId: event.sessionId, position },
+    });
+  }
+  return collector.page();
+}
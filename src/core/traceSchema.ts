@@ -0,0 +1,553 @@
+import type {
+  FileEditOperation,
+  OutcomeSignal,
+  TraceEvent,
+  TraceEventType,
+  TraceScope,
+} from "./types.js";
+
+export const TRACE_EVENT_SCHEMA_VERSION = 1;
+
+const UNVERSIONED_SCHEMA_VERSION = 0;
+
+export const TRACE_EVENT_TYPES: readonly TraceEventType[] = Object.freeze([
+  "user_input",
+  "assistant_output",
+  "tool_call",
+  "tool_result",
+  "file_edit",
+  "turn_summary",
+  "feedback",
+  "checkpoint",
+]);
+
+const TRACE_SCOPES: readonly TraceScope[] = ["personal", "team", "public"];
+
+const OUTCOME_SIGNALS: readonly OutcomeSignal[] = ["success", "failure", "unknown"];
+
+const FILE_EDIT_OPERATIONS: readonly FileEditOperation[] = [
+  "create",
+  "modify",
+  "delete",
+];
+
+const TOKEN_USAGE_FIELDS = [
+  "inputUncached",
+  "inputCached",
+  "output",
+  "thinking",
+  "cacheWrite",
+] as const;
+
+const KNOWN_EVENT_FIELDS = new Set([
+  "schemaVersion",
+  "id",
+  "timestamp",
+  "sessionId",
+  "agentId",
+  "actorId",
+  "harness",
+  "scope",
+  "type",
+  "payload",
+  "tags",
+  "metrics",
+  "parentEventId",
+  "turnIndex",
+  "causedByEventId",
+  "redaction",
+  "workspaceRoot",
+]);
+
+type PayloadFieldType = "string" | "number" | "boolean" | "object";
+
+const PAYLOAD_FIELD_TYPES: Record<TraceEventType, Record<string, PayloadFieldType>> = {
+  user_input: { text: "string", source: "string" },
+  assistant_output: { text: "string" },
+  tool_call: {
+    toolCallId: "string",
+    toolName: "string",
+    command: "string",
+    input: "object",
+  },
+  tool_result: {
+    toolCallId: "string",
+    toolName: "string",
+    command: "string",
+    isError: "boolean",
+    text: "string",
+    output: "string",
+    stdout: "string",
+    stderr: "string",
+    content: "string",
+    error: "string",
+    message: "string",
+    input: "object",
+  },
+  file_edit: {
+    toolCallId: "string",
+    toolName: "string",
+    path: "string",
+    operation: "string",
+    diff: "string",
+    beforeHash: "string",
+    afterHash: "string",
+    additions: "number",
+    deletions: "number",
+  },
+  turn_summary: { turnIndex: "number" },
+  feedback: { text: "string", rating: "number", targetEventId: "string" },
+  checkpoint: { kind: "string" },
+};
+
+const KNOWN_METRICS_FIELDS = new Set(["latencyMs", "tokens", "cost", "outcome"]);
+
+export interface TraceEventValidationIssue {
+  field: string;
+  message: string;
+}
+
+export type TraceEventValidationResult =
+  | { ok: true; event: TraceEvent }
+  | { ok: false; issues: TraceEventValidationIssue[] };
+
+export class TraceEventValidationError extends Error {
+  readonly issues: TraceEventValidationIssue[];
+
+  constructor(issues: TraceEventValidationIssue[]) {
+    const summary = issues
+      .slice(0, 5)
+      .map((issue) => `${issue.field}: ${issue.message}`)
+      .join("; ");
+    const suffix = issues.length > 5 ? ` (+${issues.length - 5} more)` : "";
+    super(`Invalid trace event: ${summary}${suffix}`);
+    this.name = "TraceEventValidationError";
+    this.issues = issues;
+  }
+}
+
+export interface TraceEventMigration {
+  fromVersion: number;
+  toVersion: number;
+  description: string;
+  migrate(record: Record<string, unknown>): Record<string, unknown>;
+}
+
+export interface ParseTraceEventOptions {
+  migrations?: TraceEventMigrationRegistry;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function recordSchemaVersion(record: Record<string, unknown>): number {
+  const version = record.schemaVersion;
+  if (version === undefined) {
+    return UNVERSIONED_SCHEMA_VERSION;
+  }
+  return typeof version === "number" ? version : Number.NaN;
+}
+
+export class TraceEventMigrationRegistry {
+  private readonly migrations = new Map<number, TraceEventMigration>();
+
+  constructor(migrations: TraceEventMigration[] = []) {
+    for (const migration of migrations) {
+      this.register(migration);
+    }
+  }
+
+  register(migration: TraceEventMigration): this {
+    if (
+      !Number.isInteger(migration.fromVersion) ||
+      !Number.isInteger(migration.toVersion) ||
+      migration.toVersion <= migration.fromVersion
+    ) {
+      throw new Error(
+        `Invalid trace event migration ${migration.fromVersion} -> ${migration.toVersion}.`,
+      );
+    }
+
+    if (this.migrations.has(migration.fromVersion)) {
+      throw new Error(
+        `Duplicate trace event migration from schema version ${migration.fromVersion}.`,
+      );
+    }
+
+    this.migrations.set(migration.fromVersion, migration);
+    return this;
+  }
+
+  migrate(
+    record: Record<string, unknown>,
+    targetVersion = TRACE_EVENT_SCHEMA_VERSION,
+  ): Record<string, unknown> {
+    let current = record;
+    let version = recordSchemaVersion(current);
+
+    while (Number.isInteger(version) && version < targetVersion) {
+      const migration = this.migrations.get(version);
+      if (!migration) {
+        throw new Error(
+          `No trace event migration registered from schema version ${version}.`,
+        );
+      }
+
+      current = {
+        ...migration.migrate(current),
+        schemaVersion: migration.toVersion,
+      };
+      version = migration.toVersion;
+    }
+
+    return current;
+  }
+}
+
+const STAMP_UNVERSIONED_EVENTS: TraceEventMigration = {
+  fromVersion: UNVERSIONED_SCHEMA_VERSION,
+  toVersion: 1,
+  description: "Stamp unversioned events; backfill tool_result outcome from isError.",
+  migrate(record) {
+    if (record.type !== "tool_result" || !isPlainObject(record.payload)) {
+      return record;
+    }
+
+    const isError = record.payload.isError;
+    const metrics = isPlainObject(record.metrics) ? record.metrics : {};
+    if (typeof isError !== "boolean" || metrics.outcome !== undefined) {
+      return record;
+    }
+
+    return {
+      ...record,
+      metrics: {
+        ...metrics,
+        outcome: isError ? "failure" : "success",
+      },
+    };
+  },
+};
+
+export function createDefaultTraceEventMigrations(): TraceEventMigrationRegistry {
+  return new TraceEventMigrationRegistry([STAMP_UNVERSIONED_EVENTS]);
+}
+
+const DEFAULT_MIGRATIONS = createDefaultTraceEventMigrations();
+
+function requireNonEmptyString(
+  record: Record<string, unknown>,
+  field: string,
+  issues: TraceEventValidationIssue[],
+): void {
+  const value = record[field];
+  if (typeof value !== "string" || !value.trim()) {
+    issues.push({ field, message: "expected a non-empty string" });
+  }
+}
+
+function optionalString(
+  record: Record<string, unknown>,
+  field: string,
+  issues: TraceEventValidationIssue[],
+): void {
+  const value = record[field];
+  if (value !== undefined && typeof value !== "string") {
+    issues.push({ field, message: "expected a string when present" });
+  }
+}
+
+function optionalFiniteNumber(
+  record: Record<string, unknown>,
+  field: string,
+  path: string,
+  issues: TraceEventValidationIssue[],
+): void {
+  const value = record[field];
+  if (value === undefined) {
+    return;
+  }
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+    issues.push({ field: path, message: "expected a non-negative finite number" });
+  }
+}
+
+function validateCausalLinks(
+  record: Record<string, unknown>,
+  issues: TraceEventValidationIssue[],
+): void {
+  for (const field of ["parentEventId", "causedByEventId"]) {
+    const value = record[field];
+    if (value === undefined) {
+      continue;
+    }
+    if (typeof value !== "string" || !value.trim()) {
+      issues.push({ field, message: "expected a non-empty string when present" });
+    } else if (value === record.id) {
+      issues.push({ field, message: "an event cannot link to itself" });
+    }
+  }
+
+  const turnIndex = record.turnIndex;
+  if (
+    turnIndex !== undefined &&
+    (!Number.isInteger(turnIndex) || (turnIndex as number) < 0)
+  ) {
+    issues.push({ field: "turnIndex", message: "expected a non-negative integer" });
+  }
+}
+
+function validateRedactionAudit(
+  value: unknown,
+  issues: TraceEventValidationIssue[],
+): void {
+  if (value === undefined) {
+    return;
+  }
+  if (!isPlainObject(value) || !Array.isArray(value.findings)) {
+    issues.push({ field: "redaction", message: "expected an object with findings" });
+    return;
+  }
+
+  value.findings.forEach((finding, index) => {
+    const field = `redaction.findings[${index}]`;
+    if (
+      !isPlainObject(finding) ||
+      typeof finding.path !== "string" ||
+      typeof finding.detector !== "string" ||
+      !Number.isInteger(finding.count) ||
+      (finding.count as number) < 1
+    ) {
+      issues.push({
+        field,
+        message: "expected { path, detector, count } with a positive count",
+      });
+    }
+  });
+}
+
+function validateMetrics(value: unknown, issues: TraceEventValidationIssue[]): void {
+  if (value === undefined) {
+    return;
+  }
+  if (!isPlainObject(value)) {
+    issues.push({ field: "metrics", message: "expected an object when present" });
+    return;
+  }
+
+  for (const key of Object.keys(value)) {
+    if (!KNOWN_METRICS_FIELDS.has(key)) {
+      issues.push({ field: `metrics.${key}`, message: "unknown field" });
+    }
+  }
+
+  optionalFiniteNumber(value, "latencyMs", "metrics.latencyMs", issues);
+
+  const outcome = value.outcome;
+  if (outcome !== undefined && !OUTCOME_SIGNALS.includes(outcome as OutcomeSignal)) {
+    issues.push({
+      field: "metrics.outcome",
+      message: `expected one of ${OUTCOME_SIGNALS.join(", ")}`,
+    });
+  }
+
+  const tokens = value.tokens;
+  if (tokens !== undefined) {
+    if (!isPlainObject(tokens)) {
+      issues.push({ field: "metrics.tokens", message: "expected an object" });
+    } else {
+      for (const field of TOKEN_USAGE_FIELDS) {
+        optionalFiniteNumber(tokens, field, `metrics.tokens.${field}`, issues);
+      }
+    }
+  }
+
+  const cost = value.cost;
+  if (cost !== undefined) {
+    if (!isPlainObject(cost)) {
+      issues.push({ field: "metrics.cost", message: "expected an object" });
+    } else {
+      optionalFiniteNumber(cost, "usd", "metrics.cost.usd", issues);
+    }
+  }
+}
+
+function payloadFieldMatches(value: unknown, expected: PayloadFieldType): boolean {
+  if (expected === "object") {
+    return isPlainObject(value);
+  }
+  if (expected === "number") {
+    return typeof value === "number" && Number.isFinite(value);
+  }
+  if (expected === "boolean") {
+    return typeof value === "boolean";
+  }
+  return typeof value === "string";
+}
+
+function validatePayload(
+  type: TraceEventType,
+  payload: Record<string, unknown>,
+  issues: TraceEventValidationIssue[],
+): void {
+  for (const [field, expected] of Object.entries(PAYLOAD_FIELD_TYPES[type])) {
+    const value = payload[field];
+    if (value === undefined) {
+      continue;
+    }
+    if (!payloadFieldMatches(value, expected)) {
+      issues.push({
+        field: `payload.${field}`,
+        message: `expected ${expected === "object" ? "an object" : `a ${expected}`} when present`,
+      });
+    }
+  }
+
+  if (
+    type === "file_edit" &&
+    typeof payload.operation === "string" &&
+    !FILE_EDIT_OPERATIONS.includes(payload.operation as FileEditOperation)
+  ) {
+    issues.push({
+      field: "payload.operation",
+      message: `expected one of ${FILE_EDIT_OPERATIONS.join(", ")}`,
+    });
+  }
+}
+
+export function validateTraceEvent(value: unknown): TraceEventValidationResult {
+  if (!isPlainObject(value)) {
+    return {
+      ok: false,
+      issues: [{ field: "$", message: "expected a JSON object" }],
+    };
+  }
+
+  const issues: TraceEventValidationIssue[] = [];
+
+  for (const key of Object.keys(value)) {
+    if (!KNOWN_EVENT_FIELDS.has(key)) {
+      issues.push({ field: key, message: "unknown field" });
+    }
+  }
+
+  if (value.schemaVersion !== TRACE_EVENT_SCHEMA_VERSION) {
+    issues.push({
+      field: "schemaVersion",
+      message: `expected ${TRACE_EVENT_SCHEMA_VERSION}, got ${String(value.schemaVersion)}`,
+    });
+  }
+
+  requireNonEmptyString(value, "id", issues);
+  requireNonEmptyString(value, "sessionId", issues);
+  requireNonEmptyString(value, "harness", issues);
+  optionalString(value, "agentId", issues);
+  optionalString(value, "actorId", issues);
+  optionalString(value, "workspaceRoot", issues);
+
+  const timestamp = value.timestamp;
+  if (typeof timestamp !== "string" || !Number.isFinite(Date.parse(timestamp))) {
+    issues.push({ field: "timestamp", message: "expected an ISO-8601 timestamp" });
+  }
+
+  if (!TRACE_SCOPES.includes(value.scope as TraceScope)) {
+    issues.push({
+      field: "scope",
+      message: `expected one of ${TRACE_SCOPES.join(", ")}`,
+    });
+  }
+
+  const knownType = TRACE_EVENT_TYPES.includes(value.type as TraceEventType);
+  if (!knownType) {
+    issues.push({
+      field: "type",
+      message: `expected one of ${TRACE_EVENT_TYPES.join(", ")}`,
+    });
+  }
+
+  if (!isPlainObject(value.payload)) {
+    issues.push({ field: "payload", message: "expected an object" });
+  } else if (knownType) {
+    validatePayload(value.type as TraceEventType, value.payload, issues);
+  }
+
+  const tags = value.tags;
+  if (tags !== undefined) {
+    if (!Array.isArray(tags)) {
+      issues.push({ field: "tags", message: "expected an array of strings" });
+    } else {
+      tags.forEach((tag, index) => {
+        if (typeof tag !== "string") {
+          issues.push({ field: `tags[${index}]`, message: "expected a string" });
+        }
+      });
+    }
+  }
+
+  validateCausalLinks(value, issues);
+  validateRedactionAudit(value.redaction, issues);
+  validateMetrics(value.metrics, issues);
+
+  if (issues.length > 0) {
+    return { ok: false, issues };
+  }
+
+  return { ok: true, event: value as unknown as TraceEvent };
+}
+
+export function parseTraceEvent(
+  value: unknown,
+  options: ParseTraceEventOptions = {},
+): TraceEventValidationResult {
+  if (!isPlainObject(value)) {
+    return validateTraceEvent(value);
+  }
+
+  const version = recordSchemaVersion(value);
+  if (!Number.isInteger(version)) {
+    return {
+      ok: false,
+      issues: [{ field: "schemaVersion", message: "expected an integer" }],
+    };
+  }
+  if (version > TRACE_EVENT_SCHEMA_VERSION) {
+    return {
+      ok: false,
+      issues: [
+        {
+          field: "schemaVersion",
+          message: `unsupported future schema version ${version} (current ${TRACE_EVENT_SCHEMA_VERSION})`,
+        },
+      ],
+    };
+  }
+
+  let migrated: Record<string, unknown>;
+  try {
+    migrated = (options.migrations ?? DEFAULT_MIGRATIONS).migrate(value);
+  } catch (error) {
+    return {
+      ok: false,
+      issues: [
+        {
+          field: "schemaVersion",
+          message: error instanceof Error ? error.message : String(error),
+        },
+      ],
+    };
+  }
+
+  return validateTraceEvent(migrated);
+}
+
+export function assertValidTraceEvent(
+  value: unknown,
+  options: ParseTraceEventOptions = {},
+): TraceEvent {
+  const result = parseTraceEvent(value, options);
+  if (!result.ok) {
+    throw new TraceEventValidationError(result.issues);
+  }
+  return result.event;
+}
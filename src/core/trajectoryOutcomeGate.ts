@@ -1,11 +1,23 @@
 import type { RunOutcome } from "./metrics.js";
 import { deriveRunOutcomeFromEvents, tokenProxy } from "./metrics.js";
+import { clusterNearDuplicates } from "./minHash.js";
+import {
+  eventCommand,
+  eventOutputText,
+  isToolResultFailure,
+  isToolResultSuccess,
+} from "./payloads.js";
+import { type ParsedCommandSegment, parseShellCommand } from "./shellCommand.js";
 import {
   extractErrorSignatures,
   normalizeCommandSignature,
   normalizeText,
 } from "./signatures.js";
 import type { TraceEvent } from "./types.js";
+import {
+  normalizeWorkspacePaths,
+  workspacePathOptionsForEvent,
+} from "./workspacePaths.js";
 
 export type TrajectoryIssueKind =
   | "benign_probe"
@@ -322,57 +334,16 @@ function totalTokenCount(outcome: RunOutcome): number {
   );
 }
 
-function isFailure(event: TraceEvent): boolean {
-  if (event.type !== "tool_result") {
-    return false;
-  }
-  if (event.metrics?.outcome === "failure") {
-    return true;
-  }
-  return event.payload?.isError === true;
-}
-
-function isSuccess(event: TraceEvent): boolean {
-  if (event.type !== "tool_result") {
-    return false;
-  }
-  if (event.metrics?.outcome === "success") {
-    return true;
-  }
-  return event.payload?.isError === false;
-}
-
-function commandFromPayload(event: TraceEvent): string {
-  const command = event.payload?.command;
-  return typeof command === "string" ? command : "";
-}
-
-function textFromPayload(event: TraceEvent): string {
-  const payload = event.payload ?? {};
-
-  const candidates: unknown[] = [
-    payload.output,
-    payload.stderr,
-    payload.stdout,
-    payload.text,
-    payload.content,
-    payload.error,
-    payload.message,
-  ];
-
-  const firstText = candidates.find(
-    (item) => typeof item === "string" && item.trim().length > 0,
-  );
-  return typeof firstText === "string" ? firstText : "";
-}
-
 function firstLine(text: string): string {
   return text.split(/\r?\n/, 1)[0]?.trim() ?? "";
 }
 
 function familySignature(failure: TraceEvent): string {
-  const command = normalizeCommandSignature(commandFromPayload(failure));
-  const output = textFromPayload(failure);
+  const pathOptions = workspacePathOptionsForEvent(failure);
+  const command = normalizeCommandSignature(
+    normalizeWorkspacePaths(eventCommand(failure), pathOptions),
+  );
+  const output = normalizeWorkspacePaths(eventOutputText(failure), pathOptions);
   const firstError = extractErrorSignatures(output, 1)[0] ?? "";
 
   const signature = normalizeText(`${command} ${firstError}`).slice(0, 240);
@@ -384,8 +355,8 @@ function familySignature(failure: TraceEvent): string {
 }
 
 function episodeDescription(failure: TraceEvent): string {
-  const text = textFromPayload(failure);
-  const summary = firstLine(text) || commandFromPayload(failure) || "recovery";
+  const text = eventOutputText(failure);
+  const summary = firstLine(text) || eventCommand(failure) || "recovery";
   return `Recover from ${summary}`;
 }
 
@@ -418,25 +389,24 @@ function asClassifiedIssue(
 }
 
 function isLikelyProbeCommand(command: string): boolean {
-  const rawCommand = command.trim().toLowerCase();
-  if (!rawCommand) {
-    return false;
+  // The probe is the first command of the last `&&`/`||`/`;` segment, so
+  // `curl … | head` stays a probe while `cat log | grep x` does not.
+  let probeSegment: ParsedCommandSegment | null = null;
+  for (const segment of parseShellCommand(command).segments) {
+    if (segment.operator !== "|") {
+      probeSegment = segment;
+    }
   }
-
-  const segments = rawCommand
-    .split(/&&|\|\||;/)
-    .map((segment) => segment.trim())
-    .filter(Boolean);
-  const probeSegment = segments[segments.length - 1] ?? rawCommand;
-
-  const firstToken = probeSegment.split(/\s+/, 1)[0] ?? "";
-  if (!PROBE_COMMAND_PREFIXES.has(firstToken)) {
+  if (
+    !probeSegment ||
+    !PROBE_COMMAND_PREFIXES.has(probeSegment.program.toLowerCase())
+  ) {
     return false;
   }
 
   if (
     /\b(playwright|preview|build|deploy|merge|add-iam-policy-binding|domain-mappings)\b/i.test(
-      rawCommand,
+      command,
     )
   ) {
     return false;
@@ -499,12 +469,12 @@ function normalizeClassificationText(input: string): string {
 }
 
 export function classifyTrajectoryIssue(event: TraceEvent): TrajectoryIssue | null {
-  if (!isFailure(event)) {
+  if (!isToolResultFailure(event)) {
     return null;
   }
 
-  const command = commandFromPayload(event);
-  const output = textFromPayload(event);
+  const command = eventCommand(event);
+  const output = eventOutputText(event);
   const normalizedCommand = normalizeClassificationText(command);
   const normalizedOutput = normalizeClassificationText(output);
   const normalizedCombined = `${normalizedCommand}\n${normalizedOutput}`;
@@ -723,14 +693,14 @@ export function extractTrajectoryOutcomeEpisodes(
 
     for (let index = 0; index < sorted.length; index += 1) {
       const failureEvent = sorted[index];
-      if (!failureEvent || !isFailure(failureEvent)) {
+      if (!failureEvent || !isToolResultFailure(failureEvent)) {
         continue;
       }
 
       let successIndex = -1;
       for (let probe = index + 1; probe < sorted.length; probe += 1) {
         const candidate = sorted[probe];
-        if (candidate && isSuccess(candidate)) {
+        if (candidate && isToolResultSuccess(candidate)) {
           successIndex = probe;
           break;
         }
@@ -776,7 +746,15 @@ export function extractTrajectoryOutcomeEpisodes(
     }
   }
 
-  return episodes.sort(compareEpisodeTime);
+  episodes.sort(compareEpisodeTime);
+  const families = clusterNearDuplicates(
+    episodes.map((episode) => episode.familySignature),
+  );
+  return episodes.map((episode) => ({
+    ...episode,
+    familySignature:
+      families.get(episode.familySignature)?.representative ?? episode.familySignature,
+  }));
 }
 
 function buildPairsWithDiagnostics(
@@ -5,6 +5,7 @@ export type TraceEventType =
   | "assistant_output"
   | "tool_call"
   | "tool_result"
+  | "file_edit"
   | "turn_summary"
   | "feedback"
   | "checkpoint";
@@ -30,7 +31,92 @@ export interface EventMetrics {
   outcome?: OutcomeSignal;
 }
 
-export interface TraceEvent {
+export interface RedactionFinding {
+  path: string;
+  detector: string;
+  count: number;
+}
+
+export interface RedactionAudit {
+  findings: RedactionFinding[];
+}
+
+export interface UserInputPayload {
+  text?: string;
+  source?: string;
+}
+
+export interface AssistantOutputPayload {
+  text?: string;
+}
+
+export interface ToolCallPayload {
+  toolCallId?: string;
+  toolName?: string;
+  command?: string;
+  input?: Record<string, unknown>;
+}
+
+export interface ToolResultPayload {
+  toolCallId?: string;
+  toolName?: string;
+  command?: string;
+  isError?: boolean;
+  text?: string;
+  output?: string;
+  stdout?: string;
+  stderr?: string;
+  content?: string;
+  error?: string;
+  message?: string;
+  input?: Record<string, unknown>;
+}
+
+export type FileEditOperation = "create" | "modify" | "delete";
+
+export interface FileEditPayload {
+  toolCallId?: string;
+  toolName?: string;
+  path?: string;
+  operation?: FileEditOperation;
+  diff?: string;
+  beforeHash?: string;
+  afterHash?: string;
+  additions?: number;
+  deletions?: number;
+}
+
+export interface TurnSummaryPayload {
+  turnIndex?: number;
+}
+
+export interface FeedbackPayload {
+  text?: string;
+  rating?: number;
+  targetEventId?: string;
+  [key: string]: unknown;
+}
+
+export interface CheckpointPayload {
+  kind?: string;
+  [key: string]: unknown;
+}
+
+export interface TraceEventPayloadMap {
+  user_input: UserInputPayload;
+  assistant_output: AssistantOutputPayload;
+  tool_call: ToolCallPayload;
+  tool_result: ToolResultPayload;
+  file_edit: FileEditPayload;
+  turn_summary: TurnSummaryPayload;
+  feedback: FeedbackPayload;
+  checkpoint: CheckpointPayload;
+}
+
+export type TraceEventPayload = TraceEventPayloadMap[TraceEventType];
+
+export interface TraceEventBase {
+  schemaVersion?: number;
   id: string;
   timestamp: string;
   sessionId: string;
@@ -38,18 +124,65 @@ export interface TraceEvent {
   actorId?: string;
   harness: string;
   scope: TraceScope;
-  type: TraceEventType;
-  payload: Record<string, unknown>;
+  workspaceRoot?: string;
   tags?: string[];
   metrics?: EventMetrics;
+  parentEventId?: string;
+  turnIndex?: number;
+  causedByEventId?: string;
+  redaction?: RedactionAudit;
 }
 
+export type TraceEventOfType<TType extends TraceEventType> = TraceEventBase & {
+  type: TType;
+  payload: TraceEventPayloadMap[TType];
+};
+
+export type TraceEvent = {
+  [TType in TraceEventType]: TraceEventOfType<TType>;
+}[TraceEventType];
+
+export type TraceEventTemplate = {
+  [TType in TraceEventType]: Omit<
+    TraceEventOfType<TType>,
+    "id" | "timestamp" | "sessionId"
+  >;
+}[TraceEventType];
+
+export type TraceQueryOrder = "asc" | "desc";
+
 export interface TraceQuery {
   sessionIds?: string[];
   since?: string;
   until?: string;
   types?: TraceEventType[];
   limit?: number;
+  agentIds?: string[];
+  actorIds?: string[];
+  harnesses?: string[];
+  scopes?: TraceScope[];
+  tags?: string[];
+  outcomes?: OutcomeSignal[];
+  toolNames?: string[];
+  payload?: Record<string, string | number | boolean | null>;
+  order?: TraceQueryOrder;
+  cursor?: string;
+}
+
+export interface TraceQueryPage {
+  events: TraceEvent[];
+  nextCursor: string | null;
+}
+
+export interface TraceForgetRequest {
+  sessionIds?: string[];
+  actorId?: string;
+  before?: string;
+}
+
+export interface TraceForgetResult {
+  eventIds: string[];
+  sessionIds: string[];
 }
 
 export interface IndexedDocument {
@@ -60,15 +193,76 @@ export interface IndexedDocument {
   metadata?: Record<string, string | number | boolean | null>;
 }
 
+export type SearchFilterValue = string | number | boolean;
+
+export interface SearchFilterOperators {
+  $eq?: SearchFilterValue;
+  $ne?: SearchFilterValue;
+  $in?: SearchFilterValue[];
+  $nin?: SearchFilterValue[];
+  $exists?: boolean;
+  $gt?: number | string;
+  $gte?: number | string;
+  $lt?: number | string;
+  $lte?: number | string;
+}
+
+export type SearchFilterCondition = SearchFilterValue | SearchFilterOperators;
+
+export interface SearchFilters {
+  $or?: SearchFilters[];
+  [key: string]: SearchFilterCondition | SearchFilters[] | undefined;
+}
+
 export interface SearchQuery {
   text: string;
   limit?: number;
-  filters?: Record<string, string | number | boolean>;
+  filters?: SearchFilters;
+  boostErrorSignatures?: boolean;
+  explain?: boolean;
+}
+
+export interface TraceIndexStats {
+  documentCount: number;
+  sourceEventCount: number;
+  termCount: number;
+}
+
+export interface SearchTermExplanation {
+  term: string;
+  idf: number;
+  termFrequency: number;
+  contribution: number;
+}
+
+export interface SearchFusionExplanation {
+  primaryRank: number | null;
+  secondaryRank: number | null;
+  primary?: SearchResultExplanation;
+  secondary?: SearchResultExplanation;
+}
+
+export interface SearchRerankExplanation {
+  initialRank: number;
+  finalRank: number;
+  initialScore: number;
+  scoreDelta: number;
+}
+
+export interface SearchResultExplanation {
+  source: string;
+  score: number;
+  terms: SearchTermExplanation[];
+  filters?: SearchFilters;
+  fieldWeight?: number;
+  fusion?: SearchFusionExplanation;
+  rerank?: SearchRerankExplanation;
 }
 
 export interface SearchResult {
   document: IndexedDocument;
   score: number;
+  explanation?: SearchResultExplanation;
 }
 
 export interface LearningSuggestion {
@@ -78,6 +272,24 @@ export interface LearningSuggestion {
   confidence: number;
   evidenceEventIds: string[];
   playbookMarkdown: string;
+  explanation?: SearchResultExplanation;
+}
+
+export type MinedArtifactStepKind =
+  | "failure"
+  | "probe"
+  | "edit"
+  | "command"
+  | "attempt"
+  | "revert"
+  | "success";
+
+export interface MinedArtifactStep {
+  kind: MinedArtifactStepKind;
+  eventId: string;
+  command?: string;
+  path?: string;
+  signature?: string;
 }
 
 export interface MinedArtifact {
@@ -86,5 +298,13 @@ export interface MinedArtifact {
   summary: string;
   confidence: number;
   evidenceEventIds: string[];
+  evidenceSessionIds?: string[];
+  steps?: MinedArtifactStep[];
   metadata?: Record<string, string | number | boolean | null>;
 }
+
+export interface MinerSnapshot {
+  miner: string;
+  artifacts: MinedArtifact[] | null;
+  [field: string]: unknown;
+}
@@ -0,0 +1,274 @@
+import { createHash } from "node:crypto";
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: string[];
+}
+
+export interface UnifiedDiff {
+  path: string;
+  diff: string;
+  hunks: DiffHunk[];
+  additions: number;
+  deletions: number;
+}
+
+export interface UnifiedDiffOptions {
+  contextLines?: number;
+  maxLcsCells?: number;
+}
+
+type DiffOpKind = " " | "-" | "+";
+
+interface DiffOp {
+  kind: DiffOpKind;
+  text: string;
+  oldIndex: number;
+  newIndex: number;
+}
+
+const DEFAULT_CONTEXT_LINES = 3;
+const DEFAULT_MAX_LCS_CELLS = 4_000_000;
+const HUNK_HEADER_PATTERN = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+export function hashContent(content: string): string {
+  return `sha256:${createHash("sha256").update(content).digest("hex")}`;
+}
+
+function splitLines(content: string | null): string[] {
+  if (content === null || content.length === 0) {
+    return [];
+  }
+  const lines = content.replace(/\r\n?/g, "\n").split("\n");
+  if (lines[lines.length - 1] === "") {
+    lines.pop();
+  }
+  return lines;
+}
+
+function diffMiddle(
+  before: string[],
+  after: string[],
+  maxLcsCells: number,
+): Array<{ kind: DiffOpKind; text: string }> {
+  const rows = before.length;
+  const columns = after.length;
+  const ops: Array<{ kind: DiffOpKind; text: string }> = [];
+
+  if (rows === 0 || columns === 0 || rows * columns > maxLcsCells) {
+    for (const text of before) {
+      ops.push({ kind: "-", text });
+    }
+    for (const text of after) {
+      ops.push({ kind: "+", text });
+    }
+    return ops;
+  }
+
+  const width = columns + 1;
+  const lengths = new Uint32Array((rows + 1) * width);
+  for (let row = rows - 1; row >= 0; row -= 1) {
+    for (let column = columns - 1; column >= 0; column -= 1) {
+      const offset = row * width + column;
+      lengths[offset] =
+        before[row] === after[column]
+          ? (lengths[offset + width + 1] ?? 0) + 1
+          : Math.max(lengths[offset + width] ?? 0, lengths[offset + 1] ?? 0);
+    }
+  }
+
+  let row = 0;
+  let column = 0;
+  while (row < rows && column < columns) {
+    const left = before[row] ?? "";
+    const right = after[column] ?? "";
+    if (left === right) {
+      ops.push({ kind: " ", text: left });
+      row += 1;
+      column += 1;
+    } else if (
+      (lengths[(row + 1) * width + column] ?? 0) >=
+      (lengths[row * width + column + 1] ?? 0)
+    ) {
+      ops.push({ kind: "-", text: left });
+      row += 1;
+    } else {
+      ops.push({ kind: "+", text: right });
+      column += 1;
+    }
+  }
+  for (; row < rows; row += 1) {
+    ops.push({ kind: "-", text: before[row] ?? "" });
+  }
+  for (; column < columns; column += 1) {
+    ops.push({ kind: "+", text: after[column] ?? "" });
+  }
+
+  return ops;
+}
+
+function diffLines(before: string[], after: string[], maxLcsCells: number): DiffOp[] {
+  let prefix = 0;
+  while (
+    prefix < before.length &&
+    prefix < after.length &&
+    before[prefix] === after[prefix]
+  ) {
+    prefix += 1;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < before.length - prefix &&
+    suffix < after.length - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) {
+    suffix += 1;
+  }
+
+  const kinds: Array<{ kind: DiffOpKind; text: string }> = [
+    ...before.slice(0, prefix).map((text) => ({ kind: " " as const, text })),
+    ...diffMiddle(
+      before.slice(prefix, before.length - suffix),
+      after.slice(prefix, after.length - suffix),
+      maxLcsCells,
+    ),
+    ...before
+      .slice(before.length - suffix)
+      .map((text) => ({ kind: " " as const, text })),
+  ];
+
+  const ops: DiffOp[] = [];
+  let oldIndex = 0;
+  let newIndex = 0;
+  for (const op of kinds) {
+    ops.push({ ...op, oldIndex, newIndex });
+    if (op.kind !== "+") {
+      oldIndex += 1;
+    }
+    if (op.kind !== "-") {
+      newIndex += 1;
+    }
+  }
+  return ops;
+}
+
+function buildHunks(ops: DiffOp[], contextLines: number): DiffHunk[] {
+  const changeIndexes: number[] = [];
+  ops.forEach((op, index) => {
+    if (op.kind !== " ") {
+      changeIndexes.push(index);
+    }
+  });
+
+  const groups: Array<[number, number]> = [];
+  for (const index of changeIndexes) {
+    const last = groups[groups.length - 1];
+    if (last && index - last[1] <= contextLines * 2 + 1) {
+      last[1] = index;
+    } else {
+      groups.push([index, index]);
+    }
+  }
+
+  const hunks: DiffHunk[] = [];
+  for (const [firstChange, lastChange] of groups) {
+    const from = Math.max(0, firstChange - contextLines);
+    const to = Math.min(ops.length - 1, lastChange + contextLines);
+    const slice = ops.slice(from, to + 1);
+    const first = slice[0];
+    if (!first) {
+      continue;
+    }
+
+    const oldLines = slice.filter((op) => op.kind !== "+").length;
+    const newLines = slice.filter((op) => op.kind !== "-").length;
+    hunks.push({
+      oldStart: oldLines === 0 ? first.oldIndex : first.oldIndex + 1,
+      oldLines,
+      newStart: newLines === 0 ? first.newIndex : first.newIndex + 1,
+      newLines,
+      lines: slice.map((op) => `${op.kind}${op.text}`),
+    });
+  }
+  return hunks;
+}
+
+function formatHunkHeader(hunk: DiffHunk): string {
+  return `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`;
+}
+
+export function createUnifiedDiff(
+  path: string,
+  before: string | null,
+  after: string | null,
+  options: UnifiedDiffOptions = {},
+): UnifiedDiff {
+  const contextLines = Math.max(0, options.contextLines ?? DEFAULT_CONTEXT_LINES);
+  const maxLcsCells = options.maxLcsCells ?? DEFAULT_MAX_LCS_CELLS;
+  const ops = diffLines(splitLines(before), splitLines(after), maxLcsCells);
+  const hunks = buildHunks(ops, contextLines);
+
+  const additions = ops.filter((op) => op.kind === "+").length;
+  const deletions = ops.filter((op) => op.kind === "-").length;
+
+  if (hunks.length === 0) {
+    return { path, diff: "", hunks, additions, deletions };
+  }
+
+  const lines = [
+    before === null ? "--- /dev/null" : `--- a/${path}`,
+    after === null ? "+++ /dev/null" : `+++ b/${path}`,
+  ];
+  for (const hunk of hunks) {
+    lines.push(formatHunkHeader(hunk), ...hunk.lines);
+  }
+
+  return {
+    path,
+    diff: `${lines.join("\n")}\n`,
+    hunks,
+    additions,
+    deletions,
+  };
+}
+
+export function parseUnifiedDiffHunks(diff: string): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | null = null;
+  let remainingOld = 0;
+  let remainingNew = 0;
+
+  for (const line of diff.replace(/\r\n?/g, "\n").split("\n")) {
+    if (current && (remainingOld > 0 || remainingNew > 0)) {
+      const kind = line[0] ?? " ";
+      if (kind === " " || kind === "-" || kind === "+") {
+        current.lines.push(line);
+        remainingOld -= kind === "+" ? 0 : 1;
+        remainingNew -= kind === "-" ? 0 : 1;
+        continue;
+      }
+    }
+
+    const header = HUNK_HEADER_PATTERN.exec(line);
+    if (!header) {
+      continue;
+    }
+
+    current = {
+      oldStart: Number(header[1]),
+      oldLines: header[2] === undefined ? 1 : Number(header[2]),
+      newStart: Number(header[3]),
+      newLines: header[4] === undefined ? 1 : Number(header[4]),
+      lines: [],
+    };
+    remainingOld = current.oldLines;
+    remainingNew = current.newLines;
+    hunks.push(current);
+  }
+
+  return hunks;
+}
@@ -0,0 +1,68 @@
+import type { TraceEvent } from "./types.js";
+
+export interface WorkspacePathOptions {
+  workspaceRoot?: string;
+  homeDir?: string;
+}
+
+const SCRATCH_PREFIX_PATTERNS = [
+  /^(?:\/private)?\/var\/folders\/[^/]+\/[^/]+\/T\/[^/]+\//,
+  /^(?:\/private)?\/(?:tmp|var\/tmp)\/[^/]+\//,
+  /^.*?\/\.?worktrees\/[^/]+\//,
+];
+const HOME_PREFIX_PATTERN = /^(?:\/home\/[^/]+|\/Users\/[^/]+|\/root)(?=\/)/;
+const ABSOLUTE_PATH_PATTERN = /(?<![\w.~:/-])\/(?:[\w.@+-]+\/)*[\w.@+-]+\/?/g;
+
+function withoutTrailingSlash(path: string): string {
+  return path.length > 1 ? path.replace(/\/+$/, "") : path;
+}
+
+export function workspacePathOptionsForEvent(event: TraceEvent): WorkspacePathOptions {
+  return event.workspaceRoot ? { workspaceRoot: event.workspaceRoot } : {};
+}
+
+export function normalizeWorkspacePath(
+  path: string,
+  options: WorkspacePathOptions = {},
+): string {
+  if (!path.startsWith("/")) {
+    return path;
+  }
+
+  if (options.workspaceRoot) {
+    const root = withoutTrailingSlash(options.workspaceRoot);
+    if (path === root || path === `${root}/`) {
+      return ".";
+    }
+    if (path.startsWith(`${root}/`)) {
+      return path.slice(root.length + 1);
+    }
+  }
+
+  for (const pattern of SCRATCH_PREFIX_PATTERNS) {
+    const match = pattern.exec(path);
+    if (match) {
+      return path.slice(match[0].length) || ".";
+    }
+  }
+
+  if (options.homeDir) {
+    const home = withoutTrailingSlash(options.homeDir);
+    if (path.startsWith(`${home}/`)) {
+      return `~${path.slice(home.length)}`;
+    }
+  }
+  return path.replace(HOME_PREFIX_PATTERN, "~");
+}
+
+export function normalizeWorkspacePaths(
+  text: string,
+  options: WorkspacePathOptions = {},
+): string {
+  if (!text.includes("/")) {
+    return text;
+  }
+  return text.replace(ABSOLUTE_PATH_PATTERN, (path) =>
+    normalizeWorkspacePath(path, options),
+  );
+}
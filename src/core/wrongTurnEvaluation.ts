@@ -4,6 +4,7 @@ import type {
   LearningSuggestion,
   SearchQuery,
   TraceEvent,
+  TraceEventTemplate,
   TraceScope,
 } from "./types.js";
 
@@ -20,7 +21,7 @@ export interface WrongTurnScenarioTemplate {
   description: string;
   query: SearchQuery;
   expectedPhrases: string[];
-  captureEvents: Array<Omit<TraceEvent, "id" | "timestamp" | "sessionId">>;
+  captureEvents: TraceEventTemplate[];
 }
 
 export interface WrongTurnScenarioResult {
@@ -1,10 +1,28 @@
 export * from "./core/types.js";
+export * from "./core/traceSchema.js";
+export * from "./core/traceQuery.js";
+export * from "./core/searchFilters.js";
+export * from "./core/tokenizer.js";
+export * from "./core/payloads.js";
+export * from "./core/traceGraph.js";
+export * from "./core/unifiedDiff.js";
+export * from "./core/redaction.js";
+export * from "./core/documentBuilder.js";
 export * from "./core/interfaces.js";
 export * from "./core/signatures.js";
+export * from "./core/shellCommand.js";
+export * from "./core/workspacePaths.js";
+export * from "./core/errorParsers.js";
 export * from "./core/nearDup.js";
+export * from "./core/minHash.js";
 export * from "./core/compositeIndex.js";
+export * from "./core/rerankers.js";
 export * from "./core/metrics.js";
+export * from "./core/minerState.js";
 export * from "./core/miner.js";
+export * from "./core/outcomeMiners.js";
+export * from "./core/backtrackMiner.js";
+export * from "./core/compositeMiner.js";
 export * from "./core/learningLoop.js";
 export * from "./core/projectIdentity.js";
 export * from "./core/pathLifecycle.js";
@@ -21,6 +39,7 @@ export * from "./core/trajectoryCalibrationAdjudication.js";
 export * from "./core/familyDisjointLane.js";
 
 export * from "./backends/local/index.js";
+export * from "./backends/sqlite/index.js";
 
 export * from "./adapters/pi/types.js";
 export * from "./adapters/pi/extension.js";
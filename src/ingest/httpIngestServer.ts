@@ -1,12 +1,19 @@
 import { createServer } from "node:http";
 import type { IncomingMessage, ServerResponse } from "node:http";
+import type { TraceEventMigrationRegistry } from "../core/traceSchema.js";
 import type { TeamAuth } from "./teamAuth.js";
 import type { TraceBundleStore } from "./traceBundleStore.js";
+import {
+  TraceBundleValidationError,
+  assertValidTraceBundle,
+} from "./traceBundleValidation.js";
 
 export interface IngestServerOptions {
   auth: TeamAuth;
   store: TraceBundleStore;
   maxBodyBytes?: number;
+  maxUncompressedBytes?: number;
+  migrations?: TraceEventMigrationRegistry;
 }
 
 interface TraceBundleRequestHeaders {
@@ -107,6 +114,7 @@ function parseTraceBundleHeaders(request: IncomingMessage): TraceBundleRequestHe
 
 export function createHttpIngestServer(options: IngestServerOptions) {
   const maxBodyBytes = options.maxBodyBytes ?? 50 * 1024 * 1024;
+  const maxUncompressedBytes = options.maxUncompressedBytes ?? maxBodyBytes * 10;
 
   return createServer(async (request, response) => {
     try {
@@ -149,6 +157,12 @@ export function createHttpIngestServer(options: IngestServerOptions) {
       }
 
       const bodyGzip = await readBody(request, maxBodyBytes);
+      assertValidTraceBundle(bodyGzip, {
+        sessionId: headers.sessionId,
+        maxUncompressedBytes,
+        migrations: options.migrations,
+      });
+
       const receivedAtUtc = nowIso();
 
       const result = await options.store.storeTraceBundle({
@@ -177,6 +191,15 @@ export function createHttpIngestServer(options: IngestServerOptions) {
 
       json(response, result.duplicate ? 200 : 201, responseBody);
     } catch (error) {
+      if (error instanceof TraceBundleValidationError) {
+        json(response, error.statusCode, {
+          error: "invalid_trace_bundle",
+          message: error.message,
+          invalidLines: error.invalidLines,
+        });
+        return;
+      }
+
       const statusCode =
         typeof error === "object" &&
         error !== null &&
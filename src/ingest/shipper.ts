@@ -2,7 +2,13 @@ import { createHash } from "node:crypto";
 import { readFile, readdir, stat } from "node:fs/promises";
 import { homedir } from "node:os";
 import { isAbsolute, join, resolve } from "node:path";
-import { gzipSync } from "node:zlib";
+import { gunzipSync, gzipSync } from "node:zlib";
+import {
+  BUILTIN_REDACTION_DETECTORS,
+  Redactor,
+  type TraceEventRedactor,
+} from "../core/redaction.js";
+import type { TraceEvent } from "../core/types.js";
 import {
   type ShipperSourceState,
   createEmptyState,
@@ -20,6 +26,7 @@ export interface TraceShipperOptions {
   clientId?: string;
   dryRun?: boolean;
   maxUploads?: number;
+  redactor?: TraceEventRedactor | null;
 }
 
 export interface TraceShipperFailure {
@@ -29,6 +36,13 @@ export interface TraceShipperFailure {
   message: string;
 }
 
+export interface TraceShipperWarning {
+  traceRoot: string;
+  sessionId: string;
+  path: string;
+  message: string;
+}
+
 export interface TraceShipperResult {
   generatedAtUtc: string;
   ingestUrl: string;
@@ -38,14 +52,20 @@ export interface TraceShipperResult {
   uploadedSessionCount: number;
   skippedAlreadyUploadedCount: number;
   failures: TraceShipperFailure[];
+  warnings: TraceShipperWarning[];
 }
 
 interface SessionFile {
   traceRoot: string;
   sessionId: string;
   path: string;
+  paths: string[];
 }
 
+const HOT_SESSION_SUFFIX = ".jsonl";
+const COLD_SESSION_SUFFIX = ".jsonl.gz";
+const COMPACTING_SESSION_SUFFIX = ".jsonl.compacting";
+
 function nowIso(): string {
   return new Date().toISOString();
 }
@@ -86,18 +106,91 @@ async function findSessionFiles(traceRoot: string): Promise<SessionFile[]> {
   }
 
   const entries = await readdir(sessionsDir, { withFileTypes: true });
-  return entries
-    .filter((entry) => entry.isFile() && entry.name.endsWith(".jsonl"))
-    .map((entry) => {
-      const sessionId = entry.name.replace(/\.jsonl$/, "");
+  const cold = new Map<string, string>();
+  const hot = new Map<string, string>();
+  const compacting = new Set<string>();
+  for (const entry of entries) {
+    if (!entry.isFile()) {
+      continue;
+    }
+    const path = join(sessionsDir, entry.name);
+    if (entry.name.endsWith(COLD_SESSION_SUFFIX)) {
+      cold.set(entry.name.slice(0, -COLD_SESSION_SUFFIX.length), path);
+    } else if (entry.name.endsWith(COMPACTING_SESSION_SUFFIX)) {
+      compacting.add(entry.name.slice(0, -COMPACTING_SESSION_SUFFIX.length));
+    } else if (entry.name.endsWith(HOT_SESSION_SUFFIX)) {
+      hot.set(entry.name.slice(0, -HOT_SESSION_SUFFIX.length), path);
+    }
+  }
+
+  // A session mid-compaction is in flight; it ships on the next run.
+  const sessionIds = new Set([...cold.keys(), ...hot.keys()]);
+  return [...sessionIds]
+    .sort()
+    .filter((sessionId) => !compacting.has(sessionId))
+    .map((sessionId) => {
+      const paths = [cold.get(sessionId), hot.get(sessionId)].filter(
+        (path): path is string => path !== undefined,
+      );
       return {
         traceRoot: rootAbs,
         sessionId,
-        path: join(sessionsDir, entry.name),
+        path: hot.get(sessionId) ?? paths[0] ?? "",
+        paths,
       };
     });
 }
 
+async function readSessionFiles(session: SessionFile): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for (const path of session.paths) {
+    const raw = await readFile(path);
+    chunks.push(path.endsWith(COLD_SESSION_SUFFIX) ? gunzipSync(raw) : raw);
+  }
+  return Buffer.concat(chunks);
+}
+
+function parseEventLine(line: string): TraceEvent | null {
+  try {
+    const parsed: unknown = JSON.parse(line);
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed)
+      ? (parsed as TraceEvent)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+function redactSessionBundle(
+  raw: Buffer,
+  redactor: TraceEventRedactor,
+): { body: Buffer; droppedLineCount: number } {
+  const rawLines = raw
+    .toString("utf-8")
+    .split(/\r?\n/)
+    .filter((line) => line.trim());
+  const lines: string[] = [];
+  let droppedLineCount = 0;
+  for (const [lineIndex, line] of rawLines.entries()) {
+    const parsed = parseEventLine(line);
+    if (!parsed) {
+      // The final line of a session that is still being appended may be torn;
+      // it ships whole on a later run.
+      if (lineIndex < rawLines.length - 1) {
+        droppedLineCount += 1;
+      }
+      continue;
+    }
+
+    lines.push(JSON.stringify(redactor.redactEvent(parsed)));
+  }
+
+  return {
+    body: Buffer.from(lines.length > 0 ? `${lines.join("\n")}\n` : "", "utf-8"),
+    droppedLineCount,
+  };
+}
+
 async function uploadSession(params: {
   ingestUrl: string;
   teamToken: string;
@@ -179,6 +272,16 @@ export async function shipTraceBundles(
   const generatedAtUtc = nowIso();
   const ingestUrl = normalizeIngestUrl(options.ingestUrl);
   const traceRoots = options.traceRoots.map(absolutizePath);
+  const redactor =
+    options.redactor === undefined
+      ? new Redactor({
+          scopes: {
+            personal: {
+              detectors: BUILTIN_REDACTION_DETECTORS.map((detector) => detector.id),
+            },
+          },
+        })
+      : options.redactor;
 
   const statePath = absolutizePath(options.statePath);
   const state = await loadShipperState(statePath, generatedAtUtc);
@@ -187,6 +290,7 @@ export async function shipTraceBundles(
   let uploadedSessionCount = 0;
   let skippedAlreadyUploadedCount = 0;
   const failures: TraceShipperFailure[] = [];
+  const warnings: TraceShipperWarning[] = [];
 
   for (const traceRoot of traceRoots) {
     const sessions = await findSessionFiles(traceRoot);
@@ -215,7 +319,20 @@ export async function shipTraceBundles(
       }
 
       try {
-        const raw = await readFile(session.path);
+        const stored = await readSessionFiles(session);
+        let raw = stored;
+        if (redactor) {
+          const redacted = redactSessionBundle(stored, redactor);
+          raw = redacted.body;
+          if (redacted.droppedLineCount > 0) {
+            warnings.push({
+              traceRoot,
+              sessionId: session.sessionId,
+              path: session.path,
+              message: `Dropped ${redacted.droppedLineCount} line(s) that are not JSON objects.`,
+            });
+          }
+        }
         const contentSha256 = sha256Hex(raw);
         const prior = sourceState.sessions[session.sessionId];
         if (prior?.contentSha256 === contentSha256) {
@@ -272,5 +389,6 @@ export async function shipTraceBundles(
     uploadedSessionCount,
     skippedAlreadyUploadedCount,
     failures,
+    warnings,
   };
 }
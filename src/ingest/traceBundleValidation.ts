@@ -0,0 +1,120 @@
+import { gunzipSync } from "node:zlib";
+import {
+  type TraceEventMigrationRegistry,
+  type TraceEventValidationIssue,
+  parseTraceEvent,
+} from "../core/traceSchema.js";
+
+export interface TraceBundleLineIssue {
+  lineNumber: number;
+  issues: TraceEventValidationIssue[];
+}
+
+export interface TraceBundleValidationResult {
+  eventCount: number;
+  invalidLines: TraceBundleLineIssue[];
+}
+
+export interface ValidateTraceBundleOptions {
+  sessionId: string;
+  maxUncompressedBytes: number;
+  migrations?: TraceEventMigrationRegistry;
+  maxReportedLines?: number;
+}
+
+export class TraceBundleValidationError extends Error {
+  readonly statusCode = 400;
+  readonly invalidLines: TraceBundleLineIssue[];
+
+  constructor(message: string, invalidLines: TraceBundleLineIssue[]) {
+    super(message);
+    this.name = "TraceBundleValidationError";
+    this.invalidLines = invalidLines;
+  }
+}
+
+function gunzipBundle(bodyGzip: Buffer, maxUncompressedBytes: number): Buffer {
+  try {
+    return gunzipSync(bodyGzip, { maxOutputLength: maxUncompressedBytes });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new TraceBundleValidationError(
+      `Trace bundle could not be decompressed: ${message}`,
+      [],
+    );
+  }
+}
+
+export function validateTraceBundle(
+  bodyGzip: Buffer,
+  options: ValidateTraceBundleOptions,
+): TraceBundleValidationResult {
+  const maxReportedLines = options.maxReportedLines ?? 20;
+  const raw = gunzipBundle(bodyGzip, options.maxUncompressedBytes).toString("utf-8");
+
+  let eventCount = 0;
+  const invalidLines: TraceBundleLineIssue[] = [];
+
+  for (const [lineIndex, line] of raw.split(/\r?\n/).entries()) {
+    if (!line.trim()) {
+      continue;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      invalidLines.push({
+        lineNumber: lineIndex + 1,
+        issues: [{ field: "$", message: "not valid JSON" }],
+      });
+      continue;
+    }
+
+    const result = parseTraceEvent(parsed, { migrations: options.migrations });
+    if (!result.ok) {
+      invalidLines.push({ lineNumber: lineIndex + 1, issues: result.issues });
+      continue;
+    }
+
+    if (result.event.sessionId !== options.sessionId) {
+      invalidLines.push({
+        lineNumber: lineIndex + 1,
+        issues: [
+          {
+            field: "sessionId",
+            message: `expected '${options.sessionId}' to match the bundle session`,
+          },
+        ],
+      });
+      continue;
+    }
+
+    eventCount += 1;
+  }
+
+  return {
+    eventCount,
+    invalidLines: invalidLines.slice(0, maxReportedLines),
+  };
+}
+
+export function assertValidTraceBundle(
+  bodyGzip: Buffer,
+  options: ValidateTraceBundleOptions,
+): TraceBundleValidationResult {
+  const result = validateTraceBundle(bodyGzip, options);
+
+  if (result.invalidLines.length > 0) {
+    throw new TraceBundleValidationError(
+      `Trace bundle contains invalid events (first at line ${result.invalidLines[0]?.lineNumber}).`,
+      result.invalidLines,
+    );
+  }
+
+  if (result.eventCount === 0) {
+    throw new TraceBundleValidationError("Trace bundle contains no events.", []);
+  }
+
+  return result;
+}
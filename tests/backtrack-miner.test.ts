@@ -0,0 +1,224 @@
+import { describe, expect, it } from "vitest";
+import { BacktrackMiner } from "../src/core/backtrackMiner.js";
+import type { FileEditPayload } from "../src/core/types.js";
+import { createUnifiedDiff, hashContent } from "../src/core/unifiedDiff.js";
+import { fileEdit, toolResult } from "./helpers/events.js";
+
+let counter = 0;
+
+const TYPE_ERROR = "src/retry.ts(3,1): error TS2322: Type mismatch";
+
+function nextEvent(sessionId: string) {
+  counter += 1;
+  return { id: `${sessionId}-${counter}`, sessionId, second: counter };
+}
+
+function editPayload(
+  path: string,
+  before: string | null,
+  after: string | null,
+  options: { hashes?: boolean } = {},
+): FileEditPayload {
+  const withHashes = options.hashes ?? true;
+  return {
+    path,
+    operation: before === null ? "create" : after === null ? "delete" : "modify",
+    diff: createUnifiedDiff(path, before, after).diff,
+    ...(withHashes && before !== null ? { beforeHash: hashContent(before) } : {}),
+    ...(withHashes && after !== null ? { afterHash: hashContent(after) } : {}),
+  };
+}
+
+describe("BacktrackMiner", () => {
+  it("links a reverted approach to the approach that worked afterwards", async () => {
+    const miner = new BacktrackMiner();
+    const edit = fileEdit({
+      ...nextEvent("a"),
+      payload: editPayload("src/retry.ts", "retries = 1\n", "retries = '3'\n"),
+    });
+    const failure = toolResult({
+      ...nextEvent("a"),
+      command: "npm test",
+      output: TYPE_ERROR,
+      isError: true,
+    });
+    const revert = toolResult({
+      ...nextEvent("a"),
+      command: "git checkout -- src/retry.ts",
+      isError: false,
+    });
+    const fix = fileEdit({
+      ...nextEvent("a"),
+      payload: editPayload("src/config.ts", "retries: 1\n", "retries: 3\n"),
+    });
+    const success = toolResult({
+      ...nextEvent("a"),
+      command: "npm test",
+      isError: false,
+    });
+    for (const next of [edit, failure, revert, fix, success]) {
+      await miner.ingest(next);
+    }
+
+    const [artifact, ...rest] = await miner.mine();
+    expect(rest).toEqual([]);
+    expect(artifact?.kind).toBe("anti_pattern");
+    expect(artifact?.summary).toBe(
+      'Abandoned approach: edits to src/retry.ts were reverted with `git checkout -- src/retry.ts` after hitting "TS2322: Type mismatch" in 1 session(s). What worked afterwards: edit src/config.ts, then re-run `npm test`.',
+    );
+    expect(artifact?.steps?.map((step) => step.kind)).toEqual([
+      "edit",
+      "failure",
+      "revert",
+      "edit",
+      "success",
+    ]);
+    expect(artifact?.evidenceEventIds).toEqual(
+      [edit, failure, revert, fix, success].map((next) => next.id),
+    );
+    expect(artifact?.metadata).toMatchObject({
+      revertKind: "git_checkout",
+      workingEventId: success.id,
+      supportSessionCount: 1,
+    });
+  });
+
+  it("detects rewrites back to an earlier file and edits that undo hunks", async () => {
+    const miner = new BacktrackMiner();
+    await miner.ingest(
+      fileEdit({
+        ...nextEvent("a"),
+        payload: editPayload("src/a.ts", "one\n", "two\n"),
+      }),
+    );
+    await miner.ingest(
+      fileEdit({
+        ...nextEvent("a"),
+        payload: editPayload("src/a.ts", "two\n", "three\n"),
+      }),
+    );
+    await miner.ingest(
+      fileEdit({
+        ...nextEvent("a"),
+        payload: editPayload("src/a.ts", "three\n", "one\n"),
+      }),
+    );
+
+    const hunkOptions = { hashes: false };
+    await miner.ingest(
+      fileEdit({
+        ...nextEvent("b"),
+        payload: editPayload("src/b.ts", "keep\n", "keep\nextra\n", hunkOptions),
+      }),
+    );
+    await miner.ingest(
+      fileEdit({
+        ...nextEvent("b"),
+        payload: editPayload("src/b.ts", "keep\nextra\n", "keep\n", hunkOptions),
+      }),
+    );
+
+    const artifacts = await miner.mine();
+    expect(
+      artifacts.map((artifact) => [
+        artifact.metadata?.paths,
+        artifact.metadata?.revertKind,
+        artifact.steps?.filter((step) => step.kind === "edit").length,
+      ]),
+    ).toEqual([
+      ["src/a.ts", "restored_content", 2],
+      ["src/b.ts", "undone_hunk", 1],
+    ]);
+    expect(artifacts[1]?.summary).toBe(
+      "Abandoned approach: edits to src/b.ts were undone by a later edit in 1 session(s).",
+    );
+  });
+
+  it("treats stashes as reverts but ignores branch switches and committed edits", async () => {
+    const miner = new BacktrackMiner({ minSessions: 2 });
+    for (const sessionId of ["a", "b"]) {
+      await miner.ingest(
+        fileEdit({
+          ...nextEvent(sessionId),
+          payload: editPayload("src/a.ts", "x\n", "y\n"),
+        }),
+      );
+      await miner.ingest(
+        fileEdit({
+          ...nextEvent(sessionId),
+          payload: editPayload("src/b.ts", "x\n", "y\n"),
+        }),
+      );
+      await miner.ingest(
+        toolResult({ ...nextEvent(sessionId), command: "git stash", isError: false }),
+      );
+    }
+    await miner.ingest(
+      fileEdit({ ...nextEvent("c"), payload: editPayload("src/a.ts", "x\n", "z\n") }),
+    );
+    await miner.ingest(
+      toolResult({ ...nextEvent("c"), command: "git checkout main", isError: false }),
+    );
+    await miner.ingest(
+      toolResult({ ...nextEvent("c"), command: "git commit -am wip", isError: false }),
+    );
+    await miner.ingest(
+      toolResult({
+        ...nextEvent("c"),
+        command: "git checkout -- src/a.ts",
+        isError: false,
+      }),
+    );
+
+    const [artifact, ...rest] = await miner.mine();
+    expect(rest).toEqual([]);
+    expect(artifact?.metadata).toMatchObject({
+      paths: "src/a.ts,src/b.ts",
+      revertKind: "git_stash",
+      supportSessionCount: 2,
+      crossSessionSupport: true,
+    });
+    expect(() => new BacktrackMiner({ minSessions: 0 })).toThrow(/minSessions/);
+  });
+
+  it("restores snapshots mid-approach and forgets reverted evidence", async () => {
+    const original = new BacktrackMiner();
+    const edit = fileEdit({
+      ...nextEvent("a"),
+      payload: editPayload("src/a.ts", "x\n", "y\n"),
+    });
+    await original.ingest(edit);
+    await original.ingest(
+      toolResult({
+        ...nextEvent("a"),
+        command: "npm test",
+        output: TYPE_ERROR,
+        isError: true,
+      }),
+    );
+
+    const restored = new BacktrackMiner();
+    restored.restoreSnapshot(JSON.parse(JSON.stringify(original.snapshot())));
+    await restored.ingest(
+      toolResult({
+        ...nextEvent("a"),
+        command: "git restore src/a.ts",
+        isError: false,
+      }),
+    );
+    await restored.ingest(
+      toolResult({ ...nextEvent("a"), command: "npm test", isError: false }),
+    );
+
+    const [artifact] = await restored.mine();
+    expect(artifact?.metadata?.revertKind).toBe("git_restore");
+    expect(artifact?.metadata?.workingApproach).toBe("re-run `npm test`");
+
+    await restored.forget([edit.id]);
+    expect(await restored.mine()).toEqual([]);
+    expect(restored.snapshot().sessions).toEqual([]);
+    expect(() =>
+      restored.restoreSnapshot({ miner: "anti_pattern", artifacts: null }),
+    ).toThrow(/expected backtrack/);
+  });
+});
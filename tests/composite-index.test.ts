@@ -1,11 +1,20 @@
 import { describe, expect, it } from "vitest";
 import { CompositeTraceIndex } from "../src/core/compositeIndex.js";
 import type { TraceIndex } from "../src/core/interfaces.js";
-import type { IndexedDocument, SearchQuery, SearchResult } from "../src/core/types.js";
+import type {
+  IndexedDocument,
+  SearchFilters,
+  SearchQuery,
+  SearchResult,
+  TraceIndexStats,
+} from "../src/core/types.js";
 
 class FakeIndex implements TraceIndex {
   public readonly upsertedIds: string[] = [];
   public readonly upsertManyCalls: number[] = [];
+  public readonly removedSourceEventIds: string[] = [];
+  public readonly removedWhere: SearchFilters[] = [];
+  public clearCalls = 0;
 
   constructor(private readonly results: SearchResult[]) {}
 
@@ -23,6 +32,28 @@ class FakeIndex implements TraceIndex {
   async search(query: SearchQuery): Promise<SearchResult[]> {
     return this.results.slice(0, query.limit ?? this.results.length);
   }
+
+  async remove(sourceEventIds: string[]): Promise<number> {
+    this.removedSourceEventIds.push(...sourceEventIds);
+    return sourceEventIds.length;
+  }
+
+  async removeWhere(filters: SearchFilters): Promise<number> {
+    this.removedWhere.push(filters);
+    return this.results.length;
+  }
+
+  async stats(): Promise<TraceIndexStats> {
+    return {
+      documentCount: this.results.length,
+      sourceEventCount: this.results.length,
+      termCount: 0,
+    };
+  }
+
+  async clear(): Promise<void> {
+    this.clearCalls += 1;
+  }
 }
 
 function result(id: string): SearchResult {
@@ -65,6 +96,40 @@ describe("CompositeTraceIndex", () => {
     expect(hits[0]?.score).toBeGreaterThan(hits[1]?.score ?? 0);
   });
 
+  it("explains fused ranks with each source's explanation", async () => {
+    const explained = (id: string, source: string): SearchResult => ({
+      ...result(id),
+      explanation: { source, score: 1, terms: [] },
+    });
+    const primary = new FakeIndex([
+      explained("a", "lexical"),
+      explained("b", "lexical"),
+    ]);
+    const secondary = new FakeIndex([explained("b", "vector")]);
+
+    const index = new CompositeTraceIndex({ primary, secondary });
+    const hits = await index.search({ text: "anything", limit: 2, explain: true });
+
+    expect(hits[0]?.document.id).toBe("b");
+    expect(hits[0]?.explanation).toMatchObject({
+      source: "composite",
+      score: hits[0]?.score,
+      fusion: {
+        primaryRank: 2,
+        secondaryRank: 1,
+        primary: { source: "lexical" },
+        secondary: { source: "vector" },
+      },
+    });
+    expect(hits[1]?.explanation?.fusion).toMatchObject({
+      primaryRank: 1,
+      secondaryRank: null,
+    });
+
+    const plain = await index.search({ text: "anything", limit: 2 });
+    expect(plain[0]?.explanation).toBeUndefined();
+  });
+
   it("supports source weighting that favors primary results", async () => {
     const primary = new FakeIndex([result("a"), result("b")]);
     const secondary = new FakeIndex([result("b"), result("c")]);
@@ -127,4 +192,44 @@ describe("CompositeTraceIndex", () => {
     expect(primary.upsertManyCalls).toEqual([2]);
     expect(secondary.upsertManyCalls).toEqual([2]);
   });
+
+  it("removes source events from both indexes", async () => {
+    const primary = new FakeIndex([]);
+    const secondary = new FakeIndex([]);
+    const index = new CompositeTraceIndex({ primary, secondary });
+
+    expect(await index.remove?.(["event-x"])).toBe(1);
+    expect(primary.removedSourceEventIds).toEqual(["event-x"]);
+    expect(secondary.removedSourceEventIds).toEqual(["event-x"]);
+  });
+
+  it("propagates removeWhere and clear and reports primary stats", async () => {
+    const primary = new FakeIndex([result("a"), result("b")]);
+    const secondary = new FakeIndex([result("c")]);
+    const index = new CompositeTraceIndex({ primary, secondary });
+
+    expect(await index.removeWhere?.({ sessionId: "s1" })).toBe(2);
+    expect(primary.removedWhere).toEqual([{ sessionId: "s1" }]);
+    expect(secondary.removedWhere).toEqual([{ sessionId: "s1" }]);
+
+    expect((await index.stats?.())?.documentCount).toBe(2);
+
+    await index.clear?.();
+    expect(primary.clearCalls).toBe(1);
+    expect(secondary.clearCalls).toBe(1);
+  });
+
+  it("drops maintenance methods that either index lacks", () => {
+    const secondary: TraceIndex = {
+      upsert: async () => {},
+      upsertMany: async () => {},
+      search: async () => [],
+    };
+    const index = new CompositeTraceIndex({ primary: new FakeIndex([]), secondary });
+
+    expect(index.remove).toBeUndefined();
+    expect(index.removeWhere).toBeUndefined();
+    expect(index.clear).toBeUndefined();
+    expect(index.stats).toBeDefined();
+  });
 });
@@ -4,9 +4,10 @@ import { DefaultEventDocumentBuilder } from "../src/core/documentBuilder.js";
 describe("DefaultEventDocumentBuilder", () => {
   it("adds swebench metadata for swebench session IDs", () => {
     const builder = new DefaultEventDocumentBuilder();
+    const timestamp = new Date().toISOString();
     const docs = builder.build({
       id: "evt-1",
-      timestamp: new Date().toISOString(),
+      timestamp,
       sessionId: "swebench::django__django-10914::on::r2",
       harness: "pi",
       scope: "public",
@@ -30,6 +31,7 @@ describe("DefaultEventDocumentBuilder", () => {
     expect(baseDoc?.metadata?.command).toBe("npm test");
     expect(baseDoc?.metadata?.isError).toBe(false);
     expect(baseDoc?.metadata?.outcome).toBe("success");
+    expect(baseDoc?.metadata?.timestamp).toBe(timestamp);
   });
 
   it("does not add swebench metadata for non-swebench sessions", () => {
@@ -54,4 +56,96 @@ describe("DefaultEventDocumentBuilder", () => {
     expect(baseDoc?.metadata?.swebenchVariant).toBeUndefined();
     expect(baseDoc?.metadata?.swebenchReplicate).toBeUndefined();
   });
+
+  it("indexes edited paths and changed hunk lines for file edits", () => {
+    const builder = new DefaultEventDocumentBuilder();
+    const docs = builder.build({
+      id: "evt-edit",
+      timestamp: new Date().toISOString(),
+      sessionId: "regular-session",
+      harness: "pi",
+      scope: "personal",
+      type: "file_edit",
+      payload: {
+        toolName: "edit",
+        path: "src/config.ts",
+        operation: "modify",
+        diff: [
+          "--- a/src/config.ts",
+          "+++ b/src/config.ts",
+          "@@ -1,2 +1,2 @@",
+          " import { env } from './env';",
+          "-export const retries = 1;",
+          "+export const retries = 3;",
+          "",
+        ].join("\n"),
+      },
+    });
+
+    const baseDoc = docs.find((doc) => doc.id === "evt-edit:base");
+    expect(baseDoc?.metadata?.filePath).toBe("src/config.ts");
+    expect(baseDoc?.metadata?.editOperation).toBe("modify");
+
+    const hunkDoc = docs.find((doc) => doc.id === "evt-edit:hunk:0");
+    expect(hunkDoc?.text).toBe(
+      "src/config.ts export const retries = 1; export const retries = 3;",
+    );
+    expect(hunkDoc?.metadata?.isHunk).toBe(true);
+
+    const pathDocs = docs.filter((doc) => doc.metadata?.isPath === true);
+    expect(pathDocs[0]?.text).toBe("src/config.ts");
+  });
+
+  it("indexes structured error signatures before generic error lines", () => {
+    const builder = new DefaultEventDocumentBuilder();
+    const docs = builder.build({
+      id: "evt-tsc",
+      timestamp: new Date().toISOString(),
+      sessionId: "regular-session",
+      harness: "pi",
+      scope: "personal",
+      type: "tool_result",
+      payload: {
+        toolName: "bash",
+        command: "npx tsc --noEmit",
+        output: "src/index.ts(3,21): error TS2307: Cannot find module 'foo'.",
+        isError: true,
+      },
+    });
+
+    const errorDoc = docs.find((doc) => doc.id === "evt-tsc:err:0");
+    expect(errorDoc?.text).toBe("TS2307: Cannot find module 'foo'. src/index.ts:3");
+    expect(errorDoc?.metadata).toMatchObject({
+      isErrorSignature: true,
+      errorSource: "tsc",
+      errorCode: "TS2307",
+      errorFrame: "src/index.ts:3",
+    });
+  });
+
+  it("indexes repo-relative paths and keeps the original path in metadata", () => {
+    const builder = new DefaultEventDocumentBuilder();
+    const docs = builder.build({
+      id: "evt-paths",
+      timestamp: new Date().toISOString(),
+      sessionId: "regular-session",
+      harness: "pi",
+      scope: "personal",
+      workspaceRoot: "/home/alice/repo",
+      type: "tool_result",
+      payload: {
+        toolName: "bash",
+        command: "npm test",
+        output: "Error: Cannot find module /home/alice/repo/src/x.ts",
+        isError: true,
+      },
+    });
+
+    const pathDoc = docs.find((doc) => doc.metadata?.isPath === true);
+    expect(pathDoc?.text).toBe("src/x.ts");
+    expect(pathDoc?.metadata?.originalPath).toBe("/home/alice/repo/src/x.ts");
+    expect(docs.find((doc) => doc.id === "evt-paths:base")?.text).not.toContain(
+      "/home/alice",
+    );
+  });
 });
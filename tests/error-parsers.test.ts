@@ -0,0 +1,185 @@
+import { describe, expect, it } from "vitest";
+import { parseStructuredErrors } from "../src/core/errorParsers.js";
+
+describe("parseStructuredErrors", () => {
+  it("reads the exception and innermost repo frame from a Python traceback", () => {
+    const errors = parseStructuredErrors(
+      [
+        "Traceback (most recent call last):",
+        '  File "app/main.py", line 12, in <module>',
+        "    run()",
+        '  File "app/service.py", line 40, in run',
+        "    import yaml",
+        '  File "/usr/lib/python3.11/site-packages/yaml/__init__.py", line 3, in <module>',
+        "ModuleNotFoundError: No module named 'yaml'",
+      ].join("\n"),
+    );
+
+    expect(errors).toEqual([
+      {
+        source: "python",
+        signature: "ModuleNotFoundError: No module named 'yaml'",
+        message: "No module named 'yaml'",
+        exceptionType: "ModuleNotFoundError",
+        frame: "app/service.py:40",
+      },
+    ]);
+  });
+
+  it("parses tsc diagnostics in both output formats", () => {
+    const errors = parseStructuredErrors(
+      [
+        "src/index.ts(3,21): error TS2307: Cannot find module 'foo' or its corresponding type declarations.",
+        "src/core/miner.ts:42:7 - error TS2322: Type 'string' is not assignable to type 'number'.",
+      ].join("\n"),
+    );
+
+    expect(errors.map((error) => error.signature)).toEqual([
+      "TS2307: Cannot find module 'foo' or its corresponding type declarations.",
+      "TS2322: Type 'string' is not assignable to type 'number'.",
+    ]);
+    expect(errors[0]?.code).toBe("TS2307");
+    expect(errors[1]?.frame).toBe("src/core/miner.ts:42");
+  });
+
+  it("parses vitest and jest failures with test IDs", () => {
+    const vitest = parseStructuredErrors(
+      [
+        " FAIL  tests/min-hash.test.ts > NearDuplicateClusterer > clusters variants",
+        "AssertionError: expected 4000 to be 200 // Object.is equality",
+        " ❯ tests/min-hash.test.ts:101:38",
+      ].join("\n"),
+    );
+    expect(vitest[0]).toMatchObject({
+      source: "vitest",
+      signature: "AssertionError: expected <num> to be <num> // Object.is equality",
+      testId: "tests/min-hash.test.ts > NearDuplicateClusterer > clusters variants",
+      frame: "tests/min-hash.test.ts:101",
+    });
+
+    const jest = parseStructuredErrors(
+      [
+        "  ● parser › handles empty input",
+        "",
+        "    TypeError: Cannot read properties of undefined (reading 'length')",
+        "",
+        "      at parse (node_modules/lib/index.js:3:9)",
+        "      at Object.<anonymous> (src/parser.test.ts:8:12)",
+      ].join("\n"),
+    );
+    expect(jest[0]).toMatchObject({
+      source: "jest",
+      exceptionType: "TypeError",
+      testId: "parser › handles empty input",
+      frame: "src/parser.test.ts:8",
+    });
+  });
+
+  it("parses the pytest short summary", () => {
+    const errors = parseStructuredErrors(
+      [
+        "tests/test_math.py:7: AssertionError",
+        "=========================== short test summary info ============================",
+        "FAILED tests/test_math.py::test_add - AssertionError: assert 3 == 4",
+      ].join("\n"),
+    );
+
+    expect(errors).toEqual([
+      {
+        source: "pytest",
+        signature: "AssertionError: assert <num> == <num>",
+        message: "assert <num> == <num>",
+        exceptionType: "AssertionError",
+        testId: "tests/test_math.py::test_add",
+        frame: "tests/test_math.py:7",
+      },
+    ]);
+  });
+
+  it("parses go test failures and compile errors", () => {
+    const errors = parseStructuredErrors(
+      [
+        "./main.go:12:5: undefined: fooBar",
+        "--- FAIL: TestParse (0.00s)",
+        "    parse_test.go:21: got 1, want 2",
+        "FAIL\texample.com/parse\t0.01s",
+      ].join("\n"),
+    );
+
+    expect(errors.map((error) => error.signature)).toEqual([
+      "undefined: fooBar",
+      "FAIL TestParse: got <num>, want <num>",
+    ]);
+    expect(errors[0]?.frame).toBe("main.go:12");
+    expect(errors[1]).toMatchObject({ testId: "TestParse", frame: "parse_test.go:21" });
+  });
+
+  it("parses rustc errors and panics", () => {
+    const errors = parseStructuredErrors(
+      [
+        "error[E0425]: cannot find value `count` in this scope",
+        "  --> src/lib.rs:10:5",
+        "thread 'tests::adds' panicked at src/lib.rs:22:9:",
+        "assertion failed: left == right",
+        "error: could not compile `demo` due to 1 previous error",
+      ].join("\n"),
+    );
+
+    expect(errors[0]).toMatchObject({
+      source: "rust",
+      code: "E0425",
+      signature: "E0425: cannot find value `count` in this scope",
+      frame: "src/lib.rs:10",
+    });
+    expect(errors[1]).toMatchObject({
+      exceptionType: "panic",
+      testId: "tests::adds",
+      frame: "src/lib.rs:22",
+    });
+    expect(errors).toHaveLength(2);
+  });
+
+  it("parses npm, eslint and biome output", () => {
+    const npm = parseStructuredErrors(
+      ["npm ERR! code E404", "npm ERR! 404 Not Found - GET https://registry/x"].join(
+        "\n",
+      ),
+    );
+    expect(npm[0]).toMatchObject({ source: "npm", code: "E404" });
+    expect(npm[0]?.signature).toBe(
+      "npm E404: <num> Not Found - GET https://registry/x",
+    );
+
+    const eslint = parseStructuredErrors(
+      [
+        "/repo/src/app.ts",
+        "  4:10  error  'x' is defined but never used  no-unused-vars",
+        "  9:1   warning  Unexpected console statement  no-console",
+      ].join("\n"),
+    );
+    expect(eslint).toHaveLength(1);
+    expect(eslint[0]).toMatchObject({
+      code: "no-unused-vars",
+      frame: "/repo/src/app.ts:4",
+    });
+
+    const biome = parseStructuredErrors(
+      [
+        "src/app.ts:3:7 lint/suspicious/noExplicitAny ━━━━━━━━━━",
+        "",
+        "  × Unexpected any. Specify a different type.",
+      ].join("\n"),
+    );
+    expect(biome[0]).toMatchObject({
+      source: "biome",
+      signature:
+        "lint/suspicious/noExplicitAny: Unexpected any. Specify a different type.",
+    });
+  });
+
+  it("ignores plain output and strips ANSI colors", () => {
+    expect(parseStructuredErrors("all tests passed")).toEqual([]);
+    const colored = `\u001b[31msrc/a.ts(1,1): error TS1005: ';' expected.\u001b[39m`;
+    expect(parseStructuredErrors(colored)[0]?.code).toBe("TS1005");
+  });
+});
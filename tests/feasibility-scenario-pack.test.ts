@@ -4,22 +4,21 @@ import {
   extractWrongTurnScenarioTemplatesFromEvents,
   extractWrongTurnScenarioTemplatesFromPiSessionRecords,
 } from "../src/core/feasibilityScenarioPack.js";
-import type { TraceEvent } from "../src/core/types.js";
+import type { TraceEvent, TraceEventOfType } from "../src/core/types.js";
 import type { WrongTurnScenarioTemplate } from "../src/core/wrongTurnEvaluation.js";
 
+type ToolResultEvent = TraceEventOfType<"tool_result">;
+
 function event(
-  input: Partial<TraceEvent> & {
-    type: TraceEvent["type"];
-    payload: Record<string, unknown>;
-  },
-): TraceEvent {
+  input: Partial<ToolResultEvent> & { payload: ToolResultEvent["payload"] },
+): ToolResultEvent {
   return {
     id: input.id ?? "event-id",
     timestamp: input.timestamp ?? "2026-03-01T00:00:00.000Z",
     sessionId: input.sessionId ?? "session-1",
     harness: input.harness ?? "pi",
     scope: input.scope ?? "personal",
-    type: input.type,
+    type: "tool_result",
     payload: input.payload,
     metrics: input.metrics,
     agentId: input.agentId,
@@ -72,6 +71,31 @@ describe("feasibility scenario pack", () => {
     expect(templates[0]?.captureEvents.length).toBe(2);
   });
 
+  it("reads raw output ahead of the summary text", () => {
+    const templates = extractWrongTurnScenarioTemplatesFromEvents([
+      event({
+        id: "f-output",
+        timestamp: "2026-03-01T00:00:01.000Z",
+        payload: {
+          command: "npm run test",
+          text: "Command failed",
+          output: "Error: Cannot find module y",
+          isError: true,
+        },
+        metrics: { outcome: "failure" },
+      }),
+      event({
+        id: "s-output",
+        timestamp: "2026-03-01T00:00:03.000Z",
+        payload: { command: "npm install y", text: "ok", isError: false },
+        metrics: { outcome: "success" },
+      }),
+    ]);
+
+    expect(templates[0]?.query.text).toContain("Cannot find module y");
+    expect(templates[0]?.query.text).not.toContain("Command failed");
+  });
+
   it("skips same-command failure/success pairs by default", () => {
     const events: TraceEvent[] = [
       event({
@@ -0,0 +1,168 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { HashedVectorIndex } from "../src/backends/local/hashedVectorIndex.js";
+import { createLocalLearningLoop } from "../src/backends/local/index.js";
+import type { IndexedDocument } from "../src/core/types.js";
+
+const tempDirs: string[] = [];
+
+afterEach(async () => {
+  while (tempDirs.length > 0) {
+    const path = tempDirs.pop();
+    if (!path) {
+      continue;
+    }
+    await rm(path, { recursive: true, force: true });
+  }
+});
+
+const documents: IndexedDocument[] = [
+  {
+    id: "module",
+    sourceEventId: "evt-module",
+    text: "ModuleNotFoundError: No module named 'requests'",
+    metadata: { isError: true, sessionId: "s1" },
+  },
+  {
+    id: "permission",
+    sourceEventId: "evt-permission",
+    text: "permission denied while writing /var/cache/app",
+    metadata: { isError: true, sessionId: "s2" },
+  },
+  {
+    id: "tests",
+    sourceEventId: "evt-tests",
+    text: "42 tests passed in 3.1s",
+    metadata: { isError: false, sessionId: "s2" },
+  },
+];
+
+function syntheticDocuments(count: number): IndexedDocument[] {
+  const words = ["alpha", "bravo", "charlie", "delta", "echo", "foxtrot", "golf"];
+  return Array.from({ length: count }, (_, index) => ({
+    id: `doc-${index}`,
+    sourceEventId: `evt-${index}`,
+    text: `${words[index % words.length]} ${words[(index * 3) % words.length]} item${index}`,
+  }));
+}
+
+describe("HashedVectorIndex", () => {
+  it("matches misspelled and reworded queries through character n-grams", async () => {
+    const index = new HashedVectorIndex();
+    await index.upsertMany(documents);
+
+    const moduleHits = await index.search({
+      text: "modul not found requets",
+      limit: 3,
+    });
+    expect(moduleHits[0]?.document.id).toBe("module");
+
+    const permissionHits = await index.search({ text: "permision denid", limit: 3 });
+    expect(permissionHits[0]?.document.id).toBe("permission");
+    expect(permissionHits[0]?.score).toBeGreaterThan(permissionHits[1]?.score ?? 0);
+  });
+
+  it("explains per-term contributions that add up to the score", async () => {
+    const index = new HashedVectorIndex();
+    await index.upsertMany(documents);
+
+    const [hit] = await index.search({
+      text: "permision denied",
+      limit: 1,
+      explain: true,
+    });
+    expect(hit?.document.id).toBe("permission");
+    expect(hit?.explanation?.source).toBe("hashed-vector");
+
+    const terms = hit?.explanation?.terms ?? [];
+    expect(terms.find((term) => term.term === "denied")?.termFrequency).toBe(1);
+    expect(terms.find((term) => term.term === "permision")?.termFrequency).toBe(0);
+
+    let total = 0;
+    for (const term of terms) {
+      total += term.contribution;
+    }
+    expect(total).toBeCloseTo(hit?.score ?? 0, 6);
+  });
+
+  it("is deterministic across instances and agrees with exact search", async () => {
+    const corpus = syntheticDocuments(300);
+    const exact = new HashedVectorIndex();
+    const approximate = new HashedVectorIndex({ exactSearchThreshold: 0 });
+    const again = new HashedVectorIndex({ exactSearchThreshold: 0 });
+    for (const index of [exact, approximate, again]) {
+      await index.upsertMany(corpus);
+    }
+
+    const query = { text: "charlie delta item10", limit: 5 };
+    const approximateHits = await approximate.search(query);
+    expect(approximateHits).toEqual(await again.search(query));
+    expect(approximateHits[0]?.document.id).toBe("doc-10");
+    expect(approximateHits[0]).toEqual((await exact.search(query))[0]);
+  });
+
+  it("filters, removes, reports stats and clears", async () => {
+    const index = new HashedVectorIndex({ dimensions: 128 });
+    await index.upsertMany(documents);
+
+    const errorsOnly = await index.search({
+      text: "tests passed permission denied",
+      filters: { isError: true },
+    });
+    expect(errorsOnly.map((hit) => hit.document.id)).toEqual(["permission"]);
+
+    expect(await index.remove(["evt-module"])).toBe(1);
+    expect(await index.removeWhere({ sessionId: "s2", isError: false })).toBe(1);
+    const stats = await index.stats();
+    expect(stats.documentCount).toBe(1);
+    expect(stats.sourceEventCount).toBe(1);
+    expect(stats.termCount).toBeGreaterThan(0);
+    expect(stats.termCount).toBeLessThanOrEqual(128);
+
+    await index.clear();
+    expect(await index.stats()).toEqual({
+      documentCount: 0,
+      sourceEventCount: 0,
+      termCount: 0,
+    });
+    expect(await index.search({ text: "permission denied" })).toEqual([]);
+  });
+
+  it("rejects invalid dimensions", () => {
+    expect(() => new HashedVectorIndex({ dimensions: 0 })).toThrow(/dimensions/);
+  });
+
+  it("fuses with the lexical index in the local loop", async () => {
+    const dataDir = await mkdtemp(join(tmpdir(), "happy-paths-semantic-"));
+    tempDirs.push(dataDir);
+
+    const loop = createLocalLearningLoop({ dataDir, semanticIndex: true });
+    await loop.ingest({
+      id: "evt-1",
+      timestamp: "2026-03-01T00:00:00.000Z",
+      sessionId: "session-1",
+      harness: "pi",
+      scope: "personal",
+      type: "tool_result",
+      payload: {
+        command: "touch /var/cache/app",
+        output: "permission denied",
+        isError: true,
+      },
+    });
+
+    const hits = await loop.retrieve({ text: "permision denid", limit: 5 });
+    expect(hits.map((hit) => hit.document.sourceEventId)).toContain("evt-1");
+  });
+
+  it("rejects persistent index options it cannot restore", () => {
+    expect(() =>
+      createLocalLearningLoop({ semanticIndex: true, index: "sqlite" }),
+    ).toThrow(/cannot be combined/);
+    expect(() =>
+      createLocalLearningLoop({ semanticIndex: true, indexSnapshot: true }),
+    ).toThrow(/cannot be combined/);
+  });
+});
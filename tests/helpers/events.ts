@@ -0,0 +1,82 @@
+import type {
+  CheckpointPayload,
+  FileEditPayload,
+  ToolCallPayload,
+  ToolResultPayload,
+  TraceEventBase,
+  TraceEventOfType,
+  UserInputPayload,
+} from "../../src/core/types.js";
+
+export interface EventOptions<TPayload> extends Partial<TraceEventBase> {
+  /** Seconds after 2026-03-01T00:00:00Z, used when `timestamp` is not given. */
+  second?: number;
+  payload?: TPayload;
+}
+
+export interface ToolResultOptions extends EventOptions<ToolResultPayload> {
+  command?: string;
+  output?: string;
+  isError?: boolean;
+}
+
+function eventBase({
+  second = 0,
+  ...overrides
+}: Omit<EventOptions<never>, "payload">): TraceEventBase {
+  return {
+    id: "evt-1",
+    timestamp: new Date(Date.UTC(2026, 2, 1, 0, 0, second)).toISOString(),
+    sessionId: "session-1",
+    harness: "pi",
+    scope: "personal",
+    ...overrides,
+  };
+}
+
+export function toolResult({
+  command,
+  output,
+  isError,
+  payload,
+  ...options
+}: ToolResultOptions = {}): TraceEventOfType<"tool_result"> {
+  return {
+    ...eventBase(options),
+    type: "tool_result",
+    payload: {
+      ...(command === undefined ? {} : { command }),
+      ...(output === undefined ? {} : { output }),
+      ...(isError === undefined ? {} : { isError }),
+      ...payload,
+    },
+  };
+}
+
+export function toolCall({
+  payload = {},
+  ...options
+}: EventOptions<ToolCallPayload> = {}): TraceEventOfType<"tool_call"> {
+  return { ...eventBase(options), type: "tool_call", payload };
+}
+
+export function fileEdit({
+  payload = {},
+  ...options
+}: EventOptions<FileEditPayload> = {}): TraceEventOfType<"file_edit"> {
+  return { ...eventBase(options), type: "file_edit", payload };
+}
+
+export function userInput({
+  payload = {},
+  ...options
+}: EventOptions<UserInputPayload> = {}): TraceEventOfType<"user_input"> {
+  return { ...eventBase(options), type: "user_input", payload };
+}
+
+export function checkpoint({
+  payload = {},
+  ...options
+}: EventOptions<CheckpointPayload> = {}): TraceEventOfType<"checkpoint"> {
+  return { ...eventBase(options), type: "checkpoint", payload };
+}
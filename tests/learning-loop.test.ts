@@ -4,10 +4,18 @@ import { join } from "node:path";
 import { afterEach, describe, expect, it } from "vitest";
 import { FileTraceStore } from "../src/backends/local/fileTraceStore.js";
 import { InMemoryLexicalIndex } from "../src/backends/local/lexicalIndex.js";
+import { BacktrackMiner } from "../src/core/backtrackMiner.js";
 import type { TraceIndex } from "../src/core/interfaces.js";
 import { LearningLoop } from "../src/core/learningLoop.js";
 import { SimpleWrongTurnMiner } from "../src/core/miner.js";
-import type { IndexedDocument, SearchQuery, SearchResult } from "../src/core/types.js";
+import { AntiPatternMiner } from "../src/core/outcomeMiners.js";
+import type {
+  IndexedDocument,
+  SearchFilters,
+  SearchQuery,
+  SearchResult,
+  TraceIndexStats,
+} from "../src/core/types.js";
 
 const tempDirs: string[] = [];
 
@@ -25,6 +33,22 @@ class StaticResultIndex implements TraceIndex {
   async search(query: SearchQuery): Promise<SearchResult[]> {
     return this.results.slice(0, query.limit ?? this.results.length);
   }
+
+  async remove(_sourceEventIds: string[]): Promise<number> {
+    return 0;
+  }
+
+  async removeWhere(_filters: SearchFilters): Promise<number> {
+    return 0;
+  }
+
+  async stats(): Promise<TraceIndexStats> {
+    return { documentCount: this.results.length, sourceEventCount: 0, termCount: 0 };
+  }
+
+  async clear(): Promise<void> {
+    return;
+  }
 }
 
 afterEach(async () => {
@@ -133,6 +157,54 @@ describe("LearningLoop", () => {
     expect(retrieval).toHaveLength(2);
   });
 
+  it("explains reranker deltas and carries explanations into suggestions", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "happy-paths-"));
+    tempDirs.push(dir);
+
+    const baseResults: [SearchResult, SearchResult] = [
+      {
+        document: {
+          id: "a",
+          sourceEventId: "event-a",
+          text: 'tool_result pi {"command":"npm run build"}',
+        },
+        score: 0.2,
+        explanation: { source: "lexical", score: 0.2, terms: [] },
+      },
+      {
+        document: {
+          id: "b",
+          sourceEventId: "event-b",
+          text: 'tool_result pi {"command":"npx tsc --noEmit"}',
+        },
+        score: 0.1,
+        explanation: { source: "lexical", score: 0.1, terms: [] },
+      },
+    ];
+
+    const loop = new LearningLoop({
+      store: new FileTraceStore(dir),
+      index: new StaticResultIndex(baseResults),
+      resultReranker: async () => [{ ...baseResults[1], score: 0.3 }],
+    });
+
+    const retrieval = await loop.retrieve({ text: "anything", explain: true });
+    expect(retrieval.map((hit) => hit.explanation?.rerank)).toEqual([
+      { initialRank: 2, finalRank: 1, initialScore: 0.1, scoreDelta: 0.3 - 0.1 },
+      { initialRank: 1, finalRank: 2, initialScore: 0.2, scoreDelta: 0 },
+    ]);
+
+    const plain = await loop.retrieve({ text: "anything" });
+    expect(plain[0]?.explanation?.rerank).toBeUndefined();
+
+    const suggestions = await loop.suggest({ text: "anything", explain: true });
+    expect(suggestions[0]?.evidenceEventIds).toEqual(["event-b"]);
+    expect(suggestions[0]?.explanation).toMatchObject({
+      source: "lexical",
+      rerank: { initialRank: 2, finalRank: 1 },
+    });
+  });
+
   it("deduplicates retrieval hints and filters low-confidence suggestions", async () => {
     const dir = await mkdtemp(join(tmpdir(), "happy-paths-"));
     tempDirs.push(dir);
@@ -607,6 +679,97 @@ describe("LearningLoop", () => {
     ).toBe(true);
   });
 
+  it("renders mined anti-patterns as warnings", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "happy-paths-"));
+    tempDirs.push(dir);
+
+    const loop = new LearningLoop({
+      store: new FileTraceStore(dir),
+      index: new StaticResultIndex([]),
+      miner: new AntiPatternMiner(),
+    });
+
+    for (const sessionId of ["session-anti-a", "session-anti-b"]) {
+      await loop.ingest({
+        id: `${sessionId}-failure`,
+        timestamp: new Date().toISOString(),
+        sessionId,
+        harness: "pi",
+        scope: "public",
+        type: "tool_result",
+        payload: {
+          command: "npm run e2e",
+          isError: true,
+          text: "Error: browser not installed",
+        },
+        metrics: {
+          outcome: "failure",
+        },
+      });
+    }
+
+    const suggestions = await loop.suggest({ text: "run the e2e suite" });
+
+    expect(suggestions[0]?.title).toBe("Anti-pattern warning");
+    expect(suggestions[0]?.playbookMarkdown).toContain("- Warning: Avoid `npm e2e`");
+    expect(
+      suggestions.some(
+        (suggestion) => suggestion.id === "retrieval-verify-first-fallback",
+      ),
+    ).toBe(false);
+  });
+
+  it("points backtrack warnings at the approach that worked", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "happy-paths-"));
+    tempDirs.push(dir);
+
+    const loop = new LearningLoop({
+      store: new FileTraceStore(dir),
+      index: new StaticResultIndex([]),
+      miner: new BacktrackMiner(),
+    });
+
+    for (const sessionId of ["session-back-a", "session-back-b"]) {
+      const base = {
+        timestamp: new Date().toISOString(),
+        sessionId,
+        harness: "pi",
+        scope: "public",
+      } as const;
+      await loop.ingest({
+        ...base,
+        id: `${sessionId}-edit`,
+        type: "file_edit",
+        payload: { path: "src/cache.ts", beforeHash: "h1", afterHash: "h2" },
+      });
+      await loop.ingest({
+        ...base,
+        id: `${sessionId}-revert`,
+        type: "tool_result",
+        payload: { command: "git checkout -- src/cache.ts", isError: false },
+      });
+      await loop.ingest({
+        ...base,
+        id: `${sessionId}-fix`,
+        type: "file_edit",
+        payload: { path: "src/store.ts", beforeHash: "h3", afterHash: "h4" },
+      });
+      await loop.ingest({
+        ...base,
+        id: `${sessionId}-success`,
+        type: "tool_result",
+        payload: { command: "npm test", isError: false },
+      });
+    }
+
+    const suggestions = await loop.suggest({ text: "fix the cache" });
+
+    expect(suggestions[0]?.title).toBe("Anti-pattern warning");
+    expect(suggestions[0]?.playbookMarkdown).toContain(
+      "- Action: Do not retry the abandoned edits; edit src/store.ts, then run `npm test`.",
+    );
+  });
+
   it("falls back to verify-first guidance when artifact support is weak", async () => {
     const dir = await mkdtemp(join(tmpdir(), "happy-paths-"));
     tempDirs.push(dir);
@@ -657,4 +820,104 @@ describe("LearningLoop", () => {
     expect(suggestions[0]?.title).toBe("Verify-first fallback");
     expect(suggestions[0]?.playbookMarkdown).toContain("focused verification");
   });
+
+  it("rebuilds the index from the store after a document builder change", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "happy-paths-"));
+    tempDirs.push(dir);
+
+    const store = new FileTraceStore(dir);
+    const index = new InMemoryLexicalIndex();
+    const original = new LearningLoop({ store, index });
+    for (const id of ["evt-1", "evt-2"]) {
+      await original.ingest({
+        id,
+        timestamp: new Date().toISOString(),
+        sessionId: "session-rebuild",
+        harness: "pi",
+        scope: "personal",
+        type: "tool_result",
+        payload: { command: `npm run ${id}`, output: "ok", isError: false },
+      });
+    }
+    expect((await index.stats()).sourceEventCount).toBe(2);
+
+    const rebuilt = new LearningLoop({
+      store,
+      index,
+      documentBuilder: {
+        build: (event) => [
+          { id: event.id, sourceEventId: event.id, text: `rebuilt ${event.id}` },
+        ],
+      },
+    });
+    expect(await rebuilt.rebuildIndex()).toEqual({ eventCount: 2, documentCount: 2 });
+
+    expect(await index.stats()).toEqual({
+      documentCount: 2,
+      sourceEventCount: 2,
+      termCount: 4,
+    });
+    expect(await rebuilt.retrieve({ text: "npm run" })).toEqual([]);
+    expect(await rebuilt.retrieve({ text: "rebuilt" })).toHaveLength(2);
+  });
+
+  it("refuses to rebuild an index that cannot be cleared", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "happy-paths-"));
+    tempDirs.push(dir);
+
+    const loop = new LearningLoop({
+      store: new FileTraceStore(dir),
+      index: {
+        upsert: async () => {},
+        upsertMany: async () => {},
+        search: async () => [],
+      },
+    });
+    await expect(loop.rebuildIndex()).rejects.toThrow(/implements clear\(\)/);
+    expect(await loop.forget({ sessionIds: ["missing"] })).toEqual({
+      eventIds: [],
+      sessionIds: [],
+      unsupported: ["index"],
+    });
+  });
+
+  it("reports components that cannot forget", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "happy-paths-"));
+    tempDirs.push(dir);
+
+    const store = new FileTraceStore(dir);
+    const index = new InMemoryLexicalIndex();
+    const miner = { ingest: async () => {}, mine: async () => [] };
+    const loop = new LearningLoop({ store, index, miner });
+    await loop.ingest({
+      id: "evt-1",
+      timestamp: new Date().toISOString(),
+      sessionId: "session-forget",
+      harness: "pi",
+      scope: "personal",
+      type: "tool_result",
+      payload: { command: "npm test", output: "ok", isError: false },
+    });
+
+    expect(await loop.forget({ sessionIds: ["session-forget"] })).toEqual({
+      eventIds: ["evt-1"],
+      sessionIds: ["session-forget"],
+      unsupported: ["miner"],
+    });
+    expect((await index.stats()).sourceEventCount).toBe(0);
+
+    const readOnly = new LearningLoop({
+      store: {
+        append: (event) => store.append(event),
+        appendMany: (events) => store.appendMany(events),
+        query: (query) => store.query(query),
+      },
+      index,
+    });
+    expect(await readOnly.forget({ sessionIds: ["session-forget"] })).toEqual({
+      eventIds: [],
+      sessionIds: [],
+      unsupported: ["store"],
+    });
+  });
 });
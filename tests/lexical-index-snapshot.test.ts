@@ -0,0 +1,168 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { createLocalLearningLoop } from "../src/backends/local/index.js";
+import { InMemoryLexicalIndex } from "../src/backends/local/lexicalIndex.js";
+import {
+  DEFAULT_LEXICAL_INDEX_SNAPSHOT_FILE,
+  LexicalIndexSnapshotter,
+} from "../src/backends/local/lexicalIndexSnapshot.js";
+import { CodeAwareTokenizer } from "../src/core/tokenizer.js";
+import { toolResult } from "./helpers/events.js";
+
+const tempDirs: string[] = [];
+
+afterEach(async () => {
+  while (tempDirs.length > 0) {
+    const path = tempDirs.pop();
+    if (!path) {
+      continue;
+    }
+    await rm(path, { recursive: true, force: true });
+  }
+});
+
+async function tempDir(): Promise<string> {
+  const dir = await mkdtemp(join(tmpdir(), "happy-paths-snapshot-"));
+  tempDirs.push(dir);
+  return dir;
+}
+
+describe("LexicalIndexSnapshotter", () => {
+  it("round-trips documents, postings and lengths", async () => {
+    const dir = await tempDir();
+    const original = new InMemoryLexicalIndex();
+    await original.upsertMany([
+      { id: "1", sourceEventId: "e1", text: "traceback file not found src/foo.py" },
+      { id: "2", sourceEventId: "e2", text: "lint warning in src/bar.ts" },
+      { id: "3", sourceEventId: "e3", text: "file not found again and again" },
+    ]);
+
+    const path = join(dir, "snapshot.json");
+    const watermark = { timestamp: "2026-03-01T00:00:01.000Z", eventIds: ["e3"] };
+    await new LexicalIndexSnapshotter(original, path).save(watermark);
+
+    const restored = new InMemoryLexicalIndex();
+    expect(await new LexicalIndexSnapshotter(restored, path).load()).toEqual(watermark);
+
+    const query = { text: "file not found", limit: 5 };
+    expect(await restored.search(query)).toEqual(await original.search(query));
+  });
+
+  it("refuses snapshots built with a different tokenizer", async () => {
+    const dir = await tempDir();
+    const path = join(dir, "snapshot.json");
+    const original = new InMemoryLexicalIndex();
+    await original.upsert({ id: "1", sourceEventId: "e1", text: "the miner failed" });
+    await new LexicalIndexSnapshotter(original, path).save({
+      timestamp: "2026-03-01T00:00:01.000Z",
+      eventIds: ["e1"],
+    });
+
+    const errors: Error[] = [];
+    const restored = new InMemoryLexicalIndex({
+      tokenizer: new CodeAwareTokenizer({ stopwords: ["the"] }),
+    });
+    const snapshotter = new LexicalIndexSnapshotter(restored, path, {
+      onLoadError: (error) => errors.push(error),
+    });
+    expect(await snapshotter.load()).toBeNull();
+    expect(errors[0]?.message).toMatch(/tokenizer/);
+    expect((await restored.stats()).documentCount).toBe(0);
+  });
+
+  it("restores on startup and only indexes events after the watermark", async () => {
+    const dataDir = await tempDir();
+    const first = createLocalLearningLoop({ dataDir, indexSnapshot: true });
+    await first.ingest(
+      toolResult({
+        id: "old",
+        second: 1,
+        command: "run old",
+        output: "Cannot find module alpha",
+        isError: false,
+      }),
+    );
+    const initial = await createLocalLearningLoop({
+      dataDir,
+      indexSnapshot: true,
+    }).bootstrapFromStore();
+    expect(initial.restoredFromSnapshot).toBe(false);
+    expect(initial.documentCount).toBeGreaterThan(0);
+
+    await first.ingest(
+      toolResult({
+        id: "new",
+        second: 2,
+        command: "run new",
+        output: "Cannot find module beta",
+        isError: false,
+      }),
+    );
+
+    const restarted = createLocalLearningLoop({ dataDir, indexSnapshot: true });
+    const bootstrap = await restarted.bootstrapFromStore();
+    expect(bootstrap.restoredFromSnapshot).toBe(true);
+    expect(bootstrap.eventCount).toBe(2);
+
+    const hits = await restarted.retrieve({ text: "cannot find module", limit: 10 });
+    expect(new Set(hits.map((hit) => hit.document.sourceEventId))).toEqual(
+      new Set(["old", "new"]),
+    );
+
+    const again = createLocalLearningLoop({ dataDir, indexSnapshot: true });
+    const unchanged = await again.bootstrapFromStore();
+    expect(unchanged.restoredFromSnapshot).toBe(true);
+    expect(unchanged.documentCount).toBe(0);
+  });
+
+  it("rebuilds from the store when the snapshot is unreadable or forgotten", async () => {
+    const dataDir = await tempDir();
+    const snapshotPath = join(dataDir, DEFAULT_LEXICAL_INDEX_SNAPSHOT_FILE);
+    const writer = createLocalLearningLoop({ dataDir, indexSnapshot: true });
+    await writer.ingest(
+      toolResult({
+        id: "forgotten",
+        second: 1,
+        command: "run forgotten",
+        output: "Cannot find module alpha",
+        isError: false,
+      }),
+    );
+    await writer.ingest(
+      toolResult({
+        id: "kept",
+        second: 2,
+        command: "run kept",
+        output: "Cannot find module beta",
+        isError: false,
+      }),
+    );
+    await writer.bootstrapFromStore();
+
+    await writer.forget({ before: "2026-03-01T00:00:02.000Z" });
+    const afterForget = createLocalLearningLoop({ dataDir, indexSnapshot: true });
+    await afterForget.bootstrapFromStore();
+    const hits = await afterForget.retrieve({ text: "cannot find module", limit: 10 });
+    expect(new Set(hits.map((hit) => hit.document.sourceEventId))).toEqual(
+      new Set(["kept"]),
+    );
+
+    await writeFile(snapshotPath, "{not json", "utf-8");
+    const errors: Error[] = [];
+    const index = new InMemoryLexicalIndex();
+    const snapshotter = new LexicalIndexSnapshotter(index, snapshotPath, {
+      onLoadError: (error) => errors.push(error),
+    });
+    expect(await snapshotter.load()).toBeNull();
+    expect(errors).toHaveLength(1);
+
+    const rebuilt = await createLocalLearningLoop({
+      dataDir,
+      indexSnapshot: true,
+    }).bootstrapFromStore();
+    expect(rebuilt.restoredFromSnapshot).toBe(false);
+    expect(rebuilt.eventCount).toBe(1);
+  });
+});
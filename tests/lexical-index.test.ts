@@ -1,9 +1,67 @@
-import { describe, expect, it } from "vitest";
-import { InMemoryLexicalIndex } from "../src/backends/local/lexicalIndex.js";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  InMemoryLexicalIndex,
+  type InMemoryLexicalIndexOptions,
+} from "../src/backends/local/lexicalIndex.js";
+import { SqliteTraceIndex } from "../src/backends/sqlite/sqliteTraceIndex.js";
+import { CompositeTraceIndex } from "../src/core/compositeIndex.js";
+import { indexedDocumentKind } from "../src/core/documentBuilder.js";
+import { CodeAwareTokenizer } from "../src/core/tokenizer.js";
+import type { IndexedDocument, SearchFilters, SearchQuery } from "../src/core/types.js";
+
+const sqliteAvailable = await import("node:sqlite").then(
+  () => true,
+  () => false,
+);
+
+const cleanups: (() => Promise<void>)[] = [];
+
+afterEach(async () => {
+  while (cleanups.length > 0) {
+    await cleanups.pop()?.();
+  }
+});
+
+async function sqliteIndexPath(): Promise<string> {
+  const dir = await mkdtemp(join(tmpdir(), "happy-paths-fts-"));
+  cleanups.push(() => rm(dir, { recursive: true, force: true }));
+  return join(dir, "index.sqlite");
+}
+
+function openSqliteIndex(path: string): SqliteTraceIndex {
+  const index = new SqliteTraceIndex(path);
+  cleanups.push(() => index.close());
+  return index;
+}
+
+async function createSqliteIndex(): Promise<SqliteTraceIndex> {
+  return openSqliteIndex(await sqliteIndexPath());
+}
+
+const backends: {
+  name: string;
+  available: boolean;
+  create: () => Promise<InMemoryLexicalIndex | SqliteTraceIndex>;
+}[] = [
+  {
+    name: "InMemoryLexicalIndex",
+    available: true,
+    create: async () => new InMemoryLexicalIndex(),
+  },
+  { name: "SqliteTraceIndex", available: sqliteAvailable, create: createSqliteIndex },
+];
+
+describe.each(backends)("$name", ({ available, create }) => {
+  if (!available) {
+    it.skip("requires node:sqlite", () => {});
+    return;
+  }
 
-describe("InMemoryLexicalIndex", () => {
   it("ranks exact-ish lexical hits first", async () => {
-    const index = new InMemoryLexicalIndex();
+    const index = await create();
 
     await index.upsertMany([
       {
@@ -28,7 +86,7 @@ describe("InMemoryLexicalIndex", () => {
   });
 
   it("prefers fuller lexical matches over single-term repetition", async () => {
-    const index = new InMemoryLexicalIndex();
+    const index = await create();
 
     await index.upsertMany([
       {
@@ -52,8 +110,61 @@ describe("InMemoryLexicalIndex", () => {
     expect(first?.document.id).toBe("full-match");
   });
 
+  it("explains matched terms and filters only when asked", async () => {
+    const index = await create();
+
+    await index.upsertMany([
+      {
+        id: "match",
+        sourceEventId: "evt-match",
+        text: "traceback fix applied after traceback",
+        metadata: { scope: "team" },
+      },
+      {
+        id: "other",
+        sourceEventId: "evt-other",
+        text: "lint warning fixed",
+        metadata: { scope: "team" },
+      },
+      {
+        id: "third",
+        sourceEventId: "evt-third",
+        text: "build passed",
+        metadata: { scope: "team" },
+      },
+    ]);
+
+    const plain = await index.search({ text: "traceback fix", limit: 2 });
+    expect(plain[0]?.explanation).toBeUndefined();
+
+    const filters: SearchFilters = { scope: "team" };
+    const [hit] = await index.search({
+      text: "traceback fix",
+      limit: 2,
+      filters,
+      explain: true,
+    });
+    const explanation = hit?.explanation;
+    expect(hit?.document.id).toBe("match");
+    expect(explanation?.filters).toEqual(filters);
+    expect(explanation?.terms.map((term) => term.term).sort()).toEqual([
+      "fix",
+      "traceback",
+    ]);
+    expect(
+      explanation?.terms.find((term) => term.term === "traceback")?.termFrequency,
+    ).toBe(2);
+
+    let total = 0;
+    for (const term of explanation?.terms ?? []) {
+      expect(term.idf).toBeGreaterThan(0);
+      total += term.contribution;
+    }
+    expect(total).toBeCloseTo(hit?.score ?? 0, 4);
+  });
+
   it("applies metadata filters", async () => {
-    const index = new InMemoryLexicalIndex();
+    const index = await create();
 
     await index.upsertMany([
       {
@@ -79,4 +190,313 @@ describe("InMemoryLexicalIndex", () => {
     const first = hits.at(0);
     expect(first?.document.id).toBe("b");
   });
+
+  it("matches code identifiers and paths by their parts", async () => {
+    const index = await create();
+
+    await index.upsertMany([
+      {
+        id: "path",
+        sourceEventId: "evt-path",
+        text: "Traceback at src/core/miner.ts:42 in mineArtifacts",
+      },
+      { id: "camel", sourceEventId: "evt-camel", text: "Error: CannotFindModule" },
+      { id: "other", sourceEventId: "evt-other", text: "lint passed" },
+    ]);
+
+    const ids = async (text: string) =>
+      (await index.search({ text, limit: 5 })).map((hit) => hit.document.id);
+    expect(await ids("miner")).toEqual(["path"]);
+    expect(await ids("src/core/miner.ts")).toEqual(["path"]);
+    expect(await ids("mine artifacts")).toEqual(["path"]);
+    expect(await ids("cannot find module")).toEqual(["camel"]);
+  });
+
+  it("evaluates the filter grammar for search and removeWhere", async () => {
+    const index = await create();
+
+    await index.upsertMany([
+      {
+        id: "same-ok",
+        sourceEventId: "evt-1",
+        text: "pytest passed",
+        metadata: {
+          eventType: "tool_result",
+          instanceId: "django-1",
+          isError: false,
+          exitCode: 0,
+          timestamp: "2026-03-01T00:00:01.000Z",
+        },
+      },
+      {
+        id: "same-error",
+        sourceEventId: "evt-2",
+        text: "pytest failed",
+        metadata: {
+          eventType: "tool_result",
+          instanceId: "django-1",
+          isError: true,
+          exitCode: 2,
+          timestamp: "2026-03-01T00:00:02.000Z",
+        },
+      },
+      {
+        id: "global-ok",
+        sourceEventId: "evt-3",
+        text: "pytest passed",
+        metadata: {
+          eventType: "tool_result",
+          isError: false,
+          exitCode: 0,
+          timestamp: "2026-03-01T00:00:03.000Z",
+        },
+      },
+      {
+        id: "other-ok",
+        sourceEventId: "evt-4",
+        text: "pytest passed",
+        metadata: {
+          eventType: "tool_result",
+          instanceId: "flask-2",
+          isError: false,
+          exitCode: 1.5,
+          timestamp: "2026-03-01T00:00:04.000Z",
+        },
+      },
+      {
+        id: "call",
+        sourceEventId: "evt-5",
+        text: "pytest",
+        metadata: { eventType: "tool_call", instanceId: null },
+      },
+    ]);
+
+    const ids = async (filters: SearchFilters) =>
+      (await index.search({ text: "pytest", limit: 10, filters }))
+        .map((hit) => hit.document.id)
+        .sort();
+
+    expect(
+      await ids({
+        eventType: "tool_result",
+        isError: { $ne: true },
+        $or: [{ instanceId: "django-1" }, { instanceId: { $exists: false } }],
+      }),
+    ).toEqual(["global-ok", "same-ok"]);
+    expect(await ids({ instanceId: { $in: ["flask-2", "django-1"] } })).toEqual([
+      "other-ok",
+      "same-error",
+      "same-ok",
+    ]);
+    expect(await ids({ instanceId: { $nin: ["django-1"] } })).toEqual([
+      "call",
+      "global-ok",
+      "other-ok",
+    ]);
+    expect(await ids({ exitCode: { $gt: 0, $lte: 1.5 } })).toEqual(["other-ok"]);
+    expect(
+      await ids({
+        timestamp: { $gte: "2026-03-01T00:00:02Z", $lt: "2026-03-01T00:00:04.000Z" },
+      }),
+    ).toEqual(["global-ok", "same-error"]);
+
+    expect(await index.removeWhere({ exitCode: { $gte: 1 } })).toBe(2);
+    expect(await ids({})).toEqual(["call", "global-ok", "same-ok"]);
+  });
+
+  it("replaces documents on upsert and removes them by source event", async () => {
+    const index = await create();
+
+    await index.upsertMany([
+      { id: "a", sourceEventId: "evt-a", text: "npm test failed" },
+      { id: "a:cmd", sourceEventId: "evt-a", text: "npm test" },
+      { id: "b", sourceEventId: "evt-b", text: "cargo build failed" },
+    ]);
+    await index.upsert({ id: "b", sourceEventId: "evt-b", text: "cargo build passed" });
+
+    expect(await index.search({ text: "failed" })).toHaveLength(1);
+    expect(await index.remove(["evt-a", "evt-missing"])).toBe(2);
+    expect(await index.search({ text: "npm test" })).toEqual([]);
+
+    const remaining = await index.search({ text: "cargo passed" });
+    expect(remaining.map((hit) => hit.document.id)).toEqual(["b"]);
+  });
+
+  it("removes by metadata, reports stats and clears", async () => {
+    const index = await create();
+
+    await index.upsertMany([
+      {
+        id: "a",
+        sourceEventId: "evt-a",
+        text: "npm test failed",
+        metadata: { sessionId: "s1", isError: true },
+      },
+      {
+        id: "a:cmd",
+        sourceEventId: "evt-a",
+        text: "npm test",
+        metadata: { sessionId: "s1", isError: false },
+      },
+      {
+        id: "b",
+        sourceEventId: "evt-b",
+        text: "cargo build failed",
+        metadata: { sessionId: "s2", isError: true },
+      },
+    ]);
+    expect(await index.stats()).toEqual({
+      documentCount: 3,
+      sourceEventCount: 2,
+      termCount: 5,
+    });
+
+    await expect(index.removeWhere({})).rejects.toThrow(/clear\(\)/);
+    expect(await index.removeWhere({ sessionId: "s1", isError: true })).toBe(1);
+    expect((await index.search({ text: "npm" })).map((hit) => hit.document.id)).toEqual(
+      ["a:cmd"],
+    );
+    expect(await index.removeWhere({ sessionId: "s1" })).toBe(1);
+    expect(await index.stats()).toEqual({
+      documentCount: 1,
+      sourceEventCount: 1,
+      termCount: 3,
+    });
+
+    await index.clear();
+    expect(await index.stats()).toEqual({
+      documentCount: 0,
+      sourceEventCount: 0,
+      termCount: 0,
+    });
+    expect(await index.search({ text: "cargo build failed" })).toEqual([]);
+  });
+});
+
+describe("InMemoryLexicalIndex field weights", () => {
+  const documents: IndexedDocument[] = [
+    {
+      id: "evt-1:base",
+      sourceEventId: "evt-1",
+      text: "tool_result npm run test Error: Cannot find module 'zod' imported from src/api/schema.ts after 12 suites",
+    },
+    {
+      id: "evt-1:err:0",
+      sourceEventId: "evt-1",
+      text: "error: cannot find module 'zod' imported from src/api/schema.ts",
+      metadata: { isErrorSignature: true },
+    },
+    {
+      id: "evt-1:path:0",
+      sourceEventId: "evt-1",
+      text: "src/api/schema.ts",
+      metadata: { isPath: true },
+    },
+  ];
+
+  async function topKind(
+    options: InMemoryLexicalIndexOptions,
+    query: SearchQuery,
+  ): Promise<string | undefined> {
+    const index = new InMemoryLexicalIndex(options);
+    await index.upsertMany(documents);
+    const [top] = await index.search(query);
+    return top ? indexedDocumentKind(top.document) : undefined;
+  }
+
+  it("weights document kinds and boosts error signatures for error queries", async () => {
+    const errorQuery = { text: "Error: Cannot find module 'zod'" };
+    expect(
+      await topKind({ fieldWeights: { base: 3, errorSignature: 0.5 } }, errorQuery),
+    ).toBe("base");
+    expect(
+      await topKind(
+        { fieldWeights: { base: 3, errorSignature: 0.5 }, errorQueryBoost: 10 },
+        errorQuery,
+      ),
+    ).toBe("errorSignature");
+    expect(
+      await topKind(
+        { fieldWeights: { base: 3, errorSignature: 0.5 }, errorQueryBoost: 10 },
+        { ...errorQuery, boostErrorSignatures: false },
+      ),
+    ).toBe("base");
+    expect(
+      await topKind({ fieldWeights: { path: 5 } }, { text: "src/api/schema.ts" }),
+    ).toBe("path");
+  });
+
+  it("rejects non-positive weights", () => {
+    expect(() => new InMemoryLexicalIndex({ fieldWeights: { path: 0 } })).toThrow(
+      /fieldWeights.path/,
+    );
+  });
+});
+
+describe.skipIf(!sqliteAvailable)("SqliteTraceIndex", () => {
+  it("works as the primary of a CompositeTraceIndex", async () => {
+    const primary = await createSqliteIndex();
+    const secondary = new InMemoryLexicalIndex();
+    const index = new CompositeTraceIndex({ primary, secondary });
+
+    await index.upsertMany([
+      { id: "1", sourceEventId: "evt-1", text: "module not found error in src/app.ts" },
+      { id: "2", sourceEventId: "evt-2", text: "tests passed" },
+    ]);
+
+    const hits = await index.search({ text: "module not found", limit: 5 });
+    expect(hits.map((hit) => hit.document.id)).toEqual(["1"]);
+  });
+
+  it("persists documents for other handles on the same file", async () => {
+    const path = await sqliteIndexPath();
+    const writer = openSqliteIndex(path);
+    await writer.upsert({
+      id: "1",
+      sourceEventId: "evt-1",
+      text: "permission denied writing /tmp/cache",
+      metadata: { isError: true },
+    });
+    await writer.watermarkSnapshotter().save({
+      timestamp: "2026-03-01T00:00:00.000Z",
+      eventIds: ["evt-1"],
+    });
+
+    const reader = openSqliteIndex(path);
+
+    const hits = await reader.search({
+      text: "permission denied",
+      filters: { isError: true },
+    });
+    expect(hits.map((hit) => hit.document.id)).toEqual(["1"]);
+    expect(
+      await reader.search({ text: "permission", filters: { isError: 1 } }),
+    ).toEqual([]);
+    expect(await reader.watermarkSnapshotter().load()).toEqual({
+      timestamp: "2026-03-01T00:00:00.000Z",
+      eventIds: ["evt-1"],
+    });
+  });
+
+  it("resets documents and the watermark when the tokenizer changes", async () => {
+    const path = await sqliteIndexPath();
+    const writer = openSqliteIndex(path);
+    await writer.upsert({ id: "1", sourceEventId: "evt-1", text: "the miner failed" });
+    await writer.watermarkSnapshotter().save({
+      timestamp: "2026-03-01T00:00:00.000Z",
+      eventIds: ["evt-1"],
+    });
+    await writer.close();
+
+    const same = openSqliteIndex(path);
+    expect((await same.stats()).documentCount).toBe(1);
+    await same.close();
+
+    const changed = new SqliteTraceIndex(path, {
+      tokenizer: new CodeAwareTokenizer({ stopwords: ["the"] }),
+    });
+    cleanups.push(() => changed.close());
+    expect((await changed.stats()).documentCount).toBe(0);
+    expect(await changed.watermarkSnapshotter().load()).toBeNull();
+  });
 });
@@ -0,0 +1,187 @@
+import { describe, expect, it } from "vitest";
+import {
+  NearDuplicateClusterer,
+  clusterNearDuplicates,
+  estimateJaccardSimilarity,
+  minHashSignature,
+} from "../src/core/minHash.js";
+import { SimpleWrongTurnMiner } from "../src/core/miner.js";
+import { jaccardSimilarity } from "../src/core/nearDup.js";
+import { fileEdit, toolResult } from "./helpers/events.js";
+
+const BASE_COMMAND =
+  "python manage.py test accounts.tests --settings=ci --parallel --noinput --keepdb";
+
+describe("minHashSignature", () => {
+  it("estimates token-set Jaccard similarity", () => {
+    const left = `${BASE_COMMAND} alpha bravo charlie delta echo foxtrot golf`;
+    const right = `${BASE_COMMAND} alpha bravo charlie delta hotel india juliet`;
+
+    const estimate = estimateJaccardSimilarity(
+      minHashSignature(left, { numHashes: 256 }),
+      minHashSignature(right, { numHashes: 256 }),
+    );
+    expect(Math.abs(estimate - jaccardSimilarity(left, right))).toBeLessThan(0.1);
+    expect(
+      estimateJaccardSimilarity(minHashSignature(left), minHashSignature(left)),
+    ).toBe(1);
+  });
+});
+
+describe("NearDuplicateClusterer", () => {
+  it("clusters near-identical texts with ids stable as clusters grow", () => {
+    const texts = [
+      BASE_COMMAND,
+      `${BASE_COMMAND} --verbosity`,
+      BASE_COMMAND.replace("--keepdb", "--keepdb  "),
+      "npm run lint -- --fix",
+      "cargo build --release --locked",
+    ];
+
+    const forward = clusterNearDuplicates(texts);
+    const backward = clusterNearDuplicates([...texts].reverse());
+
+    const cluster = forward.get(BASE_COMMAND);
+    expect(cluster?.members).toHaveLength(3);
+    expect(forward.get(`${BASE_COMMAND} --verbosity`)?.id).toBe(cluster?.id);
+    expect(forward.get("npm run lint -- --fix")?.id).not.toBe(cluster?.id);
+    expect(cluster?.id).toMatch(/^ndc-[0-9a-f]{8}$/);
+
+    expect(cluster?.representative).toBe(BASE_COMMAND);
+    for (const text of texts) {
+      expect(backward.get(text)?.members).toEqual(forward.get(text)?.members);
+    }
+
+    const grown = new NearDuplicateClusterer();
+    grown.addAll(texts);
+    const before = grown.clusterOf(BASE_COMMAND);
+    const smaller =
+      "python manage.py test accounts.tests --keepdb --settings=ci --parallel --noinput";
+    grown.add(smaller);
+    expect(grown.clusterOf(smaller)?.members[0]).toBe(smaller);
+    expect(grown.clusterOf(smaller)?.id).toBe(before?.id);
+    expect(grown.clusterOf(BASE_COMMAND)?.representative).toBe(BASE_COMMAND);
+  });
+
+  it("clusters a large corpus without pairwise comparison", () => {
+    const clusterer = new NearDuplicateClusterer();
+    const families = 200;
+    for (let variant = 0; variant < 20; variant += 1) {
+      for (let family = 0; family < families; family += 1) {
+        clusterer.add(
+          `family${family} error alpha${family} bravo${family} charlie${family} delta${family} echo${family} foxtrot${family} golf${family} hotel${family} india${family} juliet${family} kilo${family} lima${family} mike${family} variant${variant}`,
+        );
+      }
+    }
+
+    expect(clusterer.clusters()).toHaveLength(families);
+    expect(clusterer.clusterOf("unknown")).toBeUndefined();
+  });
+
+  it("drops removed texts and renames clusters that lose their representative", () => {
+    const clusterer = new NearDuplicateClusterer();
+    const verbose = `${BASE_COMMAND} --verbosity`;
+    clusterer.addAll([BASE_COMMAND, verbose, "npm run lint -- --fix"]);
+    const before = clusterer.clusterOf(verbose);
+
+    expect(clusterer.remove(BASE_COMMAND)).toEqual([verbose]);
+    expect(clusterer.clusterOf(BASE_COMMAND)).toBeUndefined();
+    expect(clusterer.clusterOf(verbose)).toMatchObject({
+      representative: verbose,
+      members: [verbose],
+    });
+    expect(clusterer.clusterOf(verbose)?.id).not.toBe(before?.id);
+    expect(clusterer.remove("npm run lint -- --fix")).toEqual([]);
+    expect(clusterer.clusters()).toHaveLength(1);
+  });
+
+  it("rejects band counts that do not divide the signature", () => {
+    expect(() => new NearDuplicateClusterer({ numHashes: 100, bands: 16 })).toThrow(
+      "must be a multiple of bands",
+    );
+  });
+});
+
+describe("SimpleWrongTurnMiner near-duplicate clustering", () => {
+  it("merges near-duplicate failure commands into one artifact", async () => {
+    const miner = new SimpleWrongTurnMiner();
+    const sessions: [string, string][] = [
+      ["session-a", BASE_COMMAND],
+      ["session-b", `${BASE_COMMAND} --verbosity`],
+    ];
+    for (const [sessionId, command] of sessions) {
+      await miner.ingest(
+        toolResult({
+          id: `${sessionId}-fail`,
+          sessionId,
+          command,
+          output: "FAILED",
+          isError: true,
+          metrics: { outcome: "failure" },
+        }),
+      );
+      await miner.ingest(
+        fileEdit({
+          id: `${sessionId}-edit`,
+          sessionId,
+          payload: { path: "accounts/models.py" },
+        }),
+      );
+      await miner.ingest(
+        toolResult({
+          id: `${sessionId}-ok`,
+          sessionId,
+          command: "python manage.py migrate",
+          output: "OK",
+          isError: false,
+          metrics: { outcome: "success" },
+        }),
+      );
+    }
+
+    const artifacts = await miner.mine();
+
+    expect(artifacts).toHaveLength(1);
+    expect(artifacts[0]?.metadata?.supportSessionCount).toBe(2);
+    expect(artifacts[0]?.metadata?.failureClusterId).toMatch(/^ndc-/);
+  });
+
+  it("re-labels merged artifacts when the representative arc is forgotten", async () => {
+    const miner = new SimpleWrongTurnMiner();
+    const survivor = new SimpleWrongTurnMiner();
+    const sessions: [string, string][] = [
+      ["session-a", BASE_COMMAND],
+      ["session-b", `${BASE_COMMAND} --verbosity`],
+    ];
+    for (const [sessionId, command] of sessions) {
+      const events = [
+        toolResult({
+          id: `${sessionId}-fail`,
+          sessionId,
+          command,
+          output: "FAILED",
+          isError: true,
+          metrics: { outcome: "failure" },
+        }),
+        toolResult({
+          id: `${sessionId}-ok`,
+          sessionId,
+          command: "python manage.py migrate",
+          output: "OK",
+          isError: false,
+          metrics: { outcome: "success" },
+        }),
+      ];
+      for (const item of events) {
+        await miner.ingest(item);
+        if (sessionId === "session-b") {
+          await survivor.ingest(item);
+        }
+      }
+    }
+
+    await miner.forget(["session-a-fail"]);
+
+    expect(await miner.mine()).toEqual(await survivor.mine());
+  });
+});
@@ -0,0 +1,193 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { createLocalLearningLoop } from "../src/backends/local/index.js";
+import {
+  DEFAULT_MINER_SNAPSHOT_FILE,
+  MinerStateSnapshotter,
+} from "../src/backends/local/minerSnapshot.js";
+import { SimpleWrongTurnMiner } from "../src/core/miner.js";
+import { toolResult } from "./helpers/events.js";
+
+const tempDirs: string[] = [];
+
+afterEach(async () => {
+  while (tempDirs.length > 0) {
+    const path = tempDirs.pop();
+    if (!path) {
+      continue;
+    }
+    await rm(path, { recursive: true, force: true });
+  }
+});
+
+async function tempDir(): Promise<string> {
+  const dir = await mkdtemp(join(tmpdir(), "happy-paths-miner-"));
+  tempDirs.push(dir);
+  return dir;
+}
+
+function loopOptions(dataDir: string) {
+  return { dataDir, indexSnapshot: true, minerSnapshot: true };
+}
+
+describe("MinerStateSnapshotter", () => {
+  it("round-trips miner state with its watermark", async () => {
+    const dir = await tempDir();
+    const path = join(dir, "miner.json");
+    const original = new SimpleWrongTurnMiner();
+    await original.ingest(
+      toolResult({
+        id: "fail",
+        sessionId: "s1",
+        second: 1,
+        command: "npm ci",
+        output: "Error: no lockfile",
+        isError: true,
+      }),
+    );
+    await original.ingest(
+      toolResult({
+        id: "fix",
+        sessionId: "s1",
+        second: 2,
+        command: "npm install",
+        isError: false,
+      }),
+    );
+
+    const watermark = { timestamp: "2026-03-01T00:00:02.000Z", eventIds: ["fix"] };
+    await new MinerStateSnapshotter(original, path).save(watermark);
+
+    const restored = new SimpleWrongTurnMiner();
+    expect(await new MinerStateSnapshotter(restored, path).load()).toEqual(watermark);
+    expect(await restored.mine()).toEqual(await original.mine());
+  });
+
+  it("restores on startup and only mines events after the watermark", async () => {
+    const dataDir = await tempDir();
+    const writer = createLocalLearningLoop(loopOptions(dataDir));
+    await writer.ingest(
+      toolResult({
+        id: "a-fail",
+        sessionId: "a",
+        second: 1,
+        command: "npm ci",
+        output: "Error: no lockfile",
+        isError: true,
+      }),
+    );
+    await writer.ingest(
+      toolResult({
+        id: "a-fix",
+        sessionId: "a",
+        second: 2,
+        command: "npm install",
+        isError: false,
+      }),
+    );
+
+    const initial = await createLocalLearningLoop(
+      loopOptions(dataDir),
+    ).bootstrapFromStore();
+    expect(initial.restoredMinerFromSnapshot).toBe(false);
+
+    await writer.ingest(
+      toolResult({
+        id: "b-fail",
+        sessionId: "b",
+        second: 3,
+        command: "npm ci",
+        output: "Error: no lockfile",
+        isError: true,
+      }),
+    );
+    await writer.ingest(
+      toolResult({
+        id: "b-fix",
+        sessionId: "b",
+        second: 4,
+        command: "npm install",
+        isError: false,
+      }),
+    );
+
+    const restarted = createLocalLearningLoop(loopOptions(dataDir));
+    const bootstrap = await restarted.bootstrapFromStore();
+    expect(bootstrap.restoredMinerFromSnapshot).toBe(true);
+    expect(bootstrap.eventCount).toBe(3);
+
+    const artifact = (await restarted.mine()).find(
+      (candidate) => candidate.kind === "wrong_turn_fix",
+    );
+    expect(artifact?.metadata?.supportSessionCount).toBe(2);
+    expect(artifact?.evidenceEventIds).toEqual(["a-fail", "a-fix", "b-fail", "b-fix"]);
+  });
+
+  it("replays the store when the snapshot is unreadable and persists forgets", async () => {
+    const dataDir = await tempDir();
+    const snapshotPath = join(dataDir, DEFAULT_MINER_SNAPSHOT_FILE);
+    const writer = createLocalLearningLoop(loopOptions(dataDir));
+    await writer.bootstrapFromStore();
+    await writer.ingest(
+      toolResult({
+        id: "a-fail",
+        sessionId: "a",
+        second: 1,
+        command: "npm ci",
+        output: "Error: no lockfile",
+        isError: true,
+      }),
+    );
+    await writer.ingest(
+      toolResult({
+        id: "a-fix",
+        sessionId: "a",
+        second: 2,
+        command: "npm install",
+        isError: false,
+      }),
+    );
+    await writer.ingest(
+      toolResult({
+        id: "b-fail",
+        sessionId: "b",
+        second: 3,
+        command: "npm ci",
+        output: "Error: no lockfile",
+        isError: true,
+      }),
+    );
+    await writer.ingest(
+      toolResult({
+        id: "b-fix",
+        sessionId: "b",
+        second: 4,
+        command: "npm install",
+        isError: false,
+      }),
+    );
+    await writer.forget({ sessionIds: ["a"] });
+
+    const afterForget = createLocalLearningLoop(loopOptions(dataDir));
+    const restored = await afterForget.bootstrapFromStore();
+    expect(restored.restoredMinerFromSnapshot).toBe(true);
+    expect((await afterForget.mine())[0]?.evidenceSessionIds).toEqual(["b"]);
+
+    await writeFile(snapshotPath, "{not json", "utf-8");
+    const errors: Error[] = [];
+    const snapshotter = new MinerStateSnapshotter(
+      new SimpleWrongTurnMiner(),
+      snapshotPath,
+      { onLoadError: (error) => errors.push(error) },
+    );
+    expect(await snapshotter.load()).toBeNull();
+    expect(errors).toHaveLength(1);
+
+    const rebuilt = createLocalLearningLoop(loopOptions(dataDir));
+    const bootstrap = await rebuilt.bootstrapFromStore();
+    expect(bootstrap.restoredMinerFromSnapshot).toBe(false);
+    expect((await rebuilt.mine())[0]?.evidenceSessionIds).toEqual(["b"]);
+  });
+});
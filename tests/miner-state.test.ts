@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { SupportTable, parseMinerSnapshot } from "../src/core/minerState.js";
+
+function contribution(id: string, sessionId: string) {
+  return { id, sessionId, evidenceEventIds: [`${id}-a`, `${id}-b`] };
+}
+
+describe("SupportTable", () => {
+  it("tracks sessions and evidence as contributions come and go", () => {
+    const table = new SupportTable<ReturnType<typeof contribution>>();
+    table.add("npm test", contribution("one", "s1"));
+    table.add("npm test", contribution("two", "s1"));
+    table.add("npm test", contribution("three", "s2"));
+
+    const [group] = [...table.values()];
+    expect(group?.sessionCounts).toEqual(
+      new Map([
+        ["s1", 2],
+        ["s2", 1],
+      ]),
+    );
+    expect(group?.evidenceEventIds).toEqual([
+      "one-a",
+      "one-b",
+      "two-a",
+      "two-b",
+      "three-a",
+      "three-b",
+    ]);
+
+    table.remove("one");
+    table.add("npm test", { ...contribution("two", "s3"), evidenceEventIds: ["x"] });
+    expect(group?.contributions.map((entry) => entry.id)).toEqual(["two", "three"]);
+    expect(group?.sessionCounts).toEqual(
+      new Map([
+        ["s3", 1],
+        ["s2", 1],
+      ]),
+    );
+    expect(group?.evidenceEventIds).toEqual(["x", "three-a", "three-b"]);
+  });
+
+  it("moves a contribution when its key changes and drops empty groups", () => {
+    const table = new SupportTable<ReturnType<typeof contribution>>();
+    table.add("before", contribution("one", "s1"));
+    table.add("after", contribution("one", "s1"));
+
+    expect([...table.values()].map((group) => group.key)).toEqual(["after"]);
+    expect(table.size).toBe(1);
+    expect(table.removeWhere((entry) => entry.sessionId === "s1")).toHaveLength(1);
+    expect(table.size).toBe(0);
+  });
+
+  it("round-trips snapshots and rejects malformed ones", () => {
+    const table = new SupportTable<ReturnType<typeof contribution>>();
+    table.add("npm test", contribution("one", "s1"));
+    table.add("make", contribution("two", "s2"));
+
+    const restored = new SupportTable<ReturnType<typeof contribution>>();
+    restored.restoreSnapshot(JSON.parse(JSON.stringify(table.snapshot())));
+    expect(restored.snapshot()).toEqual(table.snapshot());
+
+    expect(() => restored.restoreSnapshot({ groups: [{ key: 1 }] })).toThrow(
+      /invalid group/,
+    );
+    expect(restored.size).toBe(2);
+  });
+});
+
+describe("parseMinerSnapshot", () => {
+  it("checks which miner wrote the snapshot", () => {
+    expect(parseMinerSnapshot({ miner: "m", artifacts: null }, "m").miner).toBe("m");
+    expect(() => parseMinerSnapshot({ miner: "m", artifacts: {} }, "m")).toThrow(
+      /invalid artifacts/,
+    );
+    expect(() => parseMinerSnapshot([], "m")).toThrow(/not an object/);
+  });
+});
@@ -1,21 +1,34 @@
 import { describe, expect, it } from "vitest";
 import { SimpleWrongTurnMiner } from "../src/core/miner.js";
-import type { TraceEvent } from "../src/core/types.js";
+import type {
+  FileEditPayload,
+  ToolResultPayload,
+  TraceEvent,
+  TraceEventBase,
+} from "../src/core/types.js";
 
-function event(overrides: Partial<TraceEvent>): TraceEvent {
-  return {
+type EventOverrides = Partial<TraceEventBase> &
+  (
+    | { type?: "tool_result"; payload?: ToolResultPayload }
+    | { type: "file_edit"; payload: FileEditPayload }
+  );
+
+function event(overrides: EventOverrides): TraceEvent {
+  const base = {
     id: overrides.id ?? "evt",
     timestamp: overrides.timestamp ?? new Date().toISOString(),
     sessionId: overrides.sessionId ?? "session-1",
     harness: overrides.harness ?? "pi",
     scope: overrides.scope ?? "personal",
-    type: overrides.type ?? "tool_result",
-    payload: overrides.payload ?? {},
     metrics: overrides.metrics,
     tags: overrides.tags,
     actorId: overrides.actorId,
     agentId: overrides.agentId,
   };
+  if (overrides.type === "file_edit") {
+    return { ...base, type: "file_edit", payload: overrides.payload };
+  }
+  return { ...base, type: "tool_result", payload: overrides.payload ?? {} };
 }
 
 describe("SimpleWrongTurnMiner", () => {
@@ -118,4 +131,308 @@ describe("SimpleWrongTurnMiner", () => {
     expect(first?.metadata?.crossSessionSupport).toBe(true);
     expect(first?.confidence ?? 0).toBeGreaterThan(0.45);
   });
+
+  it("learns failure -> edit -> success arcs even when the command is rerun", async () => {
+    const miner = new SimpleWrongTurnMiner();
+
+    await miner.ingest(
+      event({
+        id: "fail-edit",
+        payload: {
+          command: "npm run test",
+          isError: true,
+          output: "TypeError: config.load is not a function",
+        },
+        metrics: { outcome: "failure" },
+      }),
+    );
+    await miner.ingest(
+      event({
+        id: "edit-1",
+        type: "file_edit",
+        payload: {
+          path: "src/config.ts",
+          diff: "@@ -1,1 +1,1 @@\n-export const load = 1;\n+export function load() {}\n",
+        },
+      }),
+    );
+    await miner.ingest(
+      event({
+        id: "success-edit",
+        payload: {
+          command: "npm run test",
+          isError: false,
+          output: "PASS",
+        },
+        metrics: { outcome: "success" },
+      }),
+    );
+
+    const artifacts = await miner.mine();
+
+    expect(artifacts.length).toBe(1);
+    const first = artifacts.at(0);
+    expect(first?.evidenceEventIds).toEqual(["fail-edit", "edit-1", "success-edit"]);
+    expect(first?.metadata?.editedPaths).toBe("src/config.ts");
+    expect(first?.summary).toContain("edit src/config.ts");
+  });
+
+  it("keys failures on structured error signatures", async () => {
+    const miner = new SimpleWrongTurnMiner();
+    const output = [
+      "Traceback (most recent call last):",
+      '  File "app/main.py", line 3, in <module>',
+      "ModuleNotFoundError: No module named 'yaml'",
+    ].join("\n");
+
+    for (const sessionId of ["session-a", "session-b"]) {
+      await miner.ingest(
+        event({
+          id: `${sessionId}-fail`,
+          sessionId,
+          payload: {
+            command: `python app/main.py --run ${sessionId}`,
+            isError: true,
+            output,
+          },
+          metrics: { outcome: "failure" },
+        }),
+      );
+      await miner.ingest(
+        event({
+          id: `${sessionId}-install`,
+          sessionId,
+          payload: { command: "pip install pyyaml", isError: false, output: "ok" },
+          metrics: { outcome: "success" },
+        }),
+      );
+    }
+
+    const [first] = await miner.mine();
+    expect(first?.metadata?.failureSignature).toBe(
+      "ModuleNotFoundError: No module named 'yaml'",
+    );
+    expect(first?.metadata?.exceptionType).toBe("ModuleNotFoundError");
+    expect(first?.metadata?.supportSessionCount).toBe(2);
+  });
+
+  it("matches edits across sessions in different workspace roots", async () => {
+    const miner = new SimpleWrongTurnMiner();
+    const roots = ["/home/alice/repo", "/tmp/swebench-abc"];
+
+    for (const [index, root] of roots.entries()) {
+      const sessionId = `session-${index}`;
+      await miner.ingest({
+        ...event({
+          id: `${sessionId}-fail`,
+          sessionId,
+          payload: { command: "npm test", isError: true, output: "failed" },
+        }),
+        workspaceRoot: root,
+      });
+      await miner.ingest({
+        ...event({
+          id: `${sessionId}-edit`,
+          sessionId,
+          type: "file_edit",
+          payload: { path: `${root}/src/config.ts`, diff: "" },
+        }),
+        workspaceRoot: root,
+      });
+      await miner.ingest({
+        ...event({
+          id: `${sessionId}-pass`,
+          sessionId,
+          payload: { command: "npm test", isError: false, output: "ok" },
+        }),
+        workspaceRoot: root,
+      });
+    }
+
+    const [first] = await miner.mine();
+    expect(first?.metadata?.editedPaths).toBe("src/config.ts");
+    expect(first?.metadata?.supportSessionCount).toBe(2);
+  });
+
+  it("records probes, edits and config commands as ordered recovery steps", async () => {
+    const miner = new SimpleWrongTurnMiner();
+    const steps: Array<[string, EventOverrides]> = [
+      [
+        "fail",
+        {
+          payload: { command: "npm test", isError: true, output: "Error: missing env" },
+        },
+      ],
+      [
+        "probe",
+        { payload: { command: "cat .env.example", isError: false, output: "A=1" } },
+      ],
+      ["edit", { type: "file_edit", payload: { path: "src/env.ts", diff: "" } }],
+      [
+        "config",
+        { payload: { command: "npm run setup:env", isError: false, output: "ok" } },
+      ],
+      ["rerun", { payload: { command: "npm test", isError: false, output: "PASS" } }],
+    ];
+    for (const [id, overrides] of steps) {
+      await miner.ingest(event({ id, ...overrides }));
+    }
+
+    const [first] = await miner.mine();
+    expect(first?.steps?.map((step) => step.kind)).toEqual([
+      "failure",
+      "probe",
+      "edit",
+      "command",
+      "success",
+    ]);
+    expect(first?.evidenceEventIds).toEqual(["fail", "edit", "config", "rerun"]);
+    expect(first?.summary).toBe(
+      'When you hit "npm test", run `cat .env.example`, then edit src/env.ts, then run `npm setup:env`, then re-run `npm test`.',
+    );
+  });
+
+  it("does not treat a successful probe as the end of the arc", async () => {
+    const miner = new SimpleWrongTurnMiner();
+    await miner.ingest(
+      event({
+        id: "fail",
+        payload: { command: "make build", isError: true, output: "x" },
+      }),
+    );
+    await miner.ingest(
+      event({
+        id: "probe",
+        payload: { command: "ls -la", isError: false, output: "." },
+      }),
+    );
+
+    expect(await miner.mine()).toEqual([]);
+  });
+
+  it("serves cached artifacts until new events arrive", async () => {
+    const miner = new SimpleWrongTurnMiner();
+    await miner.ingest(
+      event({ id: "fail", payload: { command: "make", isError: true, output: "x" } }),
+    );
+    await miner.ingest(
+      event({ id: "fix", payload: { command: "make clean", isError: false } }),
+    );
+
+    const [first] = await miner.mine();
+    const [cached] = await miner.mine();
+    expect(cached).toBe(first);
+
+    await miner.ingest(
+      event({
+        id: "fail-2",
+        sessionId: "session-2",
+        payload: { command: "make", isError: true, output: "x" },
+      }),
+    );
+    await miner.ingest(
+      event({
+        id: "fix-2",
+        sessionId: "session-2",
+        payload: { command: "make clean", isError: false },
+      }),
+    );
+    const [updated] = await miner.mine();
+    expect(updated).not.toBe(first);
+    expect(updated?.metadata?.supportSessionCount).toBe(2);
+  });
+
+  it("re-ranks artifacts as their support changes", async () => {
+    const miner = new SimpleWrongTurnMiner();
+    const arc = async (sessionId: string, failing: string, fixing: string) => {
+      await miner.ingest(
+        event({
+          id: `${sessionId}-fail`,
+          sessionId,
+          payload: { command: failing, isError: true, output: "x" },
+        }),
+      );
+      await miner.ingest(
+        event({
+          id: `${sessionId}-fix`,
+          sessionId,
+          payload: { command: fixing, isError: false },
+        }),
+      );
+    };
+
+    await arc("a", "make", "make clean");
+    await arc("b", "cargo build", "cargo clean");
+    await arc("c", "cargo build", "cargo clean");
+    expect((await miner.mine()).map((artifact) => artifact.evidenceSessionIds)).toEqual(
+      [["b", "c"], ["a"]],
+    );
+
+    await miner.forget(["c-fix"]);
+    await arc("d", "make", "make clean");
+    const ranked = await miner.mine();
+    expect(ranked.map((artifact) => artifact.evidenceSessionIds)).toEqual([
+      ["a", "d"],
+      ["b"],
+    ]);
+
+    const rebuilt = new SimpleWrongTurnMiner();
+    rebuilt.restoreSnapshot(JSON.parse(JSON.stringify(miner.snapshot())));
+    expect(await rebuilt.mine()).toEqual(ranked);
+  });
+
+  it("continues arcs across a snapshot boundary", async () => {
+    const events = [
+      event({ id: "fail", payload: { command: "npm test", isError: true } }),
+      event({ id: "edit", type: "file_edit", payload: { path: "src/a.ts" } }),
+      event({ id: "build", payload: { command: "npm run build", isError: false } }),
+      event({ id: "rerun", payload: { command: "npm test", isError: false } }),
+    ];
+    const uninterrupted = new SimpleWrongTurnMiner();
+    for (const item of events) {
+      await uninterrupted.ingest(item);
+    }
+
+    const before = new SimpleWrongTurnMiner();
+    for (const item of events.slice(0, 2)) {
+      await before.ingest(item);
+    }
+    const restored = new SimpleWrongTurnMiner();
+    restored.restoreSnapshot(JSON.parse(JSON.stringify(before.snapshot())));
+    for (const item of events.slice(2)) {
+      await restored.ingest(item);
+    }
+
+    expect(await restored.mine()).toEqual(await uninterrupted.mine());
+    expect((await restored.mine())[0]?.evidenceEventIds).toEqual([
+      "fail",
+      "edit",
+      "build",
+      "rerun",
+    ]);
+  });
+
+  it("drops arcs that reference forgotten events", async () => {
+    const miner = new SimpleWrongTurnMiner();
+    await miner.ingest(
+      event({ id: "fail", payload: { command: "make", isError: true, output: "x" } }),
+    );
+    await miner.ingest(
+      event({ id: "fix", payload: { command: "make clean", isError: false } }),
+    );
+    expect(await miner.mine()).toHaveLength(1);
+
+    await miner.forget(["fix"]);
+    expect(await miner.mine()).toEqual([]);
+    expect(miner.snapshot().transitions).toEqual({ groups: [] });
+  });
+
+  it("rejects snapshots written by another miner", () => {
+    expect(() =>
+      new SimpleWrongTurnMiner().restoreSnapshot({
+        miner: "happy_path",
+        artifacts: null,
+      }),
+    ).toThrow(/expected wrong_turn/);
+  });
 });
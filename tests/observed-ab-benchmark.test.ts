@@ -6,21 +6,20 @@ import {
   summarizeObservedAbSession,
 } from "../src/core/observedAbBenchmark.js";
 import type { ObservedAbEpisode } from "../src/core/observedAbGate.js";
-import type { TraceEvent } from "../src/core/types.js";
+import type { TraceEvent, TraceEventOfType } from "../src/core/types.js";
+
+type ToolResultEvent = TraceEventOfType<"tool_result">;
 
 function event(
-  input: Partial<TraceEvent> & {
-    type: TraceEvent["type"];
-    payload: Record<string, unknown>;
-  },
-): TraceEvent {
+  input: Partial<ToolResultEvent> & { payload: ToolResultEvent["payload"] },
+): ToolResultEvent {
   return {
     id: input.id ?? "event-id",
     timestamp: input.timestamp ?? "2026-03-01T00:00:00.000Z",
     sessionId: input.sessionId ?? "session-1",
     harness: input.harness ?? "pi",
     scope: input.scope ?? "personal",
-    type: input.type,
+    type: "tool_result",
     payload: input.payload,
     metrics: input.metrics,
     agentId: input.agentId,
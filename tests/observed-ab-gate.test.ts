@@ -4,21 +4,20 @@ import {
   evaluateObservedAbGate,
   extractObservedAbEpisodes,
 } from "../src/core/observedAbGate.js";
-import type { TraceEvent } from "../src/core/types.js";
+import type { TraceEvent, TraceEventOfType } from "../src/core/types.js";
+
+type ToolResultEvent = TraceEventOfType<"tool_result">;
 
 function event(
-  input: Partial<TraceEvent> & {
-    type: TraceEvent["type"];
-    payload: Record<string, unknown>;
-  },
-): TraceEvent {
+  input: Partial<ToolResultEvent> & { payload: ToolResultEvent["payload"] },
+): ToolResultEvent {
   return {
     id: input.id ?? "event-id",
     timestamp: input.timestamp ?? "2026-03-01T00:00:00.000Z",
     sessionId: input.sessionId ?? "session-1",
     harness: input.harness ?? "pi",
     scope: input.scope ?? "personal",
-    type: input.type,
+    type: "tool_result",
     payload: input.payload,
     metrics: input.metrics,
     agentId: input.agentId,
@@ -274,4 +273,71 @@ describe("observed A/B gate", () => {
     });
     expect(sameSessionPairs.length).toBe(1);
   });
+
+  it("names merged near-duplicate families after the earliest episode", () => {
+    const command =
+      "pytest tests/test_accounts.py --maxfail=1 -q --disable-warnings --tb=short -p no:cacheprovider --durations=10";
+    const recovery = (sessionId: string, day: number, failed: string): TraceEvent[] => [
+      event({
+        id: `${sessionId}-f`,
+        sessionId,
+        timestamp: `2026-03-0${day}T00:00:01.000Z`,
+        type: "tool_result",
+        payload: {
+          command: failed,
+          output: "ModuleNotFoundError: No module named 'accounts'",
+          isError: true,
+        },
+        metrics: { outcome: "failure" },
+      }),
+      event({
+        id: `${sessionId}-s`,
+        sessionId,
+        timestamp: `2026-03-0${day}T00:00:09.000Z`,
+        type: "tool_result",
+        payload: { command: "pip install -e .", output: "ok", isError: false },
+        metrics: { outcome: "success" },
+      }),
+    ];
+
+    const first = extractObservedAbEpisodes(recovery("session-a", 1, command));
+    const merged = extractObservedAbEpisodes([
+      ...recovery("session-b", 2, `${command} -x`),
+      ...recovery("session-a", 1, command),
+    ]);
+
+    expect(merged.map((episode) => episode.sessionId)).toEqual([
+      "session-a",
+      "session-b",
+    ]);
+    expect(merged.map((episode) => episode.familySignature)).toEqual([
+      first[0]?.familySignature,
+      first[0]?.familySignature,
+    ]);
+  });
+
+  it("describes episodes from raw output ahead of the summary text", () => {
+    const [episode] = extractObservedAbEpisodes([
+      event({
+        id: "f-output",
+        timestamp: "2026-03-01T00:00:01.000Z",
+        payload: {
+          command: "npm run test",
+          text: "Command failed",
+          output: "Error: Cannot find module y",
+          isError: true,
+        },
+        metrics: { outcome: "failure" },
+      }),
+      event({
+        id: "s-output",
+        timestamp: "2026-03-01T00:00:03.000Z",
+        payload: { command: "npm install y", text: "ok", isError: false },
+        metrics: { outcome: "success" },
+      }),
+    ]);
+
+    expect(episode?.description).toBe("Recover from Error: Cannot find module y");
+    expect(episode?.familySignature).toContain("cannot find module");
+  });
 });
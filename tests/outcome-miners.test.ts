@@ -0,0 +1,258 @@
+import { describe, expect, it } from "vitest";
+import { CompositeTraceMiner } from "../src/core/compositeMiner.js";
+import { SimpleWrongTurnMiner } from "../src/core/miner.js";
+import { AntiPatternMiner, HappyPathMiner } from "../src/core/outcomeMiners.js";
+import type { TraceEvent } from "../src/core/types.js";
+import { toolResult, userInput } from "./helpers/events.js";
+
+let counter = 0;
+
+function nextEvent(sessionId: string) {
+  counter += 1;
+  return { id: `${sessionId}-${counter}`, sessionId, second: counter };
+}
+
+describe("HappyPathMiner", () => {
+  it("emits command sequences that succeed first try across sessions", async () => {
+    const miner = new HappyPathMiner();
+    for (const sessionId of ["a", "b"]) {
+      await miner.ingest(
+        userInput({
+          ...nextEvent(sessionId),
+          payload: { text: "regenerate the api client from openapi" },
+        }),
+      );
+      await miner.ingest(
+        toolResult({
+          ...nextEvent(sessionId),
+          command: "npm run codegen",
+          isError: false,
+        }),
+      );
+      await miner.ingest(
+        toolResult({
+          ...nextEvent(sessionId),
+          command: "rg -n client src",
+          isError: false,
+        }),
+      );
+      await miner.ingest(
+        toolResult({
+          ...nextEvent(sessionId),
+          command: "npm run build",
+          isError: false,
+        }),
+      );
+    }
+    await miner.ingest(
+      userInput({
+        ...nextEvent("c"),
+        payload: { text: "regenerate the api client from openapi" },
+      }),
+    );
+    await miner.ingest(
+      toolResult({
+        ...nextEvent("c"),
+        command: "npm run codegen",
+        output: "Error: boom",
+        isError: true,
+      }),
+    );
+    await miner.ingest(
+      toolResult({ ...nextEvent("c"), command: "npm run build", isError: false }),
+    );
+
+    const [artifact, ...rest] = await miner.mine();
+    expect(rest).toEqual([]);
+    expect(artifact?.kind).toBe("happy_path");
+    expect(artifact?.metadata?.commandSequence).toBe("npm codegen && npm build");
+    expect(artifact?.metadata?.supportSessionCount).toBe(2);
+    expect(artifact?.summary).toBe(
+      'For "regenerate the api client from openapi", run `npm codegen`, then run `npm build` works first try.',
+    );
+  });
+
+  it("needs support from more than one session by default", async () => {
+    const miner = new HappyPathMiner();
+    await miner.ingest(
+      userInput({ ...nextEvent("a"), payload: { text: "format the code" } }),
+    );
+    await miner.ingest(
+      toolResult({ ...nextEvent("a"), command: "npm run format", isError: false }),
+    );
+
+    expect(await miner.mine()).toEqual([]);
+
+    const relaxed = new HappyPathMiner({ minSessions: 1 });
+    await relaxed.ingest(
+      userInput({ ...nextEvent("a"), payload: { text: "format the code" } }),
+    );
+    await relaxed.ingest(
+      toolResult({ ...nextEvent("a"), command: "npm run format", isError: false }),
+    );
+    expect(await relaxed.mine()).toHaveLength(1);
+    expect(() => new HappyPathMiner({ minSessions: 0 })).toThrow(/minSessions/);
+  });
+});
+
+describe("AntiPatternMiner", () => {
+  it("flags commands that fail in many sessions without recovery", async () => {
+    const miner = new AntiPatternMiner();
+    for (const sessionId of ["a", "b", "c"]) {
+      await miner.ingest(
+        toolResult({
+          ...nextEvent(sessionId),
+          command: "npm run e2e",
+          output: "Error: boom",
+          isError: true,
+        }),
+      );
+      await miner.ingest(
+        toolResult({
+          ...nextEvent(sessionId),
+          command: "npm run lint",
+          output: "Error: boom",
+          isError: true,
+        }),
+      );
+    }
+    await miner.ingest(
+      toolResult({ ...nextEvent("c"), command: "npm run lint", isError: false }),
+    );
+
+    const artifacts = await miner.mine();
+    expect(artifacts).toHaveLength(1);
+    expect(artifacts[0]).toMatchObject({
+      kind: "anti_pattern",
+      metadata: { command: "npm e2e", supportSessionCount: 3 },
+    });
+    expect(artifacts[0]?.summary).toContain(
+      'failed with "error: boom" in 3 session(s)',
+    );
+  });
+});
+
+describe("CompositeTraceMiner", () => {
+  it("forwards events to every miner and merges their artifacts", async () => {
+    const miner = new CompositeTraceMiner([
+      new SimpleWrongTurnMiner(),
+      new AntiPatternMiner(),
+    ]);
+    for (const sessionId of ["x", "y"]) {
+      await miner.ingest(
+        toolResult({
+          ...nextEvent(sessionId),
+          command: "npm run e2e",
+          output: "Error: boom",
+          isError: true,
+        }),
+      );
+      await miner.ingest(
+        toolResult({
+          ...nextEvent(sessionId),
+          command: "npm run test",
+          output: "Error: boom",
+          isError: true,
+        }),
+      );
+      await miner.ingest(
+        toolResult({
+          ...nextEvent(sessionId),
+          command: "npm run test -- --run",
+          isError: false,
+        }),
+      );
+    }
+
+    const artifacts = await miner.mine();
+    expect(artifacts.map((artifact) => artifact.kind).sort()).toEqual([
+      "anti_pattern",
+      "anti_pattern",
+      "wrong_turn_fix",
+      "wrong_turn_fix",
+    ]);
+    expect(await miner.mine(1)).toHaveLength(1);
+
+    const ids = artifacts.flatMap((artifact) => artifact.evidenceEventIds);
+    await miner.forget?.(ids);
+    expect(await miner.mine()).toEqual([]);
+    expect(
+      new CompositeTraceMiner([
+        new SimpleWrongTurnMiner(),
+        { ingest: async () => {}, mine: async () => [] },
+      ]).forget,
+    ).toBeUndefined();
+    expect(() => new CompositeTraceMiner([])).toThrow(/at least one miner/);
+  });
+
+  it("restores every child miner from one snapshot", async () => {
+    const createMiner = () =>
+      new CompositeTraceMiner([
+        new SimpleWrongTurnMiner(),
+        new HappyPathMiner(),
+        new AntiPatternMiner(),
+      ]);
+    const events: TraceEvent[] = [];
+    for (const sessionId of ["p", "q"]) {
+      events.push(
+        userInput({ ...nextEvent(sessionId), payload: { text: "ship the docs site" } }),
+      );
+      events.push(
+        toolResult({
+          ...nextEvent(sessionId),
+          command: "npm run docs",
+          isError: false,
+        }),
+      );
+      events.push(
+        toolResult({
+          ...nextEvent(sessionId),
+          command: "npm run build",
+          isError: false,
+        }),
+      );
+      events.push(
+        userInput({ ...nextEvent(sessionId), payload: { text: "deploy it" } }),
+      );
+      events.push(
+        toolResult({
+          ...nextEvent(sessionId),
+          command: "npm run deploy",
+          output: "Error: boom",
+          isError: true,
+        }),
+      );
+    }
+
+    const live = createMiner();
+    const first = createMiner();
+    for (const [index, item] of events.entries()) {
+      await live.ingest(item);
+      if (index < 7) {
+        await first.ingest(item);
+      }
+    }
+    const restored = createMiner();
+    restored.restoreSnapshot(JSON.parse(JSON.stringify(first.snapshot())));
+    for (const item of events.slice(7)) {
+      await restored.ingest(item);
+    }
+
+    const artifacts = await restored.mine();
+    expect(artifacts.map((artifact) => artifact.kind).sort()).toEqual([
+      "anti_pattern",
+      "happy_path",
+    ]);
+    expect(artifacts).toEqual(await live.mine());
+    expect(() =>
+      new CompositeTraceMiner([new SimpleWrongTurnMiner()]).restoreSnapshot(
+        first.snapshot(),
+      ),
+    ).toThrow(/1 miner snapshot/);
+    expect(() =>
+      new CompositeTraceMiner([
+        { ingest: live.ingest, mine: live.mine, forget: live.forget },
+      ]).snapshot(),
+    ).toThrow(/cannot snapshot/);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import {
+  eventCommand,
+  eventOutputText,
+  eventTextOrPayloadJson,
+  eventToolName,
+  isToolResultFailure,
+  isToolResultSuccess,
+  isTraceEventOfType,
+  toolResultIsError,
+} from "../src/core/payloads.js";
+import { toolResult } from "./helpers/events.js";
+
+describe("payload accessors", () => {
+  it("reads the command from the payload or its input", () => {
+    expect(eventCommand(toolResult({ command: "npm test" }))).toBe("npm test");
+    expect(
+      eventCommand(toolResult({ payload: { input: { command: "ls -la" } } })),
+    ).toBe("ls -la");
+    expect(eventCommand(toolResult({ payload: { input: { command: ["ls"] } } }))).toBe(
+      "",
+    );
+  });
+
+  it("prefers output fields in a fixed order and skips blank values", () => {
+    const event = toolResult({
+      output: "   ",
+      payload: { stderr: "boom", stdout: "partial", text: "ignored" },
+    });
+
+    expect(eventOutputText(event)).toBe("boom");
+    expect(eventOutputText(toolResult({ payload: { content: "from content" } }))).toBe(
+      "from content",
+    );
+    expect(eventTextOrPayloadJson(toolResult({ payload: { toolName: "bash" } }))).toBe(
+      '{"toolName":"bash"}',
+    );
+  });
+
+  it("derives tool outcomes from metrics before isError", () => {
+    const failed = toolResult({ metrics: { outcome: "failure" } });
+    expect(isToolResultFailure(failed)).toBe(true);
+    expect(isToolResultSuccess(failed)).toBe(false);
+
+    const legacy = toolResult({ isError: true });
+    expect(toolResultIsError(legacy)).toBe(true);
+    expect(isToolResultFailure(legacy)).toBe(true);
+    expect(isToolResultSuccess(legacy)).toBe(false);
+
+    expect(toolResultIsError(toolResult())).toBeNull();
+  });
+
+  it("narrows events by type", () => {
+    const event = toolResult({ isError: false, payload: { toolName: "bash" } });
+
+    expect(eventToolName(event)).toBe("bash");
+    expect(isTraceEventOfType(event, "tool_call")).toBe(false);
+    if (isTraceEventOfType(event, "tool_result")) {
+      expect(event.payload.isError).toBe(false);
+    }
+  });
+});
@@ -0,0 +1,212 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { FileTraceStore } from "../src/backends/local/fileTraceStore.js";
+import { createLocalLearningLoop } from "../src/backends/local/index.js";
+import {
+  composeRerankers,
+  createRecencyOutcomeReranker,
+} from "../src/core/rerankers.js";
+import type { SearchResult } from "../src/core/types.js";
+import { toolResult } from "./helpers/events.js";
+
+const tempDirs: string[] = [];
+
+afterEach(async () => {
+  while (tempDirs.length > 0) {
+    const path = tempDirs.pop();
+    if (!path) {
+      continue;
+    }
+    await rm(path, { recursive: true, force: true });
+  }
+});
+
+const NOW = new Date("2026-06-01T00:00:00.000Z");
+
+function hit(
+  id: string,
+  score: number,
+  timestamp: string,
+  sessionId = `session-${id}`,
+): SearchResult {
+  return {
+    document: {
+      id,
+      sourceEventId: id,
+      text: id,
+      metadata: { sessionId, timestamp },
+    },
+    score,
+  };
+}
+
+const FAILED_BUILD = {
+  output: "Error: build failed",
+  isError: true,
+  metrics: { outcome: "failure" },
+} as const;
+
+const PASSED_BUILD = {
+  output: "build ok",
+  isError: false,
+  metrics: { outcome: "success" },
+} as const;
+
+describe("createRecencyOutcomeReranker", () => {
+  it("decays scores by age with a half-life and a floor", async () => {
+    const reranker = createRecencyOutcomeReranker({
+      halfLifeDays: 30,
+      minRecencyWeight: 0.1,
+      now: () => NOW,
+    });
+
+    const reranked = await reranker({ text: "build" }, [
+      hit("old", 1, "2025-06-01T00:00:00.000Z"),
+      hit("month", 0.9, "2026-05-02T00:00:00.000Z"),
+      hit("fresh", 0.6, "2026-05-31T00:00:00.000Z"),
+      hit("undated", 0.5, "not-a-date"),
+    ]);
+
+    expect(reranked.map((result) => result.document.id)).toEqual([
+      "fresh",
+      "undated",
+      "month",
+      "old",
+    ]);
+    expect(
+      reranked.find((result) => result.document.id === "month")?.score,
+    ).toBeCloseTo(0.45, 6);
+    expect(reranked.find((result) => result.document.id === "old")?.score).toBeCloseTo(
+      0.1,
+      6,
+    );
+  });
+
+  it("boosts events followed by a success in the same session", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "happy-paths-rerank-"));
+    tempDirs.push(dir);
+    const store = new FileTraceStore(dir);
+    await store.appendMany([
+      toolResult({
+        id: "fixed",
+        sessionId: "session-a",
+        timestamp: "2026-05-31T10:00:00.000Z",
+        command: "npm run build -- fixed",
+        ...FAILED_BUILD,
+      }),
+      toolResult({
+        id: "fixed-after",
+        sessionId: "session-a",
+        timestamp: "2026-05-31T10:05:00.000Z",
+        command: "npm run build -- fixed-after",
+        ...PASSED_BUILD,
+      }),
+      toolResult({
+        id: "stuck",
+        sessionId: "session-b",
+        timestamp: "2026-05-31T10:00:00.000Z",
+        command: "npm run build -- stuck",
+        ...FAILED_BUILD,
+      }),
+      toolResult({
+        id: "stuck-before",
+        sessionId: "session-b",
+        timestamp: "2026-05-31T09:55:00.000Z",
+        command: "npm run build -- stuck-before",
+        ...PASSED_BUILD,
+      }),
+    ]);
+
+    const reranker = createRecencyOutcomeReranker({
+      store,
+      successBoost: 2,
+      now: () => NOW,
+    });
+    const reranked = await reranker({ text: "build failed" }, [
+      hit("stuck", 1, "2026-05-31T10:00:00.000Z", "session-b"),
+      hit("fixed", 0.8, "2026-05-31T10:00:00.000Z", "session-a"),
+    ]);
+
+    expect(reranked.map((result) => result.document.id)).toEqual(["fixed", "stuck"]);
+    expect(reranked[0]?.score).toBeGreaterThan(1.5);
+    expect(reranked[1]?.score).toBeLessThan(1);
+  });
+
+  it("rejects non-positive half-lives", () => {
+    expect(() => createRecencyOutcomeReranker({ halfLifeDays: 0 })).toThrow(
+      "halfLifeDays must be a finite positive number",
+    );
+  });
+});
+
+describe("composeRerankers", () => {
+  it("runs rerankers in order on each other's output", async () => {
+    const calls: string[][] = [];
+    const reranker = composeRerankers(
+      (_query, results) => {
+        calls.push(results.map((result) => result.document.id));
+        return [...results].reverse();
+      },
+      async (_query, results) => {
+        calls.push(results.map((result) => result.document.id));
+        return results.slice(0, 1);
+      },
+    );
+
+    const reranked = await reranker({ text: "x" }, [
+      hit("a", 2, "2026-05-31T00:00:00.000Z"),
+      hit("b", 1, "2026-05-31T00:00:00.000Z"),
+    ]);
+
+    expect(calls).toEqual([
+      ["a", "b"],
+      ["b", "a"],
+    ]);
+    expect(reranked.map((result) => result.document.id)).toEqual(["b"]);
+  });
+
+  it("wires recency ranking and a user reranker into the local loop", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "happy-paths-rerank-"));
+    tempDirs.push(dir);
+
+    const seen: string[] = [];
+    const loop = createLocalLearningLoop({
+      dataDir: dir,
+      recencyRanking: { halfLifeDays: 7 },
+      resultReranker: (_query, results) => {
+        seen.push(...results.map((result) => result.document.sourceEventId));
+        return results;
+      },
+    });
+
+    const recent = new Date(Date.now() - 60_000).toISOString();
+    await loop.ingest(
+      toolResult({
+        id: "old",
+        sessionId: "session-old",
+        timestamp: "2025-01-01T00:00:00.000Z",
+        command: "npm run build -- old",
+        ...FAILED_BUILD,
+      }),
+    );
+    await loop.ingest(
+      toolResult({
+        id: "new",
+        sessionId: "session-new",
+        timestamp: recent,
+        command: "npm run build -- new",
+        ...FAILED_BUILD,
+      }),
+    );
+
+    const hits = await loop.retrieve({ text: "build failed", explain: true });
+    expect(hits[0]?.document.sourceEventId).toBe("new");
+    expect(seen).toContain("old");
+    expect(
+      hits.find((result) => result.document.sourceEventId === "old")?.explanation
+        ?.rerank?.scoreDelta,
+    ).toBeLessThan(0);
+  });
+});
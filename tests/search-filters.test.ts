@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import {
+  InvalidSearchFilterError,
+  matchesSearchFilters,
+  parseRemoveFilters,
+  parseSearchFilters,
+} from "../src/core/searchFilters.js";
+import type { SearchFilters } from "../src/core/types.js";
+
+const metadata = {
+  eventType: "tool_result",
+  swebenchInstanceId: "django-123",
+  isError: false,
+  exitCode: 0,
+  timestamp: "2026-03-01T12:00:00.000Z",
+  toolName: null,
+};
+
+describe("search filters", () => {
+  it("keeps plain equality filters working", () => {
+    expect(matchesSearchFilters(metadata, { eventType: "tool_result" })).toBe(true);
+    expect(matchesSearchFilters(metadata, { isError: true })).toBe(false);
+    expect(matchesSearchFilters(undefined, { isError: false })).toBe(false);
+    expect(matchesSearchFilters(undefined, undefined)).toBe(true);
+  });
+
+  it("evaluates $in, $ne, $exists and ranges", () => {
+    const cases: [SearchFilters, boolean][] = [
+      [{ eventType: { $in: ["tool_result", "tool_call"] } }, true],
+      [{ eventType: { $nin: ["tool_result"] } }, false],
+      [{ isError: { $ne: true } }, true],
+      [{ missing: { $ne: "x" } }, true],
+      [{ swebenchInstanceId: { $exists: true } }, true],
+      [{ toolName: { $exists: true } }, false],
+      [{ missing: { $exists: false } }, true],
+      [{ exitCode: { $gte: 0, $lt: 1 } }, true],
+      [{ exitCode: { $gt: 0 } }, false],
+      [{ timestamp: { $gte: "2026-03-01T00:00:00Z" } }, true],
+      [{ timestamp: { $lt: "2026-03-01T12:00:00.000Z" } }, false],
+      [{ eventType: { $gt: 0 } }, false],
+      [{ constructor: { $exists: true } }, false],
+    ];
+    for (const [filters, expected] of cases) {
+      expect(matchesSearchFilters(metadata, filters), JSON.stringify(filters)).toBe(
+        expected,
+      );
+    }
+  });
+
+  it("combines $or branches with the remaining conditions", () => {
+    const filters: SearchFilters = {
+      eventType: "tool_result",
+      isError: { $ne: true },
+      $or: [
+        { swebenchInstanceId: "django-123" },
+        { swebenchInstanceId: { $exists: false } },
+      ],
+    };
+    expect(matchesSearchFilters(metadata, filters)).toBe(true);
+    expect(
+      matchesSearchFilters({ ...metadata, swebenchInstanceId: "flask-9" }, filters),
+    ).toBe(false);
+    expect(
+      matchesSearchFilters({ eventType: "tool_result", isError: false }, filters),
+    ).toBe(true);
+  });
+
+  it("rejects malformed filters", () => {
+    const malformed = [
+      { $and: [] },
+      { $or: [] },
+      { eventType: { $regex: "tool" } },
+      { eventType: ["tool_result"] },
+      { timestamp: { $gt: "yesterday" } },
+      { exitCode: { $in: 1 } },
+      { toolName: { $exists: "yes" } },
+    ] as unknown as SearchFilters[];
+    for (const filters of malformed) {
+      expect(() => parseSearchFilters(filters), JSON.stringify(filters)).toThrow(
+        InvalidSearchFilterError,
+      );
+    }
+    expect(() => parseRemoveFilters({ eventType: undefined })).toThrow(/clear\(\)/);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { canonicalCommand, parseShellCommand } from "../src/core/shellCommand.js";
+
+describe("parseShellCommand", () => {
+  it("splits chains and pipelines and drops leading cd", () => {
+    const parsed = parseShellCommand(
+      "cd repo && npm test -- --run | tail -20; echo done",
+    );
+
+    expect(parsed.segments.map((segment) => segment.operator)).toEqual([
+      null,
+      "|",
+      ";",
+    ]);
+    expect(parsed.effective).toMatchObject({
+      program: "npm",
+      subcommand: "test",
+      passthrough: ["--run"],
+    });
+    expect(canonicalCommand(parsed)).toBe("npm test -- --run | tail -20 ; echo done");
+  });
+
+  it("strips env assignments, wrappers and redirections", () => {
+    const parsed = parseShellCommand(
+      "FOO=1 CI=true timeout 60 npx vitest run tests/a.test.ts > out.log 2>&1",
+    );
+
+    expect(parsed.segments).toHaveLength(1);
+    expect(parsed.effective).toMatchObject({
+      program: "vitest",
+      subcommand: null,
+      args: ["run", "tests/a.test.ts"],
+      env: ["FOO", "CI"],
+    });
+  });
+
+  it("canonicalizes flag order and package manager run scripts", () => {
+    const left = canonicalCommand(parseShellCommand("npm run lint --fix --quiet"));
+    const right = canonicalCommand(parseShellCommand("npm lint --quiet --fix"));
+
+    expect(left).toBe("npm lint --fix --quiet");
+    expect(right).toBe(left);
+  });
+
+  it("keeps quoted words together and unwraps python -m", () => {
+    const parsed = parseShellCommand(`python -m pytest -k "add or sub" 'tests/a b.py'`);
+
+    expect(parsed.effective).toMatchObject({
+      program: "pytest",
+      args: ["tests/a b.py"],
+      flags: ["-k=add or sub"],
+    });
+  });
+
+  it("binds flag values before canonicalizing flag order", () => {
+    const canonical = (command: string): string =>
+      canonicalCommand(parseShellCommand(command));
+
+    expect(canonical("head -n 5 app.log")).toBe("head app.log -n=5");
+    expect(canonical("git commit -m 'fix a' -a")).toBe("git commit -a -m=fix a");
+    expect(canonical("git commit -a -m 'fix a'")).toBe(
+      canonical("git commit -m 'fix a' -a"),
+    );
+    expect(canonical("pytest x.py -k t")).toBe(canonical("pytest -k t x.py"));
+    expect(canonical("pytest -k t x.py")).not.toBe(canonical("pytest -k x.py t"));
+    expect(canonical("rg --glob '*.ts' todo")).toBe(canonical("rg todo --glob=*.ts"));
+    expect(parseShellCommand("git -C repo status").effective?.subcommand).toBe(
+      "status",
+    );
+  });
+
+  it("returns no segments for directory changes alone", () => {
+    const parsed = parseShellCommand("cd /tmp");
+
+    expect(parsed.segments).toEqual([]);
+    expect(parsed.effective).toBeNull();
+  });
+});
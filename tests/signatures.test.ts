@@ -34,4 +34,15 @@ describe("signatures", () => {
     const command = "npm run test -- --changedSince 4f3d9911";
     expect(normalizeCommandSignature(command)).toContain("<hex>");
   });
+
+  it("gives equivalent shell commands the same signature", () => {
+    const signatures = [
+      "cd repo && npm test -- --run",
+      "npm test -- --run",
+      "FOO=1 npm  test -- --run",
+      "npm run test -- --run 2>&1",
+    ].map((command) => normalizeCommandSignature(command));
+
+    expect(new Set(signatures)).toEqual(new Set(["npm test -- --run"]));
+  });
 });
@@ -0,0 +1,238 @@
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { createLocalLearningLoop } from "../src/backends/local/index.js";
+import { migrateJsonlTraceRootToSqlite } from "../src/backends/sqlite/jsonlMigration.js";
+import { SqliteTraceStore } from "../src/backends/sqlite/sqliteTraceStore.js";
+import type { TraceEvent, TraceEventBase } from "../src/core/types.js";
+import { toolResult, userInput } from "./helpers/events.js";
+
+const sqliteAvailable = await import("node:sqlite").then(
+  () => true,
+  () => false,
+);
+
+const tempDirs: string[] = [];
+const openStores: SqliteTraceStore[] = [];
+
+afterEach(async () => {
+  while (openStores.length > 0) {
+    await openStores.pop()?.close();
+  }
+  while (tempDirs.length > 0) {
+    const path = tempDirs.pop();
+    if (!path) {
+      continue;
+    }
+    await rm(path, { recursive: true, force: true });
+  }
+});
+
+async function tempDir(prefix: string): Promise<string> {
+  const dir = await mkdtemp(join(tmpdir(), prefix));
+  tempDirs.push(dir);
+  return dir;
+}
+
+function trackedStore(path: string): SqliteTraceStore {
+  const store = new SqliteTraceStore(path);
+  openStores.push(store);
+  return store;
+}
+
+function event(
+  id: string,
+  sessionId: string,
+  timestamp: string,
+  overrides: Partial<TraceEventBase> = {},
+): TraceEvent {
+  return toolResult({
+    id,
+    sessionId,
+    timestamp,
+    command: `echo ${id}`,
+    isError: false,
+    metrics: { outcome: "success" },
+    ...overrides,
+  });
+}
+
+describe.skipIf(!sqliteAvailable)("SqliteTraceStore", () => {
+  it("appends and queries events by session, type and time window", async () => {
+    const dir = await tempDir("happy-paths-sqlite-");
+    const store = trackedStore(join(dir, "traces.sqlite"));
+
+    await store.appendMany([
+      event("b", "session-1", "2026-03-01T00:00:02.000Z"),
+      userInput({
+        id: "a",
+        sessionId: "session-1",
+        timestamp: "2026-03-01T00:00:01.000Z",
+        payload: { text: "hi" },
+      }),
+      event("c", "session-2", "2026-03-01T00:00:03.000Z"),
+    ]);
+    await store.append(event("a", "session-1", "2026-03-01T00:00:01.000Z"));
+
+    const all = await store.query({});
+    expect(all.map((item) => item.id)).toEqual(["a", "b", "c"]);
+    expect(all[0]?.schemaVersion).toBe(1);
+
+    const session = await store.query({
+      sessionIds: ["session-1"],
+      types: ["tool_result"],
+    });
+    expect(session.map((item) => item.id)).toEqual(["b"]);
+
+    const window = await store.query({
+      since: "2026-03-01T00:00:02.000Z",
+      until: "2026-03-01T00:00:03.000Z",
+      limit: 1,
+    });
+    expect(window.map((item) => item.id)).toEqual(["b"]);
+    expect(await store.query({ limit: 0 })).toEqual([]);
+  });
+
+  it("pushes filters down and pages with a keyset cursor", async () => {
+    const dir = await tempDir("happy-paths-sqlite-page-");
+    const store = trackedStore(join(dir, "traces.sqlite"));
+
+    const events: TraceEvent[] = [];
+    for (let index = 0; index < 300; index += 1) {
+      const second = String(index % 60).padStart(2, "0");
+      const minute = String(Math.floor(index / 60)).padStart(2, "0");
+      events.push(
+        event(
+          `e-${index}`,
+          `session-${index % 3}`,
+          `2026-03-01T00:${minute}:${second}.000Z`,
+          {
+            agentId: index % 2 === 0 ? "even" : "odd",
+            tags: index % 10 === 0 ? ["tenth"] : [],
+          },
+        ),
+      );
+    }
+    await store.appendMany(events);
+
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await store.queryPage({
+        agentIds: ["even"],
+        tags: ["tenth"],
+        order: "desc",
+        limit: 7,
+        cursor,
+      });
+      seen.push(...page.events.map((item) => item.id));
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+
+    const expected = events
+      .filter((_, index) => index % 10 === 0)
+      .map((item) => item.id)
+      .reverse();
+    expect(seen).toEqual(expected);
+  });
+
+  it("orders mixed-precision timestamps by time", async () => {
+    const dir = await tempDir("happy-paths-sqlite-order-");
+    const store = trackedStore(join(dir, "traces.sqlite"));
+    await store.appendMany([
+      event("late", "session-1", "2026-03-01T00:00:00.500Z"),
+      event("early", "session-2", "2026-03-01T00:00:00Z"),
+    ]);
+
+    expect((await store.query({})).map((item) => item.id)).toEqual(["early", "late"]);
+    const first = await store.queryPage({ order: "desc", limit: 1 });
+    const rest = await store.queryPage({
+      order: "desc",
+      cursor: first.nextCursor ?? undefined,
+    });
+    expect([...first.events, ...rest.events].map((item) => item.id)).toEqual([
+      "late",
+      "early",
+    ]);
+  });
+
+  it("forgets events by session, actor and time", async () => {
+    const dir = await tempDir("happy-paths-sqlite-forget-");
+    const store = trackedStore(join(dir, "traces.sqlite"));
+
+    await store.appendMany([
+      event("a1", "session-1", "2026-03-01T00:00:01.000Z", { actorId: "alice" }),
+      event("b1", "session-1", "2026-03-01T00:00:02.000Z", { actorId: "bob" }),
+      event("a2", "session-2", "2026-03-01T00:00:09.000Z", { actorId: "alice" }),
+    ]);
+
+    const forgotten = await store.forget({
+      actorId: "alice",
+      before: "2026-03-01T00:00:05.000Z",
+    });
+    expect(forgotten).toEqual({ eventIds: ["a1"], sessionIds: ["session-1"] });
+
+    const bySession = await store.forget({ sessionIds: ["session-2"] });
+    expect(bySession.eventIds).toEqual(["a2"]);
+    expect((await store.query({})).map((item) => item.id)).toEqual(["b1"]);
+  });
+
+  it("rejects invalid events without writing a partial batch", async () => {
+    const dir = await tempDir("happy-paths-sqlite-invalid-");
+    const store = trackedStore(join(dir, "traces.sqlite"));
+
+    await expect(
+      store.appendMany([
+        event("ok", "session-1", "2026-03-01T00:00:01.000Z"),
+        event("bad", "session-1", "not-a-date"),
+      ]),
+    ).rejects.toThrow(/timestamp/);
+    expect(await store.count()).toBe(0);
+  });
+
+  it("migrates a JSONL trace root and backs the local learning loop", async () => {
+    const dataDir = await tempDir("happy-paths-sqlite-migrate-");
+    await mkdir(join(dataDir, "sessions"), { recursive: true });
+    await writeFile(
+      join(dataDir, "sessions", "legacy.jsonl"),
+      [
+        JSON.stringify({
+          id: "legacy-1",
+          timestamp: "2026-03-01T00:00:01.000Z",
+          sessionId: "legacy",
+          harness: "pi",
+          scope: "personal",
+          type: "tool_result",
+          payload: { command: "npm test", output: "Error: boom", isError: true },
+        }),
+        "{not json",
+        "",
+      ].join("\n"),
+      "utf-8",
+    );
+
+    const sqlitePath = join(dataDir, "traces.sqlite");
+    const target = trackedStore(sqlitePath);
+    const result = await migrateJsonlTraceRootToSqlite(dataDir, target);
+    expect(result.sessionCount).toBe(1);
+    expect(result.eventCount).toBe(1);
+    expect(result.invalidLines.map((line) => line.lineNumber)).toEqual([2]);
+
+    const rerun = await migrateJsonlTraceRootToSqlite(dataDir, target);
+    expect(rerun.eventCount).toBe(1);
+    expect(await target.count()).toBe(1);
+
+    const [migrated] = await target.query({});
+    expect(migrated?.metrics?.outcome).toBe("failure");
+    await target.close();
+
+    const loop = createLocalLearningLoop({ dataDir, traceStore: "sqlite" });
+    const bootstrap = await loop.bootstrapFromStore();
+    expect(bootstrap.eventCount).toBe(1);
+    await loop.ingest(event("fresh", "new-session", "2026-03-01T00:00:05.000Z"));
+
+    const reader = trackedStore(sqlitePath);
+    expect(await reader.count()).toBe(2);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { CodeAwareTokenizer } from "../src/core/tokenizer.js";
+
+describe("CodeAwareTokenizer", () => {
+  const tokenizer = new CodeAwareTokenizer();
+
+  it("splits camelCase, snake_case and kebab-case identifiers", () => {
+    expect(tokenizer.tokenize("CannotFindModule")).toEqual([
+      "cannotfindmodule",
+      "cannot",
+      "find",
+      "module",
+    ]);
+    expect(tokenizer.tokenize("snake_case_name")).toEqual([
+      "snake_case_name",
+      "snake",
+      "case",
+      "name",
+    ]);
+    expect(tokenizer.tokenize("HTTPServerError")).toContain("server");
+    expect(tokenizer.tokenize("--max-fail")).toEqual(["--max-fail", "max", "fail"]);
+  });
+
+  it("keeps full paths, dotted modules and stack-frame locations", () => {
+    expect(tokenizer.tokenize("./src/core/miner.ts:42:7")).toEqual([
+      "src/core/miner.ts:42:7",
+      "src/core/miner.ts",
+      "src",
+      "core",
+      "miner.ts",
+      "miner",
+      "ts",
+    ]);
+    expect(tokenizer.tokenize("django.db.models.")).toEqual([
+      "django.db.models",
+      "django",
+      "db",
+      "models",
+    ]);
+    expect(tokenizer.tokenize("Error: boom")).toEqual(["error", "boom"]);
+  });
+
+  it("applies configurable stopwords and minimum length", () => {
+    const custom = new CodeAwareTokenizer({
+      stopwords: ["The", "ts"],
+      minTokenLength: 3,
+    });
+    expect(custom.tokenize("the miner.ts is ok")).toEqual(["miner.ts", "miner"]);
+    expect(custom.id).not.toBe(tokenizer.id);
+  });
+});
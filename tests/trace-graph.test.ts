@@ -0,0 +1,236 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { createPiTraceExtension } from "../src/adapters/pi/extension.js";
+import type { PiLikeApi } from "../src/adapters/pi/types.js";
+import { FileTraceStore } from "../src/backends/local/fileTraceStore.js";
+import { createLocalLearningLoop } from "../src/backends/local/index.js";
+import { TraceGraph, buildTraceGraphs } from "../src/core/traceGraph.js";
+import { parseTraceEvent } from "../src/core/traceSchema.js";
+import { checkpoint, toolCall, toolResult, userInput } from "./helpers/events.js";
+
+const tempDirs: string[] = [];
+
+afterEach(async () => {
+  while (tempDirs.length > 0) {
+    const path = tempDirs.pop();
+    if (!path) {
+      continue;
+    }
+    await rm(path, { recursive: true, force: true });
+  }
+});
+
+type PiHandler = (event: unknown, context: unknown) => Promise<unknown> | unknown;
+
+class FakePiApi implements PiLikeApi {
+  private readonly handlers = new Map<string, PiHandler>();
+
+  on(eventName: string, handler: PiHandler): void {
+    this.handlers.set(eventName, handler);
+  }
+
+  async emit(eventName: string, event: unknown): Promise<unknown> {
+    const handler = this.handlers.get(eventName);
+    if (!handler) {
+      throw new Error(`Missing handler for ${eventName}`);
+    }
+    return handler(event, {});
+  }
+}
+
+describe("TraceGraph", () => {
+  it("rebuilds the causal tree from explicit links", () => {
+    const graph = new TraceGraph("session-1", [
+      toolResult({
+        id: "result-2",
+        second: 5,
+        parentEventId: "call-2",
+        causedByEventId: "call-2",
+        turnIndex: 1,
+      }),
+      userInput({ id: "input", second: 1 }),
+      toolCall({
+        id: "call-1",
+        second: 2,
+        parentEventId: "input",
+        causedByEventId: "input",
+        turnIndex: 0,
+      }),
+      toolResult({
+        id: "result-1",
+        second: 3,
+        parentEventId: "call-1",
+        causedByEventId: "call-1",
+        turnIndex: 0,
+      }),
+      toolCall({
+        id: "call-2",
+        second: 4,
+        parentEventId: "input",
+        causedByEventId: "result-1",
+        turnIndex: 1,
+      }),
+      userInput({ id: "other-session", second: 6, sessionId: "session-2" }),
+    ]);
+
+    expect(graph.size).toBe(5);
+    expect(graph.roots().map((node) => node.event.id)).toEqual(["input"]);
+    expect(graph.childrenOf("input").map((item) => item.id)).toEqual([
+      "call-1",
+      "call-2",
+    ]);
+    expect(graph.descendants("input").map((item) => item.id)).toEqual([
+      "call-1",
+      "result-1",
+      "call-2",
+      "result-2",
+    ]);
+    expect(graph.ancestors("result-2").map((item) => item.id)).toEqual([
+      "call-2",
+      "input",
+    ]);
+    expect(graph.causalChain("result-2").map((item) => item.id)).toEqual([
+      "input",
+      "call-1",
+      "result-1",
+      "call-2",
+      "result-2",
+    ]);
+    expect(graph.effectsOf("result-1").map((item) => item.id)).toEqual(["call-2"]);
+    expect(graph.turn(1).map((item) => item.id)).toEqual(["call-2", "result-2"]);
+    expect(graph.followingInTurn("call-1").map((item) => item.id)).toEqual([
+      "result-1",
+    ]);
+  });
+
+  it("falls back to toolCallId for legacy events and ignores link cycles", () => {
+    const graphs = buildTraceGraphs([
+      toolCall({ id: "call", second: 1, payload: { toolCallId: "tc-1" } }),
+      toolResult({ id: "result", second: 2, payload: { toolCallId: "tc-1" } }),
+      checkpoint({ id: "a", second: 3, parentEventId: "b" }),
+      checkpoint({ id: "b", second: 4, parentEventId: "a" }),
+    ]);
+
+    const graph = graphs.get("session-1");
+    expect(graph?.toolCallFor("result")?.id).toBe("call");
+    expect(graph?.parentOf("result")?.id).toBe("call");
+    expect(graph?.causeOf("result")?.id).toBe("call");
+    expect(graph?.parentOf("a")?.id).toBe("b");
+    expect(graph?.roots().map((node) => node.event.id)).toEqual(["call", "b"]);
+  });
+
+  it("validates causal link fields", () => {
+    const result = parseTraceEvent({
+      ...checkpoint({ id: "evt-1", second: 1 }),
+      parentEventId: "evt-1",
+      turnIndex: -1,
+      causedByEventId: "",
+    });
+
+    expect(result.ok).toBe(false);
+    if (result.ok) {
+      return;
+    }
+    expect(result.issues.map((issue) => issue.field)).toEqual([
+      "parentEventId",
+      "causedByEventId",
+      "turnIndex",
+    ]);
+  });
+
+  it("links pi extension events to their turn, tool call and user input", async () => {
+    const dataDir = await mkdtemp(join(tmpdir(), "happy-paths-trace-graph-"));
+    tempDirs.push(dataDir);
+
+    const loop = createLocalLearningLoop({ dataDir });
+    const fakePi = new FakePiApi();
+    createPiTraceExtension({ loop, sessionId: "graph-session" })(fakePi);
+
+    await fakePi.emit("input", { text: "fix the build" });
+    await fakePi.emit("turn_start", { turnIndex: 0 });
+    await fakePi.emit("tool_call", {
+      toolCallId: "tc-1",
+      toolName: "bash",
+      input: { command: "npm run build" },
+    });
+    await fakePi.emit("tool_result", {
+      toolCallId: "tc-1",
+      toolName: "bash",
+      input: { command: "npm run build" },
+      content: [{ type: "text", text: "error TS2304" }],
+      isError: true,
+    });
+    await fakePi.emit("tool_call", {
+      toolCallId: "tc-2",
+      toolName: "bash",
+      input: { command: "npm install" },
+    });
+    await fakePi.emit("turn_end", { turnIndex: 0 });
+
+    const events = await new FileTraceStore(dataDir).query({
+      sessionIds: ["graph-session"],
+    });
+    const graph = new TraceGraph("graph-session", events);
+
+    const input = events.find((item) => item.type === "user_input");
+    const [firstCall, secondCall] = events.filter((item) => item.type === "tool_call");
+    const result = events.find((item) => item.type === "tool_result");
+    const summary = events.find((item) => item.type === "turn_summary");
+
+    expect(input?.turnIndex).toBeUndefined();
+    expect(firstCall?.turnIndex).toBe(0);
+    expect(summary?.turnIndex).toBe(0);
+    expect(firstCall?.parentEventId).toBe(input?.id);
+    expect(result?.parentEventId).toBe(firstCall?.id);
+    expect(result?.causedByEventId).toBe(firstCall?.id);
+    expect(secondCall?.causedByEventId).toBe(result?.id);
+    expect(summary?.parentEventId).toBe(input?.id);
+
+    expect(graph.roots().map((node) => node.event.id)).toEqual([input?.id]);
+    expect(graph.causalChain(secondCall?.id ?? "").map((item) => item.type)).toEqual([
+      "user_input",
+      "tool_call",
+      "tool_result",
+      "tool_call",
+    ]);
+  });
+
+  it("links a tool result that arrives before its tool call is stored", async () => {
+    const dataDir = await mkdtemp(join(tmpdir(), "happy-paths-trace-graph-race-"));
+    tempDirs.push(dataDir);
+
+    const loop = createLocalLearningLoop({ dataDir });
+    const fakePi = new FakePiApi();
+    createPiTraceExtension({
+      loop,
+      sessionId: "race-session",
+      workspaceRoot: dataDir,
+    })(fakePi);
+
+    const input = { path: "notes.md", content: "hello\n" };
+    const pendingCall = fakePi.emit("tool_call", {
+      toolCallId: "tc-1",
+      toolName: "write",
+      input,
+    });
+    await fakePi.emit("tool_result", {
+      toolCallId: "tc-1",
+      toolName: "write",
+      input,
+      content: [{ type: "text", text: "Wrote notes.md" }],
+    });
+    await pendingCall;
+
+    const events = await new FileTraceStore(dataDir).query({
+      sessionIds: ["race-session"],
+    });
+    const call = events.find((item) => item.type === "tool_call");
+    const result = events.find((item) => item.type === "tool_result");
+
+    expect(call?.id).toBeDefined();
+    expect(result?.parentEventId).toBe(call?.id);
+    expect(result?.causedByEventId).toBe(call?.id);
+  });
+});
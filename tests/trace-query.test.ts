@@ -0,0 +1,221 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { FileTraceStore } from "../src/backends/local/fileTraceStore.js";
+import {
+  InvalidTraceCursorError,
+  advanceTraceWatermark,
+  decodeTraceCursor,
+  encodeTraceCursor,
+  isAfterTraceWatermark,
+  queryTracePage,
+} from "../src/core/traceQuery.js";
+import type { ToolCallPayload, TraceEvent, TraceQuery } from "../src/core/types.js";
+import { toolCall } from "./helpers/events.js";
+
+const tempDirs: string[] = [];
+
+afterEach(async () => {
+  while (tempDirs.length > 0) {
+    const path = tempDirs.pop();
+    if (!path) {
+      continue;
+    }
+    await rm(path, { recursive: true, force: true });
+  }
+});
+
+async function storeWithEvents(events: TraceEvent[]): Promise<FileTraceStore> {
+  const dir = await mkdtemp(join(tmpdir(), "happy-paths-trace-query-"));
+  tempDirs.push(dir);
+  const store = new FileTraceStore(dir);
+  await store.appendMany(events);
+  return store;
+}
+
+function bashCall(id: string): ToolCallPayload {
+  return { toolName: "bash", toolCallId: `call-${id}`, input: { command: "ls" } };
+}
+
+describe("TraceQuery", () => {
+  it("filters on agent, harness, tags, tool name and payload fields", async () => {
+    const store = await storeWithEvents([
+      toolCall({
+        id: "a",
+        sessionId: "s1",
+        second: 1,
+        payload: bashCall("a"),
+        agentId: "agent-1",
+        tags: ["ci", "flaky"],
+      }),
+      toolCall({
+        id: "b",
+        sessionId: "s1",
+        second: 2,
+        agentId: "agent-1",
+        tags: ["ci"],
+        payload: { toolName: "edit", toolCallId: "call-b", input: {} },
+      }),
+      toolCall({
+        id: "c",
+        sessionId: "s2",
+        second: 3,
+        payload: bashCall("c"),
+        agentId: "agent-2",
+        harness: "codex",
+      }),
+      toolCall({
+        id: "d",
+        sessionId: "s2",
+        second: 4,
+        payload: bashCall("d"),
+        scope: "team",
+        tags: ["ci", "flaky"],
+      }),
+    ]);
+
+    const byAgent = await store.query({ agentIds: ["agent-1"] });
+    expect(byAgent.map((event) => event.id)).toEqual(["a", "b"]);
+
+    const byTags = await store.query({ tags: ["ci", "flaky"] });
+    expect(byTags.map((event) => event.id)).toEqual(["a", "d"]);
+
+    const byTool = await store.query({ toolNames: ["edit"] });
+    expect(byTool.map((event) => event.id)).toEqual(["b"]);
+
+    const byHarness = await store.query({ harnesses: ["codex"] });
+    expect(byHarness.map((event) => event.id)).toEqual(["c"]);
+
+    const byScope = await store.query({ scopes: ["team"] });
+    expect(byScope.map((event) => event.id)).toEqual(["d"]);
+
+    const byPayload = await store.query({ payload: { toolCallId: "call-c" } });
+    expect(byPayload.map((event) => event.id)).toEqual(["c"]);
+
+    expect(await store.query({ sessionIds: ["missing"] })).toEqual([]);
+  });
+
+  it("orders newest first and pages with a stable cursor", async () => {
+    const events: TraceEvent[] = [];
+    for (let index = 0; index < 9; index += 1) {
+      events.push(
+        toolCall({
+          id: `e${index}`,
+          sessionId: `s${index % 2}`,
+          second: index % 4,
+          payload: bashCall(`e${index}`),
+        }),
+      );
+    }
+    const store = await storeWithEvents(events);
+
+    const ascending = await store.query({});
+    const descending = await store.query({ order: "desc" });
+    expect(descending.map((event) => event.id)).toEqual(
+      ascending.map((event) => event.id).reverse(),
+    );
+
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    let pageCount = 0;
+    do {
+      const page = await store.queryPage({ order: "desc", limit: 4, cursor });
+      seen.push(...page.events.map((event) => event.id));
+      cursor = page.nextCursor ?? undefined;
+      pageCount += 1;
+    } while (cursor);
+
+    expect(pageCount).toBe(3);
+    expect(seen).toEqual(descending.map((event) => event.id));
+
+    const lastPage = await store.queryPage({ limit: 9 });
+    expect(lastPage.events).toHaveLength(9);
+    expect(lastPage.nextCursor).toBeNull();
+  });
+
+  it("pages stores that only implement query()", async () => {
+    const events: TraceEvent[] = [];
+    for (let index = 0; index < 7; index += 1) {
+      events.push(
+        toolCall({
+          id: `e${index}`,
+          sessionId: `s${index % 2}`,
+          second: index % 3,
+          payload: bashCall(`e${index}`),
+        }),
+      );
+    }
+    const fileStore = await storeWithEvents(events);
+    const store = {
+      append: (event: TraceEvent) => fileStore.append(event),
+      appendMany: (batch: TraceEvent[]) => fileStore.appendMany(batch),
+      query: (query: TraceQuery) => fileStore.query(query),
+    };
+
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await queryTracePage(store, { order: "desc", limit: 3, cursor });
+      seen.push(...page.events.map((event) => event.id));
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+
+    const descending = await fileStore.query({ order: "desc" });
+    expect(seen).toEqual(descending.map((event) => event.id));
+    expect((await queryTracePage(fileStore, { limit: 2 })).events).toHaveLength(2);
+  });
+
+  it("orders mixed-precision timestamps by time, like the watermarks", async () => {
+    const store = await storeWithEvents([
+      toolCall({
+        id: "late",
+        sessionId: "s1",
+        timestamp: "2026-03-01T00:00:00.500Z",
+        payload: bashCall("late"),
+      }),
+      toolCall({
+        id: "early",
+        sessionId: "s2",
+        timestamp: "2026-03-01T00:00:00Z",
+        payload: bashCall("early"),
+      }),
+      toolCall({
+        id: "middle",
+        sessionId: "s1",
+        timestamp: "2026-03-01T00:00:00.250Z",
+        payload: bashCall("middle"),
+      }),
+    ]);
+
+    const ascending = await store.query({});
+    expect(ascending.map((event) => event.id)).toEqual(["early", "middle", "late"]);
+
+    const first = await store.queryPage({ limit: 1 });
+    const rest = await store.queryPage({ cursor: first.nextCursor ?? undefined });
+    expect([...first.events, ...rest.events].map((event) => event.id)).toEqual([
+      "early",
+      "middle",
+      "late",
+    ]);
+
+    let watermark = null;
+    for (const event of ascending) {
+      expect(isAfterTraceWatermark(event, watermark)).toBe(true);
+      watermark = advanceTraceWatermark(watermark, event);
+    }
+  });
+
+  it("round-trips cursors and rejects malformed ones", async () => {
+    const key = { timestamp: "2026-03-01T00:00:01.000Z", sessionId: "s1", position: 3 };
+    expect(decodeTraceCursor(encodeTraceCursor(key))).toEqual(key);
+    expect(() => decodeTraceCursor("not-a-cursor")).toThrow(InvalidTraceCursorError);
+
+    const store = await storeWithEvents([
+      toolCall({ id: "a", sessionId: "s1", second: 1, payload: bashCall("a") }),
+    ]);
+    await expect(store.queryPage({ cursor: "bm9wZQ" })).rejects.toThrow(
+      InvalidTraceCursorError,
+    );
+  });
+});
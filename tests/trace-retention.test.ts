@@ -0,0 +1,453 @@
+import {
+  appendFile,
+  mkdtemp,
+  readFile,
+  readdir,
+  rename,
+  rm,
+  utimes,
+  writeFile,
+} from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { gunzipSync, gzipSync } from "node:zlib";
+import { afterEach, describe, expect, it } from "vitest";
+import { FileTraceStore } from "../src/backends/local/fileTraceStore.js";
+import { createLocalLearningLoop } from "../src/backends/local/index.js";
+import { InMemoryLexicalIndex } from "../src/backends/local/lexicalIndex.js";
+import { applyTraceRetention } from "../src/backends/local/traceRetention.js";
+import { LearningLoop } from "../src/core/learningLoop.js";
+import { SimpleWrongTurnMiner } from "../src/core/miner.js";
+import { toolResult } from "./helpers/events.js";
+
+const tempDirs: string[] = [];
+
+afterEach(async () => {
+  while (tempDirs.length > 0) {
+    const path = tempDirs.pop();
+    if (!path) {
+      continue;
+    }
+    await rm(path, { recursive: true, force: true });
+  }
+});
+
+async function tempDir(): Promise<string> {
+  const dir = await mkdtemp(join(tmpdir(), "happy-paths-retention-"));
+  tempDirs.push(dir);
+  return dir;
+}
+
+async function age(dir: string, sessionId: string, days: number): Promise<void> {
+  const when = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  for (const name of await readdir(join(dir, "sessions"))) {
+    if (name.startsWith(`${sessionId}.`)) {
+      await utimes(join(dir, "sessions", name), when, when);
+    }
+  }
+}
+
+describe("FileTraceStore retention", () => {
+  it("forgets by actor and time and keeps compacted sessions queryable", async () => {
+    const dir = await tempDir();
+    const store = new FileTraceStore(dir);
+    await store.appendMany([
+      toolResult({
+        id: "a1",
+        sessionId: "s1",
+        second: 1,
+        command: "ls",
+        isError: false,
+        actorId: "alice",
+      }),
+      toolResult({
+        id: "b1",
+        sessionId: "s1",
+        second: 2,
+        command: "ls",
+        isError: false,
+        actorId: "bob",
+      }),
+      toolResult({
+        id: "a2",
+        sessionId: "s2",
+        second: 3,
+        command: "ls",
+        isError: false,
+        actorId: "alice",
+      }),
+      toolResult({
+        id: "a3",
+        sessionId: "s2",
+        second: 9,
+        command: "ls",
+        isError: false,
+        actorId: "alice",
+      }),
+    ]);
+
+    expect(await store.compactSession("s2")).toBe(true);
+    await store.append(
+      toolResult({
+        id: "b2",
+        sessionId: "s2",
+        second: 10,
+        command: "ls",
+        isError: false,
+        actorId: "bob",
+      }),
+    );
+    expect((await store.query({})).map((event) => event.id)).toEqual([
+      "a1",
+      "b1",
+      "a2",
+      "a3",
+      "b2",
+    ]);
+
+    const forgotten = await store.forget({
+      actorId: "alice",
+      before: "2026-03-01T00:00:05.000Z",
+    });
+    expect(forgotten).toEqual({ eventIds: ["a1", "a2"], sessionIds: ["s1", "s2"] });
+    expect((await store.query({})).map((event) => event.id)).toEqual([
+      "b1",
+      "a3",
+      "b2",
+    ]);
+
+    expect(await store.compactSession("s2")).toBe(true);
+    const sessions = await store.listSessions();
+    expect(sessions.map((session) => [session.sessionId, session.compacted])).toEqual([
+      ["s1", false],
+      ["s2", true],
+    ]);
+    expect(
+      (await store.query({ sessionIds: ["s2"] })).map((event) => event.id),
+    ).toEqual(["a3", "b2"]);
+
+    await expect(store.forget({})).rejects.toThrow(/at least one/);
+  });
+
+  it("keeps sessions readable while compacting and recovers interrupted ones", async () => {
+    const dir = await tempDir();
+    const sessions = join(dir, "sessions");
+    const store = new FileTraceStore(dir);
+    await store.appendMany([
+      toolResult({
+        id: "c1",
+        sessionId: "s1",
+        second: 1,
+        command: "ls",
+        isError: false,
+      }),
+      toolResult({
+        id: "h1",
+        sessionId: "s1",
+        second: 2,
+        command: "ls",
+        isError: false,
+      }),
+      toolResult({
+        id: "h2",
+        sessionId: "s1",
+        second: 3,
+        command: "ls",
+        isError: false,
+      }),
+    ]);
+    expect(await store.compactSession("s1")).toBe(true);
+    await store.append(
+      toolResult({
+        id: "h3",
+        sessionId: "s1",
+        second: 4,
+        command: "ls",
+        isError: false,
+      }),
+    );
+
+    const [compacting] = await Promise.all([
+      store.compactSession("s1"),
+      store.query({}),
+    ]);
+    expect(compacting).toBe(true);
+    const ids = ["c1", "h1", "h2", "h3"];
+    expect((await store.query({})).map((event) => event.id)).toEqual(ids);
+
+    await store.append(
+      toolResult({
+        id: "h4",
+        sessionId: "s1",
+        second: 5,
+        command: "ls",
+        isError: false,
+      }),
+    );
+    const hot = await readFile(join(sessions, "s1.jsonl"), "utf-8");
+    await rename(join(sessions, "s1.jsonl"), join(sessions, "s1.jsonl.compacting"));
+    expect((await store.query({})).map((event) => event.id)).toEqual([...ids, "h4"]);
+
+    const cold = await readFile(join(sessions, "s1.jsonl.gz"));
+    await writeFile(
+      join(sessions, "s1.jsonl.gz"),
+      gzipSync(`${gunzipSync(cold).toString("utf-8")}${hot}`),
+    );
+    await store.append(
+      toolResult({
+        id: "h5",
+        sessionId: "s1",
+        second: 6,
+        command: "ls",
+        isError: false,
+      }),
+    );
+    expect((await store.query({})).map((event) => event.id)).toEqual([
+      ...ids,
+      "h4",
+      "h5",
+    ]);
+
+    const restarted = new FileTraceStore(dir);
+    expect((await restarted.query({})).map((event) => event.id)).toEqual([
+      ...ids,
+      "h4",
+      "h5",
+    ]);
+    expect((await readdir(sessions)).sort()).toEqual(["s1.jsonl", "s1.jsonl.gz"]);
+    expect(await restarted.listSessions()).toHaveLength(1);
+  });
+
+  it("does not keep unreadable lines it cannot prove are out of scope", async () => {
+    const dir = await tempDir();
+    const sessions = join(dir, "sessions");
+    const store = new FileTraceStore(dir);
+    await store.appendMany([
+      toolResult({
+        id: "a1",
+        sessionId: "s1",
+        second: 1,
+        command: "ls",
+        isError: false,
+        actorId: "alice",
+      }),
+      toolResult({
+        id: "a2",
+        sessionId: "s2",
+        second: 2,
+        command: "ls",
+        isError: false,
+        actorId: "alice",
+      }),
+      toolResult({
+        id: "b2",
+        sessionId: "s2",
+        second: 3,
+        command: "ls",
+        isError: false,
+        actorId: "bob",
+      }),
+    ]);
+    await appendFile(join(sessions, "s1.jsonl"), "{not json\n");
+    await appendFile(
+      join(sessions, "s2.jsonl"),
+      '{not json\n{"id":"legacy","actorId":"bob"}\n',
+    );
+
+    expect(await store.forget({ sessionIds: ["s1"] })).toEqual({
+      eventIds: ["a1"],
+      sessionIds: ["s1"],
+    });
+    expect(await readdir(sessions)).toEqual(["s2.jsonl"]);
+
+    expect(await store.forget({ actorId: "alice" })).toEqual({
+      eventIds: ["a2"],
+      sessionIds: ["s2"],
+    });
+    const remaining = await readFile(join(sessions, "s2.jsonl"), "utf-8");
+    expect(remaining.split("\n").filter(Boolean)).toEqual([
+      expect.stringContaining('"id":"b2"'),
+      '{"id":"legacy","actorId":"bob"}',
+    ]);
+  });
+
+  it("removes forgotten events from the index and the miner", async () => {
+    const dir = await tempDir();
+    const loop = new LearningLoop({
+      store: new FileTraceStore(dir),
+      index: new InMemoryLexicalIndex(),
+      miner: new SimpleWrongTurnMiner(),
+    });
+
+    for (const sessionId of ["s1", "s2"]) {
+      await loop.ingest(
+        toolResult({
+          id: `${sessionId}-fail`,
+          sessionId,
+          second: 1,
+          command: "npm tset",
+          output: "Error: boom",
+          isError: true,
+        }),
+      );
+      await loop.ingest(
+        toolResult({
+          id: `${sessionId}-ok`,
+          sessionId,
+          second: 2,
+          command: "npm test",
+          isError: false,
+        }),
+      );
+    }
+    expect(await loop.evidenceSessionIds()).toEqual(new Set(["s1", "s2"]));
+
+    const result = await loop.forget({ sessionIds: ["s1"] });
+    expect(result.eventIds).toEqual(["s1-fail", "s1-ok"]);
+
+    const hits = await loop.retrieve({ text: "npm tset boom", limit: 10 });
+    expect(hits.some((hit) => hit.document.sourceEventId.startsWith("s1-"))).toBe(
+      false,
+    );
+    const [artifact] = await loop.mine();
+    expect(artifact?.evidenceSessionIds).toEqual(["s2"]);
+  });
+
+  it("expires old sessions, honors byte budgets and keeps mined evidence", async () => {
+    const dir = await tempDir();
+    const store = new FileTraceStore(dir);
+    const loop = new LearningLoop({
+      store,
+      index: new InMemoryLexicalIndex(),
+      miner: new SimpleWrongTurnMiner(),
+    });
+
+    await loop.ingest(
+      toolResult({
+        id: "e-fail",
+        sessionId: "evidence",
+        second: 1,
+        command: "npm tset",
+        output: "Error: boom",
+        isError: true,
+      }),
+    );
+    await loop.ingest(
+      toolResult({
+        id: "e-ok",
+        sessionId: "evidence",
+        second: 2,
+        command: "npm test",
+        isError: false,
+      }),
+    );
+    await loop.ingest(
+      toolResult({
+        id: "old",
+        sessionId: "old",
+        second: 3,
+        command: "ls",
+        isError: false,
+      }),
+    );
+    await loop.ingest(
+      toolResult({
+        id: "mid",
+        sessionId: "mid",
+        second: 4,
+        command: "ls",
+        isError: false,
+      }),
+    );
+    await loop.ingest(
+      toolResult({
+        id: "new",
+        sessionId: "new",
+        second: 5,
+        command: "ls",
+        isError: false,
+      }),
+    );
+    await age(dir, "evidence", 90);
+    await age(dir, "old", 60);
+    await age(dir, "mid", 10);
+    await age(dir, "new", 2);
+
+    const day = 24 * 60 * 60 * 1000;
+    const result = await applyTraceRetention({
+      store,
+      loop,
+      policy: { maxAgeMs: 30 * day, compactAfterMs: day },
+    });
+
+    expect(result.forgottenSessionIds).toEqual(["old"]);
+    expect(result.forgottenEventCount).toBe(1);
+    expect(result.keptForEvidenceSessionIds).toEqual(["evidence"]);
+    expect(result.compactedSessionIds.sort()).toEqual(["evidence", "mid", "new"]);
+    const remaining = await loop.retrieve({ text: "ls", limit: 20 });
+    expect(new Set(remaining.map((hit) => hit.document.sourceEventId))).toEqual(
+      new Set(["mid", "new"]),
+    );
+
+    const sessions = await store.listSessions();
+    const newBytes =
+      sessions.find((session) => session.sessionId === "new")?.bytes ?? 0;
+    const evidenceBytes =
+      sessions.find((session) => session.sessionId === "evidence")?.bytes ?? 0;
+    const budget = await applyTraceRetention({
+      store,
+      loop,
+      policy: { maxBytes: newBytes + evidenceBytes },
+    });
+    expect(budget.forgottenSessionIds).toEqual(["mid"]);
+    expect(budget.bytesAfter).toBeLessThanOrEqual(newBytes + evidenceBytes);
+  });
+
+  it("rewrites the index and miner snapshots when it forgets sessions", async () => {
+    const dir = await tempDir();
+    const options = { dataDir: dir, indexSnapshot: true, minerSnapshot: true };
+    const writer = createLocalLearningLoop(options);
+    for (const sessionId of ["old", "kept"]) {
+      await writer.ingest(
+        toolResult({
+          id: `${sessionId}-fail`,
+          sessionId,
+          second: 1,
+          command: "npm tset",
+          output: "Error: boom",
+          isError: true,
+        }),
+      );
+      await writer.ingest(
+        toolResult({
+          id: `${sessionId}-ok`,
+          sessionId,
+          second: 2,
+          command: "npm test",
+          isError: false,
+        }),
+      );
+    }
+    await age(dir, "old", 60);
+
+    const loop = createLocalLearningLoop(options);
+    await loop.bootstrapFromStore();
+    const day = 24 * 60 * 60 * 1000;
+    const result = await applyTraceRetention({
+      store: new FileTraceStore(dir),
+      loop,
+      policy: { maxAgeMs: 30 * day, keepSessionsWithEvidence: false },
+    });
+    expect(result.forgottenSessionIds).toEqual(["old"]);
+
+    const restarted = createLocalLearningLoop(options);
+    const bootstrap = await restarted.bootstrapFromStore();
+    expect(bootstrap.restoredFromSnapshot).toBe(true);
+    expect(bootstrap.restoredMinerFromSnapshot).toBe(true);
+    const hits = await restarted.retrieve({ text: "npm tset boom", limit: 10 });
+    expect(hits.some((hit) => hit.document.sourceEventId.startsWith("old-"))).toBe(
+      false,
+    );
+    expect(await restarted.evidenceSessionIds()).toEqual(new Set(["kept"]));
+  });
+});
@@ -0,0 +1,187 @@
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  FileTraceStore,
+  type InvalidTraceLine,
+} from "../src/backends/local/fileTraceStore.js";
+import {
+  TRACE_EVENT_SCHEMA_VERSION,
+  TraceEventMigrationRegistry,
+  TraceEventValidationError,
+  assertValidTraceEvent,
+  parseTraceEvent,
+  validateTraceEvent,
+} from "../src/core/traceSchema.js";
+import { toolResult } from "./helpers/events.js";
+
+const tempDirs: string[] = [];
+
+afterEach(async () => {
+  while (tempDirs.length > 0) {
+    const path = tempDirs.pop();
+    if (!path) {
+      continue;
+    }
+    await rm(path, { recursive: true, force: true });
+  }
+});
+
+function legacyEvent(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    id: "evt-1",
+    timestamp: "2026-02-01T00:00:00.000Z",
+    sessionId: "session-1",
+    harness: "pi",
+    scope: "personal",
+    type: "tool_result",
+    payload: {
+      command: "npm test",
+      isError: true,
+    },
+    ...overrides,
+  };
+}
+
+describe("trace event schema", () => {
+  it("migrates unversioned events to the current schema version", () => {
+    const result = parseTraceEvent(legacyEvent());
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) {
+      return;
+    }
+    expect(result.event.schemaVersion).toBe(TRACE_EVENT_SCHEMA_VERSION);
+    expect(result.event.metrics?.outcome).toBe("failure");
+  });
+
+  it("reports validation issues per field", () => {
+    const result = parseTraceEvent(
+      legacyEvent({
+        id: "",
+        scope: "galaxy",
+        tags: ["ok", 7],
+        metrics: { latencyMs: -1, outcome: "maybe" },
+        extra: true,
+      }),
+    );
+
+    expect(result.ok).toBe(false);
+    if (result.ok) {
+      return;
+    }
+    expect(result.issues.map((issue) => issue.field).sort()).toEqual([
+      "extra",
+      "id",
+      "metrics.latencyMs",
+      "metrics.outcome",
+      "scope",
+      "tags[1]",
+    ]);
+  });
+
+  it("rejects file edit operations outside create, modify and delete", () => {
+    const result = parseTraceEvent(
+      legacyEvent({
+        type: "file_edit",
+        payload: { path: "src/a.ts", operation: "rename" },
+      }),
+    );
+
+    expect(result.ok).toBe(false);
+    if (result.ok) {
+      return;
+    }
+    expect(result.issues).toEqual([
+      { field: "payload.operation", message: "expected one of create, modify, delete" },
+    ]);
+  });
+
+  it("checks typed payload fields for the event type", () => {
+    const result = parseTraceEvent(
+      legacyEvent({
+        payload: { command: ["npm", "test"], isError: "yes", exitCode: 1 },
+      }),
+    );
+
+    expect(result.ok).toBe(false);
+    if (result.ok) {
+      return;
+    }
+    expect(result.issues.map((issue) => issue.field)).toEqual([
+      "payload.command",
+      "payload.isError",
+    ]);
+  });
+
+  it("rejects unversioned events in the strict validator and future versions", () => {
+    expect(validateTraceEvent(legacyEvent()).ok).toBe(false);
+
+    const future = parseTraceEvent(
+      legacyEvent({ schemaVersion: TRACE_EVENT_SCHEMA_VERSION + 1 }),
+    );
+    expect(future.ok).toBe(false);
+
+    expect(() => assertValidTraceEvent({ id: "x" })).toThrow(TraceEventValidationError);
+  });
+
+  it("applies custom migrations registered in order", () => {
+    const registry = new TraceEventMigrationRegistry([
+      {
+        fromVersion: 0,
+        toVersion: 1,
+        description: "rename adapter field",
+        migrate(record) {
+          const { agent, ...rest } = record;
+          return typeof agent === "string" ? { ...rest, agentId: agent } : rest;
+        },
+      },
+    ]);
+
+    const event = assertValidTraceEvent(legacyEvent({ agent: "agent-7" }), {
+      migrations: registry,
+    });
+    expect(event.agentId).toBe("agent-7");
+
+    expect(() =>
+      registry.register({
+        fromVersion: 0,
+        toVersion: 1,
+        description: "duplicate",
+        migrate: (record) => record,
+      }),
+    ).toThrow(/Duplicate/);
+  });
+
+  it("skips and reports invalid lines when reading a file store", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "happy-paths-schema-"));
+    tempDirs.push(dir);
+
+    await mkdir(join(dir, "sessions"), { recursive: true });
+    const lines = [
+      JSON.stringify(legacyEvent()),
+      "{not json",
+      JSON.stringify(legacyEvent({ id: "evt-2", type: "unknown_type" })),
+    ];
+    await writeFile(join(dir, "sessions", "session-1.jsonl"), `${lines.join("\n")}\n`);
+
+    const invalid: InvalidTraceLine[] = [];
+    const store = new FileTraceStore(dir, {
+      onInvalidLine: (line) => invalid.push(line),
+    });
+
+    const events = await store.query({});
+    expect(events.map((event) => event.id)).toEqual(["evt-1"]);
+    expect(events[0]?.schemaVersion).toBe(TRACE_EVENT_SCHEMA_VERSION);
+    expect(invalid.map((line) => line.lineNumber)).toEqual([2, 3]);
+    expect(invalid[1]?.issues[0]?.field).toBe("type");
+
+    const invalidEvent = toolResult({
+      harness: "",
+      command: "npm test",
+      isError: true,
+    });
+    await expect(store.append(invalidEvent)).rejects.toThrow(TraceEventValidationError);
+  });
+});
@@ -4,21 +4,20 @@ import {
   evaluateTrajectoryOutcomeGate,
   extractTrajectoryOutcomeEpisodes,
 } from "../src/core/trajectoryOutcomeGate.js";
-import type { TraceEvent } from "../src/core/types.js";
+import type { TraceEvent, TraceEventOfType } from "../src/core/types.js";
+
+type ToolResultEvent = TraceEventOfType<"tool_result">;
 
 function event(
-  input: Partial<TraceEvent> & {
-    type: TraceEvent["type"];
-    payload: Record<string, unknown>;
-  },
-): TraceEvent {
+  input: Partial<ToolResultEvent> & { payload: ToolResultEvent["payload"] },
+): ToolResultEvent {
   return {
     id: input.id ?? "event-id",
     timestamp: input.timestamp ?? "2026-03-01T00:00:00.000Z",
     sessionId: input.sessionId ?? "session-1",
     harness: input.harness ?? "pi",
     scope: input.scope ?? "personal",
-    type: input.type,
+    type: "tool_result",
     payload: input.payload,
     metrics: input.metrics,
     agentId: input.agentId,
@@ -155,6 +154,23 @@ describe("trajectory outcome gate", () => {
     expect(issue?.harmful).toBe(false);
   });
 
+  it("keys probe detection on the first command of the last segment", () => {
+    const classify = (command: string) =>
+      classifyTrajectoryIssue(
+        event({
+          id: `pipeline-${command}`,
+          type: "tool_result",
+          payload: { command, output: "", isError: true },
+          metrics: { outcome: "failure" },
+        }),
+      )?.kind;
+
+    expect(classify("cd docs && curl -sS https://example.com | head -n 5")).toBe(
+      "benign_probe",
+    );
+    expect(classify("cat build.log | grep missing")).toBe("environment_mismatch");
+  });
+
   it("classifies gh template misuse as command mismatch", () => {
     const issue = classifyTrajectoryIssue(
       event({
@@ -641,4 +657,46 @@ describe("trajectory outcome gate", () => {
       ),
     ).toBe(true);
   });
+
+  it("names merged near-duplicate families after the earliest episode", () => {
+    const command =
+      "pytest tests/test_accounts.py --maxfail=1 -q --disable-warnings --tb=short -p no:cacheprovider --durations=10";
+    const recovery = (sessionId: string, day: number, failed: string): TraceEvent[] => [
+      event({
+        id: `${sessionId}-f`,
+        sessionId,
+        timestamp: `2026-03-0${day}T00:00:01.000Z`,
+        type: "tool_result",
+        payload: {
+          command: failed,
+          output: "ModuleNotFoundError: No module named 'accounts'",
+          isError: true,
+        },
+        metrics: { outcome: "failure" },
+      }),
+      event({
+        id: `${sessionId}-s`,
+        sessionId,
+        timestamp: `2026-03-0${day}T00:00:09.000Z`,
+        type: "tool_result",
+        payload: { command: "pip install -e .", output: "ok", isError: false },
+        metrics: { outcome: "success" },
+      }),
+    ];
+
+    const first = extractTrajectoryOutcomeEpisodes(recovery("session-a", 1, command));
+    const merged = extractTrajectoryOutcomeEpisodes([
+      ...recovery("session-b", 2, `${command} -x`),
+      ...recovery("session-a", 1, command),
+    ]);
+
+    expect(merged.map((episode) => episode.sessionId)).toEqual([
+      "session-a",
+      "session-b",
+    ]);
+    expect(merged.map((episode) => episode.familySignature)).toEqual([
+      first[0]?.familySignature,
+      first[0]?.familySignature,
+    ]);
+  });
 });
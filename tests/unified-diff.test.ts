@@ -0,0 +1,181 @@
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { createPiTraceExtension } from "../src/adapters/pi/extension.js";
+import type { PiLikeApi } from "../src/adapters/pi/types.js";
+import { createLocalLearningLoop } from "../src/backends/local/index.js";
+import {
+  createUnifiedDiff,
+  hashContent,
+  parseUnifiedDiffHunks,
+} from "../src/core/unifiedDiff.js";
+
+const tempDirs: string[] = [];
+
+afterEach(async () => {
+  while (tempDirs.length > 0) {
+    const path = tempDirs.pop();
+    if (!path) {
+      continue;
+    }
+    await rm(path, { recursive: true, force: true });
+  }
+});
+
+type PiHandler = (event: unknown, context: unknown) => Promise<unknown> | unknown;
+
+class FakePiApi implements PiLikeApi {
+  private readonly handlers = new Map<string, PiHandler>();
+
+  on(eventName: string, handler: PiHandler): void {
+    this.handlers.set(eventName, handler);
+  }
+
+  async emit(eventName: string, event: unknown): Promise<unknown> {
+    const handler = this.handlers.get(eventName);
+    if (!handler) {
+      throw new Error(`Missing handler for ${eventName}`);
+    }
+    return handler(event, {});
+  }
+}
+
+describe("unified diff", () => {
+  it("produces normalized hunks with context", () => {
+    const before = ["a", "b", "c", "d", "e", "f", "g", "h", "i", "j"].join("\n");
+    const after = ["a", "b", "C", "d", "e", "f", "g", "h", "i", "j", "k"].join("\r\n");
+
+    const diff = createUnifiedDiff("src/letters.txt", before, after, {
+      contextLines: 1,
+    });
+
+    expect(diff.additions).toBe(2);
+    expect(diff.deletions).toBe(1);
+    expect(diff.diff).toBe(
+      [
+        "--- a/src/letters.txt",
+        "+++ b/src/letters.txt",
+        "@@ -2,3 +2,3 @@",
+        " b",
+        "-c",
+        "+C",
+        " d",
+        "@@ -10,1 +10,2 @@",
+        " j",
+        "+k",
+        "",
+      ].join("\n"),
+    );
+    expect(parseUnifiedDiffHunks(diff.diff)).toEqual(diff.hunks);
+  });
+
+  it("handles created files and identical content", () => {
+    const created = createUnifiedDiff("new.txt", null, "hello\n");
+    expect(created.diff).toBe(
+      "--- /dev/null\n+++ b/new.txt\n@@ -0,0 +1,1 @@\n+hello\n",
+    );
+
+    const unchanged = createUnifiedDiff("same.txt", "x\n", "x");
+    expect(unchanged.diff).toBe("");
+    expect(unchanged.hunks).toEqual([]);
+  });
+
+  it("keeps deleted lines that look like file headers inside a hunk", () => {
+    const diff = createUnifiedDiff("notes.md", "-- heading\nbody\n", "body\n");
+    const hunks = parseUnifiedDiffHunks(diff.diff);
+
+    expect(hunks[0]?.lines).toEqual(["--- heading", " body"]);
+  });
+
+  it("emits file_edit events from pi edit tools", async () => {
+    const workspaceRoot = await mkdtemp(join(tmpdir(), "happy-paths-file-edit-"));
+    tempDirs.push(workspaceRoot);
+    const dataDir = join(workspaceRoot, ".data");
+
+    const target = join(workspaceRoot, "src.ts");
+    await writeFile(target, "export const retries = 1;\n", "utf-8");
+
+    const loop = createLocalLearningLoop({ dataDir });
+    const fakePi = new FakePiApi();
+    createPiTraceExtension({
+      loop,
+      sessionId: "edit-session",
+      workspaceRoot,
+    })(fakePi);
+
+    const input = { path: "src.ts", oldText: "1", newText: "3" };
+    await fakePi.emit("tool_call", { toolCallId: "tc-1", toolName: "edit", input });
+    await writeFile(target, "export const retries = 3;\n", "utf-8");
+    await fakePi.emit("tool_result", {
+      toolCallId: "tc-1",
+      toolName: "edit",
+      input,
+      content: [{ type: "text", text: "Edited src.ts" }],
+    });
+
+    const stored = (
+      await readFile(join(dataDir, "sessions", "edit-session.jsonl"), "utf-8")
+    )
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    const call = stored.find((event) => event.type === "tool_call");
+    const edit = stored.find((event) => event.type === "file_edit");
+
+    expect(edit?.parentEventId).toBe(call?.id);
+    expect(edit?.payload).toEqual({
+      toolCallId: "tc-1",
+      toolName: "edit",
+      path: "src.ts",
+      operation: "modify",
+      diff: [
+        "--- a/src.ts",
+        "+++ b/src.ts",
+        "@@ -1,1 +1,1 @@",
+        "-export const retries = 1;",
+        "+export const retries = 3;",
+        "",
+      ].join("\n"),
+      beforeHash: hashContent("export const retries = 1;\n"),
+      afterHash: hashContent("export const retries = 3;\n"),
+      additions: 1,
+      deletions: 1,
+    });
+  });
+
+  it("skips snapshots of files over the byte limit", async () => {
+    const workspaceRoot = await mkdtemp(join(tmpdir(), "happy-paths-large-edit-"));
+    tempDirs.push(workspaceRoot);
+    const dataDir = join(workspaceRoot, ".data");
+
+    const target = join(workspaceRoot, "notes.md");
+    await writeFile(target, `${"é".repeat(600_000)}\n`, "utf-8");
+
+    const loop = createLocalLearningLoop({ dataDir });
+    const fakePi = new FakePiApi();
+    createPiTraceExtension({
+      loop,
+      sessionId: "large-edit-session",
+      workspaceRoot,
+    })(fakePi);
+
+    const input = { path: "notes.md", oldText: "é", newText: "e" };
+    await fakePi.emit("tool_call", { toolCallId: "tc-1", toolName: "edit", input });
+    await writeFile(target, `e${"é".repeat(599_999)}\n`, "utf-8");
+    await fakePi.emit("tool_result", {
+      toolCallId: "tc-1",
+      toolName: "edit",
+      input,
+      content: [{ type: "text", text: "Edited notes.md" }],
+    });
+
+    const stored = (
+      await readFile(join(dataDir, "sessions", "large-edit-session.jsonl"), "utf-8")
+    )
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    expect(stored.map((event) => event.type)).toEqual(["tool_call", "tool_result"]);
+  });
+});
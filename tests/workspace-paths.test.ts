@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import {
+  normalizeWorkspacePath,
+  normalizeWorkspacePaths,
+} from "../src/core/workspacePaths.js";
+
+describe("normalizeWorkspacePath", () => {
+  it("rewrites paths under the workspace root to repo-relative form", () => {
+    const options = { workspaceRoot: "/home/alice/repo/" };
+
+    expect(normalizeWorkspacePath("/home/alice/repo/src/x.ts", options)).toBe(
+      "src/x.ts",
+    );
+    expect(normalizeWorkspacePath("/home/alice/repo", options)).toBe(".");
+    expect(normalizeWorkspacePath("src/x.ts", options)).toBe("src/x.ts");
+  });
+
+  it("strips temp and worktree prefixes", () => {
+    expect(normalizeWorkspacePath("/tmp/swebench-abc/src/x.ts")).toBe("src/x.ts");
+    expect(
+      normalizeWorkspacePath("/private/var/folders/ab/cd1234/T/run-9/src/x.ts"),
+    ).toBe("src/x.ts");
+    expect(normalizeWorkspacePath("/work/repo/.worktrees/fix-42/src/x.ts")).toBe(
+      "src/x.ts",
+    );
+  });
+
+  it("masks home directories outside the workspace", () => {
+    expect(normalizeWorkspacePath("/home/bob/.npmrc")).toBe("~/.npmrc");
+    expect(normalizeWorkspacePath("/Users/bob/notes.md")).toBe("~/notes.md");
+    expect(normalizeWorkspacePath("/opt/ci/.cache/x", { homeDir: "/opt/ci" })).toBe(
+      "~/.cache/x",
+    );
+    expect(normalizeWorkspacePath("/usr/lib/node/fs.js")).toBe("/usr/lib/node/fs.js");
+  });
+});
+
+describe("normalizeWorkspacePaths", () => {
+  it("rewrites absolute paths inside free text and leaves URLs alone", () => {
+    const text = [
+      "Error: Cannot find module '/home/alice/repo/src/x.ts'",
+      "  at /tmp/swebench-abc/src/y.ts:12:5",
+      "see https://example.com/docs/x.ts",
+    ].join("\n");
+
+    expect(normalizeWorkspacePaths(text, { workspaceRoot: "/home/alice/repo" })).toBe(
+      [
+        "Error: Cannot find module 'src/x.ts'",
+        "  at src/y.ts:12:5",
+        "see https://example.com/docs/x.ts",
+      ].join("\n"),
+    );
+  });
+});
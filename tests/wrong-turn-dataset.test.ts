@@ -74,4 +74,31 @@ describe("wrong-turn dataset", () => {
     expect(evaluation.gateResult.pass).toBe(true);
     expect(evaluation.gateResult.failures).toEqual([]);
   });
+
+  it("keeps the quality gate passing with tuned lexical field weights", async () => {
+    const dataset = await readDatasetFixture();
+
+    const root = await mkdtemp(join(tmpdir(), "happy-paths-dataset-weights-"));
+    tempDirs.push(root);
+
+    for (const lexicalIndex of [
+      { errorQueryBoost: 1 },
+      { fieldWeights: { base: 1, errorSignature: 2, path: 0.5 }, errorQueryBoost: 2 },
+    ]) {
+      let index = 0;
+      const evaluation = await evaluateWrongTurnDataset(dataset, () => {
+        index += 1;
+        return createLocalLearningLoop({
+          dataDir: join(
+            root,
+            `${JSON.stringify(lexicalIndex.errorQueryBoost)}-${index}`,
+          ),
+          lexicalIndex,
+        });
+      });
+
+      expect(evaluation.report.hitAt3Rate).toBe(1);
+      expect(evaluation.gateResult.pass).toBe(true);
+    }
+  });
 });